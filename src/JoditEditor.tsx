@@ -1,95 +1,1299 @@
-import { useEffect, useRef, forwardRef, useLayoutEffect } from 'react';
-import { Jodit } from 'jodit';
-import 'jodit/es2021/jodit.min.css';
+import {
+  AriaAttributes,
+  FormEvent,
+  forwardRef,
+  useContext,
+  useEffect,
+  useId,
+  useImperativeHandle,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState
+} from 'react';
+import { createPortal } from 'react-dom';
+import type { Jodit } from 'jodit';
+import type { RangeType } from 'jodit/types/types';
+import {
+  applyLiveOptions,
+  buildEditorConfig,
+  canApplyLive,
+  diffConfig,
+  EditorConfig,
+  JoditConfig,
+  mergeConfig,
+  warnUnknownOptions
+} from './utils/editor-config';
+import { applyExternalValue, captureEditorState, restoreEditorState } from './utils/editor-state';
+import { ChangeEmitter, createChangeEmitter } from './utils/change-emitter';
+import { applySanitizePolicy, SanitizeOptions } from './utils/sanitize';
+import {
+  getSquareDescriptionBudget,
+  SQUARE_DESCRIPTION_CONFIG,
+  SQUARE_DESCRIPTION_MAX_LENGTH,
+  SquareDescription,
+  SquareDescriptionBudget,
+  toSquareDescription,
+  toSquareDescriptionHTML
+} from './utils/square-description';
+import { htmlToMarkdown, markdownToHTML } from './utils/markdown';
+import { normalizePastedHTML, PASTE_PIPELINE_CONFIG, PasteProfile } from './utils/paste-normalize';
+import { stripUploadPlaceholders, UploadAdapter, UploadOptions } from './utils/upload';
+import { createUploadController, UploadController } from './utils/upload-controller';
+import { getLoadedJodit, JoditConstructor, loadJodit } from './utils/jodit-loader';
+import { getStaticPreviewStyle, renderStaticHTML } from './utils/static-preview';
+import {
+  CollaborationOptions,
+  CollaborationPeer,
+  CollaborationSession,
+  createCollaborationSession
+} from './utils/collaboration';
+import { getCaretTextOffset } from './utils/text-offset';
+import {
+  DEFAULT_SUGGESTION_TRIGGERS,
+  insertReference,
+  SuggestionProvider,
+  SuggestionTrigger
+} from './utils/suggestions';
+import {
+  COMMAND_TRIGGER,
+  EditorCommand,
+  executeCommand,
+  filterCommands,
+  resolveCommands,
+  toCommandSuggestion
+} from './utils/commands';
+import { createSuggestionController, SuggestionController, SuggestionState } from './utils/suggestion-controller';
+import { DEFAULT_PROOFING_DELAY_MS, ProofingOptions } from './utils/proofing';
+import { createDictionaryProofingProvider } from './utils/dictionary-proofing';
+import { createProofingController, ProofingController, ProofingState } from './utils/proofing-controller';
+import {
+  applyAriaAttributes,
+  bindPopupEscape,
+  describeFormatChange,
+  EditorAriaAttributes,
+  findModalRoot,
+  labelToolbar
+} from './utils/accessibility';
+import { validateEditorContent } from './utils/form-validation';
+import {
+  blocksInput,
+  checkContentLimits,
+  ContentLimit,
+  ContentLimitStatus,
+  ContentStats,
+  fitContent,
+  getContentStats
+} from './utils/content-stats';
+import { AutosaveOptions, useDraftAutosave } from './hooks/useDraftAutosave';
+import { useColorScheme } from './hooks/useColorScheme';
+import { useEditorMessages } from './hooks/useEditorMessages';
+import { EditorMessages, EN_MESSAGES, getJoditLanguage, getLocaleDirection, TextDirection } from './utils/i18n';
+import {
+  applyThemeStyle,
+  EditorColorScheme,
+  EditorTheme,
+  getThemeColorScheme,
+  getThemeStyle,
+  getThemeStyleProps,
+  resolveThemeTokens,
+  ThemeStyle
+} from './utils/theme';
+import { JoditEditorContext, JoditEditorContextValue } from './components/JoditEditorProvider';
+import CharacterBudget from './components/CharacterBudget';
+import ContentStatusBar from './components/ContentStatusBar';
+import DraftRecoveryPrompt from './components/DraftRecoveryPrompt';
+import FieldError from './components/FieldError';
+import LiveRegion from './components/LiveRegion';
+import RemoteCursors from './components/RemoteCursors';
+import SuggestionList from './components/SuggestionList';
+import ProofingMarks from './components/ProofingMarks';
+import ProofingPopover from './components/ProofingPopover';
 
-export interface JoditEditorProps {
-  value: string;
-  config?: Record<string, any>;
+/**
+ * Format of value, defaultValue and the content passed to onChange, onBlur and onFocus
+ */
+export type EditorContentFormat = 'html' | 'markdown';
+
+/**
+ * ARIA props (`aria-label`, `aria-describedby`, ...) are set on the
+ * editable area, which has the textbox role
+ */
+export interface JoditEditorProps extends AriaAttributes {
+  /**
+   * Editor content. When provided the editor is controlled: changes to
+   * this prop are patched into the document without moving the caret
+   */
+  value?: string;
+  /**
+   * Initial content for uncontrolled usage; later changes are ignored
+   */
+  defaultValue?: string;
+  /**
+   * Content format. With 'markdown' the value is converted to HTML for
+   * editing and emitted content is converted back. Defaults to 'html'
+   */
+  format?: EditorContentFormat;
+  /**
+   * Jodit options. Nested sections such as `uploader` are deep-merged
+   * over the component defaults and a provider's config, see mergeConfig
+   */
+  config?: JoditConfig;
+  /**
+   * Change handler, rate-limited by changeDebounceMs / changeThrottleMs
+   */
   onChange?: (newContent: string) => void;
+  /**
+   * Called on every Jodit change with the unsanitized content, bypassing
+   * debounce, throttle and the sanitizer
+   */
+  onChangeRaw?: (newContent: string) => void;
+  /**
+   * Delay onChange until typing pauses for this many milliseconds
+   */
+  changeDebounceMs?: number;
+  /**
+   * Emit onChange at most once per this many milliseconds
+   */
+  changeThrottleMs?: number;
+  /**
+   * Blur handler; a pending onChange is flushed first
+   */
   onBlur?: (newContent: string) => void;
+  onFocus?: (content: string) => void;
+  /**
+   * Return false to stop Jodit from handling the key
+   */
+  onKeyDown?: (event: KeyboardEvent) => void | false;
+  /**
+   * Return false to stop Jodit from inserting the pasted content
+   */
+  onPaste?: (event: ClipboardEvent) => void | false;
+  onSelectionChange?: (selection: EditorSelection) => void;
+  /**
+   * Called with each new Jodit instance, including rebuilds after config changes
+   */
+  onAfterInit?: (editor: Jodit) => void;
+  /**
+   * Called before a Jodit instance is destroyed, on unmount or rebuild
+   */
+  onBeforeDestruct?: (editor: Jodit) => void;
+  /**
+   * Called when an image is inserted by upload, paste or the image dialog
+   */
+  onImageUpload?: (image: HTMLImageElement) => void;
+  /**
+   * Called when the editor fails to initialize or rebuild
+   */
+  onError?: (error: Error) => void;
+  /**
+   * Sanitizer policy applied on paste, when setting a value and before
+   * emitting onChange/onBlur. Pass false to disable. Defaults to true
+   */
+  sanitize?: boolean | SanitizeOptions;
+  /**
+   * How pasted HTML is normalized before it is sanitized: 'keepStructure',
+   * 'plainText' or 'squareSafe'. Defaults to 'squareSafe' in Square mode and
+   * 'keepStructure' otherwise. Pass false to keep Jodit's own paste handling
+   */
+  pasteProfile?: PasteProfile | false;
+  /**
+   * Restrict the toolbar and output to the HTML subset Square accepts in
+   * catalog item descriptions, and show the remaining character budget
+   */
+  squareDescriptionMode?: boolean;
+  /**
+   * Plain text length limit used for the budget. Defaults to Square's 4096
+   */
+  squareDescriptionLimit?: number;
+  /**
+   * Called alongside onChange in Square mode with the catalog item fields
+   */
+  onSquareDescriptionChange?: (description: SquareDescription) => void;
+  /**
+   * Called with the statistics of the content after every change, along
+   * with the usage of contentLimits
+   */
+  onStatsChange?: (stats: ContentStats, limits: ContentLimitStatus[]) => void;
+  /**
+   * Length limits, e.g. createPlatformLimit('square'). Soft limits are
+   * reported, hard limits stop typing and shorten pasted content
+   */
+  contentLimits?: ContentLimit[];
+  /**
+   * Show word and character counts and the usage of contentLimits under the editor
+   */
+  statusBar?: boolean;
+  /**
+   * Design tokens and color scheme of this editor, set as CSS variables
+   * on its container, toolbar and popups. 'auto' follows prefers-color-scheme
+   */
+  theme?: EditorColorScheme | EditorTheme;
+  /**
+   * BCP 47 tag of the UI language, e.g. 'fr' or 'ar-SA'. Selects Jodit's
+   * language pack, loads the messages of the component and sets the
+   * content direction. Changing it keeps the document
+   */
+  locale?: string;
+  /**
+   * Direction of the content and the toolbar order. Defaults to the
+   * direction of locale
+   */
+  direction?: TextDirection;
+  /**
+   * Persist unsaved drafts while typing, keyed by `name`, and offer to
+   * restore them on the next mount
+   */
+  autosave?: boolean | AutosaveOptions;
+  /**
+   * Upload files dropped, pasted or picked in the image dialog. A progress
+   * placeholder is shown until the returned URL replaces it
+   */
+  uploadAdapter?: UploadAdapter;
+  /**
+   * Retry policy and accepted file types for uploadAdapter
+   */
+  uploadOptions?: UploadOptions;
+  /**
+   * Called when an upload fails after all retries. Defaults to onError
+   */
+  onUploadError?: (error: Error, file: File) => void;
+  /**
+   * Edit together with other peers connected through a transport, showing
+   * their cursors. The session is recreated when the transport changes
+   */
+  collaboration?: CollaborationOptions;
+  /**
+   * Search mentions, hashtags and products typed after a trigger. Accepted
+   * suggestions are inserted as atomic nodes with data-reference-* attributes
+   */
+  suggestionProvider?: SuggestionProvider;
+  /**
+   * Triggers that open the suggestion list. Defaults to '@' (mention),
+   * '#' (hashtag) and '/product' (product)
+   */
+  suggestionTriggers?: SuggestionTrigger[];
+  /**
+   * Enable the `/` command palette with these commands, followed by the
+   * ones added with registerCommand. Pass DEFAULT_COMMANDS for the built-in blocks
+   */
+  commands?: EditorCommand[];
+  /**
+   * Check spelling and grammar once typing pauses, underlining issues and
+   * offering fixes in a popover. True uses the local dictionary provider
+   */
+  proofing?: boolean | ProofingOptions;
+  /**
+   * Id of the editable area. A `<label htmlFor>` with this id names the
+   * editor unless aria-label or aria-labelledby is given
+   */
+  id?: string;
+  /**
+   * Content must contain text or media. Checked with constraint validation
+   * of the form, like maxLength
+   */
+  required?: boolean;
+  /**
+   * Maximum number of characters of text content
+   */
+  maxLength?: number;
   tabIndex?: number;
+  /**
+   * Name of the textarea, which holds the content emitted through onChange
+   * and is submitted with its form. Also the key of the editor in a
+   * JoditEditorProvider, which must be unique there
+   */
   name?: string;
 }
 
-export const JoditEditor = forwardRef<HTMLTextAreaElement, JoditEditorProps>(({
+type LatestProps = Pick<
+  JoditEditorProps,
+  | 'value'
+  | 'defaultValue'
+  | 'onChange'
+  | 'onChangeRaw'
+  | 'onBlur'
+  | 'onFocus'
+  | 'onKeyDown'
+  | 'onPaste'
+  | 'onSelectionChange'
+  | 'onAfterInit'
+  | 'onBeforeDestruct'
+  | 'onImageUpload'
+  | 'onError'
+  | 'sanitize'
+  | 'pasteProfile'
+  | 'format'
+  | 'squareDescriptionMode'
+  | 'squareDescriptionLimit'
+  | 'onSquareDescriptionChange'
+  | 'onStatsChange'
+  | 'contentLimits'
+  | 'statusBar'
+  | 'uploadAdapter'
+  | 'uploadOptions'
+  | 'onUploadError'
+  | 'collaboration'
+  | 'suggestionProvider'
+  | 'suggestionTriggers'
+  | 'commands'
+  | 'proofing'
+  | 'locale'
+  | 'tabIndex'
+  | 'required'
+  | 'maxLength'
+  | 'name'
+> & {
+  ariaAttributes?: EditorAriaAttributes;
+  shared?: JoditEditorContextValue | null;
+  managedName?: string;
+  themeStyle?: ThemeStyle | null;
+  messages?: EditorMessages;
+};
+
+/**
+ * Serializable selection, expressed as node paths from the editor root
+ */
+export type EditorSelection = RangeType;
+
+/**
+ * Imperative API exposed through the `ref` of JoditEditor
+ */
+export interface JoditEditorHandle {
+  /**
+   * Underlying textarea, kept available for form libraries
+   */
+  readonly textarea: HTMLTextAreaElement | null;
+  focus(): void;
+  blur(): void;
+  /**
+   * Insert HTML at the current cursor position
+   */
+  insertHTML(html: string): void;
+  /**
+   * Current selection, or null when the editor is not mounted
+   */
+  getSelection(): EditorSelection | null;
+  setSelection(selection: EditorSelection): void;
+  undo(): void;
+  redo(): void;
+  /**
+   * Run a Jodit or native document command (e.g. 'bold', 'formatBlock')
+   */
+  execCommand(command: string, value?: unknown): void;
+  /**
+   * Raw Jodit instance for anything not covered above
+   */
+  getInstance(): Jodit | null;
+  /**
+   * Replace the content as a user edit: onChange fires and collaborators
+   * receive it. Takes content in the editor's `format`
+   */
+  setValue(content: string): void;
+  /**
+   * Current content in the editor's `format`, sanitized like onChange
+   * output and including changes onChange has not emitted yet
+   */
+  getValue(): string;
+  /**
+   * Delete the autosaved draft; call once the content has been saved
+   */
+  clearDraft(): Promise<void>;
+  /**
+   * Upload files through uploadAdapter and insert them at the cursor
+   */
+  uploadFiles(files: File[]): void;
+}
+
+export const JoditEditor = forwardRef<JoditEditorHandle, JoditEditorProps>(({
   value,
+  defaultValue,
+  format = 'html',
   config = {},
   onChange,
+  onChangeRaw,
+  changeDebounceMs,
+  changeThrottleMs,
   onBlur,
+  onFocus,
+  onKeyDown,
+  onPaste,
+  onSelectionChange,
+  onAfterInit,
+  onBeforeDestruct,
+  onImageUpload,
+  onError,
+  sanitize = true,
+  pasteProfile,
+  squareDescriptionMode = false,
+  squareDescriptionLimit = SQUARE_DESCRIPTION_MAX_LENGTH,
+  onSquareDescriptionChange,
+  onStatsChange,
+  contentLimits,
+  statusBar = false,
+  theme,
+  locale,
+  direction,
+  autosave,
+  uploadAdapter,
+  uploadOptions,
+  onUploadError,
+  collaboration,
+  suggestionProvider,
+  suggestionTriggers,
+  commands,
+  proofing,
+  id,
+  required,
+  maxLength,
   tabIndex,
-  name
+  name,
+  ...ariaProps
 }, ref) => {
   const textArea = useRef<HTMLTextAreaElement | null>(null);
+  const staticPreview = useRef<HTMLDivElement | null>(null);
   const joditInstance = useRef<Jodit | null>(null);
+  // Loaded on the client only, see utils/jodit-loader
+  const joditClass = useRef<JoditConstructor | null>(null);
+  // False on the server and until Jodit is mounted; the static preview is shown meanwhile
+  const [isEditorReady, setEditorReady] = useState(false);
+  // Current instance, for rendering into its workplace
+  const [mountedEditor, setMountedEditor] = useState<Jodit | null>(null);
+  const collaborationSession = useRef<CollaborationSession | null>(null);
+  const [collaborators, setCollaborators] = useState<CollaborationPeer[]>([]);
+  // Set while a value from props is applied, so it is not echoed back through onChange
+  const isApplyingValue = useRef(false);
+  // Formatting changes and shortened pastes read out through the live region
+  const [announcement, setAnnouncement] = useState('');
+  // A trailing space makes a repeated message a change, so it is read again
+  const announce = (message: string) =>
+    setAnnouncement(previous => previous === message ? `${message}\u00a0` : message);
+
+  // Constraint violation shown after the form reported it, until fixed
+  const [validationMessage, setValidationMessage] = useState<string | null>(null);
+  const instanceId = useId();
+  const errorId = `${instanceId}-error`;
+
+  const ariaAttributes: EditorAriaAttributes = validationMessage
+    ? {
+      ...ariaProps,
+      id,
+      required,
+      'aria-invalid': true,
+      'aria-describedby': [ariaProps['aria-describedby'], errorId].filter(Boolean).join(' ')
+    }
+    : { ...ariaProps, id, required };
+  // Compared by content, since the rest props are a new object on every render
+  const ariaKey = JSON.stringify(ariaAttributes);
+  const appliedAriaAttributes = useRef<EditorAriaAttributes>({});
+
+  // Set under a JoditEditorProvider, which keys editors by name
+  const shared = useContext(JoditEditorContext);
+  const managedName = name ?? instanceId;
+  // Element the toolbar renders into, inside the provider's shared toolbar
+  const toolbarSlot = useRef<HTMLElement | null>(null);
+
+  // Theme variables, compared by content since themes are often passed inline
+  const colorScheme = useColorScheme(theme ? getThemeColorScheme(theme) : 'light');
+  const themeKey = JSON.stringify(theme ?? null);
+  const themeStyle = useMemo(() => {
+    // Read back from the key, so a new object with the same tokens keeps the style
+    const keyedTheme = JSON.parse(themeKey) as EditorColorScheme | EditorTheme | null;
+    return keyedTheme ? getThemeStyle(resolveThemeTokens(keyedTheme, colorScheme), colorScheme) : null;
+  }, [themeKey, colorScheme]);
+  const appliedThemeStyle = useRef<ThemeStyle | null>(null);
 
+  // Messages of the component UI; Jodit translates its own
+  const messages = useEditorMessages(locale, error => reportError(error));
+
+  // Handlers are read through a ref so Jodit listeners, bound once per
+  // instance, always call the ones from the latest render
+  const latestProps = useRef<LatestProps>({});
   useLayoutEffect(() => {
-    if (ref) {
-      if (typeof ref === 'function') {
-        ref(textArea.current);
-      } else {
-        ref.current = textArea.current;
+    latestProps.current = {
+      value,
+      defaultValue,
+      onChange,
+      onChangeRaw,
+      onBlur,
+      onFocus,
+      onKeyDown,
+      onPaste,
+      onSelectionChange,
+      onAfterInit,
+      onBeforeDestruct,
+      onImageUpload,
+      onError,
+      sanitize,
+      pasteProfile,
+      format,
+      squareDescriptionMode,
+      squareDescriptionLimit,
+      onSquareDescriptionChange,
+      onStatsChange,
+      contentLimits,
+      statusBar,
+      uploadAdapter,
+      uploadOptions,
+      onUploadError,
+      collaboration,
+      suggestionProvider,
+      suggestionTriggers,
+      commands,
+      proofing,
+      locale,
+      tabIndex,
+      required,
+      maxLength,
+      name,
+      ariaAttributes,
+      shared,
+      managedName,
+      themeStyle,
+      messages
+    };
+  });
+
+  const sanitizeValue = (html: string) => {
+    const sanitized = applySanitizePolicy(stripUploadPlaceholders(html), latestProps.current.sanitize);
+    return latestProps.current.squareDescriptionMode ? toSquareDescriptionHTML(sanitized) : sanitized;
+  };
+
+  // Conversion between the content format of the props and editor HTML
+  const toEditorValue = (content: string) =>
+    sanitizeValue(latestProps.current.format === 'markdown' ? markdownToHTML(content) : content);
+  const fromEditorValue = (html: string) =>
+    latestProps.current.format === 'markdown' ? htmlToMarkdown(html) : html;
+
+  // Last content emitted through onChange. When it comes back as the value
+  // prop the document already matches it, so it is not applied again.
+  // Cleared whenever other content is applied, which the document no
+  // longer matches
+  const lastEmittedValue = useRef<string | null>(null);
+
+  const uploads = useRef<UploadController | null>(null);
+  if (!uploads.current) {
+    uploads.current = createUploadController({
+      getEditor: () => joditInstance.current,
+      getAdapter: () => latestProps.current.uploadAdapter,
+      getOptions: () => latestProps.current.uploadOptions ?? {},
+      getMessages: () => (latestProps.current.messages ?? EN_MESSAGES).uploads,
+      onComplete(editor, element) {
+        editor.synchronizeValues();
+        if (element.localName === 'img') {
+          editor.events.fire('afterInsertImage', element);
+        }
+      },
+      onError(error, file) {
+        if (latestProps.current.onUploadError) {
+          latestProps.current.onUploadError(error, file);
+        } else {
+          reportError(error);
+        }
       }
+    });
+  }
+  const uploadController = uploads.current;
+
+  const [suggestionState, setSuggestionState] = useState<SuggestionState | null>(null);
+  const suggestions = useRef<SuggestionController | null>(null);
+  if (!suggestions.current) {
+    // Mentions and slash commands share the list; commands use their own trigger
+    const getCommands = () => resolveCommands(latestProps.current.commands ?? []);
+    suggestions.current = createSuggestionController({
+      getTriggers() {
+        const { suggestionProvider: provider, suggestionTriggers: triggers } = latestProps.current;
+        return [
+          ...(provider ? triggers ?? DEFAULT_SUGGESTION_TRIGGERS : []),
+          ...(latestProps.current.commands ? [COMMAND_TRIGGER] : [])
+        ];
+      },
+      search(query, context) {
+        if (context.trigger === COMMAND_TRIGGER) {
+          return Promise.resolve(filterCommands(getCommands(), query).map(toCommandSuggestion));
+        }
+        return latestProps.current.suggestionProvider?.(query, context) ?? Promise.resolve([]);
+      },
+      onStateChange: setSuggestionState,
+      onAccept(editor, range, trigger, suggestion) {
+        if (trigger === COMMAND_TRIGGER) {
+          const command = getCommands().find(candidate => candidate.id === suggestion.id);
+          if (command) {
+            executeCommand(editor, range, command, { sanitize: sanitizeValue, onError: reportError });
+          }
+          return;
+        }
+        insertReference(range, trigger, suggestion);
+        editor.synchronizeValues();
+      },
+      onError: error => reportError(error)
+    });
+  }
+  const suggestionController = suggestions.current;
+
+  const [proofingState, setProofingState] = useState<ProofingState>({ marks: [], popover: null });
+  const proofreader = useRef<ProofingController | null>(null);
+  if (!proofreader.current) {
+    const defaultProvider = createDictionaryProofingProvider();
+    proofreader.current = createProofingController({
+      getSettings() {
+        const { proofing: options, locale: editorLocale } = latestProps.current;
+        if (!options) return null;
+
+        const { provider = defaultProvider, delayMs = DEFAULT_PROOFING_DELAY_MS, ignore = [] } =
+          options === true ? {} : options;
+        return { provider, delayMs, ignore, locale: editorLocale ?? 'en' };
+      },
+      onStateChange: setProofingState,
+      onError: error => reportError(error)
+    });
+  }
+  const proofingController = proofreader.current;
+
+  const draftAutosave = useDraftAutosave({
+    autosave,
+    name,
+    getContent() {
+      const editor = joditInstance.current;
+      return editor ? fromEditorValue(sanitizeValue(editor.value)) : null;
+    },
+    restoreContent: content => replaceContent(content),
+    onError: error => reportError(error)
+  });
+
+  // Load content on behalf of the user, e.g. a restored draft or revision.
+  // Unlike a new value prop this is a local edit, emitted through onChange
+  const replaceContent = (content: string) => {
+    const editor = joditInstance.current;
+    if (!editor) return;
+
+    isApplyingValue.current = true;
+    try {
+      applyExternalValue(editor, toEditorValue(content));
+    } finally {
+      isApplyingValue.current = false;
     }
-  }, [ref]);
+    lastEmittedValue.current = null;
+    collaborationSession.current?.update(editor.value);
+    updateSquareBudget(editor);
+    updateValidity(editor);
+    changeEmitter.current?.schedule();
+    changeEmitter.current?.flush();
+  };
 
-  // Initialize editor
-  useEffect(() => {
-    if (!textArea.current) return;
-
-    const element = textArea.current;
-    // Create a base config to avoid deep type recursion
-    const editorConfig: Record<string, any> = {
-      enableDragAndDropFileToEditor: true,
-      uploader: {
-        withCredentials: true
-      }
-    };
-    
-    // Merge with user config
-    if (config) {
-      Object.assign(editorConfig, config);
-      
-      // Handle uploader separately to avoid deep recursion
-      if (config.uploader) {
-        editorConfig.uploader = {
-          ...editorConfig.uploader,
-          ...config.uploader
-        };
+  // Content a native form reset returns to, and its emitted form, which
+  // the textarea is reset to
+  const initialContent = useRef(value ?? defaultValue ?? '');
+  const [textareaDefault, setTextareaDefault] = useState<string>();
+
+  // Constraints are checked on the textarea, so form.checkValidity(),
+  // :invalid and submission see them
+  const updateValidity = (editor: Jodit) => {
+    const textarea = textArea.current;
+    if (!textarea) return;
+
+    const { required: isRequired, maxLength: limit } = latestProps.current;
+    const message = isRequired || limit !== undefined
+      ? validateEditorContent(editor.editor, { required: isRequired, maxLength: limit }, latestProps.current.messages?.validation)
+      : '';
+    textarea.setCustomValidity(message);
+    setValidationMessage(shown => shown === null ? null : message || null);
+  };
+
+  // Jodit hides the textarea, so the browser cannot point at it; the
+  // message is shown under the editor instead
+  const onInvalid = (event: FormEvent<HTMLTextAreaElement>) => {
+    event.preventDefault();
+    const textarea = event.currentTarget;
+    setValidationMessage(textarea.validationMessage);
+
+    const firstInvalid = Array.from(textarea.form?.elements ?? [])
+      .find(element => !(element as HTMLTextAreaElement).validity?.valid);
+    if (!textarea.form || firstInvalid === textarea) {
+      joditInstance.current?.focus();
+    }
+  };
+
+  const [squareBudget, setSquareBudget] = useState<SquareDescriptionBudget | null>(null);
+  const updateSquareBudget = (editor: Jodit) => {
+    const { squareDescriptionMode: squareMode, squareDescriptionLimit: limit } = latestProps.current;
+    setSquareBudget(squareMode ? getSquareDescriptionBudget(editor.value, limit) : null);
+  };
+
+  // Statistics of the emitted content, only measured when they are used
+  // and at most once per change; keys pressed in between reuse them
+  const [contentStats, setContentStats] = useState<ContentStats | null>(null);
+  const measuredStats = useRef<ContentStats | null>(null);
+  const measure = (editor: Jodit, content?: string) => {
+    const stats = measuredStats.current ??= getContentStats(content ?? sanitizeValue(editor.value));
+    return { stats, limits: checkContentLimits(stats, latestProps.current.contentLimits ?? []) };
+  };
+  const updateStats = (editor: Jodit, content?: string) => {
+    const { onStatsChange: onStats, contentLimits: limits, statusBar: showStatusBar } = latestProps.current;
+    if (!onStats && !limits?.length && !showStatusBar) {
+      setContentStats(null);
+      return;
+    }
+
+    const measured = measure(editor, content);
+    setContentStats(measured.stats);
+    onStats?.(measured.stats, measured.limits);
+  };
+  const hasHardLimit = () => Boolean(latestProps.current.contentLimits?.some(limit => limit.mode === 'hard'));
+
+  // Created once, so the provider and the ref see the same object
+  const handle = useMemo<JoditEditorHandle>(() => ({
+    get textarea() {
+      return textArea.current;
+    },
+    focus() {
+      joditInstance.current?.focus();
+    },
+    blur() {
+      joditInstance.current?.editor.blur();
+    },
+    insertHTML(html: string) {
+      joditInstance.current?.s.insertHTML(sanitizeValue(html));
+    },
+    getSelection() {
+      const editor = joditInstance.current;
+      return editor ? editor.history.snapshot.make().range : null;
+    },
+    setSelection(selection: EditorSelection) {
+      const editor = joditInstance.current;
+      editor?.history.snapshot.restoreOnlySelection({
+        html: editor.value,
+        range: selection
+      });
+    },
+    undo() {
+      joditInstance.current?.history.undo();
+    },
+    redo() {
+      joditInstance.current?.history.redo();
+    },
+    execCommand(command: string, commandValue?: unknown) {
+      joditInstance.current?.execCommand(command, false, commandValue);
+    },
+    getInstance() {
+      return joditInstance.current;
+    },
+    setValue(content: string) {
+      latestHelpers.current.replaceContent(content);
+    },
+    getValue() {
+      const editor = joditInstance.current;
+      return editor
+        ? fromEditorValue(sanitizeValue(editor.value))
+        : latestProps.current.value ?? initialContent.current;
+    },
+    clearDraft() {
+      return latestHelpers.current.draftAutosave.clear();
+    },
+    uploadFiles(files: File[]) {
+      const editor = joditInstance.current;
+      if (editor) {
+        uploadController.upload(editor, uploadController.filter(files));
       }
     }
-    
-    const editor = Jodit.make(element, editorConfig);
+  }), [uploadController]);
+  useImperativeHandle(ref, () => handle, [handle]);
+
+  // Square mode narrows the toolbar on top of the user config. With an
+  // upload adapter the image dialog needs its upload tab, which Jodit only
+  // shows when it can upload by itself. The paste pipeline replaces Jodit's
+  // paste dialogs unless the config asks for them. A provider's config is
+  // the base of the editor's own. A theme switches Jodit's dark stylesheet
+  // with the color scheme. A locale picks Jodit's language and direction;
+  // a new language rebuilds the editor, keeping the document
+  const hasUploadAdapter = Boolean(uploadAdapter);
+  const hasPastePipeline = pasteProfile !== false;
+  const sharedConfig = shared?.config;
+  const joditTheme = theme ? (colorScheme === 'dark' ? 'dark' : 'default') : null;
+  const joditLanguage = locale ? getJoditLanguage(locale) : null;
+  const textDirection = direction ?? (locale ? getLocaleDirection(locale) : null);
+  const editorConfig = useMemo<EditorConfig>(() => mergeConfig(
+    joditTheme ? { theme: joditTheme } : null,
+    joditLanguage ? { language: joditLanguage } : null,
+    textDirection ? { direction: textDirection } : null,
+    hasPastePipeline ? PASTE_PIPELINE_CONFIG : null,
+    sharedConfig,
+    config,
+    squareDescriptionMode ? SQUARE_DESCRIPTION_CONFIG : null,
+    hasUploadAdapter ? { uploader: { insertImageAsBase64URI: true } } : null
+  ), [config, sharedConfig, squareDescriptionMode, hasUploadAdapter, hasPastePipeline, joditTheme, joditLanguage, textDirection]);
 
-    joditInstance.current = editor;
-    editor.value = value; // Set initial value
+  // Config the current instance was built or last updated with, or will
+  // be built with while Jodit is loading
+  const appliedConfig = useRef<EditorConfig>(editorConfig);
 
-    const handleBlur = () => {
-      onBlur?.(editor.value);
+  const reportError = (error: unknown) => {
+    const editorError = error instanceof Error ? error : new Error(String(error));
+    const { onError } = latestProps.current;
+    // Errors handled by the app are not logged a second time
+    if (onError) {
+      onError(editorError);
+    } else {
+      console.error('JoditEditor error:', editorError);
+    }
+  };
+
+  const applyAria = (editor: Jodit) => {
+    const attributes = latestProps.current.ariaAttributes ?? {};
+    applyAriaAttributes(editor.editor, attributes, appliedAriaAttributes.current);
+    appliedAriaAttributes.current = attributes;
+  };
+
+  const getMessages = () => latestProps.current.messages ?? EN_MESSAGES;
+
+  // The toolbar is in the container, or in the provider's shared toolbar
+  const labelToolbars = (editor: Jodit) => {
+    [editor.container, toolbarSlot.current].forEach(element => {
+      if (element) labelToolbar(element, getMessages().toolbar);
+    });
+  };
+
+  // Variables are set on the instance rather than globally, so editors
+  // on one page can differ
+  const applyTheme = (editor: Jodit) => {
+    const style = latestProps.current.themeStyle ?? null;
+    [editor.container, toolbarSlot.current].forEach(element => {
+      if (element) applyThemeStyle(element, style, appliedThemeStyle.current);
+    });
+    appliedThemeStyle.current = style;
+  };
+
+  const createEditor = (element: HTMLTextAreaElement, options: EditorConfig) => {
+    if (!joditClass.current) {
+      throw new Error('Jodit is not loaded');
+    }
+    const { shared: sharedContext } = latestProps.current;
+    sharedContext?.manager.installPlugins(joditClass.current, sharedContext.plugins);
+
+    // Inside a modal, popups and dialogs open within it so its focus trap
+    // does not take focus away from them
+    const modalRoot = options.popupRoot === undefined ? findModalRoot(element) : null;
+    // The toolbar goes into the provider's shared toolbar, which sticks itself
+    const sharedToolbar = toolbarSlot.current ? { toolbar: toolbarSlot.current, toolbarSticky: false } : null;
+    const editorOptions = buildEditorConfig(mergeConfig(options, modalRoot && { popupRoot: modalRoot }, sharedToolbar));
+    warnUnknownOptions(editorOptions, joditClass.current.defaultOptions);
+    const editor = joditClass.current.make(element, editorOptions);
+
+    editor.events.on('change', () => {
+      measuredStats.current = null;
+      if (uploadController.pending) {
+        uploadController.prune(editor);
+      }
+      updateValidity(editor);
+      proofingController.update(editor);
+      if (isApplyingValue.current) return;
+      suggestionController.update(editor);
+      collaborationSession.current?.update(editor.value);
+      latestProps.current.onChangeRaw?.(editor.value);
+      if (latestProps.current.squareDescriptionMode) {
+        updateSquareBudget(editor);
+      }
+      changeEmitter.current?.schedule();
+      draftAutosave.schedule();
+    });
+    editor.events.on('blur', () => {
+      suggestionController.close();
+      proofingController.close();
+      collaborationSession.current?.setCursor(null);
+      changeEmitter.current?.flush();
+      draftAutosave.flush();
+      latestProps.current.onBlur?.(fromEditorValue(sanitizeValue(editor.value)));
+    });
+    editor.events.on('focus', () => {
+      const { shared: sharedContext, managedName: editorName } = latestProps.current;
+      if (sharedContext && editorName) sharedContext.manager.activate(editorName);
+      latestProps.current.onFocus?.(fromEditorValue(editor.value));
+    });
+    editor.events.on('keydown', (event: KeyboardEvent) => {
+      // An open suggestion list takes the navigation keys
+      if (suggestionController.keyDown(editor, event)) return false;
+      // So does an open proofing popover, and Alt+Enter opens it
+      if (proofingController.keyDown(editor, event)) return false;
+      // Hard limits stop keys inserting text at a collapsed caret; typing
+      // over a selection replaces it
+      if (
+        hasHardLimit() &&
+        (event.key.length === 1 || event.key === 'Enter') &&
+        !event.ctrlKey &&
+        !event.metaKey &&
+        editor.s.isCollapsed() &&
+        blocksInput(measure(editor).limits, event.key)
+      ) {
+        event.preventDefault();
+        return false;
+      }
+      return latestProps.current.onKeyDown?.(event);
+    });
+    editor.events.on('paste', (event: ClipboardEvent) => latestProps.current.onPaste?.(event));
+    editor.events.on('click', () => {
+      proofingController.open(editor, getCaretTextOffset(editor.editor));
+    });
+    editor.events.on('beforePasteInsert', (html: unknown) => {
+      if (typeof html !== 'string') return undefined;
+
+      const { pasteProfile: profile, squareDescriptionMode: squareMode } = latestProps.current;
+      const sanitized = sanitizeValue(profile === false
+        ? html
+        : normalizePastedHTML(html, profile ?? (squareMode ? 'squareSafe' : 'keepStructure')));
+      if (!hasHardLimit()) return sanitized;
+
+      const fitted = fitContent(sanitized, measure(editor).limits);
+      if (fitted !== sanitized) announce(getMessages().limits.pasteTruncated);
+      return fitted;
+    });
+    editor.events.on('changeSelection', () => {
+      suggestionController.update(editor);
+      collaborationSession.current?.setCursor(getCaretTextOffset(editor.editor));
+      latestProps.current.onSelectionChange?.(editor.history.snapshot.make().range);
+    });
+    editor.events.on('afterInsertImage', (image: HTMLImageElement) => {
+      latestProps.current.onImageUpload?.(image);
+    });
+    editor.events.on('afterCommand', (command: string, _showUI: unknown, commandValue: unknown) => {
+      const message = describeFormatChange(editor.editor, command, commandValue, getMessages().formats);
+      if (message) announce(message);
+    });
+    editor.events.on('afterUpdateToolbar', () => labelToolbars(editor));
+    // Files are taken in the capture phase, before Jodit's own uploader sees them
+    const onFileTransfer = (event: Event) => {
+      const transfer = event.type === 'drop'
+        ? (event as DragEvent).dataTransfer
+        : (event as ClipboardEvent).clipboardData;
+      const files = uploadController.filter(transfer?.files);
+      if (!files.length) return;
+
+      event.preventDefault();
+      event.stopPropagation();
+      if (event.type === 'drop') {
+        editor.s.insertCursorAtPoint((event as DragEvent).clientX, (event as DragEvent).clientY);
+      }
+      uploadController.upload(editor, files);
     };
+    editor.container.addEventListener('paste', onFileTransfer, true);
+    editor.container.addEventListener('drop', onFileTransfer, true);
+
+    // The upload tab of the image dialog lives in a popup outside the container
+    const boundPopups = new WeakSet<HTMLElement>();
+    editor.events.on('afterOpenPopup', (popup: { container: HTMLElement; close(): void }) => {
+      // Popups are rendered outside the container
+      applyThemeStyle(popup.container, latestProps.current.themeStyle ?? null, appliedThemeStyle.current);
+      if (boundPopups.has(popup.container)) return;
+      boundPopups.add(popup.container);
+
+      const onPopupFiles = (event: Event) => {
+        const input = event.target as HTMLInputElement;
+        const files = uploadController.filter(
+          event.type === 'drop' ? (event as DragEvent).dataTransfer?.files : input.files
+        );
+        if (!files.length) return;
+
+        event.preventDefault();
+        event.stopPropagation();
+        popup.close();
+        uploadController.upload(editor, files);
+      };
+      popup.container.addEventListener('change', onPopupFiles, true);
+      popup.container.addEventListener('drop', onPopupFiles, true);
+      bindPopupEscape(popup, () => editor.focus());
+    });
+
+    editor.events.on('beforeDestruct', () => {
+      editor.container.removeEventListener('paste', onFileTransfer, true);
+      editor.container.removeEventListener('drop', onFileTransfer, true);
+      latestProps.current.onBeforeDestruct?.(editor);
+    });
+    editor.workplace.tabIndex = latestProps.current.tabIndex ?? -1;
+    applyAria(editor);
+    applyTheme(editor);
+    labelToolbars(editor);
+
+    return editor;
+  };
+
+  // Helpers are new functions on every render. Effects and the handle,
+  // which outlive a render, call the latest ones through this ref
+  const latestHelpers = useRef({
+    createEditor, toEditorValue, replaceContent, updateStats, labelToolbars, draftAutosave
+  });
+  useLayoutEffect(() => {
+    latestHelpers.current = { createEditor, toEditorValue, replaceContent, updateStats, labelToolbars, draftAutosave };
+  });
+
+  // Rate-limited onChange emission; the value is only serialized when emitted
+  const changeEmitter = useRef<ChangeEmitter | null>(null);
+  useEffect(() => {
+    const emitter = createChangeEmitter(() => {
+      const editor = joditInstance.current;
+      if (!editor) return;
+
+      const content = sanitizeValue(editor.value);
+      const output = fromEditorValue(content);
+      lastEmittedValue.current = output;
+      if (textArea.current) {
+        textArea.current.value = output;
+      }
+      latestProps.current.onChange?.(output);
+      if (latestProps.current.squareDescriptionMode) {
+        latestProps.current.onSquareDescriptionChange?.(toSquareDescription(content));
+      }
+      // Stats follow the emitted content, so typing bursts are measured once
+      latestHelpers.current.updateStats(editor, content);
+    }, { debounceMs: changeDebounceMs, throttleMs: changeThrottleMs });
+
+    changeEmitter.current = emitter;
+    return () => emitter.flush();
+  }, [changeDebounceMs, changeThrottleMs]);
+
+  // Initialize editor once Jodit is loaded. Props may have changed while
+  // loading, so the latest value and config are used
+  useEffect(() => {
+    let isUnmounted = false;
+
+    const mount = (JoditClass: JoditConstructor) => {
+      if (isUnmounted || !textArea.current) return;
+      joditClass.current = JoditClass;
+      toolbarSlot.current = latestProps.current.shared?.manager.createToolbarSlot() ?? null;
+
+      try {
+        const editor = latestHelpers.current.createEditor(textArea.current, appliedConfig.current);
+        joditInstance.current = editor;
+
+        // Jodit's container is in place now; hide the preview in the same
+        // frame instead of waiting for the re-render
+        if (staticPreview.current) {
+          staticPreview.current.style.display = 'none';
+        }
+
+        const { value: initialValue, defaultValue: initialDefault } = latestProps.current;
+        isApplyingValue.current = true;
+        try {
+          editor.value = latestHelpers.current.toEditorValue(initialValue ?? initialDefault ?? ''); // Set initial value
+        } finally {
+          isApplyingValue.current = false;
+        }
+
+        // Jodit writes its raw HTML into the textarea; it holds the emitted
+        // content instead
+        const output = fromEditorValue(sanitizeValue(editor.value));
+        textArea.current.value = output;
+        setTextareaDefault(output);
 
-    const handleChange = () => {
-      onChange?.(editor.value);
+        setEditorReady(true);
+        setMountedEditor(editor);
+        updateSquareBudget(editor);
+        latestHelpers.current.updateStats(editor);
+        updateValidity(editor);
+        proofingController.update(editor);
+        latestHelpers.current.draftAutosave.load();
+        latestProps.current.onAfterInit?.(editor);
+      } catch (error) {
+        // The static preview stays visible as a read-only fallback
+        reportError(error);
+      }
     };
 
-    editor.events.on('blur', handleBlur);
-    editor.events.on('change', handleChange);
-    editor.workplace.tabIndex = tabIndex ?? -1;
+    const loaded = getLoadedJodit();
+    if (loaded) {
+      mount(loaded);
+    } else {
+      loadJodit().then(mount, reportError);
+    }
 
     return () => {
-      editor.destruct();
+      isUnmounted = true;
+      changeEmitter.current?.flush();
+      latestHelpers.current.draftAutosave.flush();
+      uploadController.abortAll();
+      suggestionController.close();
+      proofingController.reset();
+      joditInstance.current?.destruct();
       joditInstance.current = null;
+      toolbarSlot.current?.remove();
+      toolbarSlot.current = null;
+      setMountedEditor(null);
     };
-  }, []); // Empty dependency array as we handle updates separately
+  }, [uploadController, suggestionController, proofingController]); // Created once; updates are handled separately
 
-  // Handle value updates
+  // Handle config updates
   useEffect(() => {
     const editor = joditInstance.current;
-    if (editor && editor.value !== value) {
-      editor.value = value;
+    if (!editor || !textArea.current) {
+      appliedConfig.current = editorConfig;
+      return;
     }
-  }, [value]);
 
-  // Handle config updates
+    const changes = diffConfig(appliedConfig.current, editorConfig);
+    appliedConfig.current = editorConfig;
+    if (!changes.length) return;
+
+    if (canApplyLive(changes)) {
+      applyLiveOptions(editor, editorConfig, changes);
+      return;
+    }
+
+    // Options such as buttons or language are only read on init,
+    // so rebuild the instance and carry the document over
+    changeEmitter.current?.flush();
+    const state = captureEditorState(editor);
+    editor.destruct();
+    joditInstance.current = null;
+
+    try {
+      const nextEditor = latestHelpers.current.createEditor(textArea.current, editorConfig);
+      joditInstance.current = nextEditor;
+      setMountedEditor(nextEditor);
+      restoreEditorState(nextEditor, state);
+      proofingController.update(nextEditor);
+      latestProps.current.onAfterInit?.(nextEditor);
+    } catch (error) {
+      reportError(error);
+    }
+  }, [editorConfig, proofingController]);
+
+  // Handle controlled value updates
+  useEffect(() => {
+    const editor = joditInstance.current;
+    if (!editor || value === undefined || value === lastEmittedValue.current) return;
+
+    const nextValue = latestHelpers.current.toEditorValue(value);
+    if (editor.value === nextValue) return;
+
+    isApplyingValue.current = true;
+    try {
+      applyExternalValue(editor, nextValue);
+    } finally {
+      isApplyingValue.current = false;
+    }
+    lastEmittedValue.current = null;
+    collaborationSession.current?.update(editor.value);
+    updateSquareBudget(editor);
+    latestHelpers.current.updateStats(editor);
+    updateValidity(editor);
+    latestHelpers.current.draftAutosave.rebase();
+  }, [value, format]);
+
+  // Join the collaboration room once the editor is mounted. Content from
+  // peers is sanitized like any other external value and emitted through
+  // onChange, so every peer reports the converged document
+  const collaborationTransport = collaboration?.transport;
+  useEffect(() => {
+    const editor = joditInstance.current;
+    const options = latestProps.current.collaboration;
+    if (!isEditorReady || !editor || !options || !collaborationTransport) return;
+
+    const session = createCollaborationSession({
+      ...options,
+      transport: collaborationTransport,
+      onPresenceChange(peers) {
+        setCollaborators(peers);
+        latestProps.current.collaboration?.onPresenceChange?.(peers);
+      },
+      onRemoteChange(html) {
+        const current = joditInstance.current;
+        if (!current) return;
+
+        isApplyingValue.current = true;
+        try {
+          applyExternalValue(current, sanitizeValue(html));
+        } finally {
+          isApplyingValue.current = false;
+        }
+        lastEmittedValue.current = null;
+        updateSquareBudget(current);
+        changeEmitter.current?.schedule();
+      }
+    });
+    collaborationSession.current = session;
+    session.join(editor.value);
+
+    return () => {
+      session.destroy();
+      collaborationSession.current = null;
+      setCollaborators([]);
+    };
+  }, [isEditorReady, collaborationTransport]);
+
+  // Handle Square mode and limit updates
+  useEffect(() => {
+    const editor = joditInstance.current;
+    if (editor) {
+      updateSquareBudget(editor);
+    }
+  }, [squareDescriptionMode, squareDescriptionLimit]);
+
+  // Handle limit and status bar updates. Limits are compared by content,
+  // since they are often passed inline
+  const contentLimitsKey = JSON.stringify(contentLimits ?? []);
+  const hasStatsListener = Boolean(onStatsChange);
+  useEffect(() => {
+    const editor = joditInstance.current;
+    if (editor) {
+      latestHelpers.current.updateStats(editor);
+    }
+  }, [contentLimitsKey, statusBar, hasStatsListener]);
+
+  // Handle constraint updates
+  useEffect(() => {
+    const editor = joditInstance.current;
+    if (editor) {
+      updateValidity(editor);
+    }
+  }, [required, maxLength]);
+
+  // Submitting reads the latest content: pending changes are emitted first
+  // and the form data gets the emitted content. A reset restores the
+  // initial content as a user edit
+  useEffect(() => {
+    const form = textArea.current?.form;
+    if (!isEditorReady || !form) return;
+
+    const onSubmit = () => changeEmitter.current?.flush();
+    const onFormData = (event: FormDataEvent) => {
+      const editor = joditInstance.current;
+      const fieldName = latestProps.current.name;
+      if (editor && fieldName) {
+        event.formData.set(fieldName, fromEditorValue(sanitizeValue(editor.value)));
+      }
+    };
+    const onReset = () => {
+      latestHelpers.current.replaceContent(initialContent.current);
+      setValidationMessage(null);
+    };
+
+    form.addEventListener('submit', onSubmit, true);
+    form.addEventListener('formdata', onFormData);
+    form.addEventListener('reset', onReset);
+    return () => {
+      form.removeEventListener('submit', onSubmit, true);
+      form.removeEventListener('formdata', onFormData);
+      form.removeEventListener('reset', onReset);
+    };
+  }, [isEditorReady]);
+
+  // Register with the provider under the editor's name
+  const editorManager = shared?.manager;
+  useEffect(() => {
+    if (!isEditorReady || !editorManager) return;
+    return editorManager.register(managedName, { handle, toolbar: toolbarSlot.current });
+  }, [isEditorReady, editorManager, managedName, handle]);
+
+  // Check again with new proofing options or locale. Options are compared
+  // by content, since they are often passed inline
+  const proofingKey = JSON.stringify(proofing ?? false);
+  const proofingProvider = typeof proofing === 'object' ? proofing.provider : undefined;
+  useEffect(() => {
+    const editor = joditInstance.current;
+    if (editor) {
+      proofingController.update(editor);
+    }
+  }, [proofingKey, proofingProvider, locale, proofingController]);
+
+  // Handle tabIndex updates
   useEffect(() => {
     const editor = joditInstance.current;
     if (editor) {
@@ -97,8 +1301,104 @@ export const JoditEditor = forwardRef<HTMLTextAreaElement, JoditEditorProps>(({
     }
   }, [tabIndex]);
 
-  return <textarea ref={textArea} name={name} />;
+  // Handle ARIA, id and required updates
+  useEffect(() => {
+    const editor = joditInstance.current;
+    if (editor) {
+      applyAria(editor);
+    }
+  }, [ariaKey]);
+
+  // Relabel the toolbar and re-check constraints in a newly loaded locale
+  useEffect(() => {
+    const editor = joditInstance.current;
+    if (editor) {
+      latestHelpers.current.labelToolbars(editor);
+      updateValidity(editor);
+    }
+  }, [messages]);
+
+  // Handle theme and color scheme updates
+  useEffect(() => {
+    const editor = joditInstance.current;
+    if (editor) {
+      applyTheme(editor);
+    }
+  }, [themeStyle]);
+
+  // Initial content for server rendering and the first client render
+  const staticHTML = useMemo(
+    () => isEditorReady
+      ? ''
+      : renderStaticHTML(value ?? defaultValue ?? '', { format, sanitize, squareDescriptionMode }),
+    [isEditorReady, value, defaultValue, format, sanitize, squareDescriptionMode]
+  );
+
+  return (
+    <>
+      {draftAutosave.recovery && !(typeof autosave === 'object' && autosave.onDraftFound) && (
+        <DraftRecoveryPrompt
+          savedAt={draftAutosave.recovery.draft.savedAt}
+          conflict={draftAutosave.recovery.conflict}
+          onRestore={draftAutosave.recovery.restore}
+          onDiscard={draftAutosave.recovery.discard}
+          messages={messages.drafts}
+        />
+      )}
+      {!isEditorReady && (
+        <div
+          ref={staticPreview}
+          className={`jodit-react-static jodit jodit-container jodit_theme_${editorConfig.theme || 'default'}`}
+          style={{ ...getStaticPreviewStyle(editorConfig), ...getThemeStyleProps(themeStyle) }}
+        >
+          <div className="jodit-wysiwyg" dangerouslySetInnerHTML={{ __html: staticHTML }} />
+        </div>
+      )}
+      <textarea
+        ref={textArea}
+        name={name}
+        defaultValue={textareaDefault}
+        hidden={!isEditorReady}
+        onInvalid={onInvalid}
+      />
+      <FieldError id={errorId} message={validationMessage} />
+      {mountedEditor && collaborators.length > 0 && createPortal(
+        <RemoteCursors root={mountedEditor.editor} peers={collaborators} />,
+        mountedEditor.workplace
+      )}
+      {mountedEditor && suggestionState && createPortal(
+        <SuggestionList
+          state={suggestionState}
+          onSelect={index => suggestionController.select(mountedEditor, index)}
+        />,
+        mountedEditor.workplace
+      )}
+      {mountedEditor && proofingState.marks.length > 0 && createPortal(
+        <ProofingMarks root={mountedEditor.editor} marks={proofingState.marks} />,
+        mountedEditor.workplace
+      )}
+      {mountedEditor && proofingState.popover && createPortal(
+        <ProofingPopover
+          state={proofingState.popover}
+          messages={messages.proofing}
+          onSelect={index => proofingController.select(mountedEditor, index)}
+          onIgnore={() => proofingController.ignore()}
+        />,
+        mountedEditor.workplace
+      )}
+      {mountedEditor && <LiveRegion message={announcement} />}
+      {squareBudget && (
+        <CharacterBudget used={squareBudget.used} limit={squareBudget.limit} messages={messages.limits} />
+      )}
+      {statusBar && contentStats && (
+        <ContentStatusBar
+          stats={contentStats}
+          limits={checkContentLimits(contentStats, contentLimits ?? [])}
+          messages={messages.limits}
+        />
+      )}
+    </>
+  );
 });
 
 JoditEditor.displayName = 'JoditEditor';
-
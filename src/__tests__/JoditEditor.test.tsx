@@ -1,19 +1,33 @@
 import React from 'react';
-import { render, screen } from '@testing-library/react';
-import { JoditEditor } from '../JoditEditor';
+import { render, renderHook, screen, act, fireEvent, waitFor } from '@testing-library/react';
+import { axe } from 'jest-axe';
+import { JoditEditor, JoditEditorHandle } from '../JoditEditor';
+import HookFormEditor from '../components/HookFormEditor';
+import FormikEditor from '../components/FormikEditor';
+import JoditEditorProvider from '../components/JoditEditorProvider';
+import { useEditorManager } from '../hooks/useEditorManager';
+import { useDraftAutosave } from '../hooks/useDraftAutosave';
+import type { EditorManager } from '../utils/editor-manager';
+import type { EditorDraft } from '../utils/draft-storage';
+import type { UploadContext } from '../utils/upload';
+import type { ProofingRange } from '../utils/proofing';
+import { createInMemoryHub } from '../utils/collaboration-transport';
+import { createProductCardCommand, DEFAULT_COMMANDS, EditorCommand, registerCommand } from '../utils/commands';
+import { SquareCatalogObject, SquareCatalogObjectType } from '../services/types/square.types';
 import { Jodit } from 'jodit';
+import { loadJodit } from '../utils/jodit-loader';
 
 // Mock Jodit module with improved value handling
 jest.mock('jodit', () => {
   const createEditor = (_element: HTMLTextAreaElement, _config: any) => {
     const editor = {
-      _value: '',
+      editor: document.createElement('div'),
       get value() {
-        return this._value;
+        return this.editor.innerHTML;
       },
       set value(newValue: string) {
-        const oldValue = this._value;
-        this._value = newValue;
+        const oldValue = this.editor.innerHTML;
+        this.editor.innerHTML = newValue;
         if (oldValue !== newValue) {
           this.events.fire('change');
         }
@@ -31,23 +45,46 @@ jest.mock('jodit', () => {
             this._handlers[event] = this._handlers[event].filter(h => h !== handler);
           }
         },
-        fire(event: string) {
+        fire(event: string, ...args: unknown[]) {
           if (this._handlers[event]) {
-            this._handlers[event].forEach(handler => handler());
+            this._handlers[event].forEach(handler => handler(...args));
           }
         }
       },
-      workplace: {
-        _tabIndex: -1,
-        get tabIndex() {
-          return this._tabIndex;
-        },
-        set tabIndex(value: number) {
-          this._tabIndex = value;
+      workplace: document.createElement('div'),
+      history: {
+        undo: jest.fn(),
+        redo: jest.fn(),
+        snapshot: {
+          make: jest.fn(() => ({
+            html: '',
+            range: { startContainer: [0], startOffset: 1, endContainer: [0], endOffset: 3 }
+          })),
+          restoreOnlySelection: jest.fn()
         }
       },
+      container: document.createElement('div'),
+      s: {
+        insertHTML: jest.fn(),
+        insertNode: jest.fn((node: Node) => {
+          editor.editor.appendChild(node);
+          editor.events.fire('change');
+        }),
+        insertCursorAtPoint: jest.fn(),
+        isFocused: () => false,
+        isCollapsed: () => true
+      },
+      o: {} as Record<string, unknown>,
+      focus: jest.fn(),
+      execCommand: jest.fn(),
+      isEditorMode: () => true,
+      synchronizeValues() {
+        this.events.fire('change');
+      },
       destruct: jest.fn()
     };
+    editor.workplace.appendChild(editor.editor);
+    editor.container.appendChild(editor.workplace);
 
     return editor;
   };
@@ -60,6 +97,9 @@ jest.mock('jodit', () => {
 });
 
 describe('JoditEditor', () => {
+  // Load the mocked Jodit up front so editors mount synchronously
+  beforeAll(() => loadJodit());
+
   beforeEach(() => {
     jest.clearAllMocks();
   });
@@ -91,6 +131,36 @@ describe('JoditEditor', () => {
     expect(editor.value).toBe('updated');
   });
 
+  it('patches controlled value updates without replacing unchanged nodes', () => {
+    const { rerender } = render(<JoditEditor value="<p>first</p><p>second</p>" />);
+    const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+    const firstParagraph = editor.editor.firstChild;
+
+    rerender(<JoditEditor value="<p>first</p><p>second edited</p>" />);
+
+    expect(editor.value).toBe('<p>first</p><p>second edited</p>');
+    expect(editor.editor.firstChild).toBe(firstParagraph);
+  });
+
+  it('does not echo controlled value updates through onChange', () => {
+    const onChange = jest.fn();
+    const { rerender } = render(<JoditEditor value="initial" onChange={onChange} />);
+    onChange.mockClear();
+
+    rerender(<JoditEditor value="updated" onChange={onChange} />);
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('initializes uncontrolled editors from defaultValue only', () => {
+    const { rerender } = render(<JoditEditor defaultValue="draft" />);
+    const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+    expect(editor.value).toBe('draft');
+
+    editor.value = 'typed';
+    rerender(<JoditEditor defaultValue="other" />);
+    expect(editor.value).toBe('typed');
+  });
+
   it('calls onChange when content changes', () => {
     const onChange = jest.fn();
     render(<JoditEditor value="initial" onChange={onChange} />);
@@ -109,6 +179,311 @@ describe('JoditEditor', () => {
     expect(onBlur).toHaveBeenCalledWith('initial');
   });
 
+  it('calls the onChange handler from the latest render', () => {
+    const firstHandler = jest.fn();
+    const latestHandler = jest.fn();
+    const { rerender } = render(<JoditEditor value="initial" onChange={firstHandler} />);
+    const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+
+    rerender(<JoditEditor value="initial" onChange={latestHandler} />);
+    editor.value = 'typed';
+
+    expect(firstHandler).not.toHaveBeenCalled();
+    expect(latestHandler).toHaveBeenCalledWith('typed');
+  });
+
+  it('forwards focus, keyboard and paste events', () => {
+    const onFocus = jest.fn();
+    const onKeyDown = jest.fn();
+    const onPaste = jest.fn(() => false as const);
+    render(<JoditEditor value="initial" onFocus={onFocus} onKeyDown={onKeyDown} onPaste={onPaste} />);
+    const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+
+    const keyEvent = new KeyboardEvent('keydown', { key: 'Enter' });
+    const pasteEvent = new Event('paste');
+    editor.events.fire('focus');
+    editor.events.fire('keydown', keyEvent);
+    editor.events.fire('paste', pasteEvent);
+
+    expect(onFocus).toHaveBeenCalledWith('initial');
+    expect(onKeyDown).toHaveBeenCalledWith(keyEvent);
+    expect(onPaste).toHaveBeenCalledWith(pasteEvent);
+  });
+
+  it('reports selection changes as serializable ranges', () => {
+    const onSelectionChange = jest.fn();
+    render(<JoditEditor value="" onSelectionChange={onSelectionChange} />);
+    const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+
+    editor.events.fire('changeSelection');
+    expect(onSelectionChange).toHaveBeenCalledWith({
+      startContainer: [0],
+      startOffset: 1,
+      endContainer: [0],
+      endOffset: 3
+    });
+  });
+
+  it('notifies about instance creation and destruction', () => {
+    const onAfterInit = jest.fn();
+    const onBeforeDestruct = jest.fn();
+    render(<JoditEditor value="" onAfterInit={onAfterInit} onBeforeDestruct={onBeforeDestruct} />);
+    const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+
+    expect(onAfterInit).toHaveBeenCalledWith(editor);
+
+    editor.events.fire('beforeDestruct');
+    expect(onBeforeDestruct).toHaveBeenCalledWith(editor);
+  });
+
+  it('forwards inserted images to onImageUpload', () => {
+    const onImageUpload = jest.fn();
+    render(<JoditEditor value="" onImageUpload={onImageUpload} />);
+    const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+
+    const image = document.createElement('img');
+    editor.events.fire('afterInsertImage', image);
+    expect(onImageUpload).toHaveBeenCalledWith(image);
+  });
+
+  it('reports initialization failures through onError', () => {
+    const onError = jest.fn();
+    (Jodit.make as jest.Mock).mockImplementationOnce(() => {
+      throw new Error('Editor initialization failed');
+    });
+
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    render(<JoditEditor value="" onError={onError} />);
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({
+      message: 'Editor initialization failed'
+    }));
+    expect(consoleError).not.toHaveBeenCalledWith('JoditEditor error:', expect.anything());
+    consoleError.mockRestore();
+  });
+
+  it('keeps reporting changes when the initial value fails to apply', () => {
+    const createEditor = (Jodit.make as jest.Mock).getMockImplementation()!;
+    (Jodit.make as jest.Mock).mockImplementationOnce((element: HTMLTextAreaElement, config: unknown) => {
+      const instance = createEditor(element, config);
+      Object.defineProperty(instance, 'value', {
+        get: () => instance.editor.innerHTML,
+        set: () => {
+          throw new Error('Invalid markup');
+        }
+      });
+      return instance;
+    });
+    const onError = jest.fn();
+    const onChangeRaw = jest.fn();
+
+    render(<JoditEditor defaultValue="<p>Tee</p>" onError={onError} onChangeRaw={onChangeRaw} />);
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'Invalid markup' }));
+
+    const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+    act(() => editor.events.fire('change'));
+    expect(onChangeRaw).toHaveBeenCalled();
+  });
+
+  it('logs failures to the console without onError', () => {
+    (Jodit.make as jest.Mock).mockImplementationOnce(() => {
+      throw new Error('Editor initialization failed');
+    });
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    render(<JoditEditor value="" />);
+    expect(consoleError).toHaveBeenCalledWith('JoditEditor error:', expect.objectContaining({
+      message: 'Editor initialization failed'
+    }));
+    consoleError.mockRestore();
+  });
+
+  it('sanitizes values set from props', () => {
+    const { rerender } = render(<JoditEditor value={'<p onclick="steal()">hi</p>'} />);
+    const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+    expect(editor.value).toBe('<p>hi</p>');
+
+    rerender(<JoditEditor value={'<p>hi</p><script>steal()</script>'} />);
+    expect(editor.value).toBe('<p>hi</p>');
+  });
+
+  it('sanitizes content before emitting onChange and onBlur', () => {
+    const onChange = jest.fn();
+    const onBlur = jest.fn();
+    render(<JoditEditor value="" onChange={onChange} onBlur={onBlur} />);
+    const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+
+    editor.value = '<img src="x" onerror="steal()">';
+    editor.events.fire('blur');
+
+    expect(onChange).toHaveBeenCalledWith('<img src="x">');
+    expect(onBlur).toHaveBeenCalledWith('<img src="x">');
+  });
+
+  it('sanitizes pasted HTML before Jodit inserts it', () => {
+    render(<JoditEditor value="" />);
+    const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+
+    const [handler] = editor.events._handlers.beforePasteInsert;
+    expect(handler('<a href="javascript:steal()">x</a>')).toBe('<a>x</a>');
+  });
+
+  describe('paste normalization', () => {
+    const WORD_HTML =
+      '<p class=MsoNormal><b><span style=\'font-size:14.0pt\'>Tee<o:p></o:p></span></b></p>' +
+      '<h2 style=\'mso-margin-top-alt:auto\'><span style=\'font-style:italic\'>Care</span></h2>';
+
+    it('cleans up pasted HTML keeping its structure', () => {
+      render(<JoditEditor value="" />);
+      const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+      const options = (Jodit.make as jest.Mock).mock.calls[0][1];
+
+      expect(options).toEqual(expect.objectContaining({ askBeforePasteHTML: false, processPasteFromWord: false }));
+      const [handler] = editor.events._handlers.beforePasteInsert;
+      expect(handler(WORD_HTML)).toBe('<p><strong>Tee</strong></p><h2><em>Care</em></h2>');
+    });
+
+    it('uses the Square profile in Square description mode', () => {
+      render(<JoditEditor value="" squareDescriptionMode />);
+      const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+
+      const [handler] = editor.events._handlers.beforePasteInsert;
+      expect(handler(WORD_HTML)).toBe('<p><strong>Tee</strong></p><p><em>Care</em></p>');
+    });
+
+    it('applies the chosen profile and leaves Jodit options from the config', () => {
+      render(<JoditEditor value="" pasteProfile="plainText" config={{ askBeforePasteHTML: true }} />);
+      const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+      const options = (Jodit.make as jest.Mock).mock.calls[0][1];
+
+      expect(options.askBeforePasteHTML).toBe(true);
+      const [handler] = editor.events._handlers.beforePasteInsert;
+      expect(handler(WORD_HTML)).toBe('<p>Tee</p><p>Care</p>');
+    });
+
+    it('keeps Jodit\'s paste handling when disabled', () => {
+      render(<JoditEditor value="" pasteProfile={false} />);
+      const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+      const options = (Jodit.make as jest.Mock).mock.calls[0][1];
+
+      expect(options).not.toHaveProperty('processPasteFromWord');
+      const [handler] = editor.events._handlers.beforePasteInsert;
+      expect(handler('<p><span style="font-weight:bold">Tee</span></p>'))
+        .toBe('<p><span style="font-weight:bold">Tee</span></p>');
+    });
+  });
+
+  it('skips sanitization when disabled', () => {
+    const onChange = jest.fn();
+    render(<JoditEditor value="" sanitize={false} onChange={onChange} />);
+    const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+
+    editor.value = '<p onclick="run()">x</p>';
+    expect(onChange).toHaveBeenCalledWith('<p onclick="run()">x</p>');
+  });
+
+  it('limits the toolbar and output in Square description mode', () => {
+    const onChange = jest.fn();
+    const onSquareDescriptionChange = jest.fn();
+    render(
+      <JoditEditor
+        value=""
+        config={{ height: 300 }}
+        squareDescriptionMode
+        onChange={onChange}
+        onSquareDescriptionChange={onSquareDescriptionChange}
+      />
+    );
+    const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+    const options = (Jodit.make as jest.Mock).mock.calls[0][1];
+
+    expect(options.height).toBe(300);
+    expect(options.buttons).toEqual(expect.arrayContaining(['bold', 'ul', 'link']));
+    expect(options.buttons).not.toContain('image');
+
+    editor.value = '<h2>Title</h2><p style="color: red">Body</p>';
+
+    expect(onChange).toHaveBeenCalledWith('<p>Title</p><p>Body</p>');
+    expect(onSquareDescriptionChange).toHaveBeenCalledWith({
+      description_html: '<p>Title</p><p>Body</p>',
+      description: 'Title\n\nBody'
+    });
+  });
+
+  it('shows the remaining Square character budget', () => {
+    const { container } = render(<JoditEditor value="<p>12345</p>" squareDescriptionMode squareDescriptionLimit={10} />);
+    const budget = container.querySelector('.jodit-react-budget');
+    expect(budget).toHaveTextContent('5 of 10 characters left');
+
+    const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+    act(() => {
+      editor.value = '<p>123456789012</p>';
+    });
+    expect(budget).toHaveTextContent('2 characters over the 10 character limit');
+  });
+
+  it('converts Markdown values to HTML and emits Markdown', () => {
+    const onChange = jest.fn();
+    const onBlur = jest.fn();
+    render(<JoditEditor format="markdown" value="# Title" onChange={onChange} onBlur={onBlur} />);
+    const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+    expect(editor.value).toBe('<h1>Title</h1>');
+
+    editor.value = '<h1>Title</h1><ul><li><strong>Soft</strong> cotton</li></ul>';
+    expect(onChange).toHaveBeenCalledWith('# Title\n\n- **Soft** cotton');
+
+    editor.events.fire('blur');
+    expect(onBlur).toHaveBeenCalledWith('# Title\n\n- **Soft** cotton');
+  });
+
+  it('does not re-apply Markdown that the editor just emitted', () => {
+    let emitted = '';
+    const { rerender } = render(
+      <JoditEditor format="markdown" value="Hello" onChange={value => (emitted = value)} />
+    );
+    const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+
+    // Jodit markup that Markdown would normalize differently
+    editor.value = '<div>Hello <b>world</b></div>';
+    const rendered = editor.editor.firstChild;
+    rerender(<JoditEditor format="markdown" value={emitted} onChange={value => (emitted = value)} />);
+
+    expect(emitted).toBe('Hello **world**');
+    expect(editor.editor.firstChild).toBe(rendered);
+    expect(editor.value).toBe('<div>Hello <b>world</b></div>');
+  });
+
+  it('applies a value equal to the last emitted content after another value replaced it', () => {
+    const onChange = jest.fn();
+    const { rerender } = render(<JoditEditor value="<p>start</p>" onChange={onChange} />);
+    const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+
+    editor.value = '<p>typed</p>';
+    expect(onChange).toHaveBeenLastCalledWith('<p>typed</p>');
+    rerender(<JoditEditor value="<p>typed</p>" onChange={onChange} />);
+
+    // The parent switches to another record and back
+    rerender(<JoditEditor value="<p>other record</p>" onChange={onChange} />);
+    expect(editor.value).toBe('<p>other record</p>');
+    rerender(<JoditEditor value="<p>typed</p>" onChange={onChange} />);
+
+    expect(editor.value).toBe('<p>typed</p>');
+  });
+
+  it('keeps mention and product references in Markdown', () => {
+    const reference =
+      '<span class="jodit-react-reference jodit-react-reference_product" data-reference-type="product" ' +
+      'data-reference-id="sq-1" contenteditable="false">/Tee</span>';
+    const onChange = jest.fn();
+    render(<JoditEditor format="markdown" value={`See ${reference} now`} onChange={onChange} />);
+    const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+    expect(editor.value).toBe(`<p>See ${reference} now</p>`);
+
+    editor.value = `<p>See ${reference} today</p>`;
+
+    expect(onChange).toHaveBeenLastCalledWith(`See ${reference} today`);
+  });
+
   it('sets tabIndex on the editor workplace', () => {
     const tabIndex = 5;
     render(<JoditEditor value="" tabIndex={tabIndex} />);
@@ -123,10 +498,1293 @@ describe('JoditEditor', () => {
     expect(editor.destruct).toHaveBeenCalled();
   });
 
-  it('forwards ref to textarea element', () => {
-    const ref = React.createRef<HTMLTextAreaElement>();
+  it('exposes the textarea element through the ref handle', () => {
+    const ref = React.createRef<JoditEditorHandle>();
     render(<JoditEditor value="" ref={ref} />);
-    expect(ref.current).toBeInstanceOf(HTMLTextAreaElement);
+    expect(ref.current?.textarea).toBeInstanceOf(HTMLTextAreaElement);
   });
-});
 
+  it('exposes the Jodit instance through the ref handle', () => {
+    const ref = React.createRef<JoditEditorHandle>();
+    render(<JoditEditor value="" ref={ref} />);
+    const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+    expect(ref.current?.getInstance()).toBe(editor);
+  });
+
+  it('drives the editor through imperative handle methods', () => {
+    const ref = React.createRef<JoditEditorHandle>();
+    render(<JoditEditor value="" ref={ref} />);
+    const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+
+    ref.current?.focus();
+    ref.current?.insertHTML('<b>hi</b>');
+    ref.current?.execCommand('formatBlock', 'h2');
+    ref.current?.undo();
+    ref.current?.redo();
+
+    expect(editor.focus).toHaveBeenCalled();
+    expect(editor.s.insertHTML).toHaveBeenCalledWith('<b>hi</b>');
+    expect(editor.execCommand).toHaveBeenCalledWith('formatBlock', false, 'h2');
+    expect(editor.history.undo).toHaveBeenCalled();
+    expect(editor.history.redo).toHaveBeenCalled();
+  });
+
+  it('reads and restores the selection through the ref handle', () => {
+    const ref = React.createRef<JoditEditorHandle>();
+    render(<JoditEditor value="" ref={ref} />);
+    const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+
+    const selection = ref.current?.getSelection();
+    expect(selection).toEqual({ startContainer: [0], startOffset: 1, endContainer: [0], endOffset: 3 });
+
+    ref.current?.setSelection(selection!);
+    expect(editor.history.snapshot.restoreOnlySelection).toHaveBeenCalledWith(
+      expect.objectContaining({ range: selection })
+    );
+  });
+
+  it('replaces the content as a user change through setValue', () => {
+    const ref = React.createRef<JoditEditorHandle>();
+    const onChange = jest.fn();
+    render(<JoditEditor value="<p>old</p>" onChange={onChange} ref={ref} />);
+    const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+
+    act(() => {
+      ref.current?.setValue('<p>restored</p><script>alert(1)</script>');
+    });
+
+    expect(editor.value).toBe('<p>restored</p>');
+    expect(onChange).toHaveBeenCalledWith('<p>restored</p>');
+  });
+
+  describe('autosave', () => {
+    const createMemoryStorage = (drafts: Record<string, EditorDraft> = {}) => ({
+      drafts,
+      load: jest.fn(async (key: string) => drafts[key] ?? null),
+      save: jest.fn(async (key: string, draft: EditorDraft) => {
+        drafts[key] = draft;
+      }),
+      remove: jest.fn(async (key: string) => {
+        delete drafts[key];
+      })
+    });
+
+    const flushPromises = () => act(async () => {
+      await new Promise(resolve => setTimeout(resolve, 0));
+    });
+
+    it('saves drafts under the editor name', async () => {
+      const storage = createMemoryStorage();
+      render(<JoditEditor name="description" value="<p>saved</p>" autosave={{ storage, debounceMs: 0 }} />);
+      const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+      await flushPromises();
+
+      editor.value = '<p>typed</p>';
+      await flushPromises();
+
+      expect(storage.drafts.description).toEqual({
+        content: '<p>typed</p>',
+        baseValue: '<p>saved</p>',
+        savedAt: expect.any(Number)
+      });
+    });
+
+    it('offers to restore a stored draft and emits it', async () => {
+      const storage = createMemoryStorage({
+        description: { content: '<p>draft</p>', baseValue: '<p>saved</p>', savedAt: Date.now() }
+      });
+      const onChange = jest.fn();
+      render(
+        <JoditEditor name="description" value="<p>saved</p>" onChange={onChange} autosave={{ storage }} />
+      );
+      const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+      await flushPromises();
+
+      expect(screen.getByRole('alert')).toHaveTextContent('Restore unsaved draft');
+      expect(screen.getByRole('alert')).not.toHaveTextContent('has changed');
+
+      act(() => screen.getByRole('button', { name: 'Restore draft' }).click());
+
+      expect(editor.value).toBe('<p>draft</p>');
+      expect(onChange).toHaveBeenCalledWith('<p>draft</p>');
+      expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+    });
+
+    it('offers stored drafts under StrictMode', async () => {
+      const storage = createMemoryStorage({
+        description: { content: '<p>draft</p>', baseValue: '<p>saved</p>', savedAt: Date.now() }
+      });
+      const { result } = renderHook(() => useDraftAutosave({
+        autosave: { storage },
+        name: 'description',
+        getContent: () => '<p>saved</p>',
+        restoreContent: jest.fn(),
+        onError: jest.fn()
+      }), { wrapper: React.StrictMode });
+
+      act(() => result.current.load());
+      await flushPromises();
+
+      expect(result.current.recovery?.draft.content).toBe('<p>draft</p>');
+    });
+
+    it('deletes a discarded draft', async () => {
+      const storage = createMemoryStorage({
+        description: { content: '<p>draft</p>', baseValue: '<p>saved</p>', savedAt: Date.now() }
+      });
+      render(<JoditEditor name="description" value="<p>saved</p>" autosave={{ storage }} />);
+      const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+      await flushPromises();
+
+      act(() => screen.getByRole('button', { name: 'Discard' }).click());
+      await flushPromises();
+
+      expect(editor.value).toBe('<p>saved</p>');
+      expect(storage.drafts.description).toBeUndefined();
+      expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+    });
+
+    it('flags drafts written against a different value as conflicts', async () => {
+      const storage = createMemoryStorage({
+        description: { content: '<p>draft</p>', baseValue: '<p>old</p>', savedAt: Date.now() }
+      });
+      const onDraftFound = jest.fn();
+      const { rerender } = render(
+        <JoditEditor name="description" value="<p>new</p>" autosave={{ storage, onDraftFound }} />
+      );
+      await flushPromises();
+
+      expect(onDraftFound).toHaveBeenLastCalledWith(expect.objectContaining({ conflict: true }));
+      // A custom handler replaces the built-in prompt
+      expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+
+      // The incoming value now matches the draft's base again
+      rerender(<JoditEditor name="description" value="<p>old</p>" autosave={{ storage, onDraftFound }} />);
+      expect(onDraftFound).toHaveBeenLastCalledWith(expect.objectContaining({ conflict: false }));
+    });
+
+    it('discards expired drafts without offering them', async () => {
+      const storage = createMemoryStorage({
+        description: { content: '<p>draft</p>', baseValue: '<p>saved</p>', savedAt: Date.now() - 2000 }
+      });
+      render(<JoditEditor name="description" value="<p>saved</p>" autosave={{ storage, maxAgeMs: 1000 }} />);
+      await flushPromises();
+
+      expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+      expect(storage.remove).toHaveBeenCalledWith('description');
+    });
+
+    it('does not overwrite a draft while recovery is pending', async () => {
+      const draft = { content: '<p>draft</p>', baseValue: '<p>saved</p>', savedAt: Date.now() };
+      const storage = createMemoryStorage({ description: draft });
+      render(<JoditEditor name="description" value="<p>saved</p>" autosave={{ storage, debounceMs: 0 }} />);
+      const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+      await flushPromises();
+
+      editor.value = '<p>typed</p>';
+      await flushPromises();
+
+      expect(storage.drafts.description).toBe(draft);
+    });
+
+    it('clears the draft through the ref handle', async () => {
+      const storage = createMemoryStorage();
+      const ref = React.createRef<JoditEditorHandle>();
+      render(
+        <JoditEditor ref={ref} name="description" value="<p>saved</p>" autosave={{ storage, debounceMs: 0 }} />
+      );
+      const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+      await flushPromises();
+
+      editor.value = '<p>typed</p>';
+      await flushPromises();
+      await act(() => ref.current!.clearDraft());
+
+      expect(storage.drafts.description).toBeUndefined();
+
+      // The cleared content is now the baseline, so it is not saved again
+      editor.events.fire('blur');
+      await flushPromises();
+      expect(storage.drafts.description).toBeUndefined();
+    });
+  });
+
+  describe('uploads', () => {
+    const image = new File(['png'], 'front.png', { type: 'image/png' });
+
+    const deferred = () => {
+      let resolve!: (url: string) => void;
+      let reject!: (error: Error) => void;
+      const promise = new Promise<string>((res, rej) => {
+        resolve = res;
+        reject = rej;
+      });
+      return { promise, resolve, reject };
+    };
+
+    const pasteFiles = (target: HTMLElement, files: File[]) => {
+      const event = new Event('paste', { bubbles: true, cancelable: true });
+      Object.defineProperty(event, 'clipboardData', { value: { files } });
+      target.dispatchEvent(event);
+      return event;
+    };
+
+    it('uploads pasted images behind a progress placeholder', async () => {
+      const upload = deferred();
+      let context: UploadContext | undefined;
+      const uploadAdapter = jest.fn((_file: File, uploadContext: UploadContext) => {
+        context = uploadContext;
+        return upload.promise;
+      });
+      const onChange = jest.fn();
+      const onImageUpload = jest.fn();
+      render(
+        <JoditEditor value="<p>Photo:</p>" uploadAdapter={uploadAdapter} onChange={onChange} onImageUpload={onImageUpload} />
+      );
+      const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+
+      const event = pasteFiles(editor.editor, [image]);
+      expect(event.defaultPrevented).toBe(true);
+      expect(uploadAdapter).toHaveBeenCalledWith(image, expect.objectContaining({ attempt: 1 }));
+
+      const placeholder = editor.editor.querySelector('[role="progressbar"]');
+      expect(placeholder).toHaveTextContent('Uploading front.png… 0%');
+      // Placeholders never reach the emitted content
+      expect(onChange).toHaveBeenLastCalledWith('<p>Photo:</p>');
+
+      context!.onProgress(0.5);
+      expect(placeholder).toHaveTextContent('Uploading front.png… 50%');
+
+      await act(async () => upload.resolve('https://cdn.test/front.png'));
+
+      expect(editor.value).toBe('<p>Photo:</p><img src="https://cdn.test/front.png" alt="front">');
+      expect(onChange).toHaveBeenLastCalledWith('<p>Photo:</p><img src="https://cdn.test/front.png" alt="front">');
+      expect(onImageUpload).toHaveBeenCalledWith(editor.editor.querySelector('img'));
+    });
+
+    it('removes the placeholder and reports uploads that keep failing', async () => {
+      const error = new Error('Square API unavailable');
+      const onUploadError = jest.fn();
+      render(
+        <JoditEditor
+          value=""
+          uploadAdapter={() => Promise.reject(error)}
+          uploadOptions={{ retries: 0 }}
+          onUploadError={onUploadError}
+        />
+      );
+      const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+
+      await act(async () => {
+        pasteFiles(editor.editor, [image]);
+      });
+
+      expect(editor.editor.querySelector('[role="progressbar"]')).toBeNull();
+      expect(onUploadError).toHaveBeenCalledWith(error, image);
+    });
+
+    it('aborts the upload when its placeholder is deleted', () => {
+      let signal: AbortSignal | undefined;
+      render(
+        <JoditEditor
+          value=""
+          uploadAdapter={(_file, context) => {
+            signal = context.signal;
+            return new Promise(() => undefined);
+          }}
+        />
+      );
+      const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+
+      pasteFiles(editor.editor, [image]);
+      expect(signal?.aborted).toBe(false);
+
+      editor.value = '';
+      expect(signal?.aborted).toBe(true);
+    });
+
+    it('leaves files the adapter does not accept to Jodit', () => {
+      const uploadAdapter = jest.fn();
+      render(<JoditEditor value="" uploadAdapter={uploadAdapter} />);
+      const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+
+      const event = pasteFiles(editor.editor, [new File(['pdf'], 'spec.pdf', { type: 'application/pdf' })]);
+
+      expect(event.defaultPrevented).toBe(false);
+      expect(uploadAdapter).not.toHaveBeenCalled();
+    });
+
+    it('takes over file uploads from the image dialog', () => {
+      const uploadAdapter = jest.fn(() => new Promise<string>(() => undefined));
+      render(<JoditEditor value="" uploadAdapter={uploadAdapter} />);
+      const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+      expect((Jodit.make as jest.Mock).mock.calls[0][1].uploader.insertImageAsBase64URI).toBe(true);
+
+      const popup = { container: document.createElement('div'), close: jest.fn() };
+      const input = document.createElement('input');
+      input.type = 'file';
+      Object.defineProperty(input, 'files', { value: [image] });
+      const joditHandler = jest.fn();
+      input.addEventListener('change', joditHandler);
+      popup.container.appendChild(input);
+
+      editor.events.fire('afterOpenPopup', popup);
+      input.dispatchEvent(new Event('change', { bubbles: true }));
+
+      expect(joditHandler).not.toHaveBeenCalled();
+      expect(popup.close).toHaveBeenCalled();
+      expect(uploadAdapter).toHaveBeenCalledWith(image, expect.anything());
+    });
+  });
+
+  describe('collaboration', () => {
+    const renderPeer = (
+      hub: ReturnType<typeof createInMemoryHub>,
+      name: string,
+      props: Partial<React.ComponentProps<typeof JoditEditor>> = {}
+    ) => {
+      const ref = React.createRef<JoditEditorHandle>();
+      const onChange = jest.fn();
+      render(
+        <JoditEditor
+          ref={ref}
+          value="<p>Tee</p>"
+          onChange={onChange}
+          collaboration={{ transport: hub.connect(), user: { name }, clientId: name.toLowerCase(), syncTimeoutMs: 0 }}
+          {...props}
+        />
+      );
+      return { onChange, editor: ref.current!.getInstance()! };
+    };
+
+    const type = (editor: Jodit, html: string) => {
+      act(() => {
+        editor.editor.innerHTML = html;
+        editor.events.fire('change');
+      });
+    };
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('converges peers seeded with the same value and emits the merged content', () => {
+      const hub = createInMemoryHub();
+      const ana = renderPeer(hub, 'Ana');
+      act(() => {
+        jest.runOnlyPendingTimers();
+      });
+      const ben = renderPeer(hub, 'Ben');
+
+      expect(ben.editor.value).toBe('<p>Tee</p>');
+      expect(ben.onChange).not.toHaveBeenCalled();
+
+      type(ana.editor, '<p>Blue Tee</p>');
+      type(ben.editor, '<p>Blue Tee, size M</p>');
+
+      expect(ana.editor.value).toBe('<p>Blue Tee, size M</p>');
+      expect(ben.editor.value).toBe('<p>Blue Tee, size M</p>');
+      expect(ana.onChange).toHaveBeenLastCalledWith('<p>Blue Tee, size M</p>');
+      expect(ben.onChange).toHaveBeenLastCalledWith('<p>Blue Tee, size M</p>');
+    });
+
+    it('adopts the room document over a stale value', () => {
+      const hub = createInMemoryHub();
+      renderPeer(hub, 'Ana', { value: '<p>Saved</p>' });
+      act(() => {
+        jest.runOnlyPendingTimers();
+      });
+      const ben = renderPeer(hub, 'Ben', { value: '<p>Stale</p>' });
+
+      expect(ben.editor.value).toBe('<p>Saved</p>');
+      expect(ben.onChange).toHaveBeenCalledWith('<p>Saved</p>');
+    });
+
+    it('sanitizes content received from peers', () => {
+      const hub = createInMemoryHub();
+      const ana = renderPeer(hub, 'Ana', { sanitize: false });
+      act(() => {
+        jest.runOnlyPendingTimers();
+      });
+      const ben = renderPeer(hub, 'Ben');
+
+      type(ana.editor, '<p onclick="steal()">Tee</p>');
+      expect(ben.editor.value).toBe('<p>Tee</p>');
+    });
+
+    it('shows remote cursors with presence labels', () => {
+      const hub = createInMemoryHub();
+      const onPresenceChange = jest.fn();
+      const ana = renderPeer(hub, 'Ana', {
+        collaboration: { transport: hub.connect(), user: { name: 'Ana', color: '#123456' }, clientId: 'ana', onPresenceChange }
+      });
+      act(() => {
+        jest.runOnlyPendingTimers();
+      });
+      const ben = renderPeer(hub, 'Ben');
+
+      // Selections only exist inside the document
+      document.body.appendChild(ben.editor.container);
+      act(() => {
+        const selection = document.getSelection()!;
+        selection.collapse(ben.editor.editor.querySelector('p')!.firstChild, 2);
+        ben.editor.events.fire('changeSelection');
+      });
+
+      const label = ana.editor.workplace.querySelector('.jodit-react-cursor__label');
+      expect(label).toHaveTextContent('Ben');
+      expect(onPresenceChange).toHaveBeenLastCalledWith([
+        expect.objectContaining({ clientId: 'ben', cursor: 2 })
+      ]);
+
+      act(() => {
+        ben.editor.events.fire('blur');
+      });
+      expect(ana.editor.workplace.querySelector('.jodit-react-cursor')).toBeNull();
+      ben.editor.container.remove();
+    });
+  });
+
+  describe('accessibility', () => {
+    const renderInDocument = (ui: React.ReactElement) => {
+      const result = render(ui, { container: document.body.appendChild(document.createElement('main')) });
+      const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+      // Jodit puts its container after the textarea and hides the textarea
+      const textarea = result.container.querySelector('textarea')!;
+      textarea.style.display = 'none';
+      textarea.after(editor.container);
+      return { ...result, editor };
+    };
+
+    afterEach(() => {
+      document.body.innerHTML = '';
+    });
+
+    it('passes ARIA props, id and required to the editable area', () => {
+      const { rerender } = render(
+        <JoditEditor value="" id="description" aria-label="Description" aria-describedby="hint" required />
+      );
+      const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+
+      expect(editor.editor).toHaveAttribute('role', 'textbox');
+      expect(editor.editor).toHaveAttribute('id', 'description');
+      expect(editor.editor).toHaveAttribute('aria-label', 'Description');
+      expect(editor.editor).toHaveAttribute('aria-describedby', 'hint');
+      expect(editor.editor).toHaveAttribute('aria-required', 'true');
+
+      rerender(<JoditEditor value="" id="description" aria-label="Description" aria-invalid />);
+      expect(editor.editor).toHaveAttribute('aria-invalid', 'true');
+      expect(editor.editor).not.toHaveAttribute('aria-describedby');
+      expect(editor.editor).not.toHaveAttribute('aria-required');
+    });
+
+    it('is named by a label pointing at its id', () => {
+      renderInDocument(
+        <>
+          <label htmlFor="description">Description</label>
+          <JoditEditor value="<p>Tee</p>" id="description" />
+        </>
+      );
+
+      expect(screen.getByRole('textbox', { name: 'Description' })).toHaveAttribute('id', 'description');
+    });
+
+    it('announces formatting commands in a live region', () => {
+      const { editor } = renderInDocument(<JoditEditor value="<p><strong>Sale</strong> today</p>" />);
+      const selection = document.getSelection()!;
+
+      selection.collapse(editor.editor.querySelector('strong').firstChild, 2);
+      act(() => editor.events.fire('afterCommand', 'bold'));
+      expect(screen.getByRole('status')).toHaveTextContent('Bold on');
+
+      selection.collapse(editor.editor.querySelector('p').lastChild, 2);
+      act(() => editor.events.fire('afterCommand', 'bold'));
+      expect(screen.getByRole('status')).toHaveTextContent('Bold off');
+    });
+
+    it('keeps popups inside a surrounding modal and closes them on Escape', () => {
+      const modal = document.body.appendChild(document.createElement('div'));
+      modal.setAttribute('role', 'dialog');
+      modal.setAttribute('aria-modal', 'true');
+      const onModalKeyDown = jest.fn();
+      modal.addEventListener('keydown', onModalKeyDown);
+
+      render(<JoditEditor value="" />, { container: modal });
+      const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+      expect((Jodit.make as jest.Mock).mock.calls[0][1].popupRoot).toBe(modal);
+
+      const popup = { container: modal.appendChild(document.createElement('div')), close: jest.fn() };
+      editor.events.fire('afterOpenPopup', popup);
+      popup.container.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape', bubbles: true }));
+
+      expect(popup.close).toHaveBeenCalled();
+      expect(editor.focus).toHaveBeenCalled();
+      expect(onModalKeyDown).not.toHaveBeenCalled();
+    });
+
+    it('has no axe violations', async () => {
+      const { container } = renderInDocument(
+        <>
+          <label htmlFor="description">Description</label>
+          <JoditEditor value="<p>Organic cotton tee</p>" id="description" squareDescriptionMode />
+        </>
+      );
+
+      expect(await axe(container)).toHaveNoViolations();
+    });
+  });
+
+  describe('content stats', () => {
+    it('reports statistics and limit usage after every change', () => {
+      const onStatsChange = jest.fn();
+      render(<JoditEditor value="<p>Blue tee</p>" contentLimits={[{ max: 3, unit: 'words' }]} onStatsChange={onStatsChange} />);
+      const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+
+      expect(onStatsChange).toHaveBeenLastCalledWith(
+        { characters: 8, words: 2, htmlBytes: 15, plainTextLength: 8 },
+        [{ limit: { max: 3, unit: 'words', mode: 'soft', label: undefined }, used: 2, remaining: 1, exceeded: false }]
+      );
+
+      act(() => {
+        editor.value = '<p>Blue cotton crew tee</p>';
+      });
+      expect(onStatsChange).toHaveBeenLastCalledWith(
+        expect.objectContaining({ words: 4 }),
+        [expect.objectContaining({ remaining: -1, exceeded: true })]
+      );
+    });
+
+    it('shows counts and limits in the status bar', () => {
+      const { container } = render(
+        <JoditEditor value="<p>12345</p>" statusBar contentLimits={[{ max: 10, unit: 'plainTextLength', label: 'Square' }]} />
+      );
+      const statusBar = container.querySelector('.jodit-react-status-bar');
+      expect(statusBar).toHaveTextContent('1 words5 charactersSquare: 5 of 10 plain text characters left');
+
+      const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+      act(() => {
+        editor.value = '<p>123456789012</p>';
+      });
+      expect(statusBar).toHaveClass('jodit-react-status-bar_exceeded');
+      expect(statusBar).toHaveTextContent('Square: 2 plain text characters over the 10 limit');
+    });
+
+    it('stops typing at a hard limit', () => {
+      const onKeyDown = jest.fn();
+      render(<JoditEditor value="<p>12345</p>" contentLimits={[{ max: 5, mode: 'hard' }]} onKeyDown={onKeyDown} />);
+      const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+      const [handler] = editor.events._handlers.keydown;
+
+      const typed = new KeyboardEvent('keydown', { key: 'a', cancelable: true });
+      expect(handler(typed)).toBe(false);
+      expect(typed.defaultPrevented).toBe(true);
+      expect(onKeyDown).not.toHaveBeenCalled();
+
+      handler(new KeyboardEvent('keydown', { key: 'Backspace' }));
+      handler(new KeyboardEvent('keydown', { key: 'Enter' }));
+      expect(onKeyDown).toHaveBeenCalledTimes(2);
+    });
+
+    it('shortens pasted content to a hard limit and announces it', () => {
+      render(<JoditEditor value="<p>12345</p>" contentLimits={[{ max: 8, mode: 'hard' }, { max: 6 }]} />);
+      const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+      const [handler] = editor.events._handlers.beforePasteInsert;
+
+      expect(handler('<strong>ab</strong>')).toBe('<strong>ab</strong>');
+      let pasted = '';
+      act(() => {
+        pasted = handler('<strong onclick="x()">abcdef</strong>');
+      });
+      expect(pasted).toBe('<strong>abc</strong>');
+      expect(screen.getByRole('status')).toHaveTextContent('Pasted content was shortened to fit the length limit');
+    });
+  });
+
+  describe('theming', () => {
+    const mockColorScheme = (dark: boolean) => {
+      const listeners = new Set<() => void>();
+      const query = {
+        matches: dark,
+        addEventListener: (_type: string, listener: () => void) => listeners.add(listener),
+        removeEventListener: (_type: string, listener: () => void) => listeners.delete(listener)
+      };
+      window.matchMedia = jest.fn(() => query as unknown as MediaQueryList);
+      return (nextDark: boolean) => {
+        query.matches = nextDark;
+        listeners.forEach(listener => listener());
+      };
+    };
+
+    afterEach(() => {
+      delete (window as { matchMedia?: unknown }).matchMedia;
+    });
+
+    it('scopes theme variables to each editor', () => {
+      render(
+        <>
+          <JoditEditor value="" theme={{ colorScheme: 'light', tokens: { accent: '#7c3aed', radius: '8px' } }} />
+          <JoditEditor value="" theme="dark" />
+        </>
+      );
+      const [branded, dark] = (Jodit.make as jest.Mock).mock.results.map(result => result.value);
+      const [brandedOptions, darkOptions] = (Jodit.make as jest.Mock).mock.calls.map(call => call[1]);
+
+      expect(branded.container.style.getPropertyValue('--jd-color-border-selected')).toBe('#7c3aed');
+      expect(branded.container.style.getPropertyValue('--jd-border-radius-default')).toBe('8px');
+      expect(branded.container.style.getPropertyValue('color-scheme')).toBe('light');
+      expect(brandedOptions.theme).toBe('default');
+      expect(dark.container.style.getPropertyValue('--jd-border-radius-default')).toBe('');
+      expect(dark.container.style.getPropertyValue('--jd-color-background-default')).toBe('#1f1f1f');
+      expect(darkOptions.theme).toBe('dark');
+      expect(document.documentElement.style.getPropertyValue('--jd-color-background-default')).toBe('');
+    });
+
+    it('follows prefers-color-scheme in auto mode', () => {
+      const setDark = mockColorScheme(false);
+      render(<JoditEditor value="" theme={{ dark: { background: '#000000' } }} />);
+      const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+
+      expect(editor.container.style.getPropertyValue('--jd-color-background-default')).toBe('#ffffff');
+
+      act(() => setDark(true));
+      expect(editor.container.style.getPropertyValue('--jd-color-background-default')).toBe('#000000');
+      expect(editor.container).toHaveClass('jodit_theme_dark');
+      expect(Jodit.make).toHaveBeenCalledTimes(1);
+    });
+
+    it('themes popups and removes the variables with the theme', () => {
+      const { rerender } = render(<JoditEditor value="" theme="dark" />);
+      const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+      const popup = { container: document.createElement('div'), close: jest.fn() };
+
+      act(() => editor.events.fire('afterOpenPopup', popup));
+      expect(popup.container.style.getPropertyValue('--jd-color-text')).toBe('#e6e6e6');
+
+      rerender(<JoditEditor value="" />);
+      expect(editor.container.style.getPropertyValue('--jd-color-text')).toBe('');
+    });
+  });
+
+  describe('localization', () => {
+    it('loads the messages of the locale', async () => {
+      render(<JoditEditor defaultValue="<p>Tee</p>" locale="fr-CA" statusBar contentLimits={[{ max: 10 }]} />);
+
+      expect(await screen.findByText('1 mot')).toBeInTheDocument();
+      expect(screen.getByText('3 caractères')).toBeInTheDocument();
+      expect(screen.getByText('7 caractères restants sur 10')).toBeInTheDocument();
+    });
+
+    it('translates the draft prompt and upload placeholders', async () => {
+      const storage = {
+        load: async () => ({ content: '<p>draft</p>', baseValue: '<p>Tee</p>', savedAt: Date.now() }),
+        save: jest.fn(),
+        remove: jest.fn()
+      };
+      const uploadAdapter = jest.fn(() => new Promise<string>(() => undefined));
+      render(<JoditEditor name="description" value="<p>Tee</p>" locale="fr" autosave={{ storage }} uploadAdapter={uploadAdapter} />);
+      const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+
+      expect(await screen.findByRole('button', { name: 'Restaurer le brouillon' })).toBeInTheDocument();
+      expect(screen.getByRole('alert')).toHaveTextContent('Restaurer le brouillon non enregistré du');
+
+      const paste = new Event('paste', { bubbles: true, cancelable: true });
+      Object.defineProperty(paste, 'clipboardData', { value: { files: [new File(['png'], 'front.png', { type: 'image/png' })] } });
+      act(() => {
+        editor.editor.dispatchEvent(paste);
+      });
+      expect(editor.editor.querySelector('[role="progressbar"]')).toHaveAttribute('aria-label', 'Envoi de front.png');
+    });
+
+    it('switches the direction without rebuilding the editor', () => {
+      const { rerender } = render(<JoditEditor value="" />);
+      const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+
+      rerender(<JoditEditor value="" direction="rtl" />);
+      expect(editor.editor).toHaveAttribute('dir', 'rtl');
+      expect(editor.container.style.direction).toBe('rtl');
+
+      rerender(<JoditEditor value="" />);
+      expect(editor.container).not.toHaveAttribute('dir');
+      expect(Jodit.make).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('provider', () => {
+    const ActiveEditor = () => {
+      const { names, activeName } = useEditorManager();
+      return <output>{`${names.join(',')} / ${activeName}`}</output>;
+    };
+
+    it('renders one toolbar bound to the focused editor', () => {
+      const onActiveChange = jest.fn();
+      const { container } = render(
+        <JoditEditorProvider config={{ height: 200, toolbarButtonSize: 'small' }} stickyOffset={48} onActiveChange={onActiveChange}>
+          <JoditEditor name="description" defaultValue="<p>Tee</p>" config={{ height: 400 }} />
+          <JoditEditor name="care" defaultValue="<p>Wash cold</p>" />
+          <ActiveEditor />
+        </JoditEditorProvider>
+      );
+      const toolbar = container.querySelector<HTMLElement>('.jodit-react-shared-toolbar')!;
+      const [description, care] = (Jodit.make as jest.Mock).mock.results.map(result => result.value);
+      const [descriptionOptions, careOptions] = (Jodit.make as jest.Mock).mock.calls.map(call => call[1]);
+
+      expect(toolbar.style.position).toBe('sticky');
+      expect(toolbar.style.top).toBe('48px');
+      expect(descriptionOptions).toEqual(expect.objectContaining({ height: 400, toolbarButtonSize: 'small', toolbarSticky: false }));
+      expect(careOptions.height).toBe(200);
+      const slots = Array.from(toolbar.children) as HTMLElement[];
+      expect(slots).toEqual([descriptionOptions.toolbar, careOptions.toolbar]);
+      expect(slots.map(slot => slot.hidden)).toEqual([false, true]);
+      expect(container.querySelector('output')).toHaveTextContent('description,care / description');
+
+      act(() => care.events.fire('focus'));
+      expect(slots.map(slot => slot.hidden)).toEqual([true, false]);
+      expect(onActiveChange).toHaveBeenLastCalledWith('care');
+      expect(container.querySelector('output')).toHaveTextContent('description,care / care');
+
+      act(() => description.events.fire('focus'));
+      expect(slots.map(slot => slot.hidden)).toEqual([false, true]);
+    });
+
+    it('deep-merges nested sections of the shared config', () => {
+      render(
+        <JoditEditorProvider config={{ uploader: { url: '/upload', headers: { 'X-Shop': 'tees' } } }} sharedToolbar={false}>
+          <JoditEditor name="description" config={{ uploader: { format: 'json' } }} />
+        </JoditEditorProvider>
+      );
+
+      expect((Jodit.make as jest.Mock).mock.calls[0][1].uploader).toEqual({
+        withCredentials: true,
+        url: '/upload',
+        headers: { 'X-Shop': 'tees' },
+        format: 'json'
+      });
+    });
+
+    it('returns the values of all editors', () => {
+      const manager = React.createRef<EditorManager>();
+      render(
+        <JoditEditorProvider ref={manager}>
+          <JoditEditor name="description" value="<p>Tee</p>" />
+          <JoditEditor name="faq" format="markdown" defaultValue="**Sizes?** S to XL" />
+        </JoditEditorProvider>
+      );
+      const [description] = (Jodit.make as jest.Mock).mock.results.map(result => result.value);
+
+      description.value = '<p>Blue tee</p>';
+      expect(manager.current!.getValues()).toEqual({ description: '<p>Blue tee</p>', faq: '**Sizes?** S to XL' });
+      expect(manager.current!.getEditor('faq')?.getValue()).toBe('**Sizes?** S to XL');
+      expect(manager.current!.getEditor('missing')).toBeNull();
+    });
+
+    it('registers shared plugins once and forgets unmounted editors', () => {
+      const JoditMock = Jodit as unknown as { plugins?: { add: jest.Mock } };
+      JoditMock.plugins = { add: jest.fn() };
+      const highlight = jest.fn();
+      const manager = React.createRef<EditorManager>();
+      const ProductForm = ({ showFaq }: { showFaq: boolean }) => (
+        <JoditEditorProvider ref={manager} plugins={{ highlight }}>
+          <JoditEditor name="description" />
+          {showFaq && <JoditEditor name="faq" />}
+        </JoditEditorProvider>
+      );
+
+      try {
+        const { container, rerender } = render(<ProductForm showFaq />);
+        expect(JoditMock.plugins.add).toHaveBeenCalledTimes(1);
+        expect(JoditMock.plugins.add).toHaveBeenCalledWith('highlight', highlight);
+
+        const faq = (Jodit.make as jest.Mock).mock.results[1].value;
+        act(() => faq.events.fire('focus'));
+        rerender(<ProductForm showFaq={false} />);
+
+        expect(manager.current!.getNames()).toEqual(['description']);
+        expect(manager.current!.getActiveName()).toBe('description');
+        expect(container.querySelectorAll('.jodit-react-shared-toolbar__slot')).toHaveLength(1);
+      } finally {
+        delete JoditMock.plugins;
+      }
+    });
+
+    it('keeps a toolbar per editor without a shared toolbar', () => {
+      const { container } = render(
+        <JoditEditorProvider sharedToolbar={false}>
+          <JoditEditor name="description" />
+        </JoditEditorProvider>
+      );
+
+      expect(container.querySelector('.jodit-react-shared-toolbar')).toBeNull();
+      expect((Jodit.make as jest.Mock).mock.calls[0][1]).not.toHaveProperty('toolbar');
+    });
+
+    it('requires a provider for useEditorManager', () => {
+      const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      expect(() => render(<ActiveEditor />)).toThrow('useEditorManager must be used inside a JoditEditorProvider');
+      consoleError.mockRestore();
+    });
+  });
+
+  describe('forms', () => {
+    const renderInForm = (ui: React.ReactElement) => {
+      const result = render(<form aria-label="Product">{ui}</form>);
+      const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+      const form = result.container.querySelector('form')!;
+      return { ...result, editor, form, textarea: form.querySelector('textarea')! };
+    };
+
+    it('keeps the textarea in sync with the emitted content', () => {
+      const { editor, form, textarea } = renderInForm(
+        <JoditEditor name="description" defaultValue="<p>Tee</p>" sanitize />
+      );
+      expect(textarea.value).toBe('<p>Tee</p>');
+
+      act(() => {
+        editor.value = '<p onclick="x()">Blue tee</p>';
+      });
+      expect(textarea.value).toBe('<p>Blue tee</p>');
+      expect(new FormData(form).get('description')).toBe('<p>Blue tee</p>');
+    });
+
+    it('emits pending changes on submit and puts the latest content in the form data', () => {
+      const onChange = jest.fn();
+      const { editor, form } = renderInForm(
+        <JoditEditor name="description" value="<p>Tee</p>" onChange={onChange} changeDebounceMs={10000} />
+      );
+      act(() => {
+        editor.value = '<p>Blue tee</p>';
+      });
+      expect(onChange).not.toHaveBeenCalled();
+
+      // jsdom does not fire formdata events itself
+      const formData = new FormData();
+      form.dispatchEvent(Object.assign(new Event('formdata'), { formData }));
+      expect(formData.get('description')).toBe('<p>Blue tee</p>');
+
+      fireEvent.submit(form);
+      expect(onChange).toHaveBeenCalledWith('<p>Blue tee</p>');
+    });
+
+    it('restores the initial content on a native reset', () => {
+      const onChange = jest.fn();
+      const { editor, form, textarea } = renderInForm(
+        <JoditEditor name="description" defaultValue="<p>Tee</p>" onChange={onChange} />
+      );
+      act(() => {
+        editor.value = '<p>Blue tee</p>';
+      });
+
+      act(() => form.reset());
+      expect(editor.value).toBe('<p>Tee</p>');
+      expect(onChange).toHaveBeenLastCalledWith('<p>Tee</p>');
+      expect(textarea.value).toBe('<p>Tee</p>');
+    });
+
+    it('validates required and maxLength and shows the message once reported', () => {
+      const { editor, form } = renderInForm(
+        <JoditEditor name="description" defaultValue="<p><br></p>" required maxLength={8} />
+      );
+      expect(screen.queryByRole('alert')).toBeNull();
+
+      act(() => {
+        form.checkValidity();
+      });
+      expect(screen.getByRole('alert')).toHaveTextContent('Please fill in this field.');
+      expect(editor.editor).toHaveAttribute('aria-invalid', 'true');
+      expect(editor.focus).toHaveBeenCalled();
+
+      act(() => {
+        editor.value = '<p>Organic tee</p>';
+      });
+      expect(form.checkValidity()).toBe(false);
+      expect(screen.getByRole('alert')).toHaveTextContent('no more than 8 characters (you are currently using 11)');
+
+      act(() => {
+        editor.value = '<p>Tee</p>';
+      });
+      expect(form.checkValidity()).toBe(true);
+      expect(screen.queryByRole('alert')).toBeNull();
+      expect(editor.editor).not.toHaveAttribute('aria-invalid');
+    });
+
+    it('connects to react-hook-form through the Controller render props', () => {
+      const field = { name: 'description', value: '<p>Tee</p>', onChange: jest.fn(), onBlur: jest.fn(), ref: jest.fn() };
+      render(
+        <HookFormEditor
+          field={field}
+          fieldState={{ error: { message: 'Add a longer description' } }}
+          formState={{}}
+          label="Description"
+        />
+      );
+      const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+
+      expect(field.ref).toHaveBeenCalledWith(expect.objectContaining({ focus: expect.any(Function) }));
+      expect(screen.getByRole('alert')).toHaveTextContent('Add a longer description');
+      expect(editor.editor).toHaveAttribute('aria-invalid', 'true');
+      expect(editor.editor.getAttribute('aria-describedby')).toBe(screen.getByRole('alert').id);
+
+      act(() => {
+        editor.value = '<p>Blue tee</p>';
+        editor.events.fire('blur');
+      });
+      expect(field.onChange).toHaveBeenCalledWith('<p>Blue tee</p>');
+      expect(field.onBlur).toHaveBeenCalled();
+    });
+
+    it('connects to Formik and shows errors of touched fields', () => {
+      const form = {
+        setFieldValue: jest.fn(),
+        setFieldTouched: jest.fn(),
+        errors: { product: { description: 'Required' } },
+        touched: {}
+      };
+      const field = { name: 'product.description', value: '' };
+      const { rerender } = render(<FormikEditor field={field} form={form} label="Description" />);
+      const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+      expect(screen.queryByRole('alert')).toBeNull();
+
+      act(() => {
+        editor.value = '<p>Tee</p>';
+        editor.events.fire('blur');
+      });
+      expect(form.setFieldValue).toHaveBeenCalledWith('product.description', '<p>Tee</p>');
+      expect(form.setFieldTouched).toHaveBeenCalledWith('product.description', true);
+
+      rerender(<FormikEditor field={field} form={{ ...form, touched: { product: { description: true } } }} label="Description" />);
+      expect(screen.getByRole('alert')).toHaveTextContent('Required');
+    });
+  });
+
+  describe('proofing', () => {
+    const renderWithProofing = (props: Partial<React.ComponentProps<typeof JoditEditor>> = {}) => {
+      const ref = React.createRef<JoditEditorHandle>();
+      const onChange = jest.fn();
+      const { rerender } = render(
+        <JoditEditor
+          ref={ref}
+          defaultValue="<p>Teh shirt is realy soft</p>"
+          onChange={onChange}
+          proofing={{ delayMs: 0 }}
+          {...props}
+        />
+      );
+      const editor = ref.current!.getInstance()!;
+      // Selections only exist inside the document
+      document.body.appendChild(editor.container);
+      return { editor, onChange, rerender };
+    };
+
+    const getMarks = (editor: Jodit) => Array.from(editor.workplace.querySelectorAll('.jodit-react-proofing-mark'));
+
+    const placeCaret = (editor: Jodit, offset: number) => {
+      act(() => {
+        document.getSelection()!.collapse(editor.editor.querySelector('p')!.firstChild, offset);
+      });
+    };
+
+    const press = (editor: Jodit, key: string, init: KeyboardEventInit = {}) => {
+      act(() => {
+        editor.events.fire('keydown', new KeyboardEvent('keydown', { key, ...init }));
+      });
+    };
+
+    afterEach(() => {
+      document.body.innerHTML = '';
+    });
+
+    it('underlines issues found by the local dictionary once typing pauses', async () => {
+      const { editor } = renderWithProofing();
+
+      await waitFor(() => expect(getMarks(editor)).toHaveLength(2));
+      expect(getMarks(editor)[0]).toHaveClass('jodit-react-proofing-mark_spelling');
+      expect(editor.editor.innerHTML).toBe('<p>Teh shirt is realy soft</p>');
+    });
+
+    it('replaces an issue with a clicked suggestion', async () => {
+      const { editor, onChange } = renderWithProofing();
+      await waitFor(() => expect(getMarks(editor)).toHaveLength(2));
+
+      placeCaret(editor, 15);
+      act(() => {
+        editor.events.fire('click');
+      });
+      expect(screen.getByRole('group', { name: 'Spelling' })).toBeInTheDocument();
+      fireEvent.click(screen.getByRole('option', { name: 'really' }));
+
+      expect(editor.editor.innerHTML).toBe('<p>Teh shirt is really soft</p>');
+      expect(onChange).toHaveBeenLastCalledWith('<p>Teh shirt is really soft</p>');
+      expect(screen.queryByRole('listbox')).toBeNull();
+      await waitFor(() => expect(getMarks(editor)).toHaveLength(1));
+    });
+
+    it('opens the suggestions at the caret with Alt+Enter', async () => {
+      const { editor } = renderWithProofing({ 'aria-label': 'Description' });
+      await waitFor(() => expect(getMarks(editor)).toHaveLength(2));
+
+      placeCaret(editor, 1);
+      press(editor, 'Enter', { altKey: true });
+      expect(screen.getByRole('option', { name: 'The' })).toHaveAttribute('aria-selected', 'true');
+      expect(await axe(editor.workplace)).toHaveNoViolations();
+      press(editor, 'Escape');
+      expect(screen.queryByRole('listbox')).toBeNull();
+
+      press(editor, 'Enter', { altKey: true });
+      press(editor, 'Enter');
+      expect(editor.editor.innerHTML).toBe('<p>The shirt is realy soft</p>');
+    });
+
+    it('leaves keys to the editor while a clicked popover is open', async () => {
+      const { editor } = renderWithProofing();
+      await waitFor(() => expect(getMarks(editor)).toHaveLength(2));
+
+      placeCaret(editor, 1);
+      act(() => {
+        editor.events.fire('click');
+      });
+      press(editor, 'Enter');
+
+      expect(screen.queryByRole('listbox')).toBeNull();
+      expect(editor.editor.innerHTML).toBe('<p>Teh shirt is realy soft</p>');
+    });
+
+    it('stops reporting ignored words', async () => {
+      const { editor } = renderWithProofing({ proofing: { delayMs: 0, ignore: ['Teh'] } });
+      await waitFor(() => expect(getMarks(editor)).toHaveLength(1));
+
+      placeCaret(editor, 15);
+      act(() => {
+        editor.events.fire('click');
+      });
+      fireEvent.click(screen.getByRole('button', { name: 'Ignore' }));
+
+      expect(getMarks(editor)).toHaveLength(0);
+      expect(screen.queryByRole('button', { name: 'Ignore' })).toBeNull();
+    });
+
+    it('checks only edited ranges with a custom provider', async () => {
+      // Reports the second and third letter of the last range
+      const provider = jest.fn(async (ranges: ProofingRange[]) => {
+        const { start } = ranges[ranges.length - 1];
+        return [{ start: start + 1, end: start + 3, type: 'grammar' as const, suggestions: [] }];
+      });
+      const { editor } = renderWithProofing({
+        defaultValue: '<p>One</p><p>Two</p>',
+        locale: 'fr',
+        proofing: { provider, delayMs: 0 }
+      });
+
+      await waitFor(() => expect(getMarks(editor)).toHaveLength(1));
+      expect(provider).toHaveBeenCalledWith(
+        [{ text: 'One', start: 0 }, { text: 'Two', start: 3 }],
+        expect.objectContaining({ locale: 'fr', signal: expect.any(AbortSignal) })
+      );
+
+      act(() => {
+        editor.value = '<p>One</p><p>Three</p>';
+      });
+      await waitFor(() => expect(provider).toHaveBeenCalledTimes(2));
+      expect(provider).toHaveBeenLastCalledWith([{ text: 'Three', start: 3 }], expect.anything());
+
+      act(() => {
+        document.getSelection()!.collapse(editor.editor.querySelectorAll('p')[1].firstChild, 2);
+        editor.events.fire('click');
+      });
+      const popover = await screen.findByRole('group', { name: 'Grammaire' });
+      expect(popover).toHaveTextContent('Aucune suggestion');
+      expect(screen.getByRole('button', { name: 'Ignorer' })).toBeInTheDocument();
+    });
+
+    it('removes the marks when proofing is turned off', async () => {
+      const { editor, rerender } = renderWithProofing();
+      await waitFor(() => expect(getMarks(editor)).toHaveLength(2));
+
+      rerender(<JoditEditor defaultValue="<p>Teh shirt is realy soft</p>" proofing={false} />);
+      expect(getMarks(editor)).toHaveLength(0);
+      expect(Jodit.make).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('suggestions', () => {
+    const products = [
+      { id: 'sq_1', label: 'Blue Tee', description: '$20.00' },
+      { id: 'sq_2', label: 'Blue Hoodie' }
+    ];
+
+    const renderWithProvider = (props: Partial<React.ComponentProps<typeof JoditEditor>> = {}) => {
+      const ref = React.createRef<JoditEditorHandle>();
+      const onChange = jest.fn();
+      const suggestionProvider = jest.fn(async () => products);
+      render(
+        <JoditEditor ref={ref} value="" onChange={onChange} suggestionProvider={suggestionProvider} {...props} />
+      );
+      const editor = ref.current!.getInstance()!;
+      // Selections only exist inside the document
+      document.body.appendChild(editor.container);
+      return { editor, onChange, suggestionProvider };
+    };
+
+    const typeText = async (editor: Jodit, text: string) => {
+      await act(async () => {
+        editor.editor.innerHTML = `<p>${text}</p>`;
+        document.getSelection()!.collapse(editor.editor.querySelector('p')!.firstChild, text.length);
+        editor.events.fire('change');
+      });
+    };
+
+    const press = (editor: Jodit, key: string) => {
+      act(() => {
+        editor.events.fire('keydown', new KeyboardEvent('keydown', { key }));
+      });
+    };
+
+    afterEach(() => {
+      document.body.innerHTML = '';
+    });
+
+    it('queries the provider for the text after a trigger', async () => {
+      const { editor, suggestionProvider } = renderWithProvider();
+      await typeText(editor, 'See /product blu');
+
+      expect(suggestionProvider).toHaveBeenCalledWith('blu', expect.objectContaining({
+        trigger: expect.objectContaining({ type: 'product' })
+      }));
+      expect(screen.getAllByRole('option').map(option => option.textContent)).toEqual([
+        'Blue Tee$20.00',
+        'Blue Hoodie'
+      ]);
+    });
+
+    it('inserts the chosen suggestion as an atomic reference node', async () => {
+      const { editor, onChange } = renderWithProvider();
+      await typeText(editor, 'Pairs with /product blu');
+
+      press(editor, 'ArrowDown');
+      expect(screen.getByRole('option', { name: 'Blue Hoodie' })).toHaveAttribute('aria-selected', 'true');
+      press(editor, 'Enter');
+
+      const reference = editor.editor.querySelector('[data-reference-id]')!;
+      expect(reference).toHaveAttribute('data-reference-type', 'product');
+      expect(reference).toHaveAttribute('contenteditable', 'false');
+      expect(reference).toHaveTextContent('Blue Hoodie');
+      expect(screen.queryByRole('listbox')).toBeNull();
+      expect(onChange).toHaveBeenLastCalledWith(expect.stringContaining(
+        'Pairs with <span class="jodit-react-reference jodit-react-reference_product" data-reference-type="product" data-reference-id="sq_2" contenteditable="false">Blue Hoodie</span>'
+      ));
+    });
+
+    it('keeps the trigger in mention nodes and accepts clicks', async () => {
+      const { editor } = renderWithProvider({
+        suggestionProvider: async () => [{ id: 'u1', label: 'ana' }]
+      });
+      await typeText(editor, 'Thanks @an');
+
+      act(() => {
+        screen.getByRole('option', { name: 'ana' }).click();
+      });
+      expect(editor.editor.querySelector('[data-reference-type="mention"]')).toHaveTextContent('@ana');
+    });
+
+    it('closes on Escape until the trigger is left', async () => {
+      const { editor, suggestionProvider } = renderWithProvider();
+      await typeText(editor, '#blu');
+      press(editor, 'Escape');
+      expect(screen.queryByRole('listbox')).toBeNull();
+
+      await act(async () => {
+        const text = editor.editor.querySelector('p')!.firstChild as Text;
+        text.appendData('e');
+        document.getSelection()!.collapse(text, text.length);
+        editor.events.fire('change');
+      });
+      expect(screen.queryByRole('listbox')).toBeNull();
+      expect(suggestionProvider).toHaveBeenCalledTimes(1);
+    });
+
+    it('reports provider errors', async () => {
+      const onError = jest.fn();
+      const { editor } = renderWithProvider({
+        onError,
+        suggestionProvider: () => Promise.reject(new Error('Catalog unavailable'))
+      });
+      await typeText(editor, '@an');
+
+      expect(onError).toHaveBeenCalledWith(new Error('Catalog unavailable'));
+      expect(screen.queryByRole('listbox')).toBeNull();
+    });
+
+    describe('slash commands', () => {
+      const renderWithCommands = (commands: EditorCommand[], props: Partial<React.ComponentProps<typeof JoditEditor>> = {}) => {
+        const ref = React.createRef<JoditEditorHandle>();
+        render(<JoditEditor ref={ref} value="" commands={commands} {...props} />);
+        const editor = ref.current!.getInstance()!;
+        document.body.appendChild(editor.container);
+        return editor;
+      };
+
+      it('filters commands and inserts the chosen block in place of the query', async () => {
+        const editor = renderWithCommands(DEFAULT_COMMANDS);
+        await typeText(editor, 'Sizes /tbl');
+
+        expect(screen.getAllByRole('option').map(option => option.textContent)).toEqual([
+          'TableSize chart or specifications'
+        ]);
+        press(editor, 'Enter');
+
+        expect(editor.editor.innerHTML).toBe('<p>Sizes </p>');
+        expect(editor.s.insertHTML).toHaveBeenCalledWith(expect.stringMatching(/^<table><thead>/));
+      });
+
+      it('runs registered commands and sanitizes their HTML', async () => {
+        const unregister = registerCommand({
+          id: 'shipping',
+          title: 'Shipping note',
+          html: '<p onclick="x()">Ships in 2 days</p>'
+        });
+        const editor = renderWithCommands([]);
+        await typeText(editor, '/ship');
+        press(editor, 'Enter');
+        unregister();
+
+        expect(editor.s.insertHTML).toHaveBeenCalledWith('<p>Ships in 2 days</p>');
+      });
+
+      it('inserts the result of async commands at the typed position', async () => {
+        let pick: (product: SquareCatalogObject) => void = () => undefined;
+        const editor = renderWithCommands([
+          createProductCardCommand(() => new Promise(resolve => {
+            pick = resolve;
+          }))
+        ]);
+        await typeText(editor, '/card');
+        press(editor, 'Enter');
+        expect(editor.s.insertHTML).not.toHaveBeenCalled();
+
+        await act(async () => {
+          pick({
+            type: SquareCatalogObjectType.ITEM,
+            id: 'sq_tee',
+            updated_at: '',
+            version: 1,
+            is_deleted: false,
+            present_at_all_locations: true,
+            item_data: { name: 'Blue Tee' }
+          });
+        });
+        expect(editor.s.insertHTML).toHaveBeenCalledWith('<div class="jodit-react-product-card"><h3>Blue Tee</h3></div>');
+      });
+
+      it('leaves /product to the product suggestions', async () => {
+        const suggestionProvider = jest.fn(async () => [{ id: 'sq_tee', label: 'Blue Tee' }]);
+        const editor = renderWithCommands(DEFAULT_COMMANDS, { suggestionProvider });
+        await typeText(editor, '/product');
+
+        expect(suggestionProvider).toHaveBeenCalledWith('', expect.anything());
+        expect(screen.getByRole('option')).toHaveTextContent('Blue Tee');
+      });
+    });
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Markdown documents that must survive a Markdown -> HTML -> Markdown
+ * round trip unchanged. Each fixture is written in the canonical style
+ * produced by htmlToMarkdown.
+ */
+export interface MarkdownFixture {
+  name: string;
+  markdown: string;
+  html: string;
+}
+
+export const markdownFixtures: MarkdownFixture[] = [
+  {
+    name: 'headings and paragraphs',
+    markdown: '# Summer collection\n\n## Linen shirts\n\nBreathable linen for hot days.\n\nMachine washable.',
+    html:
+      '<h1>Summer collection</h1><h2>Linen shirts</h2>' +
+      '<p>Breathable linen for hot days.</p><p>Machine washable.</p>'
+  },
+  {
+    name: 'inline formatting',
+    markdown: 'A **bold** claim, an _italic_ aside, ~~old price~~ and `SKU-123`.',
+    html:
+      '<p>A <strong>bold</strong> claim, an <em>italic</em> aside, ' +
+      '<del>old price</del> and <code>SKU-123</code>.</p>'
+  },
+  {
+    name: 'links and images',
+    markdown:
+      'See the [size guide](https://shop.test/sizes "Sizes") or [contact us](mailto:help@shop.test).\n\n' +
+      '![Front view](https://cdn.shop.test/front.jpg "Front")',
+    html:
+      '<p>See the <a href="https://shop.test/sizes" title="Sizes">size guide</a> or ' +
+      '<a href="mailto:help@shop.test">contact us</a>.</p>' +
+      '<p><img src="https://cdn.shop.test/front.jpg" alt="Front view" title="Front"></p>'
+  },
+  {
+    name: 'nested lists',
+    markdown: '- Cotton\n  - Organic\n  - Recycled\n- Linen\n\n1. Order\n2. Pack\n   1. Wrap\n3. Ship',
+    html:
+      '<ul><li>Cotton<ul><li>Organic</li><li>Recycled</li></ul></li><li>Linen</li></ul>' +
+      '<ol><li>Order</li><li>Pack<ol><li>Wrap</li></ol></li><li>Ship</li></ol>'
+  },
+  {
+    name: 'ordered list with start number',
+    markdown: '3. Third\n4. Fourth',
+    html: '<ol start="3"><li>Third</li><li>Fourth</li></ol>'
+  },
+  {
+    name: 'tables with alignment',
+    markdown:
+      '| Size | Chest | Price |\n| :--- | :---: | ---: |\n| S | 36 | $20 |\n| M | 40 | **$22** |',
+    html:
+      '<table><thead><tr><th style="text-align: left;">Size</th>' +
+      '<th style="text-align: center;">Chest</th><th style="text-align: right;">Price</th></tr></thead>' +
+      '<tbody><tr><td style="text-align: left;">S</td><td style="text-align: center;">36</td>' +
+      '<td style="text-align: right;">$20</td></tr>' +
+      '<tr><td style="text-align: left;">M</td><td style="text-align: center;">40</td>' +
+      '<td style="text-align: right;"><strong>$22</strong></td></tr></tbody></table>'
+  },
+  {
+    name: 'table cells with pipes',
+    markdown: '| Option | Values |\n| --- | --- |\n| Color | Red \\| Blue |',
+    html:
+      '<table><thead><tr><th>Option</th><th>Values</th></tr></thead>' +
+      '<tbody><tr><td>Color</td><td>Red | Blue</td></tr></tbody></table>'
+  },
+  {
+    name: 'fenced code blocks',
+    markdown: '```json\n{\n  "sku": "TEE-1",\n  "price": 20\n}\n```\n\n```\nplain <b>text</b>\n```',
+    html:
+      '<pre><code class="language-json">{\n  "sku": "TEE-1",\n  "price": 20\n}</code></pre>' +
+      '<pre><code>plain &lt;b&gt;text&lt;/b&gt;</code></pre>'
+  },
+  {
+    name: 'blockquotes and rules',
+    markdown: '> Best shirt I own.\n>\n> _A customer_\n\n---\n\nThanks!',
+    html: '<blockquote><p>Best shirt I own.</p><p><em>A customer</em></p></blockquote><hr><p>Thanks!</p>'
+  },
+  {
+    name: 'hard line breaks',
+    markdown: '123 Main St\\\nSpringfield',
+    html: '<p>123 Main St<br>Springfield</p>'
+  },
+  {
+    name: 'escaped Markdown characters',
+    markdown: 'Use \\*asterisks\\*, \\_underscores\\_ and 2 \\< 3 literally.\n\n\\# Not a heading',
+    html: '<p>Use *asterisks*, _underscores_ and 2 &lt; 3 literally.</p><p># Not a heading</p>'
+  },
+  {
+    name: 'inline HTML without a Markdown equivalent',
+    markdown: 'H<sub>2</sub>O is <u>wet</u>.',
+    html: '<p>H<sub>2</sub>O is <u>wet</u>.</p>'
+  },
+  {
+    name: 'links with escaped labels and linked images',
+    markdown: 'See [sizes \\[EU\\]](https://shop.test/sizes).\n\n[![Front view](https://cdn.shop.test/front.jpg)](https://shop.test/tee)',
+    html:
+      '<p>See <a href="https://shop.test/sizes">sizes [EU]</a>.</p>' +
+      '<p><a href="https://shop.test/tee"><img src="https://cdn.shop.test/front.jpg" alt="Front view"></a></p>'
+  },
+  {
+    name: 'mention and product references',
+    markdown:
+      'Pairs with <span data-reference-type="product" data-reference-id="sq-1" contenteditable="false">/Blue Tee</span> ' +
+      'by <span data-reference-type="mention" data-reference-id="u-2" contenteditable="false">@Ana_B</span>',
+    html:
+      '<p>Pairs with <span data-reference-type="product" data-reference-id="sq-1" contenteditable="false">/Blue Tee</span> ' +
+      'by <span data-reference-type="mention" data-reference-id="u-2" contenteditable="false">@Ana_B</span></p>'
+  },
+  {
+    name: 'loose lists with several paragraphs per item',
+    markdown: '- Soft cotton\n\n  Machine washable\n\n- Organic',
+    html: '<ul><li><p>Soft cotton</p><p>Machine washable</p></li><li><p>Organic</p></li></ul>'
+  }
+];
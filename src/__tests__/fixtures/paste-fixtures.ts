@@ -0,0 +1,151 @@
+/**
+ * Clipboard HTML as Word, Google Docs and supplier product pages put it
+ * on the clipboard, with the expected result of each paste profile.
+ */
+import type { PasteProfile, PasteSource } from '../../utils/paste-normalize';
+
+export interface PasteFixture {
+  name: string;
+  source: PasteSource;
+  html: string;
+  expected: Record<PasteProfile, string>;
+}
+
+export const pasteFixtures: PasteFixture[] = [
+  {
+    name: 'Word paragraphs and bulleted list',
+    source: 'word',
+    html:
+      '<html xmlns:o="urn:schemas-microsoft-com:office:office" xmlns:w="urn:schemas-microsoft-com:office:word" ' +
+      'xmlns="http://www.w3.org/TR/REC-html40"><head><meta http-equiv=Content-Type content="text/html; charset=utf-8">' +
+      '<meta name=Generator content="Microsoft Word 15"><style><!-- p.MsoNormal {margin:0in; font-size:11.0pt; ' +
+      'font-family:"Calibri",sans-serif;} --></style><!--[if gte mso 9]><xml><o:OfficeDocumentSettings><o:AllowPNG/>' +
+      '</o:OfficeDocumentSettings></xml><![endif]--></head><body lang=EN-US style=\'tab-interval:.5in\'>' +
+      '<!--StartFragment--><p class=MsoNormal><b><span style=\'font-size:14.0pt;font-family:"Arial",sans-serif\'>' +
+      'Organic Cotton Tee<o:p></o:p></span></b></p>\r\n<p class=MsoNormal><span style=\'font-family:"Arial",sans-serif\'>' +
+      'Soft, breathable and\r\n<i>pre-shrunk</i>.<o:p></o:p></span></p>\r\n<p class=MsoNormal><o:p>&nbsp;</o:p></p>\r\n' +
+      '<p class=MsoListParagraphCxSpFirst style=\'text-indent:-.25in;mso-list:l0 level1 lfo1\'><![if !supportLists]>' +
+      '<span style=\'font-family:Symbol;mso-fareast-font-family:Symbol;mso-bidi-font-family:Symbol\'>' +
+      '<span style=\'mso-list:Ignore\'>·<span style=\'font:7.0pt "Times New Roman"\'>&nbsp;&nbsp;&nbsp;&nbsp;&nbsp;&nbsp;&nbsp; ' +
+      '</span></span></span><![endif]>100% organic cotton<o:p></o:p></p>\r\n' +
+      '<p class=MsoListParagraphCxSpLast style=\'text-indent:-.25in;mso-list:l0 level1 lfo1\'><![if !supportLists]>' +
+      '<span style=\'font-family:Symbol;mso-fareast-font-family:Symbol;mso-bidi-font-family:Symbol\'>' +
+      '<span style=\'mso-list:Ignore\'>·<span style=\'font:7.0pt "Times New Roman"\'>&nbsp;&nbsp;&nbsp;&nbsp;&nbsp;&nbsp;&nbsp; ' +
+      '</span></span></span><![endif]><span style=\'color:red\'>Machine washable</span><o:p></o:p></p>\r\n' +
+      '<!--EndFragment--></body></html>',
+    expected: {
+      keepStructure:
+        '<p><strong>Organic Cotton Tee</strong></p>' +
+        '<p>Soft, breathable and <em>pre-shrunk</em>.</p><ul><li>100% organic cotton</li>' +
+        '<li>Machine washable</li></ul>',
+      plainText:
+        '<p>Organic Cotton Tee</p><p>Soft, breathable and pre-shrunk.</p>' +
+        '<p>- 100% organic cotton<br>- Machine washable</p>',
+      squareSafe:
+        '<p><strong>Organic Cotton Tee</strong></p>' +
+        '<p>Soft, breathable and <em>pre-shrunk</em>.</p><ul><li>100% organic cotton</li>' +
+        '<li>Machine washable</li></ul>'
+    }
+  },
+  {
+    name: 'Word numbered list with a nested list and a local image',
+    source: 'word',
+    html:
+      '<p class=MsoNormal style=\'mso-margin-top-alt:auto\'><u><span style=\'mso-bidi-font-weight:bold\'>Care</span></u>' +
+      '<span style=\'mso-spacerun:yes\'>&nbsp;</span><span style=\'font-weight:bold\'>instructions</span></p>' +
+      '<p class=MsoListParagraphCxSpFirst style=\'text-indent:-.25in;mso-list:l1 level1 lfo2\'><![if !supportLists]>' +
+      '<span style=\'mso-list:Ignore\'>1.<span style=\'font:7.0pt "Times New Roman"\'>&nbsp;&nbsp;&nbsp; </span></span>' +
+      '<![endif]>Wash cold<o:p></o:p></p>' +
+      '<p class=MsoListParagraphCxSpMiddle style=\'margin-left:1.0in;text-indent:-.25in;mso-list:l1 level2 lfo2\'>' +
+      '<![if !supportLists]><span style=\'mso-list:Ignore\'>a.<span style=\'font:7.0pt "Times New Roman"\'>&nbsp;&nbsp; ' +
+      '</span></span><![endif]>Inside out<o:p></o:p></p>' +
+      '<p class=MsoListParagraphCxSpLast style=\'text-indent:-.25in;mso-list:l1 level1 lfo2\'><![if !supportLists]>' +
+      '<span style=\'mso-list:Ignore\'>2.<span style=\'font:7.0pt "Times New Roman"\'>&nbsp;&nbsp;&nbsp; </span></span>' +
+      '<![endif]>Tumble dry <span style=\'font-style:italic\'>low</span><o:p></o:p></p>' +
+      '<p class=MsoNormal><!--[if gte vml 1]><v:shape id="Picture_x0020_1" style=\'width:150pt;height:75pt\'>' +
+      '<v:imagedata src="file:///C:/Users/ana/AppData/Local/Temp/msohtmlclip1/01/clip_image001.png"/></v:shape>' +
+      '<![endif]--><![if !vml]><img width=200 height=100 ' +
+      'src="file:///C:/Users/ana/AppData/Local/Temp/msohtmlclip1/01/clip_image002.png" v:shapes="Picture_x0020_1">' +
+      '<![endif]><o:p></o:p></p>',
+    expected: {
+      keepStructure:
+        '<p><u>Care</u>&nbsp;<strong>instructions</strong></p><ol><li>Wash cold<ol>' +
+        '<li>Inside out</li></ol></li><li>Tumble dry <em>low</em></li></ol>',
+      plainText: '<p>Care instructions</p><p>1. Wash cold<br>1. Inside out</p><p>2. Tumble dry low</p>',
+      squareSafe:
+        '<p><u>Care</u>&nbsp;<strong>instructions</strong></p><ol><li>Wash cold<ol>' +
+        '<li>Inside out</li></ol></li><li>Tumble dry <em>low</em></li></ol>'
+    }
+  },
+  {
+    name: 'Google Docs heading, styled spans and list',
+    source: 'googleDocs',
+    html:
+      '<meta charset="utf-8"><b style="font-weight:normal;" id="docs-internal-guid-5c1f8a2e-7fff-3b2d-9a4c-2f1e0d6b7a11">' +
+      '<h2 dir="ltr" style="line-height:1.38;margin-top:18pt;margin-bottom:6pt;"><span style="font-size:16pt;' +
+      'font-family:Arial,sans-serif;color:#000000;background-color:transparent;font-weight:400;font-style:normal;' +
+      'font-variant:normal;text-decoration:none;vertical-align:baseline;white-space:pre;white-space:pre-wrap;">Sizing</span></h2>' +
+      '<p dir="ltr" style="line-height:1.38;margin-top:0pt;margin-bottom:0pt;"><span style="font-size:11pt;' +
+      'font-family:Arial,sans-serif;color:#000000;background-color:transparent;font-weight:700;font-style:normal;' +
+      'font-variant:normal;text-decoration:none;vertical-align:baseline;white-space:pre;white-space:pre-wrap;">' +
+      'Fits true to size.</span><span style="font-size:11pt;font-family:Arial,sans-serif;color:#000000;' +
+      'background-color:transparent;font-weight:400;font-style:italic;font-variant:normal;text-decoration:none;' +
+      'vertical-align:baseline;white-space:pre;white-space:pre-wrap;"> Size up for a relaxed fit.</span></p><br>' +
+      '<ul style="margin-top:0;margin-bottom:0;padding-inline-start:48px;"><li dir="ltr" style="list-style-type:disc;' +
+      'font-size:11pt;font-family:Arial,sans-serif;color:#000000;background-color:transparent;font-weight:400;' +
+      'font-style:normal;font-variant:normal;text-decoration:none;vertical-align:baseline;white-space:pre;" ' +
+      'aria-level="1"><p dir="ltr" style="line-height:1.38;margin-top:0pt;margin-bottom:0pt;" role="presentation">' +
+      '<span style="font-size:11pt;font-family:Arial,sans-serif;color:#000000;background-color:transparent;' +
+      'font-weight:400;font-style:normal;font-variant:normal;text-decoration:underline;' +
+      '-webkit-text-decoration-skip:none;text-decoration-skip-ink:none;vertical-align:baseline;white-space:pre;' +
+      'white-space:pre-wrap;">S</span><span style="font-size:11pt;font-family:Arial,sans-serif;color:#000000;' +
+      'background-color:transparent;font-weight:400;font-style:normal;font-variant:normal;text-decoration:none;' +
+      'vertical-align:baseline;white-space:pre;white-space:pre-wrap;">: chest 36 in</span></p></li>' +
+      '<li dir="ltr" style="list-style-type:disc;font-size:11pt;font-family:Arial,sans-serif;" aria-level="1">' +
+      '<p dir="ltr" style="line-height:1.38;margin-top:0pt;margin-bottom:0pt;" role="presentation">' +
+      '<span style="font-size:11pt;font-family:Arial,sans-serif;vertical-align:super;">†</span>' +
+      '<span style="font-size:11pt;font-family:Arial,sans-serif;">Measured flat</span></p></li></ul><br></b>' +
+      '<br class="Apple-interchange-newline">',
+    expected: {
+      keepStructure:
+        '<h2>Sizing</h2><p><strong>Fits true to size.</strong>' +
+        '<em> Size up for a relaxed fit.</em></p><ul><li><u>S</u>: chest 36 in</li><li>' +
+        '<sup>†</sup>Measured flat</li></ul>',
+      plainText:
+        '<p>Sizing</p><p>Fits true to size. Size up for a relaxed fit.</p>' +
+        '<p>- S: chest 36 in<br>- †Measured flat</p>',
+      squareSafe:
+        '<p>Sizing</p><p><strong>Fits true to size.</strong><em> Size up for a relaxed fit.</em>' +
+        '</p><ul><li><u>S</u>: chest 36 in</li><li>†Measured flat</li></ul>'
+    }
+  },
+  {
+    name: 'Supplier product page with tracking pixels',
+    source: 'web',
+    html:
+      '<div class="product-description rte" data-product-id="8812"><h3 class="title" style="color:#222">Features</h3>' +
+      '<p><font face="Helvetica" size="3">Premium <span style="font-weight:bold">stainless steel</span> bottle</font></p>' +
+      '<table class="specs" style="width:100%" border="1"><tbody><tr><td style="padding:4px">Capacity</td>' +
+      '<td>750 ml</td></tr><tr><td style="padding:4px">Weight</td><td>340 g</td></tr></tbody></table>' +
+      '<p>Ships from <a href="https://supplier.example/warehouses" target="_blank" class="link" rel="nofollow">' +
+      'our US warehouse</a>.</p><img src="https://supplier.example/images/bottle.jpg" alt="Steel bottle" width="600" ' +
+      'height="600" class="lazy" loading="lazy"><img src="https://www.facebook.com/tr?id=123&amp;ev=PageView&amp;noscript=1" ' +
+      'width="1" height="1" style="display:none"><img src="https://stats.supplier.example/open.gif?u=99" alt="">' +
+      '<script>window.dataLayer.push({})</script></div>',
+    expected: {
+      keepStructure:
+        '<h3>Features</h3><p>Premium <strong>stainless steel</strong> bottle</p><table><tbody>' +
+        '<tr><td>Capacity</td><td>750 ml</td></tr><tr><td>Weight</td><td>340 g</td></tr></tbody>' +
+        '</table>' +
+        '<p>Ships from <a href="https://supplier.example/warehouses">our US warehouse</a>.</p>' +
+        '<img src="https://supplier.example/images/bottle.jpg" alt="Steel bottle" width="600" height="600">',
+      plainText:
+        '<p>Features</p><p>Premium stainless steel bottle</p><p>Capacity | 750 ml</p>' +
+        '<p>Weight | 340 g</p><p>Ships from our US warehouse.</p>',
+      squareSafe:
+        '<p>Features</p><p>Premium <strong>stainless steel</strong> bottle</p>' +
+        '<p>Capacity | 750 ml</p><p>Weight | 340 g</p>' +
+        '<p>Ships from <a href="https://supplier.example/warehouses">our US warehouse</a>.</p>'
+    }
+  }
+];
@@ -0,0 +1,60 @@
+/**
+ * Known XSS payloads for sanitizer tests. Each payload must come out of
+ * the sanitizer without any way to run script.
+ */
+export const xssPayloads: string[] = [
+  '<script>alert(1)</script>',
+  '<SCRIPT SRC=//evil.example/xss.js></SCRIPT>',
+  '<img src=x onerror=alert(1)>',
+  '<img src="x" ONERROR="alert(1)">',
+  '<svg onload=alert(1)>',
+  '<svg><script>alert(1)</script></svg>',
+  '<body onload=alert(1)>',
+  '<iframe src="javascript:alert(1)"></iframe>',
+  '<iframe srcdoc="<script>alert(1)</script>"></iframe>',
+  '<a href="javascript:alert(1)">click</a>',
+  '<a href="JaVaScRiPt:alert(1)">click</a>',
+  '<a href=" javascript:alert(1)">click</a>',
+  '<a href="java\tscript:alert(1)">click</a>',
+  '<a href="java&#x09;script:alert(1)">click</a>',
+  '<a href="&#106;&#97;&#118;&#97;&#115;&#99;&#114;&#105;&#112;&#116;&#58;alert(1)">click</a>',
+  '<a href="vbscript:msgbox(1)">click</a>',
+  '<a href="data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==">click</a>',
+  '<img src="data:image/svg+xml;base64,PHN2ZyBvbmxvYWQ9YWxlcnQoMSk+">',
+  '<img srcset="javascript:alert(1) 1x">',
+  '<div style="background:url(javascript:alert(1))">x</div>',
+  '<div style="width: expression(alert(1))">x</div>',
+  '<div style="-moz-binding:url(//evil.example/xss.xml#xss)">x</div>',
+  '<object data="javascript:alert(1)"></object>',
+  '<embed src="javascript:alert(1)">',
+  '<form action="javascript:alert(1)"><button>go</button></form>',
+  '<math><mtext><table><mglyph><style><img src=x onerror=alert(1)>',
+  '<noscript><p title="</noscript><img src=x onerror=alert(1)>">',
+  '<details open ontoggle=alert(1)>',
+  '<video><source onerror=alert(1)></video>',
+  '<marquee onstart=alert(1)>x</marquee>',
+  '<meta http-equiv="refresh" content="0;url=javascript:alert(1)">',
+  '<base href="javascript:alert(1)//">',
+  '<link rel="stylesheet" href="javascript:alert(1)">',
+  '<style>@import "javascript:alert(1)";</style>',
+  '<p><!--<img src=x onerror=alert(1)>--></p>',
+  '<input autofocus onfocus=alert(1)>',
+  '<table background="javascript:alert(1)"><tr><td>x</td></tr></table>',
+  '<a href="#" onclick="alert(1)">x</a>',
+  '<span onmouseover="alert(1)">hover</span>',
+  '<template><img src=x onerror=alert(1)></template>'
+];
+
+/**
+ * Markup produced by normal editing that must survive sanitization unchanged
+ */
+export const safeMarkup: string[] = [
+  '<p>Plain <strong>bold</strong> and <em>italic</em> text</p>',
+  '<h2>Materials</h2><ul><li>Cotton</li><li>Linen</li></ul>',
+  '<p><a href="https://example.com/product">Product</a></p>',
+  '<p><a href="/collections/summer">Relative</a></p>',
+  '<p><a href="mailto:shop@example.com">Mail</a></p>',
+  '<p><img src="https://cdn.example.com/shirt.jpg" alt="Shirt"></p>',
+  '<table><tbody><tr><td colspan="2">Size</td></tr></tbody></table>',
+  '<p style="text-align: center;">Centered</p>'
+];
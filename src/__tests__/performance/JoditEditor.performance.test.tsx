@@ -1,22 +1,53 @@
 import React from 'react';
-import { render, unmountComponentAtNode } from 'react-dom';
-import { act } from 'react-dom/test-utils';
+import { render, act, cleanup } from '@testing-library/react';
 import { JoditEditor } from '../../JoditEditor';
+import { Jodit } from 'jodit';
+import { loadJodit } from '../../utils/jodit-loader';
 
-// Mock Jodit to prevent actual initialization
+// Mock Jodit to prevent actual initialization; value reads are counted
+// to measure how often the document gets serialized
 jest.mock('jodit', () => {
-  const createEditor = (_element: HTMLTextAreaElement, _config: any) => {
-    return {
-      value: '',
+  const createEditor = (_element: HTMLTextAreaElement, _config: unknown) => {
+    const editor = {
+      _value: '',
+      valueReads: 0,
+      get value() {
+        this.valueReads += 1;
+        return this._value;
+      },
+      set value(newValue: string) {
+        this._value = newValue;
+      },
+      type(text: string) {
+        this._value = text;
+        this.events.fire('change');
+      },
       events: {
-        on: jest.fn(),
-        off: jest.fn()
+        _handlers: {} as Record<string, Array<(...args: unknown[]) => void>>,
+        on(event: string, handler: (...args: unknown[]) => void) {
+          if (!this._handlers[event]) {
+            this._handlers[event] = [];
+          }
+          this._handlers[event].push(handler);
+        },
+        off: jest.fn(),
+        fire(event: string) {
+          if (this._handlers[event]) {
+            this._handlers[event].forEach(handler => handler());
+          }
+        }
       },
+      editor: document.createElement('div'),
+      container: document.createElement('div'),
       workplace: {
         tabIndex: -1
       },
+      s: {
+        isCollapsed: () => true
+      },
       destruct: jest.fn()
     };
+    return editor;
   };
 
   return {
@@ -26,11 +57,193 @@ jest.mock('jodit', () => {
   };
 });
 
+interface MockEditor {
+  valueReads: number;
+  type(text: string): void;
+}
+
+const KEYSTROKES = 200;
+
+const typeKeystrokes = (editor: MockEditor, count = KEYSTROKES) => {
+  for (let i = 1; i <= count; i++) {
+    editor.type('x'.repeat(i));
+  }
+};
+
 describe('JoditEditor Performance', () => {
-  let container: HTMLDivElement | null = null;
-  
+  // Load the mocked Jodit up front so editors mount synchronously
+  beforeAll(() => loadJodit());
+
   beforeEach(() => {
-    // Set up a DOM element as a render target
-    container = document.createElement('div');
-    document.body.appendChil
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    cleanup();
+    jest.useRealTimers();
+    jest.clearAllMocks();
+  });
+
+  it('should emit onChange on every change without rate limiting', () => {
+    const onChange = jest.fn();
+    render(<JoditEditor onChange={onChange} />);
+    const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+
+    act(() => typeKeystrokes(editor));
+
+    expect(onChange).toHaveBeenCalledTimes(KEYSTROKES);
+  });
+
+  it('should emit a single onChange per typing burst when debounced', () => {
+    const onChange = jest.fn();
+    render(<JoditEditor onChange={onChange} changeDebounceMs={300} />);
+    const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+    editor.valueReads = 0;
+
+    act(() => typeKeystrokes(editor));
+    expect(onChange).not.toHaveBeenCalled();
+
+    act(() => {
+      jest.advanceTimersByTime(300);
+    });
+
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(onChange).toHaveBeenCalledWith('x'.repeat(KEYSTROKES));
+    // The document is serialized once, not once per keystroke
+    expect(editor.valueReads).toBe(1);
+  });
+
+  it('should cap emissions per interval when throttled', () => {
+    const onChange = jest.fn();
+    render(<JoditEditor onChange={onChange} changeThrottleMs={100} />);
+    const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+
+    act(() => {
+      for (let i = 1; i <= 50; i++) {
+        editor.type('x'.repeat(i));
+        jest.advanceTimersByTime(10);
+      }
+    });
+    act(() => {
+      jest.advanceTimersByTime(100);
+    });
+
+    // 500ms of typing at a 100ms interval: leading call plus one per interval
+    expect(onChange.mock.calls.length).toBeLessThanOrEqual(6);
+    expect(onChange).toHaveBeenLastCalledWith('x'.repeat(50));
+  });
+
+  it('should bound the delay of a debounced change with changeThrottleMs', () => {
+    const onChange = jest.fn();
+    render(<JoditEditor onChange={onChange} changeDebounceMs={300} changeThrottleMs={1000} />);
+    const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+
+    act(() => {
+      for (let i = 1; i <= 100; i++) {
+        editor.type('x'.repeat(i));
+        jest.advanceTimersByTime(20);
+      }
+    });
+
+    // Continuous typing never pauses for 300ms, but the throttle forces emission
+    expect(onChange).toHaveBeenCalledTimes(2);
+  });
 
+  it('should flush a pending change before onBlur', () => {
+    const calls: string[] = [];
+    render(
+      <JoditEditor
+        changeDebounceMs={500}
+        onChange={value => calls.push(`change:${value}`)}
+        onBlur={value => calls.push(`blur:${value}`)}
+      />
+    );
+    const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+
+    act(() => {
+      editor.type('draft');
+      editor.events.fire('blur');
+    });
+
+    expect(calls).toEqual(['change:draft', 'blur:draft']);
+  });
+
+  it('should flush a pending change on unmount', () => {
+    const onChange = jest.fn();
+    const { unmount } = render(<JoditEditor onChange={onChange} changeDebounceMs={500} />);
+    const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+
+    act(() => editor.type('unsaved'));
+    unmount();
+
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(onChange).toHaveBeenCalledWith('unsaved');
+    expect(editor.destruct).toHaveBeenCalled();
+  });
+
+  it('should call onChangeRaw on every change regardless of rate limiting', () => {
+    const onChange = jest.fn();
+    const onChangeRaw = jest.fn();
+    render(
+      <JoditEditor onChange={onChange} onChangeRaw={onChangeRaw} changeDebounceMs={300} />
+    );
+    const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+
+    act(() => typeKeystrokes(editor, 20));
+
+    expect(onChangeRaw).toHaveBeenCalledTimes(20);
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('should not serialize long documents while typing', () => {
+    const onChange = jest.fn();
+    render(<JoditEditor onChange={onChange} changeDebounceMs={300} />);
+    const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+    editor.valueReads = 0;
+
+    act(() => typeKeystrokes(editor, 1000));
+    expect(editor.valueReads).toBe(0);
+    expect(onChange).not.toHaveBeenCalled();
+
+    act(() => {
+      jest.advanceTimersByTime(300);
+    });
+
+    expect(editor.valueReads).toBe(1);
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+
+  it('should measure stats once per emitted change', () => {
+    const onStatsChange = jest.fn();
+    render(<JoditEditor changeDebounceMs={300} statusBar onStatsChange={onStatsChange} />);
+    const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+    editor.valueReads = 0;
+    onStatsChange.mockClear();
+
+    act(() => typeKeystrokes(editor));
+    expect(editor.valueReads).toBe(0);
+    expect(onStatsChange).not.toHaveBeenCalled();
+
+    act(() => {
+      jest.advanceTimersByTime(300);
+    });
+
+    expect(editor.valueReads).toBe(1);
+    expect(onStatsChange).toHaveBeenCalledTimes(1);
+    expect(onStatsChange).toHaveBeenCalledWith(expect.objectContaining({ characters: KEYSTROKES }), []);
+  });
+
+  it('should not measure the content on every key at a hard limit', () => {
+    render(<JoditEditor contentLimits={[{ max: 10000, mode: 'hard' }]} />);
+    const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+    const [keyDown] = editor.events._handlers.keydown;
+    editor.valueReads = 0;
+
+    for (let i = 0; i < KEYSTROKES; i++) {
+      keyDown(new KeyboardEvent('keydown', { key: 'x' }));
+    }
+
+    // Measured once on mount; keys without a change reuse it
+    expect(editor.valueReads).toBe(0);
+  });
+});
@@ -26,6 +26,17 @@ describe('ErrorBoundary', () => {
     expect(screen.getByText('Test error')).toBeInTheDocument();
   });
 
+  it('should render the default fallback UI in the given language', () => {
+    render(
+      <ErrorComponent />,
+      { errorBoundaryProps: { messages: { title: 'Une erreur est survenue', retry: 'Réessayer' } } }
+    );
+
+    expect(screen.getByRole('heading', { name: 'Une erreur est survenue' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Réessayer' })).toBeInTheDocument();
+    expect(screen.getByRole('group')).toHaveTextContent('Error details');
+  });
+
   it('should render custom fallback UI when provided', () => {
     const customFallback = <div>Custom error message</div>;
     
@@ -0,0 +1,62 @@
+import React from 'react';
+import { hydrateRoot } from 'react-dom/client';
+import { act } from '@testing-library/react';
+import { Jodit } from 'jodit';
+import { JoditEditor } from '../../JoditEditor';
+import { loadJodit } from '../../utils/jodit-loader';
+import { toSquareDescriptionHTML } from '../../utils/square-description';
+
+// Server markup comes from the Node build; the browser build needs
+// MessageChannel, which jsdom does not provide
+const { renderToString } = jest.requireActual<typeof import('react-dom/server')>('react-dom/server.node');
+
+jest.mock('jodit', () => ({
+  Jodit: {
+    make: jest.fn(() => ({
+      value: '',
+      editor: document.createElement('div'),
+      container: document.createElement('div'),
+      events: { on: jest.fn(), fire: jest.fn() },
+      workplace: { tabIndex: -1 },
+      destruct: jest.fn()
+    }))
+  }
+}));
+
+describe('JoditEditor hydration', () => {
+  const hydrate = async (element: React.ReactElement) => {
+    const container = document.createElement('div');
+    container.innerHTML = renderToString(element);
+    document.body.appendChild(container);
+    const onRecoverableError = jest.fn();
+
+    const root = await act(async () => hydrateRoot(container, element, { onRecoverableError }));
+    return { container, root, onRecoverableError };
+  };
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should hydrate without mismatches and replace the preview once Jodit loads', async () => {
+    const { container, root, onRecoverableError } = await hydrate(
+      <JoditEditor name="description" value="<p>Handmade</p>" />
+    );
+    await act(() => loadJodit());
+
+    expect(onRecoverableError).not.toHaveBeenCalled();
+    expect(Jodit.make).toHaveBeenCalledTimes(1);
+    expect(container.querySelector('.jodit-react-static')).toBeNull();
+    expect(container.querySelector('textarea')).not.toHaveAttribute('hidden');
+
+    act(() => root.unmount());
+  });
+
+  it('should preview Square descriptions with the markup the editor produces', () => {
+    const value = '<h2>Care</h2><div>Wash <em>cold</em></div><table><tr><td>Size</td><td>M</td></tr></table>';
+    const container = document.createElement('div');
+    container.innerHTML = renderToString(<JoditEditor squareDescriptionMode value={value} />);
+
+    expect(container.querySelector('.jodit-wysiwyg')?.innerHTML).toBe(toSquareDescriptionHTML(value));
+  });
+});
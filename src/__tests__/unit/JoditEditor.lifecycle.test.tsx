@@ -2,17 +2,18 @@ import React from 'react';
 import { render, act, cleanup } from '@testing-library/react';
 import { JoditEditor } from '../../JoditEditor';
 import { Jodit } from 'jodit';
+import { loadJodit } from '../../utils/jodit-loader';
 
 // Mock Jodit module
 jest.mock('jodit', () => {
   const createEditor = (_element: HTMLTextAreaElement, _config: any) => {
     const editor = {
-      _value: '',
+      editor: document.createElement('div'),
       get value() {
-        return this._value;
+        return this.editor.innerHTML;
       },
       set value(newValue: string) {
-        this._value = newValue;
+        this.editor.innerHTML = newValue;
         this.events.fire('change');
       },
       events: {
@@ -34,6 +35,7 @@ jest.mock('jodit', () => {
           }
         }
       },
+      container: document.createElement('div'),
       workplace: {
         _tabIndex: -1,
         get tabIndex() {
@@ -43,6 +45,26 @@ jest.mock('jodit', () => {
           this._tabIndex = value;
         }
       },
+      history: {
+        snapshot: {
+          make: jest.fn(() => ({
+            html: editor.value,
+            range: { startContainer: [], startOffset: 0, endContainer: [], endOffset: 0 }
+          })),
+          restore: jest.fn((snapshot: { html: string }) => {
+            editor.value = snapshot.html;
+          })
+        },
+        clear: jest.fn()
+      },
+      s: {
+        isFocused: () => false
+      },
+      setReadOnly: jest.fn(),
+      isEditorMode: () => true,
+      synchronizeValues() {
+        this.events.fire('change');
+      },
       destruct: jest.fn()
     };
     return editor;
@@ -56,6 +78,9 @@ jest.mock('jodit', () => {
 });
 
 describe('JoditEditor Lifecycle', () => {
+  // Load the mocked Jodit up front so editors mount synchronously
+  beforeAll(() => loadJodit());
+
   // Cleanup after each test
   afterEach(() => {
     cleanup();
@@ -104,9 +129,32 @@ describe('JoditEditor Lifecycle', () => {
     expect(editor.destruct).toHaveBeenCalled();
   });
 
+  it('should apply live config changes without recreating the editor', () => {
+    const { rerender } = render(
+      <JoditEditor value="" config={{ readonly: false }} />
+    );
+    const editor = (Jodit.make as jest.Mock).mock.results[0].value;
+
+    rerender(<JoditEditor value="" config={{ readonly: true }} />);
+
+    expect(Jodit.make).toHaveBeenCalledTimes(1);
+    expect(editor.setReadOnly).toHaveBeenCalledWith(true);
+    expect(editor.destruct).not.toHaveBeenCalled();
+  });
+
+  it('should ignore structurally equal config objects', () => {
+    const { rerender } = render(
+      <JoditEditor value="" config={{ buttons: ['bold'] }} />
+    );
+
+    rerender(<JoditEditor value="" config={{ buttons: ['bold'] }} />);
+
+    expect(Jodit.make).toHaveBeenCalledTimes(1);
+  });
+
   it('should handle config changes properly', () => {
-    const initialConfig = { readonly: false };
-    const updatedConfig = { readonly: true };
+    const initialConfig = { buttons: ['bold'] };
+    const updatedConfig = { buttons: ['bold', 'italic'] };
     
     const { rerender } = render(
       <JoditEditor value="" config={initialConfig} />
@@ -115,12 +163,57 @@ describe('JoditEditor Lifecycle', () => {
     // Get the initial editor instance
     const editor = (Jodit.make as jest.Mock).mock.results[0].value;
     const initialCall = (Jodit.make as jest.Mock).mock.calls[0][1];
-    expect(initialCall.readonly).toBe(false);
+    expect(initialCall.buttons).toEqual(['bold']);
     
     // Rerender with new config
     rerender(<JoditEditor value="" config={updatedConfig} />);
     const updateCall = (Jodit.make as jest.Mock).mock.calls[1][1];
-    expect(updateCall.readonly).toBe(true);
+    expect(updateCall.buttons).toEqual(['bold', 'italic']);
+    expect(editor.destruct).toHaveBeenCalled();
+  });
+
+  it('should warn about unknown config options in development', () => {
+    const consoleWarn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    Object.assign(Jodit, { defaultOptions: { readonly: false, uploader: { url: '' } } });
+
+    // Spread past the type check, the way untyped callers get a typo through
+    render(<JoditEditor value="" config={{ readonly: true, ...{ raedonly: true } }} />);
+
+    expect(consoleWarn).toHaveBeenCalledWith(expect.stringContaining('"raedonly"'));
+    expect(Jodit.make).toHaveBeenCalledTimes(1);
+    delete (Jodit as { defaultOptions?: unknown }).defaultOptions;
+    consoleWarn.mockRestore();
+  });
+
+  it('should keep the document when the editor is recreated', () => {
+    const { rerender } = render(
+      <JoditEditor value="initial" config={{ language: 'en' }} />
+    );
+
+    act(() => {
+      (Jodit.make as jest.Mock).mock.results[0].value.value = 'typed text';
+    });
+
+    rerender(<JoditEditor value="initial" config={{ language: 'fr' }} />);
+
+    const nextEditor = (Jodit.make as jest.Mock).mock.results[1].value;
+    expect(nextEditor.history.snapshot.restore).toHaveBeenCalledWith(
+      expect.objectContaining({ html: 'typed text' })
+    );
+    expect(nextEditor.value).toBe('typed text');
+  });
+
+  it('should keep the document when the locale changes', () => {
+    const { rerender } = render(<JoditEditor defaultValue="<p>Tee</p>" locale="fr" />);
+    expect((Jodit.make as jest.Mock).mock.calls[0][1]).toEqual(expect.objectContaining({ language: 'fr', direction: 'ltr' }));
+
+    act(() => {
+      (Jodit.make as jest.Mock).mock.results[0].value.value = '<p>T-shirt bleu</p>';
+    });
+    rerender(<JoditEditor defaultValue="<p>Tee</p>" locale="ar-SA" />);
+
+    expect((Jodit.make as jest.Mock).mock.calls[1][1]).toEqual(expect.objectContaining({ language: 'ar', direction: 'rtl' }));
+    expect((Jodit.make as jest.Mock).mock.results[1].value.value).toBe('<p>T-shirt bleu</p>');
   });
 
   it('should properly handle event listeners', () => {
@@ -0,0 +1,55 @@
+/**
+ * @jest-environment node
+ */
+import React from 'react';
+import { renderToString } from 'react-dom/server';
+import { Jodit } from 'jodit';
+import { JoditEditor } from '../../JoditEditor';
+import { getLoadedJodit } from '../../utils/jodit-loader';
+
+// Rendering on the server must never create an editor
+jest.mock('jodit', () => ({ Jodit: { make: jest.fn() } }));
+
+describe('JoditEditor server rendering', () => {
+  it('should render the sanitized initial value as static markup', () => {
+    const html = renderToString(
+      <JoditEditor
+        name="description"
+        value={'<p onclick="steal()">Hand<strong>made</strong></p><script>alert(1)</script>'}
+      />
+    );
+
+    expect(html).toContain('<div class="jodit-wysiwyg"><p>Hand<strong>made</strong></p></div>');
+    expect(html).not.toContain('<script');
+    expect(html).not.toContain('onclick');
+    expect(html).toContain('<textarea name="description" hidden="">');
+  });
+
+  it('should not load Jodit', () => {
+    renderToString(<JoditEditor defaultValue="<p>Draft</p>" />);
+    expect(getLoadedJodit()).toBeNull();
+    expect(Jodit.make).not.toHaveBeenCalled();
+  });
+
+  it('should reserve the height of the editor', () => {
+    const html = renderToString(<JoditEditor value="" config={{ minHeight: 320 }} />);
+    expect(html).toContain('style="min-height:320px"');
+  });
+
+  it('should render the theme variables, in light mode for auto', () => {
+    const dark = renderToString(<JoditEditor value="" theme={{ colorScheme: 'dark', tokens: { radius: '8px' } }} />);
+    expect(dark).toContain('jodit_theme_dark');
+    expect(dark).toContain('--jd-border-radius-default:8px');
+
+    expect(renderToString(<JoditEditor value="" theme="auto" />)).toContain('color-scheme:light');
+  });
+
+  it('should convert markdown and apply Square mode', () => {
+    expect(renderToString(<JoditEditor format="markdown" value="**Bold** _move_" />)).toContain(
+      '<p><strong>Bold</strong> <em>move</em></p>'
+    );
+    const square = renderToString(<JoditEditor squareDescriptionMode value={'<h2>Care</h2><p class="x">Wash</p>'} />);
+    // Headings become paragraphs, as the editor normalizes them
+    expect(square).toContain('<div class="jodit-wysiwyg"><p>Care</p><p>Wash</p></div>');
+  });
+});
@@ -0,0 +1,146 @@
+import { act, fireEvent, render, renderHook, screen, waitFor } from '@testing-library/react';
+import RevisionPanel from '../../components/RevisionPanel';
+import { useEditorHistory } from '../../hooks/useEditorHistory';
+import type { JoditEditorHandle } from '../../JoditEditor';
+import fr from '../../locales/fr';
+import {
+  createLocalStorageRevisionStorage,
+  createMemoryRevisionStorage,
+  DEFAULT_REVISION_KEY_PREFIX,
+  EditorRevision
+} from '../../utils/revision-storage';
+
+const revisions: EditorRevision[] = [
+  { id: 'r3', content: '<p>Blue organic tee</p>', savedAt: 3000, label: 'Synced to Square' },
+  { id: 'r2', content: '<p>Blue tee</p>', savedAt: 2000 },
+  { id: 'r1', content: '<p>Red tee</p>', savedAt: 1000 }
+];
+
+describe('Revision storage', () => {
+  afterEach(() => {
+    window.localStorage.clear();
+  });
+
+  it('should keep revisions in localStorage, oldest first', () => {
+    const storage = createLocalStorageRevisionStorage();
+    storage.add('tee', revisions[2]);
+    storage.add('tee', revisions[1]);
+
+    expect(storage.list('tee')).toEqual([revisions[2], revisions[1]]);
+    storage.remove('tee', 'r1');
+    storage.remove('tee', 'r2');
+    expect(window.localStorage.getItem(`${DEFAULT_REVISION_KEY_PREFIX}tee`)).toBeNull();
+  });
+
+  it('should ignore corrupt or foreign entries', () => {
+    const storage = createLocalStorageRevisionStorage('test:');
+    window.localStorage.setItem('test:broken', '{not json');
+    window.localStorage.setItem('test:mixed', JSON.stringify([{ id: 1 }, revisions[0]]));
+
+    expect(storage.list('broken')).toEqual([]);
+    expect(storage.list('mixed')).toEqual([revisions[0]]);
+  });
+});
+
+describe('useEditorHistory', () => {
+  it('should load, save and prune revisions', async () => {
+    const storage = createMemoryRevisionStorage();
+    storage.add('tee', revisions[2]);
+    const { result } = renderHook(() => useEditorHistory({ key: 'tee', storage, maxRevisions: 2 }));
+
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    expect(result.current.revisions).toEqual([revisions[2]]);
+
+    await act(() => result.current.save('<p>Blue tee</p>'));
+    await act(() => result.current.save('<p>Blue organic tee</p>', 'Synced to Square'));
+    expect(await result.current.save('<p>Blue organic tee</p>')).toBeNull();
+
+    expect(result.current.revisions.map(revision => revision.content)).toEqual([
+      '<p>Blue organic tee</p>',
+      '<p>Blue tee</p>'
+    ]);
+    expect(result.current.revisions[0].label).toBe('Synced to Square');
+    expect(storage.list('tee')).toEqual([...result.current.revisions].reverse());
+  });
+
+  it('should restore a revision into the editor', async () => {
+    const storage = createMemoryRevisionStorage();
+    storage.add('tee', revisions[2]);
+    const setValue = jest.fn();
+    const editorRef = { current: { setValue } as unknown as JoditEditorHandle };
+    const { result } = renderHook(() => useEditorHistory({ key: 'tee', storage, editorRef }));
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    expect(result.current.restore('r1')).toBe('<p>Red tee</p>');
+    expect(setValue).toHaveBeenCalledWith('<p>Red tee</p>');
+    expect(result.current.restore('missing')).toBeNull();
+  });
+
+  it('should report storage errors', async () => {
+    const onError = jest.fn();
+    const storage = {
+      list: () => [],
+      add: () => Promise.reject(new Error('Quota exceeded')),
+      remove: () => undefined
+    };
+    const { result } = renderHook(() => useEditorHistory({ key: 'tee', storage, onError }));
+
+    await act(async () => {
+      expect(await result.current.save('<p>Tee</p>')).toBeNull();
+    });
+    expect(onError).toHaveBeenCalledWith(new Error('Quota exceeded'));
+    expect(result.current.revisions).toEqual([]);
+  });
+});
+
+describe('RevisionPanel', () => {
+  it('should compare the two latest revisions inline by default', () => {
+    const { container } = render(<RevisionPanel revisions={revisions} onRestore={jest.fn()} />);
+
+    expect(container.querySelector('ins')?.textContent).toBe('organic ');
+    expect(container.querySelector('del')).toBeNull();
+  });
+
+  it('should compare against the current content and switch to side by side', () => {
+    const { container } = render(
+      <RevisionPanel revisions={revisions} current="<p>Green organic tee</p>" onRestore={jest.fn()} />
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Side by side' }));
+    expect(screen.getByRole('button', { name: 'Side by side' })).toHaveAttribute('aria-pressed', 'true');
+
+    const [before, after] = container.querySelectorAll('.jodit-react-revisions__diff');
+    expect(before.querySelector('del')?.textContent).toBe('Blue');
+    expect(after.querySelector('ins')?.textContent).toBe('Green');
+  });
+
+  it('should restore the selected From revision', () => {
+    const onRestore = jest.fn();
+    render(<RevisionPanel revisions={revisions} onRestore={onRestore} />);
+
+    fireEvent.change(screen.getByRole('combobox', { name: 'From' }), { target: { value: 'r1' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Restore the From revision' }));
+
+    expect(onRestore).toHaveBeenCalledWith(revisions[2]);
+  });
+
+  it('should show the given messages', () => {
+    render(<RevisionPanel revisions={revisions} current="<p>Tee</p>" onRestore={jest.fn()} messages={fr.revisions} />);
+
+    expect(screen.getByRole('combobox', { name: 'À' })).toHaveDisplayValue('Contenu actuel');
+    expect(screen.getByRole('group', { name: 'Affichage des différences' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Restaurer la révision de départ' })).toBeInTheDocument();
+  });
+
+  it('should sanitize revision content before display', () => {
+    const { container } = render(
+      <RevisionPanel
+        revisions={[{ id: 'r1', content: '<p>Tee</p><img src="x" onerror="alert(1)">', savedAt: 1000 }]}
+        current="<p>Tee</p>"
+        onRestore={jest.fn()}
+      />
+    );
+
+    expect(container.querySelector('[onerror]')).toBeNull();
+  });
+});
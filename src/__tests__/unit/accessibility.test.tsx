@@ -0,0 +1,171 @@
+import { render } from '@testing-library/react';
+import { axe } from 'jest-axe';
+import CharacterBudget from '../../components/CharacterBudget';
+import ContentStatusBar from '../../components/ContentStatusBar';
+import DraftRecoveryPrompt from '../../components/DraftRecoveryPrompt';
+import LiveRegion from '../../components/LiveRegion';
+import RevisionPanel from '../../components/RevisionPanel';
+import SuggestionList from '../../components/SuggestionList';
+import TemplateLibrary from '../../components/TemplateLibrary';
+import {
+  applyAriaAttributes,
+  bindPopupEscape,
+  describeFormatChange,
+  findModalRoot,
+  labelToolbar
+} from '../../utils/accessibility';
+import { checkContentLimits, getContentStats } from '../../utils/content-stats';
+import { DEFAULT_SUGGESTION_TRIGGERS } from '../../utils/suggestions';
+
+// Markup Jodit renders for a toolbar with two named groups
+const TOOLBAR_HTML = `
+  <div class="jodit-toolbar__box">
+    <div class="jodit-toolbar-collection">
+      <div class="jodit-ui-group jodit-ui-group_line_true">
+        <div class="jodit-ui-group jodit-ui-group_separated_true jodit-ui-group_group_font-style">
+          <span class="jodit-toolbar-button" role="listitem"><button type="button" aria-label="Bold">B</button></span>
+        </div>
+        <div class="jodit-ui-group jodit-ui-group_separated_true jodit-ui-group_group_custom">
+          <span class="jodit-toolbar-button" role="listitem"><button type="button" aria-label="Sale">%</button></span>
+        </div>
+      </div>
+    </div>
+  </div>`;
+
+describe('Accessibility', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+    document.getSelection()?.removeAllRanges();
+  });
+
+  describe('applyAriaAttributes', () => {
+    it('should make the element a named textbox and remove attributes dropped later', () => {
+      const element = document.createElement('div');
+
+      applyAriaAttributes(element, { 'aria-label': 'Description', 'aria-describedby': 'hint', required: true });
+      expect(element).toHaveAttribute('role', 'textbox');
+      expect(element).toHaveAttribute('aria-multiline', 'true');
+      expect(element).toHaveAttribute('aria-label', 'Description');
+      expect(element).toHaveAttribute('aria-required', 'true');
+
+      applyAriaAttributes(element, { 'aria-label': 'Notes' }, { 'aria-label': 'Description', 'aria-describedby': 'hint', required: true });
+      expect(element).toHaveAttribute('aria-label', 'Notes');
+      expect(element).not.toHaveAttribute('aria-describedby');
+      expect(element).not.toHaveAttribute('aria-required');
+    });
+
+    it('should reference a label pointing at its id', () => {
+      document.body.innerHTML = '<label for="description">Description</label>';
+      const element = document.createElement('div');
+      document.body.appendChild(element);
+
+      applyAriaAttributes(element, { id: 'description' });
+      expect(element.id).toBe('description');
+      expect(element).toHaveAttribute('aria-labelledby', 'description-label');
+      expect(document.querySelector('label')?.id).toBe('description-label');
+
+      applyAriaAttributes(element, { id: 'description', 'aria-label': 'Own name' }, { id: 'description' });
+      expect(element).not.toHaveAttribute('aria-labelledby');
+    });
+  });
+
+  it('should label the toolbar and its groups', () => {
+    const container = document.createElement('div');
+    container.innerHTML = TOOLBAR_HTML;
+
+    labelToolbar(container);
+
+    expect(container.querySelector('.jodit-toolbar-collection')).toHaveAttribute('role', 'toolbar');
+    expect(Array.from(container.querySelectorAll('[role="group"]'), group => group.getAttribute('aria-label')))
+      .toEqual(['Text style', 'custom']);
+    expect(container.querySelector('[role="listitem"]')).toBeNull();
+  });
+
+  it('should describe formatting at the caret', () => {
+    const root = document.createElement('div');
+    root.innerHTML = '<p><strong>Sale</strong> today</p>';
+    document.body.appendChild(root);
+    const selection = document.getSelection()!;
+
+    selection.collapse(root.querySelector('strong')!.firstChild, 2);
+    expect(describeFormatChange(root, 'bold')).toBe('Bold on');
+    selection.collapse(root.querySelector('p')!.lastChild, 2);
+    expect(describeFormatChange(root, 'Bold')).toBe('Bold off');
+    expect(describeFormatChange(root, 'formatBlock', 'H2')).toBe('Heading 2');
+    expect(describeFormatChange(root, 'justifyCenter')).toBe('Centered');
+    expect(describeFormatChange(root, 'selectall')).toBeNull();
+  });
+
+  it('should find the modal around the editor', () => {
+    document.body.innerHTML = '<div role="dialog" aria-modal="true"><form><textarea></textarea></form></div>';
+
+    expect(findModalRoot(document.querySelector('textarea')!)).toBe(document.querySelector('[role="dialog"]'));
+    expect(findModalRoot(document.createElement('textarea'))).toBeNull();
+  });
+
+  it('should close a popup on Escape without the key reaching the modal', () => {
+    document.body.innerHTML = '<div role="dialog"><div class="jodit-popup"><input></div></div>';
+    const modalKeyDown = jest.fn();
+    document.querySelector('[role="dialog"]')!.addEventListener('keydown', modalKeyDown);
+    const popup = { container: document.querySelector<HTMLElement>('.jodit-popup')!, close: jest.fn() };
+    const focusEditor = jest.fn();
+
+    bindPopupEscape(popup, focusEditor);
+    document.querySelector('input')!.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape', bubbles: true }));
+
+    expect(popup.close).toHaveBeenCalled();
+    expect(focusEditor).toHaveBeenCalled();
+    expect(modalKeyDown).not.toHaveBeenCalled();
+  });
+
+  describe('axe', () => {
+    it('should find no violations in the editor components', async () => {
+      const { container } = render(
+        <main>
+          <DraftRecoveryPrompt savedAt={0} conflict onRestore={jest.fn()} onDiscard={jest.fn()} />
+          <CharacterBudget used={12} limit={4096} />
+          <ContentStatusBar
+            stats={getContentStats('<p>Blue tee</p>')}
+            limits={checkContentLimits(getContentStats('<p>Blue tee</p>'), [{ max: 5, mode: 'hard' }])}
+          />
+          <LiveRegion message="Bold on" />
+          <SuggestionList
+            state={{
+              trigger: DEFAULT_SUGGESTION_TRIGGERS[0],
+              query: 'an',
+              items: [{ id: 'u1', label: 'ana', description: 'Support' }],
+              activeIndex: 0,
+              loading: false,
+              position: { top: 0, left: 0 }
+            }}
+            onSelect={jest.fn()}
+          />
+        </main>
+      );
+
+      expect(await axe(container)).toHaveNoViolations();
+    });
+
+    it('should find no violations in the revision panel and template library', async () => {
+      const { container } = render(
+        <main>
+          <RevisionPanel
+            revisions={[{ id: 'r1', content: '<p>Tee</p>', savedAt: 0 }]}
+            current="<p>Blue tee</p>"
+            onRestore={jest.fn()}
+          />
+          <TemplateLibrary onInsert={jest.fn()} />
+        </main>
+      );
+
+      expect(await axe(container)).toHaveNoViolations();
+    });
+
+    it('should find no violations in a labelled toolbar', async () => {
+      const { container } = render(<main dangerouslySetInnerHTML={{ __html: TOOLBAR_HTML }} />);
+
+      labelToolbar(container);
+      expect(await axe(container)).toHaveNoViolations();
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import { createCollaborationSession, DEFAULT_SYNC_TIMEOUT_MS } from '../../utils/collaboration';
+import { createInMemoryHub } from '../../utils/collaboration-transport';
+import { htmlIndexToTextOffset, textOffsetToHTMLIndex } from '../../utils/text-offset';
+
+describe('Collaboration', () => {
+  let hub: ReturnType<typeof createInMemoryHub>;
+
+  const createPeer = (name: string) => {
+    const onRemoteChange = jest.fn();
+    const onPresenceChange = jest.fn();
+    const session = createCollaborationSession({
+      transport: hub.connect(),
+      user: { name },
+      clientId: name.toLowerCase(),
+      onRemoteChange,
+      onPresenceChange
+    });
+    return { session, onRemoteChange, onPresenceChange };
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    hub = createInMemoryHub();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should seed the document when nobody answers and hand it to later peers', () => {
+    const ana = createPeer('Ana');
+    ana.session.join('<p>Organic cotton tee</p>');
+    expect(ana.session.synced).toBe(false);
+
+    jest.advanceTimersByTime(DEFAULT_SYNC_TIMEOUT_MS);
+    expect(ana.session.synced).toBe(true);
+    expect(ana.session.html).toBe('<p>Organic cotton tee</p>');
+    expect(ana.onRemoteChange).not.toHaveBeenCalled();
+
+    // A later peer with a stale value adopts the room's document
+    const ben = createPeer('Ben');
+    ben.session.join('<p>Old description</p>');
+    expect(ben.session.synced).toBe(true);
+    expect(ben.onRemoteChange).toHaveBeenCalledWith('<p>Organic cotton tee</p>');
+  });
+
+  it('should seed identical initial values only once', () => {
+    const ana = createPeer('Ana');
+    const ben = createPeer('Ben');
+    ana.session.join('<p>Tee</p>');
+    ben.session.join('<p>Tee</p>');
+
+    jest.advanceTimersByTime(DEFAULT_SYNC_TIMEOUT_MS);
+    expect(ana.session.html).toBe('<p>Tee</p>');
+    expect(ben.session.html).toBe('<p>Tee</p>');
+  });
+
+  it('should share edits made while syncing instead of dropping them', () => {
+    const ana = createPeer('Ana');
+    const ben = createPeer('Ben');
+    ana.session.join('<p>Tee</p>');
+    ben.session.join('<p>Tee</p>');
+    ben.session.update('<p>Blue Tee</p>');
+
+    jest.advanceTimersByTime(DEFAULT_SYNC_TIMEOUT_MS);
+    expect(ben.session.synced).toBe(true);
+    expect(ben.session.html).toBe('<p>Blue Tee</p>');
+    expect(ben.onRemoteChange).not.toHaveBeenCalled();
+    expect(ana.session.html).toBe('<p>Blue Tee</p>');
+    expect(ana.onRemoteChange).toHaveBeenLastCalledWith('<p>Blue Tee</p>');
+  });
+
+  it('should merge concurrent edits', () => {
+    const ana = createPeer('Ana');
+    ana.session.join('<p>Tee</p>');
+    jest.advanceTimersByTime(DEFAULT_SYNC_TIMEOUT_MS);
+    const ben = createPeer('Ben');
+    ben.session.join('');
+
+    ana.session.update('<p>Blue Tee</p>');
+    ben.session.update('<p>Blue Tee, size M</p>');
+
+    expect(ana.session.html).toBe('<p>Blue Tee, size M</p>');
+    expect(ana.onRemoteChange).toHaveBeenLastCalledWith('<p>Blue Tee, size M</p>');
+    expect(ben.session.html).toBe(ana.session.html);
+  });
+
+  it('should share cursors that follow remote edits', () => {
+    const ana = createPeer('Ana');
+    ana.session.join('<p>Tee</p>');
+    jest.advanceTimersByTime(DEFAULT_SYNC_TIMEOUT_MS);
+    const ben = createPeer('Ben');
+    ben.session.join('');
+
+    ben.session.setCursor(3);
+    expect(ana.session.peers).toEqual([
+      { clientId: 'ben', user: { name: 'Ben', color: expect.any(String) }, cursor: 3 }
+    ]);
+
+    ana.session.update('<p>Big Tee</p>');
+    expect(ana.session.peers[0].cursor).toBe(7);
+
+    ben.session.setCursor(null);
+    expect(ana.session.peers[0].cursor).toBeNull();
+
+    ben.session.destroy();
+    expect(ana.session.peers).toEqual([]);
+    expect(ana.onPresenceChange).toHaveBeenLastCalledWith([]);
+  });
+
+  it('should not emit or accept edits after leaving', () => {
+    const ana = createPeer('Ana');
+    ana.session.join('<p>Tee</p>');
+    jest.advanceTimersByTime(DEFAULT_SYNC_TIMEOUT_MS);
+    const ben = createPeer('Ben');
+    ben.session.join('');
+    ben.session.destroy();
+
+    ana.session.update('<p>Tee!</p>');
+    expect(ben.session.html).toBe('<p>Tee</p>');
+  });
+});
+
+describe('Text offsets', () => {
+  const html = '<p>a&amp;b <strong class="x">c</strong></p>';
+
+  it('should count text characters before an HTML index', () => {
+    expect(htmlIndexToTextOffset(html, 3)).toBe(0);
+    expect(htmlIndexToTextOffset(html, html.indexOf('b'))).toBe(2);
+    expect(htmlIndexToTextOffset(html, html.length)).toBe(5);
+  });
+
+  it('should find the HTML index of a text offset', () => {
+    expect(textOffsetToHTMLIndex(html, 2)).toBe(html.indexOf('b'));
+    expect(textOffsetToHTMLIndex(html, 4)).toBe(html.indexOf('<strong'));
+    expect(htmlIndexToTextOffset(html, textOffsetToHTMLIndex(html, 5))).toBe(5);
+  });
+});
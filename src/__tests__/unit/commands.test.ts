@@ -0,0 +1,73 @@
+import {
+  createEmbedHTML,
+  createProductCardHTML,
+  createTableHTML,
+  DEFAULT_COMMANDS,
+  EditorCommand,
+  filterCommands,
+  fuzzyScore,
+  registerCommand,
+  resolveCommands
+} from '../../utils/commands';
+import { SquareCatalogObjectType } from '../../services/types/square.types';
+
+const titles = (commands: EditorCommand[]) => commands.map(command => command.title);
+
+describe('Commands', () => {
+  describe('fuzzyScore', () => {
+    it('should match characters in order and rank word starts and runs higher', () => {
+      expect(fuzzyScore('tbl', 'Table')).not.toBeNull();
+      expect(fuzzyScore('lbt', 'Table')).toBeNull();
+      expect(fuzzyScore('sub', 'Subheading')!).toBeGreaterThan(fuzzyScore('sub', 'Bulleted subset')!);
+    });
+  });
+
+  describe('filterCommands', () => {
+    it('should keep the order for an empty query', () => {
+      expect(filterCommands(DEFAULT_COMMANDS, '')).toBe(DEFAULT_COMMANDS);
+    });
+
+    it('should filter by title and keywords, best match first', () => {
+      expect(titles(filterCommands(DEFAULT_COMMANDS, 'h2'))).toEqual(['Heading']);
+      expect(titles(filterCommands(DEFAULT_COMMANDS, 'list'))).toEqual(['Bulleted list', 'Numbered list']);
+      expect(titles(filterCommands(DEFAULT_COMMANDS, 'head'))).toEqual(['Heading', 'Subheading']);
+      expect(filterCommands(DEFAULT_COMMANDS, 'xyz')).toEqual([]);
+    });
+  });
+
+  it('should add registered commands after the editor ones until unregistered', () => {
+    const banner: EditorCommand = { id: 'banner', title: 'Sale banner', html: '<p><strong>Sale</strong></p>' };
+    const unregister = registerCommand(banner);
+
+    expect(resolveCommands(DEFAULT_COMMANDS).at(-1)).toBe(banner);
+    expect(resolveCommands([{ id: 'banner', title: 'Own banner' }])).toEqual([{ id: 'banner', title: 'Own banner' }]);
+
+    unregister();
+    expect(resolveCommands(DEFAULT_COMMANDS)).toEqual(DEFAULT_COMMANDS);
+  });
+
+  it('should build tables, product cards and embeds', () => {
+    expect(createTableHTML(2, 2)).toBe(
+      '<table><thead><tr><th><br></th><th><br></th></tr></thead><tbody><tr><td><br></td><td><br></td></tr></tbody></table>'
+    );
+
+    expect(createProductCardHTML({
+      type: SquareCatalogObjectType.ITEM,
+      id: 'sq_tee',
+      updated_at: '',
+      version: 1,
+      is_deleted: false,
+      present_at_all_locations: true,
+      item_data: { name: 'Tee <Blue>', description: 'Soft cotton' }
+    }, { imageUrl: 'https://cdn.example.com/tee.jpg' })).toBe(
+      '<div class="jodit-react-product-card"><img src="https://cdn.example.com/tee.jpg" alt="Tee &lt;Blue&gt;">' +
+      '<h3>Tee &lt;Blue&gt;</h3><p>Soft cotton</p></div>'
+    );
+
+    expect(createEmbedHTML('https://youtu.be/abc', 'Care guide')).toBe(
+      '<figure class="jodit-react-embed"><a href="https://youtu.be/abc" target="_blank" rel="noopener noreferrer">' +
+      'https://youtu.be/abc</a><figcaption>Care guide</figcaption></figure>'
+    );
+    expect(createEmbedHTML('javascript:alert(1)')).toBeNull();
+  });
+});
@@ -0,0 +1,68 @@
+import {
+  blocksInput,
+  checkContentLimits,
+  ContentLimit,
+  createPlatformLimit,
+  fitContent,
+  getContentStats,
+  truncateHTML
+} from '../../utils/content-stats';
+
+describe('Content statistics', () => {
+  it('should measure characters, words, bytes and plain text', () => {
+    expect(getContentStats('<p>Soft <strong>café</strong> tee\ufeff</p><ul><li>S</li><li>M</li></ul>')).toEqual({
+      characters: 15,
+      words: 5,
+      htmlBytes: 70,
+      plainTextLength: 22
+    });
+    expect(getContentStats('')).toEqual({ characters: 0, words: 0, htmlBytes: 0, plainTextLength: 0 });
+  });
+
+  it('should report the usage of each limit', () => {
+    const stats = getContentStats('<p>Blue cotton tee</p>');
+
+    expect(checkContentLimits(stats, [{ max: 10 }, { max: 5, unit: 'words', mode: 'hard', label: 'Feed' }])).toEqual([
+      { limit: { max: 10, unit: 'characters', mode: 'soft', label: undefined }, used: 15, remaining: -5, exceeded: true },
+      { limit: { max: 5, unit: 'words', mode: 'hard', label: 'Feed' }, used: 3, remaining: 2, exceeded: false }
+    ]);
+  });
+
+  it('should measure platform limits in their units', () => {
+    expect(createPlatformLimit('square', { mode: 'hard' }))
+      .toEqual({ label: 'Square', max: 4096, unit: 'plainTextLength', mode: 'hard' });
+    expect(createPlatformLimit('spocket', { max: 2000 })).toEqual({ label: 'Spocket', max: 2000, unit: 'htmlBytes' });
+    expect(() => createPlatformLimit('spocket')).toThrow('A max is required for spocket limits');
+  });
+
+  it('should stop only keys that would pass a hard limit', () => {
+    const stats = getContentStats('<p>one two</p>');
+    const reached = (limit: ContentLimit) => checkContentLimits(stats, [{ mode: 'hard', ...limit }]);
+
+    expect(blocksInput(reached({ max: 8 }), 'a')).toBe(false);
+    expect(blocksInput(reached({ max: 7 }), 'a')).toBe(true);
+    expect(blocksInput(reached({ max: 7 }), 'Enter')).toBe(false);
+    expect(blocksInput(reached({ max: 2, unit: 'words' }), 'a')).toBe(false);
+    expect(blocksInput(reached({ max: 2, unit: 'words' }), ' ')).toBe(true);
+    expect(blocksInput(reached({ max: 14, unit: 'htmlBytes' }), 'Enter')).toBe(true);
+    expect(blocksInput(reached({ max: 7, mode: 'soft' }), 'a')).toBe(false);
+  });
+
+  it('should keep the first characters of HTML with their markup', () => {
+    expect(truncateHTML('<p><strong>Soft</strong> cotton</p><p>tee<img src="a.png"></p>', 6))
+      .toBe('<p><strong>Soft</strong> c</p>');
+    expect(truncateHTML('<p>tee</p>', 10)).toBe('<p>tee</p>');
+  });
+
+  it('should shorten content to the room left by hard limits', () => {
+    const limits = checkContentLimits(getContentStats('<p>12345</p>'), [
+      { max: 10, mode: 'hard' },
+      { max: 2, mode: 'soft' }
+    ]);
+
+    expect(fitContent('<p>abc</p>', limits)).toBe('<p>abc</p>');
+    expect(fitContent('<p><em>abcdefgh</em></p>', limits)).toBe('<p><em>abcde</em></p>');
+    expect(fitContent('<p>abc</p>', checkContentLimits(getContentStats('<p>12</p>'), [{ max: 2, mode: 'hard' }])))
+      .toBe('');
+  });
+});
@@ -0,0 +1,145 @@
+import { createTextCRDT, diffText, TextCRDT, TextOperation } from '../../utils/crdt-text';
+
+/**
+ * Deterministic pseudo-random numbers for the convergence test
+ */
+const createRandom = (seed: number) => () => {
+  seed = (seed * 1103515245 + 12345) % 2147483648;
+  return seed / 2147483648;
+};
+
+describe('Text CRDT', () => {
+  describe('diffText', () => {
+    it('should find the single changed range', () => {
+      expect(diffText('<p>abc</p>', '<p>aXc</p>')).toEqual({ index: 4, deleteCount: 1, text: 'X' });
+      expect(diffText('abc', 'abcd')).toEqual({ index: 3, deleteCount: 0, text: 'd' });
+      expect(diffText('aaa', 'aa')).toEqual({ index: 2, deleteCount: 1, text: '' });
+    });
+  });
+
+  it('should apply local inserts and deletes', () => {
+    const doc = createTextCRDT('a');
+    doc.insert(0, 'held');
+    doc.insert(2, 'llo wor');
+    doc.delete(0, 2);
+
+    expect(doc.text).toBe('llo world');
+    expect(doc.setText('hello world')).toHaveLength(1);
+    expect(doc.text).toBe('hello world');
+  });
+
+  it('should converge on concurrent inserts at the same position in any order', () => {
+    const base = createTextCRDT('base');
+    const seed = base.insert(0, '<p></p>');
+
+    const a = createTextCRDT('a');
+    const b = createTextCRDT('b');
+    a.apply(seed);
+    b.apply(seed);
+
+    const fromA = a.insert(3, 'Cotton');
+    const fromB = b.insert(3, 'Linen');
+    a.apply(fromB);
+    b.apply(fromA);
+
+    expect(a.text).toBe(b.text);
+    expect(a.text).toMatch(/^<p>(CottonLinen|LinenCotton)<\/p>$/);
+  });
+
+  it('should converge when a deleted range receives a concurrent insert', () => {
+    const a = createTextCRDT('a');
+    const b = createTextCRDT('b');
+    b.apply(a.insert(0, 'red shirt'));
+
+    const deletion = a.delete(0, 4);
+    const insertion = b.insert(4, 'cotton ');
+    a.apply(insertion);
+    b.apply(deletion);
+
+    expect(a.text).toBe('cotton shirt');
+    expect(b.text).toBe('cotton shirt');
+  });
+
+  it('should hold back operations until the characters they depend on arrive', () => {
+    const a = createTextCRDT('a');
+    const first = a.insert(0, 'ab');
+    const second = a.insert(2, 'cd');
+    const deletion = a.delete(1, 2);
+
+    const b = createTextCRDT('b');
+    expect(b.apply([...deletion, ...second])).toBe(false);
+    expect(b.text).toBe('');
+
+    expect(b.apply(first)).toBe(true);
+    expect(b.text).toBe('ad');
+  });
+
+  it('should ignore operations it has already applied', () => {
+    const a = createTextCRDT('a');
+    const operations = a.insert(0, 'once');
+
+    const b = createTextCRDT('b');
+    b.apply(operations);
+    expect(b.apply(operations)).toBe(false);
+    expect(b.text).toBe('once');
+  });
+
+  it('should send the operations a replica is missing as runs', () => {
+    const a = createTextCRDT('a');
+    a.insert(0, 'hello');
+    const b = createTextCRDT('b');
+    b.apply(a.getOperations());
+    b.apply(b.insert(5, ' world'));
+    a.insert(0, '> ');
+    a.delete(2, 1);
+
+    const missing = a.getOperations(b.getStateVector());
+    expect(missing.filter(operation => operation.type === 'insert')).toHaveLength(1);
+
+    b.apply(missing);
+    a.apply(b.getOperations(a.getStateVector()));
+    expect(a.text).toBe('> ello world');
+    expect(b.text).toBe(a.text);
+  });
+
+  it('should resolve positions after characters, including deleted ones', () => {
+    const doc = createTextCRDT('a');
+    doc.insert(0, 'abcd');
+    const c = doc.idAt(2)!;
+
+    expect(doc.positionAfter(c)).toBe(3);
+    doc.delete(1, 2);
+    expect(doc.positionAfter(c)).toBe(1);
+    expect(doc.positionAfter({ client: 'unknown', clock: 1 })).toBeNull();
+  });
+
+  it('should converge after random concurrent edits', () => {
+    const random = createRandom(42);
+    const replicas = ['a', 'b', 'c'].map(createTextCRDT);
+    // Per sender FIFO queues, as transports deliver them
+    const inboxes = new Map<TextCRDT, TextOperation[][]>(replicas.map(replica => [replica, []]));
+
+    for (let step = 0; step < 300; step++) {
+      const replica = replicas[Math.floor(random() * replicas.length)];
+      const length = replica.text.length;
+      const operations = random() < 0.35 && length
+        ? replica.delete(Math.floor(random() * length), 1 + Math.floor(random() * 3))
+        : replica.insert(Math.floor(random() * (length + 1)), String.fromCharCode(97 + Math.floor(random() * 26)));
+
+      replicas.filter(other => other !== replica).forEach(other => inboxes.get(other)!.push(operations));
+
+      // Deliver some pending messages at random moments
+      replicas.forEach(other => {
+        const inbox = inboxes.get(other)!;
+        while (inbox.length && random() < 0.5) {
+          other.apply(inbox.shift()!);
+        }
+      });
+    }
+
+    replicas.forEach(replica => inboxes.get(replica)!.splice(0).forEach(operations => replica.apply(operations)));
+
+    expect(replicas[1].text).toBe(replicas[0].text);
+    expect(replicas[2].text).toBe(replicas[0].text);
+  });
+});
@@ -0,0 +1,62 @@
+import { patchHTML } from '../../utils/dom-patch';
+
+describe('patchHTML', () => {
+  let root: HTMLDivElement;
+
+  beforeEach(() => {
+    root = document.createElement('div');
+  });
+
+  it('should produce the requested markup', () => {
+    root.innerHTML = '<p>one</p><ul><li>a</li></ul>';
+    patchHTML(root, '<h2 class="title">one</h2><ul><li>a</li><li>b</li></ul>');
+
+    expect(root.innerHTML).toBe('<h2 class="title">one</h2><ul><li>a</li><li>b</li></ul>');
+  });
+
+  it('should keep text nodes whose content did not change', () => {
+    root.innerHTML = '<p>keep</p><p>change</p>';
+    const keptText = root.firstChild!.firstChild;
+
+    patchHTML(root, '<p>keep</p><p>changed</p>');
+
+    expect(root.firstChild!.firstChild).toBe(keptText);
+  });
+
+  it('should update changed text in place', () => {
+    root.innerHTML = '<p>hello</p>';
+    const text = root.firstChild!.firstChild;
+
+    patchHTML(root, '<p>hello world</p>');
+
+    expect(root.firstChild!.firstChild).toBe(text);
+    expect(text!.nodeValue).toBe('hello world');
+  });
+
+  it('should keep trailing nodes when content is inserted before them', () => {
+    root.innerHTML = '<p>a</p><p>c</p>';
+    const last = root.lastChild;
+
+    patchHTML(root, '<p>a</p><p>b</p><p>c</p>');
+
+    expect(root.innerHTML).toBe('<p>a</p><p>b</p><p>c</p>');
+    expect(root.lastChild).toBe(last);
+  });
+
+  it('should remove nodes that are no longer present', () => {
+    root.innerHTML = '<p>a</p><p>b</p><p>c</p>';
+    patchHTML(root, '<p>a</p><p>c</p>');
+
+    expect(root.innerHTML).toBe('<p>a</p><p>c</p>');
+  });
+
+  it('should sync attributes on reused elements', () => {
+    root.innerHTML = '<a href="/old" target="_blank">link</a>';
+    const link = root.firstChild;
+
+    patchHTML(root, '<a href="/new">link</a>');
+
+    expect(root.firstChild).toBe(link);
+    expect(root.innerHTML).toBe('<a href="/new">link</a>');
+  });
+});
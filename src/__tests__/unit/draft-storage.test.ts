@@ -0,0 +1,57 @@
+import {
+  createLocalStorageDraftStorage,
+  DEFAULT_DRAFT_KEY_PREFIX,
+  EditorDraft,
+  isDraftExpired,
+  resolveDraftStorage
+} from '../../utils/draft-storage';
+
+const draft: EditorDraft = { content: '<p>draft</p>', baseValue: '<p>saved</p>', savedAt: 1000 };
+
+describe('Draft storage', () => {
+  afterEach(() => {
+    window.localStorage.clear();
+  });
+
+  describe('createLocalStorageDraftStorage', () => {
+    it('should save, load and remove drafts under a prefixed key', () => {
+      const storage = createLocalStorageDraftStorage();
+
+      storage.save('description', draft);
+      expect(window.localStorage.getItem(`${DEFAULT_DRAFT_KEY_PREFIX}description`)).toBe(JSON.stringify(draft));
+      expect(storage.load('description')).toEqual(draft);
+
+      storage.remove('description');
+      expect(storage.load('description')).toBeNull();
+    });
+
+    it('should ignore corrupt or foreign entries', () => {
+      const storage = createLocalStorageDraftStorage('test:');
+      window.localStorage.setItem('test:broken', '{not json');
+      window.localStorage.setItem('test:other', JSON.stringify({ content: 1 }));
+
+      expect(storage.load('broken')).toBeNull();
+      expect(storage.load('other')).toBeNull();
+    });
+  });
+
+  describe('resolveDraftStorage', () => {
+    it('should default to localStorage', () => {
+      resolveDraftStorage().save('key', draft);
+      expect(window.localStorage.getItem(`${DEFAULT_DRAFT_KEY_PREFIX}key`)).not.toBeNull();
+    });
+
+    it('should pass custom adapters through', () => {
+      const custom = { load: jest.fn(), save: jest.fn(), remove: jest.fn() };
+      expect(resolveDraftStorage(custom)).toBe(custom);
+    });
+  });
+
+  describe('isDraftExpired', () => {
+    it('should compare the draft age with the limit', () => {
+      expect(isDraftExpired(draft, 500, 1400)).toBe(false);
+      expect(isDraftExpired(draft, 500, 1600)).toBe(true);
+      expect(isDraftExpired(draft, Infinity, Number.MAX_SAFE_INTEGER)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import {
+  buildEditorConfig,
+  canApplyLive,
+  diffConfig,
+  findUnknownOptions,
+  mergeConfig,
+  warnUnknownOptions
+} from '../../utils/editor-config';
+
+// Part of Jodit.defaultOptions
+const DEFAULT_OPTIONS = {
+  readonly: false,
+  toolbarSticky: true,
+  buttons: ['bold'],
+  uploader: { url: '', headers: null, withCredentials: false },
+  controls: { bold: {} },
+  events: {}
+};
+
+describe('editor config utilities', () => {
+  describe('buildEditorConfig', () => {
+    it('should apply component defaults', () => {
+      const config = buildEditorConfig();
+
+      expect(config.enableDragAndDropFileToEditor).toBe(true);
+      expect(config.uploader).toEqual({ withCredentials: true });
+    });
+
+    it('should merge the uploader section instead of replacing it', () => {
+      const config = buildEditorConfig({ uploader: { url: '/upload' } });
+
+      expect(config.uploader).toEqual({ withCredentials: true, url: '/upload' });
+    });
+  });
+
+  describe('mergeConfig', () => {
+    it('should merge nested sections at any depth', () => {
+      expect(mergeConfig(
+        { uploader: { url: '/a', headers: { 'X-Shop': '1' } }, height: 200 },
+        { uploader: { headers: { Authorization: 'Bearer t' } }, height: 300 }
+      )).toEqual({
+        uploader: { url: '/a', headers: { 'X-Shop': '1', Authorization: 'Bearer t' } },
+        height: 300
+      });
+    });
+
+    it('should replace arrays, functions and DOM nodes as a whole', () => {
+      const process = () => ({});
+      const popupRoot = document.createElement('div');
+
+      expect(mergeConfig(
+        { buttons: ['bold', 'italic'], uploader: { process: () => ({}) }, popupRoot: document.body },
+        { buttons: ['ul'], uploader: { process }, popupRoot }
+      )).toEqual({ buttons: ['ul'], uploader: { process }, popupRoot });
+    });
+
+    it('should skip undefined values and leave its inputs unchanged', () => {
+      const base = { readonly: true, uploader: { url: '/a' } };
+
+      expect(mergeConfig(base, { readonly: undefined, uploader: { url: '/b' } }, null))
+        .toEqual({ readonly: true, uploader: { url: '/b' } });
+      expect(base).toEqual({ readonly: true, uploader: { url: '/a' } });
+    });
+  });
+
+  describe('findUnknownOptions', () => {
+    it('should report misspelled options and section keys', () => {
+      expect(findUnknownOptions(
+        { readonly: true, toolbarStiky: false, uploader: { url: '/a', urll: '/b' } },
+        DEFAULT_OPTIONS
+      )).toEqual(['toolbarStiky', 'uploader.urll']);
+    });
+
+    it('should accept any key in open sections', () => {
+      expect(findUnknownOptions(
+        { controls: { sale: { name: 'sale' } }, events: { afterInit: () => undefined }, buttons: ['sale'] },
+        DEFAULT_OPTIONS
+      )).toEqual([]);
+    });
+  });
+
+  describe('warnUnknownOptions', () => {
+    it('should warn once per unknown key', () => {
+      const consoleWarn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+      warnUnknownOptions({ toolbarStikcy: false, readonly: true }, DEFAULT_OPTIONS);
+      warnUnknownOptions({ toolbarStikcy: false }, DEFAULT_OPTIONS);
+      warnUnknownOptions({ toolbarStikcy: false }, undefined);
+
+      expect(consoleWarn).toHaveBeenCalledTimes(1);
+      expect(consoleWarn.mock.calls[0][0]).toContain('"toolbarStikcy"');
+      consoleWarn.mockRestore();
+    });
+
+    it('should not warn in production', () => {
+      const consoleWarn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      const env = process.env.NODE_ENV;
+      process.env.NODE_ENV = 'production';
+
+      warnUnknownOptions({ reaodnly: true }, DEFAULT_OPTIONS);
+
+      process.env.NODE_ENV = env;
+      expect(consoleWarn).not.toHaveBeenCalled();
+      consoleWarn.mockRestore();
+    });
+  });
+
+  describe('diffConfig', () => {
+    it('should return no changes for the same object', () => {
+      const config = { readonly: true };
+      expect(diffConfig(config, config)).toEqual([]);
+    });
+
+    it('should compare nested values structurally', () => {
+      expect(
+        diffConfig(
+          { buttons: ['bold'], uploader: { url: '/a' } },
+          { buttons: ['bold'], uploader: { url: '/a' } }
+        )
+      ).toEqual([]);
+    });
+
+    it('should report added, removed and changed keys', () => {
+      expect(
+        diffConfig(
+          { readonly: false, height: 300 },
+          { readonly: true, theme: 'dark' }
+        ).sort()
+      ).toEqual(['height', 'readonly', 'theme']);
+    });
+
+    it('should compare functions by reference', () => {
+      const handler = () => undefined;
+
+      expect(diffConfig({ handler }, { handler })).toEqual([]);
+      expect(diffConfig({ handler }, { handler: () => undefined })).toEqual(['handler']);
+    });
+  });
+
+  describe('canApplyLive', () => {
+    it('should accept only live-updatable options', () => {
+      expect(canApplyLive(['readonly', 'placeholder'])).toBe(true);
+      expect(canApplyLive(['readonly', 'buttons'])).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,28 @@
+import { getTextLength, isEditorEmpty, validateEditorContent, VALIDATION_MESSAGES } from '../../utils/form-validation';
+
+const root = (html: string) => {
+  const element = document.createElement('div');
+  element.innerHTML = html;
+  return element;
+};
+
+describe('Form validation', () => {
+  it('should treat markup without text or media as empty', () => {
+    expect(isEditorEmpty(root('<p><br></p><p>\u200b \ufeff</p>'))).toBe(true);
+    expect(isEditorEmpty(root('<p><img src="tee.jpg" alt=""></p>'))).toBe(false);
+    expect(isEditorEmpty(root('<p>Tee</p>'))).toBe(false);
+  });
+
+  it('should count text characters without caret markers', () => {
+    expect(getTextLength(root('<p>Blue <strong>tee</strong>\ufeff</p>'))).toBe(8);
+  });
+
+  it('should report the first violated constraint', () => {
+    expect(validateEditorContent(root('<p><br></p>'), { required: true, maxLength: 3 }))
+      .toBe(VALIDATION_MESSAGES.valueMissing);
+    expect(validateEditorContent(root('<p>Blue tee</p>'), { required: true, maxLength: 3 }))
+      .toBe(VALIDATION_MESSAGES.tooLong(3, 8));
+    expect(validateEditorContent(root('<p>Tee</p>'), { required: true, maxLength: 3 })).toBe('');
+    expect(validateEditorContent(root(''), {})).toBe('');
+  });
+});
@@ -0,0 +1,42 @@
+import { diffHTML, renderInlineDiff, renderSideBySideDiff, tokenizeHTML } from '../../utils/html-diff';
+
+describe('HTML diff', () => {
+  it('should split HTML into tags, words and whitespace', () => {
+    expect(tokenizeHTML('<p class="a">Blue  tee</p>')).toEqual(['<p class="a">', 'Blue', '  ', 'tee', '</p>']);
+  });
+
+  it('should report equal, deleted and inserted words in order', () => {
+    expect(diffHTML('<p>Red cotton tee</p>', '<p>Blue cotton tee, size M</p>')).toEqual([
+      { type: 'equal', tokens: ['<p>'] },
+      { type: 'delete', tokens: ['Red'] },
+      { type: 'insert', tokens: ['Blue'] },
+      { type: 'equal', tokens: [' ', 'cotton', ' '] },
+      { type: 'delete', tokens: ['tee'] },
+      { type: 'insert', tokens: ['tee,', ' ', 'size', ' ', 'M'] },
+      { type: 'equal', tokens: ['</p>'] }
+    ]);
+  });
+
+  it('should return a single equal part for identical content', () => {
+    expect(diffHTML('<p>Tee</p>', '<p>Tee</p>')).toEqual([{ type: 'equal', tokens: ['<p>', 'Tee', '</p>'] }]);
+    expect(diffHTML('', '')).toEqual([]);
+  });
+
+  it('should render an inline diff in the newer structure', () => {
+    const parts = diffHTML('<p>Soft tee</p>', '<p>Soft <strong>organic</strong> tee</p>');
+
+    expect(renderInlineDiff(parts)).toBe(
+      '<p>Soft <strong><ins class="jodit-react-diff__ins">organic</ins></strong> tee</p>'
+    );
+    expect(renderInlineDiff(diffHTML('<h2>Care</h2><p>Wash cold</p>', '<p>Wash cold</p>'))).toBe(
+      '<del class="jodit-react-diff__del">Care</del><p>Wash cold</p>'
+    );
+  });
+
+  it('should render both sides of a side by side diff', () => {
+    const { before, after } = renderSideBySideDiff(diffHTML('<p>Red tee</p>', '<p>Blue tee</p>'));
+
+    expect(before).toBe('<p><del class="jodit-react-diff__del">Red</del> tee</p>');
+    expect(after).toBe('<p><ins class="jodit-react-diff__ins">Blue</ins> tee</p>');
+  });
+});
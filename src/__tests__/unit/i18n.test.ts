@@ -0,0 +1,68 @@
+import {
+  EN_MESSAGES,
+  getJoditLanguage,
+  getLoadedLocale,
+  getLocaleDirection,
+  loadLocale,
+  registerLocale,
+  resolveLocale
+} from '../../utils/i18n';
+
+describe('i18n', () => {
+  it('should resolve locales to a registered pack', () => {
+    expect(resolveLocale('fr-CA')).toBe('fr');
+    expect(resolveLocale('ar_SA')).toBe('ar');
+    expect(resolveLocale('de')).toBe('en');
+  });
+
+  it('should load a bundled pack once and on demand', async () => {
+    expect(getLoadedLocale('fr')).toBeNull();
+
+    const messages = await loadLocale('fr-FR');
+
+    expect(messages.errorBoundary.retry).toBe('Réessayer');
+    expect(messages.limits.words(1)).toBe('1 mot');
+    expect(messages.limits.words(3)).toBe('3 mots');
+    expect(getLoadedLocale('fr')).toBe(messages);
+    await expect(loadLocale('fr')).resolves.toBe(messages);
+  });
+
+  it('should fill in missing messages of a registered pack with English', async () => {
+    registerLocale('de', { errorBoundary: { retry: 'Erneut versuchen' }, toolbar: { groups: { list: 'Listen' } } });
+
+    const messages = await loadLocale('de-AT');
+
+    expect(messages.errorBoundary).toEqual({ ...EN_MESSAGES.errorBoundary, retry: 'Erneut versuchen' });
+    expect(messages.toolbar.groups.list).toBe('Listen');
+    expect(messages.toolbar.groups.font).toBe('Font');
+    expect(messages.validation.tooLong(5, 6)).toBe(EN_MESSAGES.validation.tooLong(5, 6));
+  });
+
+  it('should allow another attempt after a pack failed to load', async () => {
+    const loader = jest.fn()
+      .mockRejectedValueOnce(new Error('Chunk failed'))
+      .mockResolvedValueOnce({ default: { errorBoundary: { title: 'Virhe' } } });
+    registerLocale('fi', loader);
+
+    await expect(loadLocale('fi')).rejects.toThrow('Chunk failed');
+    await expect(loadLocale('fi')).resolves.toEqual(expect.objectContaining({
+      errorBoundary: expect.objectContaining({ title: 'Virhe' })
+    }));
+    expect(loader).toHaveBeenCalledTimes(2);
+  });
+
+  it('should know the direction of a locale', () => {
+    expect(getLocaleDirection('ar-SA')).toBe('rtl');
+    expect(getLocaleDirection('he')).toBe('rtl');
+    expect(getLocaleDirection('fr-CA')).toBe('ltr');
+  });
+
+  it('should map locales to Jodit language packs', () => {
+    expect(getJoditLanguage('fr-CA')).toBe('fr');
+    expect(getJoditLanguage('pt-BR')).toBe('pt_br');
+    expect(getJoditLanguage('pt-PT')).toBe('pt_br');
+    expect(getJoditLanguage('zh-TW')).toBe('zh_tw');
+    expect(getJoditLanguage('uk')).toBe('ua');
+    expect(getJoditLanguage('sw')).toBe('en');
+  });
+});
@@ -0,0 +1,83 @@
+import { htmlToMarkdown, markdownToHTML } from '../../utils/markdown';
+import { markdownFixtures } from '../fixtures/markdown-fixtures';
+
+describe('Markdown conversion', () => {
+  describe.each(markdownFixtures)('$name', ({ markdown, html }) => {
+    it('should convert Markdown to HTML', () => {
+      expect(markdownToHTML(markdown)).toBe(html);
+    });
+
+    it('should convert HTML to Markdown', () => {
+      expect(htmlToMarkdown(html)).toBe(markdown);
+    });
+
+    it('should round trip without loss', () => {
+      expect(htmlToMarkdown(markdownToHTML(markdown))).toBe(markdown);
+      expect(markdownToHTML(htmlToMarkdown(html))).toBe(html);
+    });
+  });
+
+  describe('markdownToHTML', () => {
+    it('should return an empty string for empty input', () => {
+      expect(markdownToHTML('')).toBe('');
+    });
+
+    it('should accept alternative list markers and emphasis', () => {
+      expect(markdownToHTML('* one\n* two')).toBe('<ul><li>one</li><li>two</li></ul>');
+      expect(markdownToHTML('__bold__ and *em*')).toBe('<p><strong>bold</strong> and <em>em</em></p>');
+    });
+
+    it('should nest strong and emphasis of triple markers', () => {
+      expect(markdownToHTML('***new*** and ___sale___')).toBe(
+        '<p><strong><em>new</em></strong> and <strong><em>sale</em></strong></p>'
+      );
+    });
+
+    it('should render loose list items as paragraphs', () => {
+      expect(markdownToHTML('- one\n\n- two')).toBe('<ul><li><p>one</p></li><li><p>two</p></li></ul>');
+      expect(markdownToHTML('- one\n\n  more\n- two')).toBe('<ul><li><p>one</p><p>more</p></li><li><p>two</p></li></ul>');
+    });
+
+    it('should join soft-wrapped paragraph lines', () => {
+      expect(htmlToMarkdown(markdownToHTML('first line\nsecond line'))).toBe('first line second line');
+    });
+
+    it('should escape HTML in text and code', () => {
+      expect(markdownToHTML('a & b `<i>`')).toBe('<p>a &amp; b <code>&lt;i&gt;</code></p>');
+    });
+
+    it('should pass block HTML through for the sanitizer to handle', () => {
+      expect(markdownToHTML('<div class="note">Hi</div>')).toBe('<div class="note">Hi</div>');
+    });
+
+    it('should convert autolinks', () => {
+      expect(markdownToHTML('<https://shop.test>')).toBe(
+        '<p><a href="https://shop.test">https://shop.test</a></p>'
+      );
+    });
+  });
+
+  describe('htmlToMarkdown', () => {
+    it('should return an empty string for empty input', () => {
+      expect(htmlToMarkdown('')).toBe('');
+    });
+
+    it('should treat divs and b/i tags like paragraphs and emphasis', () => {
+      expect(htmlToMarkdown('<div><b>Bold</b> <i>it</i></div><div>Next</div>')).toBe('**Bold** _it_\n\nNext');
+    });
+
+    it('should keep spaces outside emphasis markers', () => {
+      expect(htmlToMarkdown('<p>a<strong> b </strong>c</p>')).toBe('a **b** c');
+    });
+
+    it('should use a longer fence when code contains backticks', () => {
+      expect(htmlToMarkdown('<pre><code>```\ncode\n```</code></pre>')).toBe('````\n```\ncode\n```\n````');
+    });
+
+    it('should use the first row as the header of tables without thead', () => {
+      expect(htmlToMarkdown('<table><tr><td>a</td><td>b</td></tr><tr><td>1</td></tr></table>')).toBe(
+        '| a | b |\n| --- | --- |\n| 1 |  |'
+      );
+    });
+  });
+});
@@ -0,0 +1,47 @@
+import { detectPasteSource, normalizePastedHTML, PasteProfile } from '../../utils/paste-normalize';
+import { sanitizeHTML } from '../../utils/sanitize';
+import { pasteFixtures } from '../fixtures/paste-fixtures';
+
+const PROFILES: PasteProfile[] = ['keepStructure', 'plainText', 'squareSafe'];
+
+describe('Paste normalization', () => {
+  describe.each(pasteFixtures)('$name', ({ source, html, expected }) => {
+    it('should detect where the HTML was copied from', () => {
+      expect(detectPasteSource(html)).toBe(source);
+    });
+
+    it.each(PROFILES)('should normalize for the %s profile', profile => {
+      expect(normalizePastedHTML(html, profile)).toBe(expected[profile]);
+    });
+
+    it('should leave nothing for the sanitizer to remove', () => {
+      PROFILES.forEach(profile => {
+        expect(sanitizeHTML(expected[profile])).toBe(expected[profile]);
+      });
+    });
+  });
+
+  it('should remove tracking pixels by size, visibility and URL', () => {
+    expect(normalizePastedHTML(
+      '<p>Tee<img src="https://cdn.test/a.gif" style="width:1px;height:1px">' +
+      '<img src="https://cdn.test/b.gif" style="visibility:hidden">' +
+      '<img src="https://mail.test/track/pixel.gif?id=7">' +
+      '<img src="https://www.google-analytics.com/collect?v=1&amp;t=event">' +
+      '<img src="https://cdn.test/tee.jpg" alt="Tee"></p>'
+    )).toBe('<p>Tee<img src="https://cdn.test/tee.jpg" alt="Tee"></p>');
+  });
+
+  it('should keep reference nodes copied within the editor', () => {
+    const mention = '<span data-reference-type="mention" data-reference-id="u1" contenteditable="false">@ana</span>';
+    expect(normalizePastedHTML(`<p style="margin:0">Ask ${mention}</p>`)).toBe(`<p>Ask ${mention}</p>`);
+  });
+
+  it('should leave plain text and preformatted line breaks alone', () => {
+    expect(normalizePastedHTML('Blue tee\nsize M')).toBe('Blue tee\nsize M');
+    expect(normalizePastedHTML('<pre>a\n  b</pre><p>c\nd</p>')).toBe('<pre>a\n  b</pre><p>c d</p>');
+  });
+
+  it('should escape text in the plain text profile', () => {
+    expect(normalizePastedHTML('<p>5 &lt; 6 &amp; <b>bold</b></p>', 'plainText')).toBe('<p>5 &lt; 6 &amp; bold</p>');
+  });
+});
@@ -0,0 +1,100 @@
+import { combineProofingProviders, getProofingRanges, ProofingProvider } from '../../utils/proofing';
+import { COMMON_MISSPELLINGS, createDictionaryProofingProvider } from '../../utils/dictionary-proofing';
+import { createTextRange } from '../../utils/text-offset';
+
+const context = (locale = 'en') => ({ locale, signal: new AbortController().signal });
+
+const createRoot = (html: string) => {
+  const root = document.createElement('div');
+  root.innerHTML = html;
+  return root;
+};
+
+const check = (text: string, provider = createDictionaryProofingProvider()) =>
+  provider([{ text, start: 10 }], context());
+
+describe('getProofingRanges', () => {
+  it('splits text at blocks and line breaks, keeping inline formatting together', () => {
+    const root = createRoot('<p>Soft <strong>cotton</strong> tee</p><ul><li>Machine wash</li></ul><p>Line one<br>Line two</p>');
+
+    expect(getProofingRanges(root)).toEqual([
+      { text: 'Soft cotton tee', start: 0 },
+      { text: 'Machine wash', start: 15 },
+      { text: 'Line one', start: 27 },
+      { text: 'Line two', start: 35 }
+    ]);
+  });
+
+  it('leaves out code and reference nodes but counts their text in the offsets', () => {
+    const root = createRoot(
+      '<p>Pairs with <span contenteditable="false">Blue Tee</span> and <code>SKU-1</code> socks</p>'
+    );
+    const ranges = getProofingRanges(root);
+
+    expect(ranges).toEqual([
+      { text: 'Pairs with ', start: 0 },
+      { text: ' and ', start: 19 },
+      { text: ' socks', start: 29 }
+    ]);
+    expect(createTextRange(root, 30, 35).toString()).toBe('socks');
+  });
+
+  it('skips blocks without text', () => {
+    expect(getProofingRanges(createRoot('<p> </p><p><br></p>'))).toEqual([]);
+  });
+});
+
+describe('createDictionaryProofingProvider', () => {
+  it('reports common misspellings in the case they were written', async () => {
+    expect(await check('Teh shirt is realy soft')).toEqual([
+      { start: 10, end: 13, type: 'spelling', suggestions: ['The'] },
+      { start: 23, end: 28, type: 'spelling', suggestions: ['really'] }
+    ]);
+    expect((await check('WICH size'))[0].suggestions).toEqual(['WHICH']);
+    expect(COMMON_MISSPELLINGS.jewelery).toEqual(['jewelry', 'jewellery']);
+  });
+
+  it('reports a word written twice', async () => {
+    expect(await check('Fits the the whole family')).toEqual([
+      { start: 15, end: 22, type: 'grammar', suggestions: ['the'] }
+    ]);
+    expect(await check('Pack of 2 2 socks')).toEqual([]);
+    expect(await check('the the', createDictionaryProofingProvider({ repeatedWords: false }))).toEqual([]);
+  });
+
+  it('suggests words one typo away when given a word list', async () => {
+    const provider = createDictionaryProofingProvider({
+      misspellings: {},
+      words: ['soft', 'cotton', 'shirt', 'short', 'shift', 'with', 'pocket']
+    });
+
+    expect(await check('Soft cotton shrit with pokcet', provider)).toEqual([
+      { start: 22, end: 27, type: 'spelling', suggestions: ['shirt'] },
+      { start: 33, end: 39, type: 'spelling', suggestions: ['pocket'] }
+    ]);
+    // Numbers, SKUs and acronyms are not checked
+    expect(await check('Shirt 24h TX200 USB', provider)).toEqual([]);
+  });
+
+  it('only checks text of its language', async () => {
+    const provider = createDictionaryProofingProvider();
+
+    expect(await provider([{ text: 'nous nous teh', start: 0 }], context('fr-FR'))).toEqual([]);
+    expect(await provider([{ text: 'teh', start: 0 }], context('en-GB'))).toHaveLength(1);
+  });
+});
+
+describe('combineProofingProviders', () => {
+  it('merges issues in document order, preferring earlier providers where they overlap', async () => {
+    const dictionary: ProofingProvider = async () => [{ start: 4, end: 7, type: 'spelling', suggestions: ['the'] }];
+    const grammar: ProofingProvider = async () => [
+      { start: 4, end: 12, type: 'grammar', suggestions: ['the tee'] },
+      { start: 0, end: 3, type: 'style', message: 'Too informal', suggestions: ['Buy'] }
+    ];
+
+    expect(await combineProofingProviders(dictionary, grammar)([], context())).toEqual([
+      { start: 0, end: 3, type: 'style', message: 'Too informal', suggestions: ['Buy'] },
+      { start: 4, end: 7, type: 'spelling', suggestions: ['the'] }
+    ]);
+  });
+});
@@ -0,0 +1,138 @@
+import { applySanitizePolicy, sanitizeHTML, sanitizeHTMLString } from '../../utils/sanitize';
+import { safeMarkup, xssPayloads } from '../fixtures/xss-fixtures';
+
+// Browsers ignore whitespace and control characters inside URLs, e.g. "java\tscript:"
+const stripIgnoredCharacters = (value: string) =>
+  Array.from(value).filter(char => char.charCodeAt(0) > 0x1f && char.trim()).join('');
+
+/**
+ * Parse sanitized output and look for anything able to run script
+ */
+const findExecutableContent = (html: string): string[] => {
+  const container = document.createElement('div');
+  container.innerHTML = html;
+  const problems: string[] = [];
+
+  container.querySelectorAll('*').forEach(element => {
+    const tag = element.localName;
+    if (['script', 'iframe', 'object', 'embed', 'svg', 'math', 'style', 'base', 'meta', 'link', 'form'].includes(tag)) {
+      problems.push(`<${tag}>`);
+    }
+
+    Array.from(element.attributes).forEach(({ name, value }) => {
+      const normalized = stripIgnoredCharacters(value).toLowerCase();
+      if (name.startsWith('on')) {
+        problems.push(`${tag}[${name}]`);
+      }
+      if (/^(javascript|vbscript|data:text)/.test(normalized) || /javascript:|expression\(|url\(/.test(normalized)) {
+        problems.push(`${tag}[${name}=${value}]`);
+      }
+    });
+  });
+
+  return problems;
+};
+
+describe('sanitizeHTML', () => {
+  describe('XSS corpus', () => {
+    it.each(xssPayloads)('should neutralize %s', payload => {
+      expect(findExecutableContent(sanitizeHTML(payload))).toEqual([]);
+    });
+  });
+
+  describe('safe markup', () => {
+    it.each(safeMarkup)('should keep %s', markup => {
+      expect(sanitizeHTML(markup)).toBe(markup);
+    });
+  });
+
+  it('should unwrap disallowed tags but keep their text', () => {
+    expect(sanitizeHTML('<p><font color="red">Sale</font></p>')).toBe('<p>Sale</p>');
+  });
+
+  it('should add rel="noopener noreferrer" to links opening a new window', () => {
+    expect(sanitizeHTML('<a href="https://example.com" target="_blank">x</a>')).toBe(
+      '<a href="https://example.com" target="_blank" rel="noopener noreferrer">x</a>'
+    );
+  });
+
+  it('should accept data images unless disabled', () => {
+    const image = '<img src="data:image/png;base64,iVBORw0KGgo=">';
+
+    expect(sanitizeHTML(image)).toBe(image);
+    expect(sanitizeHTML(image, { allowDataImages: false })).toBe('<img>');
+  });
+
+  it('should respect a custom allow-list', () => {
+    const html = '<h1 id="top">Title</h1><p class="lead">Text</p>';
+
+    expect(
+      sanitizeHTML(html, {
+        allowedTags: ['p'],
+        allowedAttributes: { p: ['class'] }
+      })
+    ).toBe('Title<p class="lead">Text</p>');
+  });
+
+  it('should respect a custom URL scheme policy', () => {
+    expect(sanitizeHTML('<a href="tel:123">call</a>', { allowedSchemes: ['https'] })).toBe('<a>call</a>');
+    expect(sanitizeHTML('<a href="sms:123">text</a>', { allowedSchemes: ['sms'] })).toBe('<a href="sms:123">text</a>');
+  });
+
+  it('should run element and attribute hooks', () => {
+    const html = sanitizeHTML('<p class="keep">a</p><p class="drop">b</p><a href="http://x.test">c</a>', {
+      hooks: {
+        element: element => !element.classList.contains('drop'),
+        attribute: (_element, name, value) =>
+          name === 'href' ? value.replace('http:', 'https:') : undefined
+      }
+    });
+
+    expect(html).toBe('<p class="keep">a</p><a href="https://x.test">c</a>');
+  });
+});
+
+describe('sanitizeHTMLString', () => {
+  describe('XSS corpus', () => {
+    it.each(xssPayloads)('should neutralize %s', payload => {
+      expect(findExecutableContent(sanitizeHTMLString(payload))).toEqual([]);
+    });
+  });
+
+  describe('safe markup', () => {
+    it.each(safeMarkup)('should keep %s', markup => {
+      expect(sanitizeHTMLString(markup)).toBe(markup);
+    });
+  });
+
+  it('should drop blocked elements with their content, including nested ones', () => {
+    expect(sanitizeHTMLString('<p>a</p><form><form>x</form>y</form><p>b</p>')).toBe('<p>a</p><p>b</p>');
+    expect(sanitizeHTMLString('<p>a<style>p{}</style>b</p>')).toBe('<p>ab</p>');
+  });
+
+  it('should balance tags and escape stray brackets', () => {
+    expect(sanitizeHTMLString('<p><b>bold</p> 1 < 2')).toBe('<p><b>bold</b></p> 1 &lt; 2');
+    expect(sanitizeHTMLString('</em>text<ul><li>item')).toBe('text<ul><li>item</li></ul>');
+  });
+
+  it('should match sanitizeHTML for links and attributes', () => {
+    const html = '<a href="https://example.com" target="_blank" onclick="x()">x</a><p title=\'a "b"\'>c</p>';
+    expect(sanitizeHTMLString(html)).toBe(sanitizeHTML(html));
+  });
+
+  it('should decode character references before checking URLs', () => {
+    expect(sanitizeHTMLString('<a href="jav&#x61;script&colon;alert(1)">x</a>')).toBe('<a>x</a>');
+    expect(sanitizeHTMLString('<a href="&unknown;javascript:alert(1)">x</a>')).toBe('<a>x</a>');
+    expect(sanitizeHTMLString('<a href="/search?a=1&amp;b=2">x</a>')).toBe('<a href="/search?a=1&amp;b=2">x</a>');
+  });
+});
+
+describe('applySanitizePolicy', () => {
+  it('should leave the value untouched when disabled', () => {
+    expect(applySanitizePolicy('<script>x</script>', false)).toBe('<script>x</script>');
+  });
+
+  it('should use the default policy when enabled', () => {
+    expect(applySanitizePolicy('<p onclick="x()">a</p>', true)).toBe('<p>a</p>');
+  });
+});
@@ -0,0 +1,87 @@
+import {
+  getSquareDescriptionBudget,
+  htmlToPlainText,
+  toSquareDescription,
+  toSquareDescriptionHTML,
+  toSquareDescriptionHTMLString
+} from '../../utils/square-description';
+
+describe('Square description utilities', () => {
+  describe('toSquareDescriptionHTML', () => {
+    it('should keep supported formatting', () => {
+      const html = '<p><strong>Soft</strong> <em>cotton</em> <u>tee</u></p><ul><li>S</li><li>M</li></ul>';
+      expect(toSquareDescriptionHTML(html)).toBe(html);
+    });
+
+    it('should turn headings and divs into paragraphs', () => {
+      expect(toSquareDescriptionHTML('<h2>Care</h2><div>Wash cold</div>')).toBe(
+        '<p>Care</p><p>Wash cold</p>'
+      );
+    });
+
+    it('should strip unsupported tags, attributes and styles', () => {
+      expect(
+        toSquareDescriptionHTML(
+          '<p style="color:red" class="x"><span style="font-family:Arial">Sale</span> <img src="a.png"></p>'
+        )
+      ).toBe('<p>Sale </p>');
+    });
+
+    it('should keep only the href of links', () => {
+      expect(
+        toSquareDescriptionHTML('<p><a href="https://shop.test" target="_blank" title="t">Shop</a></p>')
+      ).toBe('<p><a href="https://shop.test">Shop</a></p>');
+    });
+
+    it('should flatten tables into paragraphs', () => {
+      expect(
+        toSquareDescriptionHTML('<table><tbody><tr><td>Size</td><td>M</td></tr></tbody></table>')
+      ).toBe('<p>Size | M</p>');
+    });
+
+    it('should drop empty paragraphs', () => {
+      expect(toSquareDescriptionHTML('<p>a</p><p><br></p><p>&nbsp;</p>')).toBe('<p>a</p>');
+    });
+  });
+
+  describe('toSquareDescriptionHTMLString', () => {
+    it.each([
+      '<p>Soft <strong>cotton</strong> tee</p><ul><li>Breathable</li></ul>',
+      '<h2>Care</h2><div>Wash cold</div>',
+      '<div><p>Nested</p><blockquote><p>Quote</p></blockquote></div>',
+      '<p style="color:red" class="x"><span>Made in</span> <a href="https://shop.test" target="_blank">Peru</a></p>',
+      '<table><caption>Sizes</caption><tbody><tr><th>Size</th><td>M</td></tr><tr><td>Fit</td><td><b>Slim</b></td></tr></tbody></table>',
+      '<p>a</p><p><br></p><p>&nbsp;</p><img src="x.png">'
+    ])('should match the editor normalization for %s', html => {
+      expect(toSquareDescriptionHTMLString(html)).toBe(toSquareDescriptionHTML(html));
+    });
+  });
+
+  describe('htmlToPlainText', () => {
+    it('should separate paragraphs with blank lines and prefix list items', () => {
+      expect(htmlToPlainText('<p>Intro</p><ul><li>One</li><li>Two</li></ul><ol><li>First</li></ol><p>End<br>line</p>')).toBe(
+        'Intro\n\n- One\n- Two\n\n1. First\n\nEnd\nline'
+      );
+    });
+  });
+
+  describe('toSquareDescription', () => {
+    it('should return description_html and plain description fields', () => {
+      expect(toSquareDescription('<h1>Tee</h1><p>Made of <b>cotton</b></p>')).toEqual({
+        description_html: '<p>Tee</p><p>Made of <b>cotton</b></p>',
+        description: 'Tee\n\nMade of cotton'
+      });
+    });
+  });
+
+  describe('getSquareDescriptionBudget', () => {
+    it('should measure the plain text length against the limit', () => {
+      expect(getSquareDescriptionBudget('<p>12345</p>', 4)).toEqual({
+        used: 5,
+        limit: 4,
+        remaining: -1,
+        exceeded: true
+      });
+    });
+  });
+});
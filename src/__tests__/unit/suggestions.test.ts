@@ -0,0 +1,114 @@
+import {
+  combineSuggestionProviders,
+  DEFAULT_SUGGESTION_TRIGGERS,
+  findTriggerMatch,
+  getContentReferences
+} from '../../utils/suggestions';
+import { createSquareCatalogSuggestionProvider } from '../../utils/square-catalog-suggestions';
+import { sanitizeHTML, sanitizeHTMLString } from '../../utils/sanitize';
+import { SquareCatalogObject, SquareCatalogObjectType } from '../../services/types/square.types';
+
+const [mention, hashtag, product] = DEFAULT_SUGGESTION_TRIGGERS;
+
+const catalogObject = (overrides: Partial<SquareCatalogObject>): SquareCatalogObject => ({
+  type: SquareCatalogObjectType.ITEM,
+  id: 'sq_item',
+  updated_at: '2025-01-01T00:00:00Z',
+  version: 1,
+  is_deleted: false,
+  present_at_all_locations: true,
+  ...overrides
+});
+
+const catalog: SquareCatalogObject[] = [
+  catalogObject({
+    id: 'sq_tee',
+    item_data: {
+      name: 'Blue Tee',
+      variations: [catalogObject({
+        type: SquareCatalogObjectType.ITEM_VARIATION,
+        id: 'sq_tee_m',
+        item_variation_data: { item_id: 'sq_tee', name: 'M', sku: 'TEE-BLU-M', price_money: { amount: 2000, currency: 'USD' } }
+      })]
+    }
+  }),
+  catalogObject({ id: 'sq_old', is_deleted: true, item_data: { name: 'Blue Cap' } }),
+  catalogObject({ id: 'sq_summer', type: SquareCatalogObjectType.CATEGORY, category_data: { name: 'Blue Summer' } }),
+  catalogObject({ id: 'sq_mug', item_data: { name: 'Mug' } })
+];
+
+const context = (trigger = product) => ({ trigger, signal: new AbortController().signal });
+
+describe('Suggestions', () => {
+  describe('findTriggerMatch', () => {
+    it('should match triggers at the start of the text or after whitespace', () => {
+      expect(findTriggerMatch('@an', DEFAULT_SUGGESTION_TRIGGERS)).toEqual({ trigger: mention, query: 'an', start: 0 });
+      expect(findTriggerMatch('Thanks #summ', DEFAULT_SUGGESTION_TRIGGERS)).toEqual({
+        trigger: hashtag,
+        query: 'summ',
+        start: 7
+      });
+      expect(findTriggerMatch('mail me@shop', DEFAULT_SUGGESTION_TRIGGERS)).toBeNull();
+      expect(findTriggerMatch('@ana and', DEFAULT_SUGGESTION_TRIGGERS)).toBeNull();
+    });
+
+    it('should allow spaces in queries of word triggers', () => {
+      expect(findTriggerMatch('See /product', DEFAULT_SUGGESTION_TRIGGERS)?.query).toBe('');
+      expect(findTriggerMatch('See /product blue tee', DEFAULT_SUGGESTION_TRIGGERS)).toEqual({
+        trigger: product,
+        query: 'blue tee',
+        start: 4
+      });
+      expect(findTriggerMatch('/products', DEFAULT_SUGGESTION_TRIGGERS)).toBeNull();
+    });
+
+    it('should prefer the trigger closest to the caret', () => {
+      expect(findTriggerMatch('/product tee @an', DEFAULT_SUGGESTION_TRIGGERS)?.trigger).toBe(mention);
+    });
+  });
+
+  it('should list references and keep them through the sanitizer', () => {
+    const html =
+      '<p>Pairs with <span data-reference-type="product" data-reference-id="sq_tee" contenteditable="false">Blue Tee</span>' +
+      ' by <span data-reference-type="mention" data-reference-id="u1" onclick="x()">@ana</span></p>';
+
+    expect(getContentReferences(html)).toEqual([
+      { type: 'product', id: 'sq_tee', label: 'Blue Tee' },
+      { type: 'mention', id: 'u1', label: '@ana' }
+    ]);
+    expect(getContentReferences(sanitizeHTML(html))).toEqual(getContentReferences(html));
+    expect(sanitizeHTMLString(html)).toBe(sanitizeHTML(html));
+  });
+
+  it('should route queries by trigger type', async () => {
+    const users = jest.fn(async () => [{ id: 'u1', label: 'ana' }]);
+    const provider = combineSuggestionProviders({ mention: users });
+
+    await expect(provider('an', context(mention))).resolves.toEqual([{ id: 'u1', label: 'ana' }]);
+    await expect(provider('an', context(hashtag))).resolves.toEqual([]);
+  });
+
+  describe('createSquareCatalogSuggestionProvider', () => {
+    it('should search items by name and SKU and categories by name', async () => {
+      const provider = createSquareCatalogSuggestionProvider({ catalog });
+
+      await expect(provider('blue', context())).resolves.toEqual([
+        { id: 'sq_tee', label: 'Blue Tee', description: '$20.00 · TEE-BLU-M' },
+        { id: 'sq_summer', label: 'Blue Summer', description: 'Category' }
+      ]);
+      await expect(provider('tee-blu', context())).resolves.toEqual([
+        expect.objectContaining({ id: 'sq_tee' })
+      ]);
+    });
+
+    it('should map the results of a search function and apply the limit', async () => {
+      const searchCatalog = jest.fn(async () => catalog);
+      const provider = createSquareCatalogSuggestionProvider({ catalog: searchCatalog, limit: 2 });
+      const { signal } = new AbortController();
+
+      const suggestions = await provider('anything', { trigger: product, signal });
+      expect(searchCatalog).toHaveBeenCalledWith('anything', { signal });
+      expect(suggestions.map(suggestion => suggestion.id)).toEqual(['sq_tee', 'sq_summer']);
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import TemplateLibrary from '../../components/TemplateLibrary';
+import TemplatePreview from '../../components/TemplatePreview';
+import fr from '../../locales/fr';
+import type { SpocketProduct, SpocketProductVariant } from '../../services/types/spocket.types';
+import { SquareCatalogItem, SquareCatalogObjectType } from '../../services/types/square.types';
+import {
+  createTemplateCommand,
+  DescriptionTemplate,
+  getTemplatePlaceholders,
+  getTemplateVariables,
+  renderTemplate
+} from '../../utils/templates';
+
+const variant = (id: string, title: string, sku: string, price: number): SpocketProductVariant => ({
+  id,
+  product_id: 'sp_tee',
+  title,
+  sku,
+  price,
+  inventory_quantity: 10,
+  inventory_policy: 'deny',
+  created_at: '2025-01-01T00:00:00Z',
+  updated_at: '2025-01-01T00:00:00Z'
+});
+
+const spocketProduct: SpocketProduct = {
+  id: 'sp_tee',
+  title: 'Organic Tee',
+  description: 'Soft & breathable',
+  sku: 'TEE',
+  price: 19.5,
+  currency: 'USD',
+  inventory_quantity: 20,
+  inventory_policy: 'deny',
+  status: 'active',
+  images: [
+    { id: 'i2', src: 'https://cdn.example.com/back.jpg', position: 2, created_at: '', updated_at: '' },
+    { id: 'i1', src: 'https://cdn.example.com/front.jpg', position: 1, created_at: '', updated_at: '' }
+  ],
+  variants: [variant('v_s', 'Small', 'TEE-S', 19.5), variant('v_l', 'Large', 'TEE-L', 21)],
+  tags: ['organic', 'summer'],
+  weight: 0.2,
+  weight_unit: 'kg',
+  shipping_origin_country: 'Portugal',
+  processing_time: '2-3 days',
+  categories: [{ id: 'c1', name: 'Shirts' }],
+  created_at: '2025-01-01T00:00:00Z',
+  updated_at: '2025-01-01T00:00:00Z'
+};
+
+const squareItem: SquareCatalogItem = {
+  name: 'Blue Mug',
+  description_plaintext: 'Stoneware',
+  variations: [{
+    type: SquareCatalogObjectType.ITEM_VARIATION,
+    id: 'sq_mug_reg',
+    updated_at: '2025-01-01T00:00:00Z',
+    version: 1,
+    is_deleted: false,
+    present_at_all_locations: true,
+    item_variation_data: { item_id: 'sq_mug', name: 'Regular', sku: 'MUG-R', price_money: { amount: 1200, currency: 'USD' } }
+  }]
+};
+
+const templates: DescriptionTemplate[] = [
+  { id: 'intro', name: 'Intro', html: '<p>{{product.title}} ({{variant.sku}}) ships in {{processing_time}}</p>' },
+  { id: 'price', name: 'Price', html: '<p>Only {{variant.price}}</p>' }
+];
+
+describe('Description templates', () => {
+  describe('getTemplateVariables', () => {
+    it('should fill variables from a Spocket product and its variant', () => {
+      const variables = getTemplateVariables(spocketProduct, { variantId: 'v_l' });
+
+      expect(variables).toMatchObject({
+        'product.title': 'Organic Tee',
+        'product.price': '$19.50',
+        'product.tags': 'organic, summer',
+        'product.category': 'Shirts',
+        'product.weight': '0.2 kg',
+        'product.image': 'https://cdn.example.com/front.jpg',
+        'variant.title': 'Large',
+        'variant.sku': 'TEE-L',
+        'variant.price': '$21.00',
+        processing_time: '2-3 days',
+        shipping_origin: 'Portugal'
+      });
+      expect(getTemplateVariables(spocketProduct)['variant.sku']).toBe('TEE-S');
+    });
+
+    it('should fill variables from a Square item and take extra values', () => {
+      const variables = getTemplateVariables(squareItem, { extra: { processing_time: '1 day' } });
+
+      expect(variables).toEqual({
+        'product.title': 'Blue Mug',
+        'product.description': 'Stoneware',
+        'product.sku': 'MUG-R',
+        'product.price': '$12.00',
+        'variant.title': 'Regular',
+        'variant.sku': 'MUG-R',
+        'variant.price': '$12.00',
+        processing_time: '1 day'
+      });
+    });
+  });
+
+  it('should render placeholders with escaped values and keep unknown ones', () => {
+    const html = '<p>{{ product.description }} from {{shipping_origin}}</p>';
+
+    expect(getTemplatePlaceholders(`${html}{{product.description}}`)).toEqual(['product.description', 'shipping_origin']);
+    expect(renderTemplate(html, { 'product.description': 'Soft & <b>warm</b>' })).toBe(
+      '<p>Soft &amp; &lt;b&gt;warm&lt;/b&gt; from {{shipping_origin}}</p>'
+    );
+    expect(renderTemplate(html, {}, { missing: () => '' })).toBe('<p> from </p>');
+  });
+
+  it('should build a slash command inserting the filled template', () => {
+    const command = createTemplateCommand(templates[0], () => getTemplateVariables(spocketProduct));
+    const html = command.html as () => string;
+
+    expect(command).toMatchObject({ id: 'template-intro', title: 'Intro' });
+    expect(html()).toBe('<p>Organic Tee (TEE-S) ships in 2-3 days</p>');
+    expect((createTemplateCommand(templates[0]).html as () => string)()).toBe(templates[0].html);
+  });
+
+  it('should preview a template and highlight missing values', () => {
+    const { container } = render(
+      <TemplatePreview template={templates[0].html} variables={getTemplateVariables(squareItem)} />
+    );
+
+    expect(container.textContent).toBe('Blue Mug (MUG-R) ships in {{processing_time}}');
+    expect(container.querySelector('mark.jodit-react-template__missing')?.textContent).toBe('{{processing_time}}');
+  });
+
+  describe('TemplateLibrary', () => {
+    it('should preview the selected template with product data and insert it filled', () => {
+      const onInsert = jest.fn();
+      const { container } = render(
+        <TemplateLibrary templates={templates} product={spocketProduct} onInsert={onInsert} />
+      );
+
+      fireEvent.click(screen.getByRole('button', { name: 'Price' }));
+      expect(screen.getByRole('button', { name: 'Price' })).toHaveAttribute('aria-pressed', 'true');
+      expect(container.querySelector('.jodit-react-templates__preview')?.textContent).toBe('Only $19.50');
+
+      fireEvent.click(screen.getByRole('button', { name: 'Template' }));
+      expect(container.querySelector('.jodit-react-templates__preview')?.textContent).toBe('Only {{variant.price}}');
+
+      fireEvent.click(screen.getByRole('button', { name: 'Insert template' }));
+      expect(onInsert).toHaveBeenCalledWith('<p>Only $19.50</p>');
+    });
+
+    it('should insert placeholders without a product', () => {
+      const onInsert = jest.fn();
+      render(<TemplateLibrary templates={templates} onInsert={onInsert} />);
+
+      expect(screen.getByRole('button', { name: 'Template' })).toHaveAttribute('aria-pressed', 'true');
+      fireEvent.click(screen.getByRole('button', { name: 'Insert template' }));
+      expect(onInsert).toHaveBeenCalledWith(templates[0].html);
+
+      fireEvent.change(screen.getByRole('combobox', { name: 'Insert variable' }), {
+        target: { value: 'variant.sku' }
+      });
+      expect(onInsert).toHaveBeenLastCalledWith('{{variant.sku}}');
+    });
+
+    it('should show the given messages', () => {
+      render(<TemplateLibrary templates={templates} onInsert={jest.fn()} messages={fr.templates} />);
+
+      expect(screen.getByRole('button', { name: 'Insérer le modèle' })).toBeInTheDocument();
+      expect(screen.getByRole('group', { name: 'Affichage du modèle' })).toBeInTheDocument();
+      expect(screen.getByRole('option', { name: 'SKU de la variante' })).toBeInTheDocument();
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import {
+  applyThemeStyle,
+  DARK_THEME_TOKENS,
+  getThemeColorScheme,
+  getThemeStyle,
+  getThemeStyleProps,
+  LIGHT_THEME_TOKENS,
+  resolveThemeTokens
+} from '../../utils/theme';
+
+describe('theme utilities', () => {
+  it('should resolve the color scheme of a theme', () => {
+    expect(getThemeColorScheme('dark')).toBe('dark');
+    expect(getThemeColorScheme({ tokens: { radius: '4px' } })).toBe('auto');
+    expect(getThemeColorScheme({ colorScheme: 'light' })).toBe('light');
+  });
+
+  it('should layer shared and per-scheme tokens over the built-in ones', () => {
+    const theme = { tokens: { radius: '8px', accent: '#7c3aed' }, dark: { accent: '#a78bfa' } };
+
+    expect(resolveThemeTokens(theme, 'light')).toEqual({ ...LIGHT_THEME_TOKENS, radius: '8px', accent: '#7c3aed' });
+    expect(resolveThemeTokens(theme, 'dark')).toEqual({ ...DARK_THEME_TOKENS, radius: '8px', accent: '#a78bfa' });
+    expect(resolveThemeTokens('dark', 'dark')).toEqual(DARK_THEME_TOKENS);
+  });
+
+  it('should map tokens to Jodit variables', () => {
+    const style = getThemeStyle({ text: '#111111', fontFamily: 'Inter, sans-serif', spacing: '' }, 'dark');
+
+    expect(style).toEqual({
+      'color-scheme': 'dark',
+      '--jd-color-text': '#111111',
+      '--jd-color-default': '#111111',
+      '--jd-dark-text-color': '#111111',
+      '--jd-font-default': 'Inter, sans-serif'
+    });
+  });
+
+  it('should use the camelCase color scheme in React style props', () => {
+    expect(getThemeStyleProps(getThemeStyle({ radius: '8px' }, 'dark'))).toEqual({
+      colorScheme: 'dark',
+      '--jd-border-radius-default': '8px'
+    });
+    expect(getThemeStyleProps(null)).toEqual({});
+  });
+
+  it('should remove variables an earlier call set', () => {
+    const element = document.createElement('div');
+    const branded = getThemeStyle({ text: '#111111', radius: '8px' }, 'light');
+
+    applyThemeStyle(element, branded);
+    expect(element.style.getPropertyValue('--jd-border-radius-default')).toBe('8px');
+
+    applyThemeStyle(element, getThemeStyle({ text: '#222222' }, 'light'), branded);
+    expect(element.style.getPropertyValue('--jd-border-radius-default')).toBe('');
+    expect(element.style.getPropertyValue('--jd-color-text')).toBe('#222222');
+
+    applyThemeStyle(element, null, branded);
+    expect(element.getAttribute('style')).toBe('');
+  });
+});
@@ -0,0 +1,146 @@
+import fr from '../../locales/fr';
+import {
+  createUploadedElement,
+  createUploadPlaceholder,
+  isAbortError,
+  isAcceptedFile,
+  stripUploadPlaceholders,
+  UPLOAD_PLACEHOLDER_ATTRIBUTE,
+  updateUploadPlaceholder,
+  uploadWithRetry
+} from '../../utils/upload';
+
+const image = new File(['png'], 'front.png', { type: 'image/png' });
+const pdf = new File(['pdf'], 'spec.pdf', { type: 'application/pdf' });
+
+describe('Upload utilities', () => {
+  describe('isAcceptedFile', () => {
+    it('should accept images by default', () => {
+      expect(isAcceptedFile(image)).toBe(true);
+      expect(isAcceptedFile(pdf)).toBe(false);
+    });
+
+    it('should match exact types and wildcards', () => {
+      expect(isAcceptedFile(pdf, ['application/pdf'])).toBe(true);
+      expect(isAcceptedFile(image, ['image/jpeg'])).toBe(false);
+      expect(isAcceptedFile(pdf, ['application/*'])).toBe(true);
+    });
+  });
+
+  describe('uploadWithRetry', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should pass progress, signal and attempt to the adapter', async () => {
+      const onProgress = jest.fn();
+      const controller = new AbortController();
+      const adapter = jest.fn(async (_file: File, context: { onProgress(p: number): void }) => {
+        context.onProgress(0.5);
+        context.onProgress(1.5);
+        return 'https://cdn.test/front.png';
+      });
+
+      await expect(
+        uploadWithRetry(adapter, image, { signal: controller.signal, onProgress })
+      ).resolves.toBe('https://cdn.test/front.png');
+
+      expect(adapter).toHaveBeenCalledWith(image, expect.objectContaining({ signal: controller.signal, attempt: 1 }));
+      expect(onProgress.mock.calls).toEqual([[0.5], [1]]);
+    });
+
+    it('should retry failures with exponential backoff', async () => {
+      const onRetry = jest.fn();
+      const adapter = jest.fn()
+        .mockRejectedValueOnce(new Error('timeout'))
+        .mockRejectedValueOnce(new Error('timeout'))
+        .mockResolvedValueOnce('https://cdn.test/front.png');
+
+      const result = uploadWithRetry(adapter, image, {
+        signal: new AbortController().signal,
+        retries: 2,
+        retryDelayMs: 100,
+        onRetry
+      });
+
+      await jest.advanceTimersByTimeAsync(100);
+      expect(adapter).toHaveBeenCalledTimes(2);
+      await jest.advanceTimersByTimeAsync(200);
+
+      await expect(result).resolves.toBe('https://cdn.test/front.png');
+      expect(adapter).toHaveBeenCalledTimes(3);
+      expect(onRetry.mock.calls.map(([attempt]) => attempt)).toEqual([2, 3]);
+    });
+
+    it('should give up after the configured retries', async () => {
+      const adapter = jest.fn().mockRejectedValue(new Error('server error'));
+
+      const result = uploadWithRetry(adapter, image, {
+        signal: new AbortController().signal,
+        retries: 1,
+        retryDelayMs: 10
+      });
+      const assertion = expect(result).rejects.toThrow('server error');
+      await jest.advanceTimersByTimeAsync(10);
+
+      await assertion;
+      expect(adapter).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stop retrying once aborted', async () => {
+      const controller = new AbortController();
+      const adapter = jest.fn().mockRejectedValue(new Error('timeout'));
+
+      const result = uploadWithRetry(adapter, image, { signal: controller.signal, retryDelayMs: 1000 })
+        .catch((error: unknown) => error);
+      await jest.advanceTimersByTimeAsync(0);
+      controller.abort();
+
+      expect(isAbortError(await result)).toBe(true);
+      expect(adapter).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('placeholders', () => {
+    it('should show upload and retry progress', () => {
+      const placeholder = createUploadPlaceholder(document, 'upload-1', image);
+      expect(placeholder.getAttribute(UPLOAD_PLACEHOLDER_ATTRIBUTE)).toBe('upload-1');
+      expect(placeholder).toHaveAttribute('role', 'progressbar');
+      expect(placeholder).toHaveTextContent('Uploading front.png… 0%');
+
+      updateUploadPlaceholder(placeholder, image, 0.42);
+      expect(placeholder).toHaveAttribute('aria-valuenow', '42');
+
+      updateUploadPlaceholder(placeholder, image, 0, 2);
+      expect(placeholder).toHaveTextContent('Retrying front.png (attempt 2)… 0%');
+    });
+
+    it('should show progress in the given language', () => {
+      const placeholder = createUploadPlaceholder(document, 'upload-1', image, fr.uploads);
+      expect(placeholder).toHaveAttribute('aria-label', 'Envoi de front.png');
+      expect(placeholder).toHaveTextContent('Envoi de front.png… 0 %');
+
+      updateUploadPlaceholder(placeholder, image, 0.5, 2, fr.uploads);
+      expect(placeholder).toHaveTextContent('Nouvel essai pour front.png (tentative 2)… 50 %');
+    });
+
+    it('should strip placeholders from content', () => {
+      const placeholder = createUploadPlaceholder(document, 'upload-1', image);
+      expect(stripUploadPlaceholders(`<p>a${placeholder.outerHTML}b</p>`)).toBe('<p>ab</p>');
+      expect(stripUploadPlaceholders('<p>plain</p>')).toBe('<p>plain</p>');
+    });
+
+    it('should insert images for image files and links otherwise', () => {
+      expect(createUploadedElement(document, image, 'https://cdn.test/front.png').outerHTML).toBe(
+        '<img src="https://cdn.test/front.png" alt="front">'
+      );
+      expect(createUploadedElement(document, pdf, 'https://cdn.test/spec.pdf').outerHTML).toBe(
+        '<a href="https://cdn.test/spec.pdf">spec.pdf</a>'
+      );
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import { LIMIT_MESSAGES, LimitMessages } from '../utils/content-stats';
+
+interface CharacterBudgetProps {
+  /**
+   * Characters used so far
+   */
+  used: number;
+
+  /**
+   * Maximum number of characters allowed
+   */
+  limit: number;
+
+  /**
+   * Texts of the budget, defaults to English
+   */
+  messages?: Pick<LimitMessages, 'budgetRemaining' | 'budgetExceeded'>;
+
+  /**
+   * Optional className to apply to the container
+   */
+  className?: string;
+}
+
+/**
+ * Live character counter shown under the editor.
+ * Switches to an exceeded state once the limit is passed.
+ *
+ * @example
+ * ```tsx
+ * <CharacterBudget used={3900} limit={4096} />
+ * ```
+ */
+const CharacterBudget = ({ used, limit, messages = LIMIT_MESSAGES, className }: CharacterBudgetProps) => {
+  const exceeded = used > limit;
+  const classes = [
+    'jodit-react-budget',
+    exceeded ? 'jodit-react-budget_exceeded' : '',
+    className || ''
+  ].filter(Boolean).join(' ');
+
+  return (
+    <div className={classes} role="status" aria-live="polite">
+      {exceeded
+        ? messages.budgetExceeded(used - limit, limit)
+        : messages.budgetRemaining(limit - used, limit)}
+    </div>
+  );
+};
+
+export default CharacterBudget;
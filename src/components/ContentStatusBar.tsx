@@ -0,0 +1,66 @@
+import { ContentLimitStatus, ContentStats, LIMIT_MESSAGES, LimitMessages } from '../utils/content-stats';
+
+interface ContentStatusBarProps {
+  stats: ContentStats;
+
+  /**
+   * Usage of the configured limits
+   */
+  limits?: ContentLimitStatus[];
+
+  /**
+   * Texts of the counts and limits, defaults to English
+   */
+  messages?: LimitMessages;
+
+  /**
+   * Optional className to apply to the container
+   */
+  className?: string;
+}
+
+const describeLimit = ({ limit, used, remaining, exceeded }: ContentLimitStatus, messages: LimitMessages) => {
+  const unit = messages.units[limit.unit];
+  const prefix = limit.label ? `${limit.label}: ` : '';
+  return exceeded
+    ? `${prefix}${messages.exceeded(used - limit.max, limit.max, unit)}`
+    : `${prefix}${messages.remaining(remaining, limit.max, unit)}`;
+};
+
+/**
+ * Word and character counts shown under the editor, followed by the usage
+ * of each length limit. Exceeded limits switch to an exceeded state.
+ *
+ * @example
+ * ```tsx
+ * <ContentStatusBar stats={stats} limits={checkContentLimits(stats, limits)} />
+ * ```
+ */
+const ContentStatusBar = ({ stats, limits = [], messages = LIMIT_MESSAGES, className }: ContentStatusBarProps) => {
+  const classes = [
+    'jodit-react-status-bar',
+    limits.some(status => status.exceeded) ? 'jodit-react-status-bar_exceeded' : '',
+    className || ''
+  ].filter(Boolean).join(' ');
+
+  return (
+    <div className={classes}>
+      <span className="jodit-react-status-bar__count">{messages.words(stats.words)}</span>
+      <span className="jodit-react-status-bar__count">{messages.characters(stats.characters)}</span>
+      {limits.map((status, index) => (
+        <span
+          key={index}
+          className={[
+            'jodit-react-status-bar__limit',
+            status.exceeded ? 'jodit-react-status-bar__limit_exceeded' : '',
+            status.limit.mode === 'hard' ? 'jodit-react-status-bar__limit_hard' : ''
+          ].filter(Boolean).join(' ')}
+        >
+          {describeLimit(status, messages)}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+export default ContentStatusBar;
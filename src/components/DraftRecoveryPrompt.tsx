@@ -0,0 +1,64 @@
+import { DRAFT_MESSAGES, DraftMessages } from '../utils/draft-storage';
+
+interface DraftRecoveryPromptProps {
+  /**
+   * Time the draft was saved, in milliseconds since the epoch
+   */
+  savedAt: number;
+
+  /**
+   * The content changed since the draft was written
+   */
+  conflict: boolean;
+
+  onRestore: () => void;
+
+  onDiscard: () => void;
+
+  /**
+   * Texts of the prompt, defaults to English
+   */
+  messages?: DraftMessages;
+
+  /**
+   * Optional className to apply to the container
+   */
+  className?: string;
+}
+
+/**
+ * Offers an unsaved draft found by autosave back to the user.
+ * Warns when restoring it would overwrite newer content.
+ *
+ * @example
+ * ```tsx
+ * <DraftRecoveryPrompt savedAt={draft.savedAt} conflict={false} onRestore={restore} onDiscard={discard} />
+ * ```
+ */
+const DraftRecoveryPrompt = ({
+  savedAt,
+  conflict,
+  onRestore,
+  onDiscard,
+  messages = DRAFT_MESSAGES,
+  className
+}: DraftRecoveryPromptProps) => {
+  const classes = [
+    'jodit-react-draft',
+    conflict ? 'jodit-react-draft_conflict' : '',
+    className || ''
+  ].filter(Boolean).join(' ');
+
+  return (
+    <div className={classes} role="alert">
+      <p>
+        {messages.restorePrompt(new Date(savedAt))}
+        {conflict && ` ${messages.conflict}`}
+      </p>
+      <button type="button" onClick={onRestore}>{messages.restore}</button>
+      <button type="button" onClick={onDiscard}>{messages.discard}</button>
+    </div>
+  );
+};
+
+export default DraftRecoveryPrompt;
@@ -0,0 +1,74 @@
+import { forwardRef, ReactNode, useId } from 'react';
+import { JoditEditor, JoditEditorHandle, JoditEditorProps } from '../JoditEditor';
+import FieldError from './FieldError';
+
+export interface EditorFieldProps extends JoditEditorProps {
+  /**
+   * Label naming the editor
+   */
+  label?: ReactNode;
+
+  /**
+   * Help text below the editor, referenced by aria-describedby
+   */
+  hint?: ReactNode;
+
+  /**
+   * Error from a form library; marks the editor invalid and is announced
+   */
+  error?: string;
+
+  /**
+   * Optional className to apply to the container
+   */
+  className?: string;
+}
+
+/**
+ * Editor with a label, help text and error message wired up for
+ * assistive technology. The form adapters render it.
+ *
+ * @example
+ * ```tsx
+ * <EditorField label="Description" hint="Shown on the product page" error={error} name="description" />
+ * ```
+ */
+const EditorField = forwardRef<JoditEditorHandle, EditorFieldProps>(({
+  label,
+  hint,
+  error,
+  className,
+  id,
+  'aria-describedby': describedBy,
+  ...editorProps
+}, ref) => {
+  const generatedId = useId();
+  const editorId = id ?? `${generatedId}-editor`;
+  const hintId = `${editorId}-hint`;
+  const errorId = `${editorId}-error`;
+
+  const classes = [
+    'jodit-react-field',
+    error ? 'jodit-react-field_invalid' : '',
+    className || ''
+  ].filter(Boolean).join(' ');
+
+  return (
+    <div className={classes}>
+      {label && <label className="jodit-react-field__label" htmlFor={editorId}>{label}</label>}
+      <JoditEditor
+        {...editorProps}
+        ref={ref}
+        id={editorId}
+        aria-invalid={error ? true : editorProps['aria-invalid']}
+        aria-describedby={[describedBy, hint ? hintId : '', error ? errorId : ''].filter(Boolean).join(' ') || undefined}
+      />
+      {hint && <p id={hintId} className="jodit-react-field__hint">{hint}</p>}
+      <FieldError id={errorId} message={error} />
+    </div>
+  );
+});
+
+EditorField.displayName = 'EditorField';
+
+export default EditorField;
@@ -1,4 +1,5 @@
 import React, { Component, ErrorInfo, ReactNode } from 'react';
+import { ERROR_BOUNDARY_MESSAGES, ErrorBoundaryMessages } from '../utils/i18n';
 
 interface ErrorBoundaryProps {
   /**
@@ -27,6 +28,12 @@ interface ErrorBoundaryProps {
    * Useful for resetting the error boundary when a significant prop changes
    */
   resetKey?: string | number;
+
+  /**
+   * Texts of the default fallback UI, e.g. `useEditorMessages('fr').errorBoundary`.
+   * Missing texts are English
+   */
+  messages?: Partial<ErrorBoundaryMessages>;
 }
 
 interface ErrorBoundaryState {
@@ -90,18 +97,19 @@ class ErrorBoundary extends Component<ErrorBoundaryProps, ErrorBoundaryState> {
         return this.props.fallback;
       }
       
+      const messages = { ...ERROR_BOUNDARY_MESSAGES, ...this.props.messages };
       return (
         <div className={`error-boundary ${this.props.className || ''}`}>
-          <h2>Something went wrong</h2>
+          <h2>{messages.title}</h2>
           <details>
-            <summary>Error details</summary>
+            <summary>{messages.details}</summary>
             <pre>{this.state.error?.toString()}</pre>
           </details>
           <button
             onClick={() => this.setState({ hasError: false, error: null })}
             style={{ marginTop: '1rem' }}
           >
-            Try again
+            {messages.retry}
           </button>
         </div>
       );
@@ -0,0 +1,33 @@
+interface FieldErrorProps {
+  /**
+   * Referenced by the field's aria-describedby
+   */
+  id: string;
+
+  /**
+   * Error to show; nothing is rendered without one
+   */
+  message?: string | null;
+
+  /**
+   * Optional className to apply to the container
+   */
+  className?: string;
+}
+
+/**
+ * Validation error of an editor field, announced when it appears.
+ *
+ * @example
+ * ```tsx
+ * <FieldError id="description-error" message={errors.description?.message} />
+ * ```
+ */
+const FieldError = ({ id, message, className }: FieldErrorProps) => {
+  if (!message) return null;
+
+  const classes = ['jodit-react-field-error', className || ''].filter(Boolean).join(' ');
+  return <p id={id} className={classes} role="alert">{message}</p>;
+};
+
+export default FieldError;
@@ -0,0 +1,69 @@
+import EditorField, { EditorFieldProps } from './EditorField';
+
+/**
+ * The `field` prop Formik passes to a Field's component or children
+ */
+export interface FormikField {
+  name: string;
+  value?: string;
+}
+
+/**
+ * The parts of Formik's `form` prop the editor uses
+ */
+export interface FormikForm {
+  setFieldValue: (field: string, value: string) => unknown;
+  setFieldTouched: (field: string, touched?: boolean) => unknown;
+  errors: Record<string, unknown>;
+  touched: Record<string, unknown>;
+}
+
+/**
+ * The `meta` prop Formik passes to a Field's children function
+ */
+export interface FormikFieldMeta {
+  error?: string;
+  touched: boolean;
+}
+
+export interface FormikEditorProps extends Omit<EditorFieldProps, 'name' | 'value' | 'onChange' | 'onBlur' | 'error'> {
+  field: FormikField;
+  form: FormikForm;
+  meta?: FormikFieldMeta;
+}
+
+/**
+ * Read a value at a dotted path such as `variants.0.description`
+ */
+const getIn = (source: Record<string, unknown>, path: string): unknown =>
+  path.split('.').reduce<unknown>(
+    (value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    source
+  );
+
+/**
+ * Editor for a Formik Field. The error is shown once the field was touched.
+ *
+ * @example
+ * ```tsx
+ * <Field name="description" component={FormikEditor} label="Description" />
+ * ```
+ */
+const FormikEditor = ({ field, form, meta, ...fieldProps }: FormikEditorProps) => {
+  // Field passes meta to children functions only
+  const touched = meta ? meta.touched : Boolean(getIn(form.touched, field.name));
+  const error = meta ? meta.error : getIn(form.errors, field.name);
+
+  return (
+    <EditorField
+      {...fieldProps}
+      name={field.name}
+      value={field.value ?? ''}
+      onChange={content => form.setFieldValue(field.name, content)}
+      onBlur={() => form.setFieldTouched(field.name, true)}
+      error={touched && typeof error === 'string' ? error : undefined}
+    />
+  );
+};
+
+export default FormikEditor;
@@ -0,0 +1,59 @@
+import type { Ref } from 'react';
+import type { JoditEditorHandle } from '../JoditEditor';
+import EditorField, { EditorFieldProps } from './EditorField';
+
+/**
+ * The `field` render prop of react-hook-form's Controller
+ */
+export interface HookFormField {
+  name: string;
+  value?: string;
+  onChange: (value: string) => void;
+  onBlur: () => void;
+  ref: Ref<JoditEditorHandle>;
+  disabled?: boolean;
+}
+
+/**
+ * The `fieldState` render prop of react-hook-form's Controller
+ */
+export interface HookFormFieldState {
+  error?: { message?: string };
+}
+
+export interface HookFormEditorProps extends Omit<EditorFieldProps, 'name' | 'value' | 'onChange' | 'onBlur' | 'error'> {
+  field: HookFormField;
+  fieldState?: HookFormFieldState;
+  /**
+   * Passed by Controller along with the field; not used
+   */
+  formState?: unknown;
+}
+
+/**
+ * Editor for react-hook-form's Controller. Spread the render props into
+ * it; the field's ref focuses the editor when validation fails.
+ *
+ * @example
+ * ```tsx
+ * <Controller
+ *   name="description"
+ *   control={control}
+ *   rules={{ required: 'Add a description' }}
+ *   render={props => <HookFormEditor {...props} label="Description" />}
+ * />
+ * ```
+ */
+const HookFormEditor = ({ field, fieldState, formState: _formState, ...fieldProps }: HookFormEditorProps) => (
+  <EditorField
+    {...fieldProps}
+    ref={field.ref}
+    name={field.name}
+    value={field.value ?? ''}
+    onChange={field.onChange}
+    onBlur={() => field.onBlur()}
+    error={fieldState?.error?.message}
+  />
+);
+
+export default HookFormEditor;
@@ -0,0 +1,113 @@
+import {
+  createContext,
+  CSSProperties,
+  forwardRef,
+  ReactNode,
+  useImperativeHandle,
+  useLayoutEffect,
+  useMemo,
+  useRef
+} from 'react';
+import type { JoditConfig } from '../utils/editor-config';
+import { createEditorManager, EditorManager, EditorPlugins } from '../utils/editor-manager';
+
+export interface JoditEditorContextValue {
+  manager: EditorManager;
+  /**
+   * Config every editor starts from; an editor's own config wins
+   */
+  config: JoditConfig;
+  plugins: EditorPlugins;
+}
+
+export const JoditEditorContext = createContext<JoditEditorContextValue | null>(null);
+
+export interface JoditEditorProviderProps {
+  children?: ReactNode;
+  /**
+   * Jodit options shared by all editors, deep-merged under each editor's config
+   */
+  config?: JoditConfig;
+  /**
+   * Jodit plugins registered once, before the first editor is built
+   */
+  plugins?: EditorPlugins;
+  /**
+   * Render one toolbar above the editors, bound to the focused editor.
+   * Defaults to true; with false every editor keeps its own toolbar
+   */
+  sharedToolbar?: boolean;
+  /**
+   * Distance from the top of the viewport the shared toolbar sticks at, in pixels
+   */
+  stickyOffset?: number;
+  /**
+   * Called with the name of the editor the toolbar is bound to
+   */
+  onActiveChange?: (name: string | null) => void;
+  /**
+   * Optional className to apply to the shared toolbar
+   */
+  toolbarClassName?: string;
+}
+
+const EMPTY_CONFIG: JoditConfig = {};
+const EMPTY_PLUGINS: EditorPlugins = {};
+
+/**
+ * Tracks the JoditEditor instances below it, shares config and plugins
+ * between them and renders a single sticky toolbar for the focused one.
+ * The ref exposes the manager, e.g. to read all values on submit.
+ *
+ * @example
+ * ```tsx
+ * <JoditEditorProvider ref={editors} config={{ height: 240 }}>
+ *   <JoditEditor name="description" defaultValue={product.description} />
+ *   <JoditEditor name="care" defaultValue={product.care} />
+ * </JoditEditorProvider>
+ * ```
+ */
+const JoditEditorProvider = forwardRef<EditorManager, JoditEditorProviderProps>(({
+  children,
+  config = EMPTY_CONFIG,
+  plugins = EMPTY_PLUGINS,
+  sharedToolbar = true,
+  stickyOffset = 0,
+  onActiveChange,
+  toolbarClassName
+}, ref) => {
+  const toolbar = useRef<HTMLDivElement | null>(null);
+  const latestOnActiveChange = useRef(onActiveChange);
+  useLayoutEffect(() => {
+    latestOnActiveChange.current = onActiveChange;
+  });
+
+  const managerRef = useRef<EditorManager | null>(null);
+  if (!managerRef.current) {
+    managerRef.current = createEditorManager({
+      getToolbarContainer: () => toolbar.current,
+      onActiveChange: name => latestOnActiveChange.current?.(name)
+    });
+  }
+  const manager = managerRef.current;
+  useImperativeHandle(ref, () => manager, [manager]);
+
+  const value = useMemo<JoditEditorContextValue>(
+    () => ({ manager, config, plugins }),
+    [manager, config, plugins]
+  );
+
+  const style: CSSProperties = { position: 'sticky', top: stickyOffset, zIndex: 3 };
+  const classes = ['jodit-react-shared-toolbar', 'jodit', toolbarClassName || ''].filter(Boolean).join(' ');
+
+  return (
+    <JoditEditorContext.Provider value={value}>
+      {sharedToolbar && <div ref={toolbar} className={classes} style={style} />}
+      {children}
+    </JoditEditorContext.Provider>
+  );
+});
+
+JoditEditorProvider.displayName = 'JoditEditorProvider';
+
+export default JoditEditorProvider;
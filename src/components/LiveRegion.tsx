@@ -0,0 +1,52 @@
+import type { CSSProperties } from 'react';
+
+interface LiveRegionProps {
+  /**
+   * Text read out by screen readers when it changes
+   */
+  message: string;
+
+  /**
+   * Defaults to 'polite'
+   */
+  politeness?: 'polite' | 'assertive';
+
+  /**
+   * Optional className to apply to the container
+   */
+  className?: string;
+}
+
+// Visually hidden, but still read by screen readers
+const HIDDEN_STYLE: CSSProperties = {
+  position: 'absolute',
+  width: 1,
+  height: 1,
+  margin: -1,
+  padding: 0,
+  overflow: 'hidden',
+  clip: 'rect(0 0 0 0)',
+  whiteSpace: 'nowrap',
+  border: 0
+};
+
+/**
+ * Visually hidden status region announcing editor changes, such as
+ * formatting applied from the toolbar or with a shortcut.
+ *
+ * @example
+ * ```tsx
+ * <LiveRegion message="Bold on" />
+ * ```
+ */
+const LiveRegion = ({ message, politeness = 'polite', className }: LiveRegionProps) => {
+  const classes = ['jodit-react-live-region', className || ''].filter(Boolean).join(' ');
+
+  return (
+    <div className={classes} role="status" aria-live={politeness} aria-atomic="true" style={HIDDEN_STYLE}>
+      {message}
+    </div>
+  );
+};
+
+export default LiveRegion;
@@ -0,0 +1,99 @@
+import { useLayoutEffect, useState } from 'react';
+import type { ProofingMark } from '../utils/proofing-controller';
+import { createTextRange } from '../utils/text-offset';
+
+interface ProofingMarksProps {
+  /**
+   * Editable element the mark offsets refer to
+   */
+  root: HTMLElement;
+
+  marks: ProofingMark[];
+
+  /**
+   * Optional className to apply to the container
+   */
+  className?: string;
+}
+
+interface MarkLine {
+  key: string;
+  type: ProofingMark['type'];
+  top: number;
+  left: number;
+  width: number;
+}
+
+// Spelling in the theme's error color, other issues in its accent color
+const MARK_COLORS: Record<ProofingMark['type'], string> = {
+  spelling: 'var(--jd-color-error, #ff3b3b)',
+  grammar: 'var(--jd-color-border-selected, #1e88e5)',
+  style: 'var(--jd-color-border-selected, #1e88e5)'
+};
+
+/**
+ * Underlines of proofing issues, positioned over the editor so the
+ * document itself is not changed. Render it inside a positioned ancestor
+ * of `root`.
+ *
+ * @example
+ * ```tsx
+ * createPortal(<ProofingMarks root={editor.editor} marks={marks} />, editor.workplace)
+ * ```
+ */
+const ProofingMarks = ({ root, marks, className }: ProofingMarksProps) => {
+  const [lines, setLines] = useState<MarkLine[]>([]);
+
+  useLayoutEffect(() => {
+    const measure = () => {
+      const container = root.offsetParent ?? root.parentElement ?? root;
+      const origin = container.getBoundingClientRect();
+
+      setLines(marks.flatMap(mark => {
+        const range = createTextRange(root, mark.start, mark.end);
+        const rects = Array.from(range.getClientRects?.() ?? []);
+        const key = `${mark.start}-${mark.text}`;
+        // A mark wrapping over lines has a rect per line
+        return rects.length
+          ? rects.map((rect, index) => ({
+            key: `${key}-${index}`,
+            type: mark.type,
+            top: rect.bottom - origin.top,
+            left: rect.left - origin.left,
+            width: rect.width
+          }))
+          : [{ key, type: mark.type, top: 0, left: 0, width: 0 }];
+      }));
+    };
+
+    measure();
+    root.addEventListener('scroll', measure);
+    window.addEventListener('resize', measure);
+    return () => {
+      root.removeEventListener('scroll', measure);
+      window.removeEventListener('resize', measure);
+    };
+  }, [root, marks]);
+
+  const classes = ['jodit-react-proofing-marks', className || ''].filter(Boolean).join(' ');
+
+  return (
+    <div className={classes} aria-hidden="true" style={{ position: 'absolute', inset: 0, pointerEvents: 'none' }}>
+      {lines.map(line => (
+        <span
+          key={line.key}
+          className={`jodit-react-proofing-mark jodit-react-proofing-mark_${line.type}`}
+          style={{
+            position: 'absolute',
+            top: line.top - 2,
+            left: line.left,
+            width: line.width,
+            borderBottom: `2px dotted ${MARK_COLORS[line.type]}`
+          }}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default ProofingMarks;
@@ -0,0 +1,83 @@
+import { useId } from 'react';
+import { PROOFING_MESSAGES, ProofingMessages } from '../utils/proofing';
+import type { ProofingPopoverState } from '../utils/proofing-controller';
+
+interface ProofingPopoverProps {
+  state: ProofingPopoverState;
+
+  /**
+   * Accept the suggestion at an index
+   */
+  onSelect: (index: number) => void;
+
+  onIgnore: () => void;
+
+  /**
+   * Texts of the popover, defaults to English
+   */
+  messages?: ProofingMessages;
+
+  /**
+   * Optional className to apply to the container
+   */
+  className?: string;
+}
+
+/**
+ * Suggestions for a proofing issue, shown under its underline. Render it
+ * inside the editor's workplace, which it is positioned in.
+ *
+ * @example
+ * ```tsx
+ * createPortal(<ProofingPopover state={popover} onSelect={select} onIgnore={ignore} />, editor.workplace)
+ * ```
+ */
+const ProofingPopover = ({ state, onSelect, onIgnore, messages = PROOFING_MESSAGES, className }: ProofingPopoverProps) => {
+  const id = useId();
+  const { mark, activeIndex } = state;
+  const classes = ['jodit-react-proofing', `jodit-react-proofing_${mark.type}`, className || ''].filter(Boolean).join(' ');
+
+  return (
+    <div
+      className={classes}
+      role="group"
+      aria-labelledby={`${id}-message`}
+      style={{ position: 'absolute', ...state.position }}
+      // Keep the caret in the editor while clicking
+      onMouseDown={event => event.preventDefault()}
+    >
+      <p id={`${id}-message`} className="jodit-react-proofing__message">{mark.message ?? messages.types[mark.type]}</p>
+      {mark.suggestions.length ? (
+        <ul
+          role="listbox"
+          aria-label={messages.suggestions}
+          aria-describedby={`${id}-message`}
+          aria-activedescendant={`${id}-${activeIndex}`}
+        >
+          {mark.suggestions.map((suggestion, index) => (
+            <li
+              key={suggestion}
+              id={`${id}-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              className={[
+                'jodit-react-proofing__suggestion',
+                index === activeIndex ? 'jodit-react-proofing__suggestion_active' : ''
+              ].filter(Boolean).join(' ')}
+              onClick={() => onSelect(index)}
+            >
+              {suggestion}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="jodit-react-proofing__empty">{messages.noSuggestions}</p>
+      )}
+      <button type="button" className="jodit-react-proofing__ignore" onClick={onIgnore}>
+        {messages.ignore}
+      </button>
+    </div>
+  );
+};
+
+export default ProofingPopover;
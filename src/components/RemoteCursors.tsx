@@ -0,0 +1,96 @@
+import { useLayoutEffect, useState } from 'react';
+import type { CollaborationPeer } from '../utils/collaboration';
+import { createRangeAtTextOffset } from '../utils/text-offset';
+
+interface RemoteCursorsProps {
+  /**
+   * Editable element the cursor offsets refer to
+   */
+  root: HTMLElement;
+
+  /**
+   * Other peers of the collaboration room
+   */
+  peers: CollaborationPeer[];
+
+  /**
+   * Optional className to apply to the container
+   */
+  className?: string;
+}
+
+interface CursorPosition {
+  top: number;
+  left: number;
+  height: number;
+}
+
+/**
+ * Carets and name labels of the other collaborators, positioned over the
+ * editor. Render it inside a positioned ancestor of `root`.
+ *
+ * @example
+ * ```tsx
+ * createPortal(<RemoteCursors root={editor.editor} peers={peers} />, editor.workplace)
+ * ```
+ */
+const RemoteCursors = ({ root, peers, className }: RemoteCursorsProps) => {
+  const [positions, setPositions] = useState<Record<string, CursorPosition>>({});
+
+  useLayoutEffect(() => {
+    const measure = () => {
+      const container = root.offsetParent ?? root.parentElement ?? root;
+      const origin = container.getBoundingClientRect();
+      const next: Record<string, CursorPosition> = {};
+
+      peers.forEach(({ clientId, cursor }) => {
+        if (cursor === null) return;
+        const range = createRangeAtTextOffset(root, cursor);
+        const rect = range.getClientRects?.()[0] ?? range.getBoundingClientRect?.();
+        next[clientId] = rect
+          ? { top: rect.top - origin.top, left: rect.left - origin.left, height: rect.height }
+          : { top: 0, left: 0, height: 0 };
+      });
+      setPositions(next);
+    };
+
+    measure();
+    root.addEventListener('scroll', measure);
+    window.addEventListener('resize', measure);
+    return () => {
+      root.removeEventListener('scroll', measure);
+      window.removeEventListener('resize', measure);
+    };
+  }, [root, peers]);
+
+  const classes = ['jodit-react-cursors', className || ''].filter(Boolean).join(' ');
+
+  return (
+    <div className={classes} style={{ position: 'absolute', inset: 0, pointerEvents: 'none' }}>
+      {peers.map(({ clientId, user }) => {
+        const position = positions[clientId];
+        if (!position) return null;
+
+        return (
+          <span
+            key={clientId}
+            className="jodit-react-cursor"
+            style={{
+              position: 'absolute',
+              top: position.top,
+              left: position.left,
+              height: position.height || '1em',
+              borderLeft: `2px solid ${user.color}`
+            }}
+          >
+            <span className="jodit-react-cursor__label" style={{ background: user.color }}>
+              {user.name}
+            </span>
+          </span>
+        );
+      })}
+    </div>
+  );
+};
+
+export default RemoteCursors;
@@ -0,0 +1,147 @@
+import { useId, useMemo, useState } from 'react';
+import type { EditorContentFormat } from '../JoditEditor';
+import { diffHTML, renderInlineDiff, renderSideBySideDiff } from '../utils/html-diff';
+import { markdownToHTML } from '../utils/markdown';
+import { EditorRevision, REVISION_MESSAGES, RevisionMessages } from '../utils/revision-storage';
+import { sanitizeHTML } from '../utils/sanitize';
+
+export type RevisionDiffMode = 'inline' | 'side-by-side';
+
+/**
+ * Value of the compare selects that stands for the unsaved editor content
+ */
+const CURRENT = '';
+
+interface RevisionPanelProps {
+  /**
+   * Revisions to compare, newest first, as returned by useEditorHistory
+   */
+  revisions: EditorRevision[];
+
+  onRestore: (revision: EditorRevision) => void;
+
+  /**
+   * Editor content, offered as "Current content" in the comparison
+   */
+  current?: string;
+
+  /**
+   * Format of the revision content. Defaults to 'html'
+   */
+  format?: EditorContentFormat;
+
+  /**
+   * Defaults to 'inline'
+   */
+  defaultMode?: RevisionDiffMode;
+
+  /**
+   * Texts of the panel, defaults to English
+   */
+  messages?: RevisionMessages;
+
+  /**
+   * Optional className to apply to the container
+   */
+  className?: string;
+}
+
+const toHTML = (content: string, format: EditorContentFormat) =>
+  format === 'markdown' ? markdownToHTML(content) : content;
+
+/**
+ * Compares two revisions, or a revision and the current content, and
+ * offers the older side for restore.
+ *
+ * @example
+ * ```tsx
+ * <RevisionPanel revisions={history.revisions} current={value} onRestore={history.restore} />
+ * ```
+ */
+const RevisionPanel = ({
+  revisions,
+  onRestore,
+  current,
+  format = 'html',
+  defaultMode = 'inline',
+  messages = REVISION_MESSAGES,
+  className
+}: RevisionPanelProps) => {
+  const [mode, setMode] = useState<RevisionDiffMode>(defaultMode);
+  const [fromId, setFromId] = useState<string | null>(null);
+  const [toId, setToId] = useState<string | null>(null);
+  const id = useId();
+
+  const hasCurrent = current !== undefined;
+  const findRevision = (id: string | null) => revisions.find(revision => revision.id === id);
+
+  // Until the user picks, compare the latest revision with the one before,
+  // or the current content with the latest revision
+  const to = toId === CURRENT && hasCurrent ? null : findRevision(toId) ?? (hasCurrent ? null : revisions[0]);
+  const from = findRevision(fromId) ?? (hasCurrent ? revisions[0] : revisions[1] ?? revisions[0]);
+  const toContent = to ? to.content : current;
+
+  const diff = useMemo(() => {
+    if (!from || toContent === undefined) return null;
+
+    const parts = diffHTML(toHTML(from.content, format), toHTML(toContent, format));
+    const sides = renderSideBySideDiff(parts);
+    return {
+      inline: sanitizeHTML(renderInlineDiff(parts)),
+      before: sanitizeHTML(sides.before),
+      after: sanitizeHTML(sides.after)
+    };
+  }, [from, toContent, format]);
+
+  const classes = [
+    'jodit-react-revisions',
+    `jodit-react-revisions_${mode}`,
+    className || ''
+  ].filter(Boolean).join(' ');
+
+  if (!revisions.length) {
+    return <div className={classes}><p>{messages.noRevisions}</p></div>;
+  }
+
+  const options = revisions.map(revision => (
+    <option key={revision.id} value={revision.id}>{messages.revision(new Date(revision.savedAt), revision.label)}</option>
+  ));
+
+  return (
+    <div className={classes}>
+      <div className="jodit-react-revisions__controls">
+        <label htmlFor={`${id}-from`}>{messages.from}</label>
+        <select id={`${id}-from`} value={from?.id} onChange={event => setFromId(event.target.value)}>
+          {options}
+        </select>
+        <label htmlFor={`${id}-to`}>{messages.to}</label>
+        <select id={`${id}-to`} value={to ? to.id : CURRENT} onChange={event => setToId(event.target.value)}>
+          {hasCurrent && <option value={CURRENT}>{messages.current}</option>}
+          {options}
+        </select>
+        <div role="group" aria-label={messages.layout}>
+          <button type="button" aria-pressed={mode === 'inline'} onClick={() => setMode('inline')}>
+            {messages.inline}
+          </button>
+          <button type="button" aria-pressed={mode === 'side-by-side'} onClick={() => setMode('side-by-side')}>
+            {messages.sideBySide}
+          </button>
+        </div>
+        {from && (
+          <button type="button" onClick={() => onRestore(from)}>{messages.restore}</button>
+        )}
+      </div>
+      {diff && mode === 'inline' && (
+        <div className="jodit-react-revisions__diff" dangerouslySetInnerHTML={{ __html: diff.inline }} />
+      )}
+      {diff && mode === 'side-by-side' && (
+        <div className="jodit-react-revisions__sides">
+          <div className="jodit-react-revisions__diff" dangerouslySetInnerHTML={{ __html: diff.before }} />
+          <div className="jodit-react-revisions__diff" dangerouslySetInnerHTML={{ __html: diff.after }} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RevisionPanel;
@@ -0,0 +1,69 @@
+import { useId } from 'react';
+import type { SuggestionState } from '../utils/suggestion-controller';
+
+interface SuggestionListProps {
+  state: SuggestionState;
+
+  onSelect: (index: number) => void;
+
+  /**
+   * Optional className to apply to the container
+   */
+  className?: string;
+}
+
+/**
+ * Autocomplete list shown under a mention, hashtag or product trigger.
+ * Render it inside the editor's workplace, which it is positioned in.
+ *
+ * @example
+ * ```tsx
+ * createPortal(<SuggestionList state={state} onSelect={select} />, editor.workplace)
+ * ```
+ */
+const SuggestionList = ({ state, onSelect, className }: SuggestionListProps) => {
+  const id = useId();
+  const classes = [
+    'jodit-react-suggestions',
+    `jodit-react-suggestions_${state.trigger.type}`,
+    state.loading ? 'jodit-react-suggestions_loading' : '',
+    className || ''
+  ].filter(Boolean).join(' ');
+
+  if (!state.items.length) {
+    return state.loading
+      ? <div className={classes} role="status" style={{ position: 'absolute', ...state.position }}>Searching…</div>
+      : null;
+  }
+
+  return (
+    <ul
+      className={classes}
+      role="listbox"
+      aria-label={`${state.trigger.type} suggestions`}
+      aria-activedescendant={`${id}-${state.activeIndex}`}
+      style={{ position: 'absolute', ...state.position }}
+    >
+      {state.items.map((item, index) => (
+        <li
+          key={item.id}
+          id={`${id}-${index}`}
+          role="option"
+          aria-selected={index === state.activeIndex}
+          className={[
+            'jodit-react-suggestions__item',
+            index === state.activeIndex ? 'jodit-react-suggestions__item_active' : ''
+          ].filter(Boolean).join(' ')}
+          // Keep the caret in the editor while clicking
+          onMouseDown={event => event.preventDefault()}
+          onClick={() => onSelect(index)}
+        >
+          {item.label}
+          {item.description && <small>{item.description}</small>}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default SuggestionList;
@@ -0,0 +1,141 @@
+import { useId, useMemo, useState } from 'react';
+import type { SpocketProduct } from '../services/types/spocket.types';
+import type { SquareCatalogItem } from '../services/types/square.types';
+import {
+  DEFAULT_TEMPLATES,
+  DescriptionTemplate,
+  getTemplateVariables,
+  renderTemplate,
+  TEMPLATE_MESSAGES,
+  TEMPLATE_VARIABLES,
+  TemplateMessages,
+  TemplateVariableOptions
+} from '../utils/templates';
+import TemplatePreview from './TemplatePreview';
+
+export type TemplateViewMode = 'template' | 'preview';
+
+interface TemplateLibraryProps {
+  /**
+   * Called with the HTML to insert, e.g. `html => editorRef.current?.insertHTML(html)`
+   */
+  onInsert: (html: string) => void;
+
+  /**
+   * Templates to offer. Defaults to DEFAULT_TEMPLATES
+   */
+  templates?: DescriptionTemplate[];
+
+  /**
+   * Product whose data fills the placeholders on insert and in the preview.
+   * Without it templates are inserted with their placeholders
+   */
+  product?: SpocketProduct | SquareCatalogItem;
+
+  /**
+   * Variant and extra values used for the product's variables
+   */
+  variableOptions?: TemplateVariableOptions;
+
+  /**
+   * Defaults to 'preview' when a product is given
+   */
+  defaultMode?: TemplateViewMode;
+
+  /**
+   * Texts of the library, defaults to English
+   */
+  messages?: TemplateMessages;
+
+  /**
+   * Optional className to apply to the container
+   */
+  className?: string;
+}
+
+/**
+ * Lists description templates with a preview filled from product data,
+ * and inserts a template or a single placeholder variable.
+ *
+ * @example
+ * ```tsx
+ * <TemplateLibrary product={product} onInsert={html => editorRef.current?.insertHTML(html)} />
+ * ```
+ */
+const TemplateLibrary = ({
+  onInsert,
+  templates = DEFAULT_TEMPLATES,
+  product,
+  variableOptions,
+  defaultMode,
+  messages = TEMPLATE_MESSAGES,
+  className
+}: TemplateLibraryProps) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [mode, setMode] = useState<TemplateViewMode>(defaultMode ?? (product ? 'preview' : 'template'));
+  const id = useId();
+
+  const variables = useMemo(
+    () => (product ? getTemplateVariables(product, variableOptions) : {}),
+    [product, variableOptions]
+  );
+
+  const selected = templates.find(template => template.id === selectedId) ?? templates[0];
+  const classes = ['jodit-react-templates', className || ''].filter(Boolean).join(' ');
+
+  if (!selected) {
+    return <div className={classes}><p>{messages.noTemplates}</p></div>;
+  }
+
+  const insertTemplate = () => onInsert(product ? renderTemplate(selected.html, variables) : selected.html);
+
+  return (
+    <div className={classes}>
+      <ul className="jodit-react-templates__list" aria-label={messages.templates}>
+        {templates.map(template => (
+          <li key={template.id}>
+            <button
+              type="button"
+              aria-pressed={template === selected}
+              onClick={() => setSelectedId(template.id)}
+            >
+              {template.name}
+            </button>
+          </li>
+        ))}
+      </ul>
+      <div className="jodit-react-templates__controls">
+        <div role="group" aria-label={messages.view}>
+          <button type="button" aria-pressed={mode === 'template'} onClick={() => setMode('template')}>
+            {messages.template}
+          </button>
+          <button type="button" aria-pressed={mode === 'preview'} onClick={() => setMode('preview')}>
+            {messages.preview}
+          </button>
+        </div>
+        <button type="button" onClick={insertTemplate}>{messages.insertTemplate}</button>
+        <label htmlFor={`${id}-variable`}>{messages.insertVariable}</label>
+        <select
+          id={`${id}-variable`}
+          value=""
+          onChange={event => event.target.value && onInsert(`{{${event.target.value}}}`)}
+        >
+          <option value="">{messages.chooseVariable}</option>
+          {TEMPLATE_VARIABLES.map(variable => (
+            <option key={variable.name} value={variable.name}>
+              {messages.variables[variable.name] ?? variable.description}
+            </option>
+          ))}
+        </select>
+      </div>
+      {/* The template view highlights every placeholder, the preview only those the product has no value for */}
+      <TemplatePreview
+        className="jodit-react-templates__preview"
+        template={selected.html}
+        variables={mode === 'preview' ? variables : {}}
+      />
+    </div>
+  );
+};
+
+export default TemplateLibrary;
@@ -0,0 +1,43 @@
+import { useMemo } from 'react';
+import { renderTemplate, TemplateVariables } from '../utils/templates';
+import { sanitizeHTML } from '../utils/sanitize';
+
+interface TemplatePreviewProps {
+  /**
+   * Template HTML, e.g. a template from the library or the editor value
+   */
+  template: string;
+
+  /**
+   * Placeholder values, usually from getTemplateVariables
+   */
+  variables: TemplateVariables;
+
+  /**
+   * Optional className to apply to the container
+   */
+  className?: string;
+}
+
+const markMissing = (name: string) => `<mark class="jodit-react-template__missing">{{${name}}}</mark>`;
+
+/**
+ * Shows a template rendered with product data. Placeholders without a
+ * value stay visible and are highlighted.
+ *
+ * @example
+ * ```tsx
+ * <TemplatePreview template={description} variables={getTemplateVariables(product)} />
+ * ```
+ */
+const TemplatePreview = ({ template, variables, className }: TemplatePreviewProps) => {
+  const html = useMemo(
+    () => sanitizeHTML(renderTemplate(template, variables, { missing: markMissing })),
+    [template, variables]
+  );
+  const classes = ['jodit-react-template-preview', className || ''].filter(Boolean).join(' ');
+
+  return <div className={classes} dangerouslySetInnerHTML={{ __html: html }} />;
+};
+
+export default TemplatePreview;
@@ -0,0 +1,34 @@
+/**
+ * Color scheme of the page, following `prefers-color-scheme`
+ */
+import { useSyncExternalStore } from 'react';
+import type { EditorColorScheme } from '../utils/theme';
+
+const DARK_QUERY = '(prefers-color-scheme: dark)';
+
+const getDarkQuery = () => (typeof window !== 'undefined' && typeof window.matchMedia === 'function'
+  ? window.matchMedia(DARK_QUERY)
+  : null);
+
+const subscribe = (onChange: () => void) => {
+  const query = getDarkQuery();
+  query?.addEventListener('change', onChange);
+  return () => query?.removeEventListener('change', onChange);
+};
+
+const prefersDark = () => getDarkQuery()?.matches ?? false;
+
+// The server cannot know the preference; the client corrects it after hydration
+const prefersDarkOnServer = () => false;
+
+/**
+ * Resolve a color scheme, re-rendering when the system preference changes
+ * while it is 'auto'
+ * @param scheme - Requested color scheme
+ * @returns 'light' or 'dark'
+ */
+export function useColorScheme(scheme: EditorColorScheme): 'light' | 'dark' {
+  const dark = useSyncExternalStore(subscribe, prefersDark, prefersDarkOnServer);
+  if (scheme !== 'auto') return scheme;
+  return dark ? 'dark' : 'light';
+}
@@ -0,0 +1,254 @@
+/**
+ * Draft autosave and recovery for the JoditEditor component
+ */
+import { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { ChangeEmitter, createChangeEmitter } from '../utils/change-emitter';
+import {
+  DraftStorage,
+  DraftStorageName,
+  EditorDraft,
+  isDraftExpired,
+  resolveDraftStorage
+} from '../utils/draft-storage';
+
+export const DEFAULT_AUTOSAVE_DEBOUNCE_MS = 1000;
+
+export const DEFAULT_DRAFT_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface AutosaveOptions {
+  /**
+   * Where drafts are kept: 'localStorage' (default), 'indexedDB' or a custom adapter
+   */
+  storage?: DraftStorage | DraftStorageName;
+  /**
+   * Storage key. Defaults to the editor's `name`
+   */
+  key?: string;
+  /**
+   * Write the draft once typing pauses for this many milliseconds. Defaults to 1000
+   */
+  debounceMs?: number;
+  /**
+   * Drafts older than this are discarded instead of offered. Defaults to 7 days
+   */
+  maxAgeMs?: number;
+  /**
+   * Replace the built-in restore prompt. Called when a draft is found, and
+   * again when a new incoming value changes whether it conflicts
+   */
+  onDraftFound?: (recovery: DraftRecovery) => void;
+}
+
+/**
+ * A stored draft offered for recovery on mount
+ */
+export interface DraftRecovery {
+  draft: EditorDraft;
+  /**
+   * True when the editor value changed since the draft was started, so
+   * restoring the draft would overwrite newer content
+   */
+  conflict: boolean;
+  /**
+   * Load the draft into the editor
+   */
+  restore(): void;
+  /**
+   * Delete the draft and keep the current content
+   */
+  discard(): void;
+}
+
+interface DraftAutosaveParams {
+  autosave?: boolean | AutosaveOptions;
+  name?: string;
+  /**
+   * Current editor content in the editor's format, or null without an editor
+   */
+  getContent: () => string | null;
+  restoreContent: (content: string) => void;
+  onError: (error: unknown) => void;
+}
+
+export interface DraftAutosave {
+  /**
+   * Draft waiting for the user to restore or discard it
+   */
+  recovery: DraftRecovery | null;
+  /**
+   * Take the current content as the saved baseline and look for a stored draft
+   */
+  load(): void;
+  /**
+   * Take the current content as the saved baseline, e.g. after a new value was applied
+   */
+  rebase(): void;
+  schedule(): void;
+  flush(): void;
+  /**
+   * Delete the stored draft and take the current content as saved
+   */
+  clear(): Promise<void>;
+}
+
+/**
+ * Persist editor drafts while typing and offer them back after a reload
+ * @param params - Autosave options and editor accessors
+ * @returns Autosave controls; the functions are stable across renders
+ */
+export function useDraftAutosave(params: DraftAutosaveParams): DraftAutosave {
+  const latest = useRef(params);
+  useLayoutEffect(() => {
+    latest.current = params;
+  });
+
+  const [recovery, setRecovery] = useState<DraftRecovery | null>(null);
+
+  const getOptions = (): AutosaveOptions | null => {
+    const { autosave } = latest.current;
+    if (!autosave) return null;
+    return autosave === true ? {} : autosave;
+  };
+
+  const getKey = () => {
+    const options = getOptions();
+    return options ? options.key ?? latest.current.name ?? null : null;
+  };
+
+  const storageCache = useRef<{ source: DraftStorage | DraftStorageName; storage: DraftStorage } | null>(null);
+  const getStorage = () => {
+    const source = getOptions()?.storage ?? 'localStorage';
+    if (storageCache.current?.source !== source) {
+      storageCache.current = { source, storage: resolveDraftStorage(source) };
+    }
+    return storageCache.current.storage;
+  };
+
+  const run = (action: (storage: DraftStorage, key: string) => unknown) => {
+    const key = getKey();
+    if (key === null) return Promise.resolve();
+
+    return Promise.resolve()
+      .then(() => action(getStorage(), key))
+      .then(() => undefined, error => latest.current.onError(error));
+  };
+
+  // Content the stored value corresponds to; drafts are only written when they differ
+  const baseValue = useRef('');
+  // Draft found on load; nothing is written until the user decides about it
+  const pendingDraft = useRef<EditorDraft | null>(null);
+  const unmounted = useRef(false);
+
+  const save = () => {
+    if (pendingDraft.current) return;
+    const content = latest.current.getContent();
+    if (content === null) return;
+
+    const base = baseValue.current;
+    void run((storage, key) =>
+      content === base
+        ? storage.remove(key)
+        : storage.save(key, { content, baseValue: base, savedAt: Date.now() })
+    );
+  };
+
+  // The emitter outlives renders, so it saves through a ref to the latest save
+  const latestSave = useRef(save);
+  useLayoutEffect(() => {
+    latestSave.current = save;
+  });
+
+  const emitter = useRef<ChangeEmitter | null>(null);
+  const debounceMs = getOptions()?.debounceMs ?? DEFAULT_AUTOSAVE_DEBOUNCE_MS;
+  useEffect(() => {
+    const instance = createChangeEmitter(() => latestSave.current(), { debounceMs });
+    emitter.current = instance;
+    return () => instance.flush();
+  }, [debounceMs]);
+
+  // Closing or reloading the tab does not unmount React trees
+  useEffect(() => {
+    // StrictMode runs the cleanup once before mounting for good
+    unmounted.current = false;
+    const flushOnHide = () => emitter.current?.flush();
+    window.addEventListener('pagehide', flushOnHide);
+    return () => {
+      unmounted.current = true;
+      window.removeEventListener('pagehide', flushOnHide);
+    };
+  }, []);
+
+  const offer = (draft: EditorDraft) => {
+    const base = baseValue.current;
+
+    if (draft.content === base) {
+      pendingDraft.current = null;
+      setRecovery(null);
+      void run((storage, key) => storage.remove(key));
+      return;
+    }
+
+    const found: DraftRecovery = {
+      draft,
+      conflict: draft.baseValue !== base,
+      restore() {
+        if (pendingDraft.current !== draft) return;
+        pendingDraft.current = null;
+        setRecovery(null);
+        latest.current.restoreContent(draft.content);
+      },
+      discard() {
+        if (pendingDraft.current !== draft) return;
+        pendingDraft.current = null;
+        setRecovery(null);
+        void run((storage, key) => storage.remove(key)).then(() => {
+          // Keep anything typed while the prompt was open
+          if (latest.current.getContent() !== baseValue.current) save();
+        });
+      }
+    };
+
+    pendingDraft.current = draft;
+    setRecovery(found);
+    getOptions()?.onDraftFound?.(found);
+  };
+
+  const controls = useRef<Omit<DraftAutosave, 'recovery'>>({
+    load() {
+      baseValue.current = latest.current.getContent() ?? '';
+      const { maxAgeMs = DEFAULT_DRAFT_MAX_AGE_MS } = getOptions() ?? {};
+
+      void run(async (storage, key) => {
+        const draft = await storage.load(key);
+        if (!draft || unmounted.current) return;
+
+        if (isDraftExpired(draft, maxAgeMs)) {
+          await storage.remove(key);
+          return;
+        }
+        offer(draft);
+      });
+    },
+    rebase() {
+      baseValue.current = latest.current.getContent() ?? baseValue.current;
+      if (pendingDraft.current) {
+        offer(pendingDraft.current);
+      }
+    },
+    schedule() {
+      if (getOptions()) emitter.current?.schedule();
+    },
+    flush() {
+      emitter.current?.flush();
+    },
+    clear() {
+      emitter.current?.cancel();
+      pendingDraft.current = null;
+      setRecovery(null);
+      baseValue.current = latest.current.getContent() ?? baseValue.current;
+      return run((storage, key) => storage.remove(key));
+    }
+  });
+
+  return { ...controls.current, recovery };
+}
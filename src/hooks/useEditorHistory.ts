@@ -0,0 +1,151 @@
+/**
+ * Revision history for JoditEditor content
+ */
+import { RefObject, useEffect, useLayoutEffect, useRef, useState } from 'react';
+import type { JoditEditorHandle } from '../JoditEditor';
+import { createLocalStorageRevisionStorage, EditorRevision, RevisionStorage } from '../utils/revision-storage';
+
+export const DEFAULT_MAX_REVISIONS = 50;
+
+export interface EditorHistoryOptions {
+  /**
+   * Storage key, e.g. the product id
+   */
+  key: string;
+  /**
+   * Where revisions are kept. Defaults to localStorage
+   */
+  storage?: RevisionStorage;
+  /**
+   * Oldest revisions beyond this count are deleted. Defaults to 50
+   */
+  maxRevisions?: number;
+  /**
+   * Editor that restore() loads revisions into
+   */
+  editorRef?: RefObject<JoditEditorHandle | null>;
+  onError?: (error: Error) => void;
+}
+
+export interface EditorHistory {
+  /**
+   * Stored revisions, newest first
+   */
+  revisions: EditorRevision[];
+  /**
+   * True until the revisions of the current key have been read
+   */
+  loading: boolean;
+  /**
+   * Snapshot content, typically right after it was saved or synced
+   * @returns The new revision, or null when the content equals the latest one
+   */
+  save(content: string, label?: string): Promise<EditorRevision | null>;
+  /**
+   * Load a revision into the editor as a new change
+   * @returns The restored content, or null for unknown revisions
+   */
+  restore(revision: EditorRevision | string): string | null;
+  remove(id: string): Promise<void>;
+}
+
+const createRevisionId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Keep snapshots of editor content and restore them
+ * @param options - Storage key, adapter and the editor to restore into
+ * @returns Revisions and controls; the functions are stable across renders
+ */
+export function useEditorHistory(options: EditorHistoryOptions): EditorHistory {
+  const latest = useRef(options);
+  useLayoutEffect(() => {
+    latest.current = options;
+  });
+
+  const defaultStorage = useRef<RevisionStorage | null>(null);
+  const getStorage = () => {
+    if (latest.current.storage) return latest.current.storage;
+    defaultStorage.current ??= createLocalStorageRevisionStorage();
+    return defaultStorage.current;
+  };
+
+  const reportError = (error: unknown) => {
+    latest.current.onError?.(error instanceof Error ? error : new Error(String(error)));
+  };
+
+  const [revisions, setRevisions] = useState<EditorRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  // Mirrors the state so the controls can read it synchronously
+  const current = useRef<EditorRevision[]>([]);
+  const update = (next: EditorRevision[]) => {
+    current.current = next;
+    setRevisions(next);
+  };
+
+  // Storage calls run one at a time, so the list stays ordered
+  const queue = useRef<Promise<unknown>>(Promise.resolve());
+  const enqueue = <T>(action: () => Promise<T>) => {
+    const result = queue.current.then(action);
+    queue.current = result.catch(() => undefined);
+    return result;
+  };
+
+  const { key, storage } = options;
+  useEffect(() => {
+    let active = true;
+    setLoading(true);
+    update([]);
+
+    void enqueue(async () => {
+      const stored = await getStorage().list(key);
+      if (active) update([...stored].sort((a, b) => b.savedAt - a.savedAt));
+    })
+      .catch(reportError)
+      .finally(() => {
+        if (active) setLoading(false);
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [key, storage]);
+
+  const controls = useRef<Omit<EditorHistory, 'revisions' | 'loading'>>({
+    save(content, label) {
+      return enqueue(async () => {
+        if (current.current[0]?.content === content) return null;
+
+        const { key: storageKey, maxRevisions = DEFAULT_MAX_REVISIONS } = latest.current;
+        const revision: EditorRevision = { id: createRevisionId(), content, savedAt: Date.now(), label };
+        await getStorage().add(storageKey, revision);
+
+        const next = [revision, ...current.current];
+        const expired = next.slice(Math.max(1, maxRevisions));
+        for (const old of expired) {
+          await getStorage().remove(storageKey, old.id);
+        }
+        update(next.slice(0, next.length - expired.length));
+        return revision;
+      }).catch(error => {
+        reportError(error);
+        return null;
+      });
+    },
+    restore(target) {
+      const id = typeof target === 'string' ? target : target.id;
+      const revision = current.current.find(candidate => candidate.id === id);
+      if (!revision) return null;
+
+      latest.current.editorRef?.current?.setValue(revision.content);
+      return revision.content;
+    },
+    remove(id) {
+      return enqueue(async () => {
+        await getStorage().remove(latest.current.key, id);
+        update(current.current.filter(revision => revision.id !== id));
+      }).catch(reportError);
+    }
+  });
+
+  return { revisions, loading, ...controls.current };
+}
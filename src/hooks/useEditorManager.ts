@@ -0,0 +1,45 @@
+/**
+ * Access to the editors of the surrounding JoditEditorProvider
+ */
+import { useContext, useEffect, useState } from 'react';
+import { JoditEditorContext } from '../components/JoditEditorProvider';
+import type { EditorManager } from '../utils/editor-manager';
+
+export interface EditorManagerState {
+  /**
+   * Names of the mounted editors, in mount order
+   */
+  names: string[];
+  /**
+   * Editor the shared toolbar is bound to
+   */
+  activeName: string | null;
+  manager: EditorManager;
+}
+
+const readState = (manager: EditorManager) => ({
+  names: manager.getNames(),
+  activeName: manager.getActiveName()
+});
+
+/**
+ * Mounted editors of the surrounding JoditEditorProvider; re-renders when
+ * editors mount, unmount or receive focus
+ * @returns Editor names, the active editor and the manager
+ */
+export function useEditorManager(): EditorManagerState {
+  const context = useContext(JoditEditorContext);
+  if (!context) {
+    throw new Error('useEditorManager must be used inside a JoditEditorProvider');
+  }
+  const { manager } = context;
+
+  const [state, setState] = useState(() => readState(manager));
+
+  useEffect(() => {
+    setState(readState(manager));
+    return manager.subscribe(() => setState(readState(manager)));
+  }, [manager]);
+
+  return { ...state, manager };
+}
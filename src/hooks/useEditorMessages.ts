@@ -0,0 +1,46 @@
+/**
+ * Messages of a locale, loading its language pack on first use
+ */
+import { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { EditorMessages, EN_MESSAGES, getLoadedLocale, loadLocale } from '../utils/i18n';
+
+/**
+ * Messages of a locale. While a pack loads the previous messages stay,
+ * English on first render
+ * @param locale - BCP 47 tag, e.g. 'fr' or 'ar-SA'
+ * @param onError - Called when the pack fails to load; English is used
+ * @returns Messages of the component UI
+ */
+export function useEditorMessages(locale = 'en', onError?: (error: Error) => void): EditorMessages {
+  const [messages, setMessages] = useState(() => getLoadedLocale(locale) ?? EN_MESSAGES);
+  const latestOnError = useRef(onError);
+  useLayoutEffect(() => {
+    latestOnError.current = onError;
+  });
+
+  useEffect(() => {
+    let isCancelled = false;
+    const loaded = getLoadedLocale(locale);
+    if (loaded) {
+      setMessages(loaded);
+      return;
+    }
+
+    loadLocale(locale).then(
+      nextMessages => {
+        if (!isCancelled) setMessages(nextMessages);
+      },
+      (error: unknown) => {
+        if (isCancelled) return;
+        setMessages(EN_MESSAGES);
+        latestOnError.current?.(error instanceof Error ? error : new Error(String(error)));
+      }
+    );
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [locale]);
+
+  return messages;
+}
@@ -1,3 +1,158 @@
 export { JoditEditor } from './JoditEditor';
-export type { JoditEditorProps } from './JoditEditor';
-
+export type { JoditEditorProps, JoditEditorHandle, EditorSelection, EditorContentFormat } from './JoditEditor';
+export { loadJodit } from './utils/jodit-loader';
+export { mergeConfig, findUnknownOptions } from './utils/editor-config';
+export type { DeepPartial, JoditConfig, JoditOptions } from './utils/editor-config';
+export {
+  DARK_THEME_TOKENS,
+  LIGHT_THEME_TOKENS,
+  getThemeStyle,
+  resolveThemeTokens
+} from './utils/theme';
+export type { EditorColorScheme, EditorTheme, EditorThemeTokens, ThemeStyle } from './utils/theme';
+export { useColorScheme } from './hooks/useColorScheme';
+export {
+  EN_MESSAGES,
+  ERROR_BOUNDARY_MESSAGES,
+  registerLocale,
+  loadLocale,
+  getLoadedLocale,
+  resolveLocale,
+  getLocaleDirection,
+  getJoditLanguage
+} from './utils/i18n';
+export type {
+  EditorMessages,
+  ErrorBoundaryMessages,
+  LocaleLoader,
+  LocaleMessages,
+  TextDirection
+} from './utils/i18n';
+export { useEditorMessages } from './hooks/useEditorMessages';
+export { default as JoditEditorProvider, JoditEditorContext } from './components/JoditEditorProvider';
+export type { JoditEditorProviderProps, JoditEditorContextValue } from './components/JoditEditorProvider';
+export { useEditorManager } from './hooks/useEditorManager';
+export type { EditorManagerState } from './hooks/useEditorManager';
+export { createEditorManager } from './utils/editor-manager';
+export type { EditorManager, EditorPlugins, ManagedEditor } from './utils/editor-manager';
+export { default as LiveRegion } from './components/LiveRegion';
+export { default as ErrorBoundary } from './components/ErrorBoundary';
+export { FORMAT_MESSAGES, TOOLBAR_GROUP_LABELS, TOOLBAR_MESSAGES, describeFormatChange } from './utils/accessibility';
+export type { EditorAriaAttributes, FormatMessages, ToolbarMessages } from './utils/accessibility';
+export { default as EditorField } from './components/EditorField';
+export type { EditorFieldProps } from './components/EditorField';
+export { default as FieldError } from './components/FieldError';
+export { default as HookFormEditor } from './components/HookFormEditor';
+export type { HookFormEditorProps, HookFormField, HookFormFieldState } from './components/HookFormEditor';
+export { default as FormikEditor } from './components/FormikEditor';
+export type { FormikEditorProps, FormikField, FormikFieldMeta, FormikForm } from './components/FormikEditor';
+export { VALIDATION_MESSAGES, getTextLength, isEditorEmpty, validateEditorContent } from './utils/form-validation';
+export type { EditorConstraints, ValidationMessages } from './utils/form-validation';
+export { default as ContentStatusBar } from './components/ContentStatusBar';
+export {
+  LIMIT_MESSAGES,
+  PLATFORM_LIMIT_UNITS,
+  UNIT_LABELS,
+  getContentStats,
+  checkContentLimits,
+  createPlatformLimit,
+  fitContent,
+  truncateHTML
+} from './utils/content-stats';
+export type {
+  ContentLimit,
+  ContentLimitStatus,
+  ContentLimitUnit,
+  ContentPlatform,
+  ContentStats,
+  LimitMessages
+} from './utils/content-stats';
+export { sanitizeHTML, sanitizeHTMLString } from './utils/sanitize';
+export type { SanitizeOptions, SanitizeHooks } from './utils/sanitize';
+export { normalizePastedHTML, detectPasteSource } from './utils/paste-normalize';
+export type { PasteProfile, PasteSource } from './utils/paste-normalize';
+export { toSquareDescription, toSquareDescriptionHTML, htmlToPlainText } from './utils/square-description';
+export type { SquareDescription } from './utils/square-description';
+export { markdownToHTML, htmlToMarkdown } from './utils/markdown';
+export { DRAFT_MESSAGES, createLocalStorageDraftStorage, createIndexedDBDraftStorage } from './utils/draft-storage';
+export type { DraftMessages, DraftStorage, EditorDraft } from './utils/draft-storage';
+export type { AutosaveOptions, DraftRecovery } from './hooks/useDraftAutosave';
+export { useEditorHistory } from './hooks/useEditorHistory';
+export type { EditorHistory, EditorHistoryOptions } from './hooks/useEditorHistory';
+export { default as RevisionPanel } from './components/RevisionPanel';
+export type { RevisionDiffMode } from './components/RevisionPanel';
+export { REVISION_MESSAGES, createLocalStorageRevisionStorage, createMemoryRevisionStorage } from './utils/revision-storage';
+export type { EditorRevision, RevisionMessages, RevisionStorage } from './utils/revision-storage';
+export { diffHTML, renderInlineDiff, renderSideBySideDiff } from './utils/html-diff';
+export type { DiffPart, DiffPartType } from './utils/html-diff';
+export {
+  DEFAULT_SUGGESTION_TRIGGERS,
+  combineSuggestionProviders,
+  getContentReferences
+} from './utils/suggestions';
+export type {
+  ContentReference,
+  Suggestion,
+  SuggestionContext,
+  SuggestionProvider,
+  SuggestionTrigger
+} from './utils/suggestions';
+export { createSquareCatalogSuggestionProvider } from './utils/square-catalog-suggestions';
+export {
+  DEFAULT_COMMANDS,
+  registerCommand,
+  filterCommands,
+  createTableHTML,
+  createProductCardHTML,
+  createProductCardCommand,
+  createEmbedHTML,
+  createEmbedCommand
+} from './utils/commands';
+export type { CommandContext, EditorCommand } from './utils/commands';
+export type { SquareCatalogSearch, SquareCatalogSuggestionOptions } from './utils/square-catalog-suggestions';
+export { PROOFING_MESSAGES, combineProofingProviders, getProofingRanges } from './utils/proofing';
+export type {
+  ProofingContext,
+  ProofingIssue,
+  ProofingIssueType,
+  ProofingMessages,
+  ProofingOptions,
+  ProofingProvider,
+  ProofingRange
+} from './utils/proofing';
+export { COMMON_MISSPELLINGS, createDictionaryProofingProvider } from './utils/dictionary-proofing';
+export type { DictionaryProofingOptions } from './utils/dictionary-proofing';
+export { default as TemplateLibrary } from './components/TemplateLibrary';
+export type { TemplateViewMode } from './components/TemplateLibrary';
+export { default as TemplatePreview } from './components/TemplatePreview';
+export {
+  DEFAULT_TEMPLATES,
+  TEMPLATE_MESSAGES,
+  TEMPLATE_VARIABLES,
+  getTemplateVariables,
+  getTemplatePlaceholders,
+  renderTemplate,
+  createTemplateCommand
+} from './utils/templates';
+export type {
+  DescriptionTemplate,
+  RenderTemplateOptions,
+  TemplateMessages,
+  TemplateVariableOptions,
+  TemplateVariables
+} from './utils/templates';
+export { UPLOAD_MESSAGES, createXHRUploadAdapter } from './utils/upload';
+export type { UploadAdapter, UploadContext, UploadMessages, UploadOptions, XHRUploadAdapterOptions } from './utils/upload';
+export {
+  createInMemoryHub,
+  createBroadcastChannelTransport,
+  createWebSocketTransport
+} from './utils/collaboration-transport';
+export type { ClosableTransport, WebSocketTransportOptions } from './utils/collaboration-transport';
+export type {
+  CollaborationMessage,
+  CollaborationOptions,
+  CollaborationPeer,
+  CollaborationTransport,
+  CollaborationUser
+} from './utils/collaboration';
@@ -0,0 +1,139 @@
+/**
+ * Arabic messages of the editor UI
+ */
+import type { EditorMessages } from '../utils/i18n';
+
+const ar: EditorMessages = {
+  validation: {
+    valueMissing: 'يرجى ملء هذا الحقل.',
+    tooLong: (maxLength, length) =>
+      `يرجى استخدام ${maxLength} حرفًا كحد أقصى (تستخدم حاليًا ${length}).`
+  },
+  toolbar: {
+    label: 'شريط أدوات المحرر',
+    groups: {
+      'font-style': 'نمط النص',
+      list: 'القوائم',
+      font: 'الخط',
+      script: 'منخفض ومرتفع',
+      media: 'الوسائط',
+      state: 'حالة المحرر',
+      clipboard: 'الحافظة',
+      insert: 'إدراج',
+      indent: 'المسافة البادئة',
+      color: 'اللون',
+      form: 'النماذج',
+      history: 'تراجع وإعادة',
+      search: 'بحث',
+      source: 'الشيفرة المصدرية',
+      other: 'المزيد',
+      info: 'معلومات'
+    }
+  },
+  formats: {
+    commands: {
+      bold: 'غامق',
+      italic: 'مائل',
+      underline: 'تسطير',
+      strikethrough: 'يتوسطه خط',
+      subscript: 'منخفض',
+      superscript: 'مرتفع',
+      insertunorderedlist: 'قائمة نقطية',
+      insertorderedlist: 'قائمة مرقمة',
+      justifyleft: 'محاذاة لليسار',
+      justifycenter: 'توسيط',
+      justifyright: 'محاذاة لليمين',
+      justifyfull: 'ضبط',
+      indent: 'زيادة المسافة البادئة',
+      outdent: 'إنقاص المسافة البادئة',
+      removeformat: 'تم مسح التنسيق'
+    },
+    blocks: {
+      p: 'فقرة',
+      blockquote: 'اقتباس',
+      pre: 'كتلة شيفرة',
+      div: 'نص عادي'
+    },
+    heading: level => `عنوان ${level}`,
+    toggled: (label, active) => `${label} ${active ? 'مفعّل' : 'غير مفعّل'}`
+  },
+  limits: {
+    pasteTruncated: 'تم تقصير المحتوى الملصق ليناسب حد الطول',
+    units: {
+      characters: 'حرف',
+      words: 'كلمة',
+      htmlBytes: 'بايت HTML',
+      plainTextLength: 'حرف نص عادي'
+    },
+    words: count => `${count} كلمة`,
+    characters: count => `${count} حرف`,
+    remaining: (remaining, max, unit) => `متبقٍ ${remaining} من ${max} ${unit}`,
+    exceeded: (excess, max, unit) => `${excess} ${unit} فوق الحد البالغ ${max}`,
+    budgetRemaining: (remaining, limit) => `متبقٍ ${remaining} من ${limit} حرف`,
+    budgetExceeded: (excess, limit) => `${excess} حرف فوق الحد البالغ ${limit} حرف`
+  },
+  errorBoundary: {
+    title: 'حدث خطأ ما',
+    details: 'تفاصيل الخطأ',
+    retry: 'حاول مرة أخرى'
+  },
+  proofing: {
+    types: {
+      spelling: 'الإملاء',
+      grammar: 'القواعد',
+      style: 'الأسلوب'
+    },
+    suggestions: 'الاقتراحات',
+    noSuggestions: 'لا توجد اقتراحات',
+    ignore: 'تجاهل'
+  },
+  drafts: {
+    restorePrompt: savedAt => `هل تريد استعادة المسودة غير المحفوظة من ${savedAt.toLocaleString('ar')}؟`,
+    conflict: 'تغيّر المحتوى منذ حفظ هذه المسودة؛ ستؤدي استعادتها إلى استبدال النسخة الأحدث.',
+    restore: 'استعادة المسودة',
+    discard: 'تجاهل'
+  },
+  revisions: {
+    noRevisions: 'لا توجد مراجعات محفوظة بعد',
+    revision: (savedAt, label) => (label ? `${savedAt.toLocaleString('ar')} – ${label}` : savedAt.toLocaleString('ar')),
+    from: 'من',
+    to: 'إلى',
+    current: 'المحتوى الحالي',
+    layout: 'عرض الفروق',
+    inline: 'ضمن النص',
+    sideBySide: 'جنبًا إلى جنب',
+    restore: 'استعادة مراجعة البداية'
+  },
+  templates: {
+    noTemplates: 'لا توجد قوالب',
+    templates: 'القوالب',
+    view: 'عرض القالب',
+    template: 'القالب',
+    preview: 'معاينة',
+    insertTemplate: 'إدراج القالب',
+    insertVariable: 'إدراج متغير',
+    chooseVariable: 'اختر…',
+    variables: {
+      'product.title': 'اسم المنتج',
+      'product.description': 'وصف بنص عادي',
+      'product.sku': 'رمز SKU للمنتج أو لأول متغير منه',
+      'product.price': 'السعر مع العملة',
+      'product.tags': 'الوسوم، مفصولة بفواصل',
+      'product.category': 'الفئة الأولى',
+      'product.weight': 'الوزن مع الوحدة',
+      'product.image': 'رابط الصورة الأولى',
+      'variant.title': 'اسم المتغير',
+      'variant.sku': 'رمز SKU للمتغير',
+      'variant.price': 'سعر المتغير مع العملة',
+      processing_time: 'المدة قبل شحن الطلب',
+      shipping_origin: 'البلد الذي يُشحن منه الطلب'
+    }
+  },
+  uploads: {
+    uploading: fileName => `جارٍ رفع ${fileName}`,
+    progress: (fileName, percent) => `جارٍ رفع ${fileName}… ${percent}%`,
+    retrying: (fileName, attempt, percent) => `إعادة محاولة رفع ${fileName} (المحاولة ${attempt})… ${percent}%`
+  }
+};
+
+export default ar;
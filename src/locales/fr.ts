@@ -0,0 +1,141 @@
+/**
+ * French messages of the editor UI
+ */
+import type { EditorMessages } from '../utils/i18n';
+
+const plural = (count: number, singular: string, pluralForm: string) => `${count} ${count > 1 ? pluralForm : singular}`;
+
+const fr: EditorMessages = {
+  validation: {
+    valueMissing: 'Veuillez renseigner ce champ.',
+    tooLong: (maxLength, length) =>
+      `Veuillez utiliser au maximum ${maxLength} caractères (vous en utilisez actuellement ${length}).`
+  },
+  toolbar: {
+    label: 'Barre d’outils de l’éditeur',
+    groups: {
+      'font-style': 'Style du texte',
+      list: 'Listes',
+      font: 'Police',
+      script: 'Indice et exposant',
+      media: 'Médias',
+      state: 'État de l’éditeur',
+      clipboard: 'Presse-papiers',
+      insert: 'Insérer',
+      indent: 'Retrait',
+      color: 'Couleur',
+      form: 'Formulaires',
+      history: 'Annuler et rétablir',
+      search: 'Rechercher',
+      source: 'Code source',
+      other: 'Plus',
+      info: 'Informations'
+    }
+  },
+  formats: {
+    commands: {
+      bold: 'Gras',
+      italic: 'Italique',
+      underline: 'Souligné',
+      strikethrough: 'Barré',
+      subscript: 'Indice',
+      superscript: 'Exposant',
+      insertunorderedlist: 'Liste à puces',
+      insertorderedlist: 'Liste numérotée',
+      justifyleft: 'Aligné à gauche',
+      justifycenter: 'Centré',
+      justifyright: 'Aligné à droite',
+      justifyfull: 'Justifié',
+      indent: 'Retrait augmenté',
+      outdent: 'Retrait diminué',
+      removeformat: 'Mise en forme effacée'
+    },
+    blocks: {
+      p: 'Paragraphe',
+      blockquote: 'Citation',
+      pre: 'Bloc de code',
+      div: 'Texte normal'
+    },
+    heading: level => `Titre ${level}`,
+    toggled: (label, active) => `${label} ${active ? 'activé' : 'désactivé'}`
+  },
+  limits: {
+    pasteTruncated: 'Le contenu collé a été raccourci pour respecter la limite de longueur',
+    units: {
+      characters: 'caractères',
+      words: 'mots',
+      htmlBytes: 'octets HTML',
+      plainTextLength: 'caractères de texte brut'
+    },
+    words: count => plural(count, 'mot', 'mots'),
+    characters: count => plural(count, 'caractère', 'caractères'),
+    remaining: (remaining, max, unit) => `${remaining} ${unit} restants sur ${max}`,
+    exceeded: (excess, max, unit) => `${excess} ${unit} au-delà de la limite de ${max}`,
+    budgetRemaining: (remaining, limit) => `${remaining} caractères restants sur ${limit}`,
+    budgetExceeded: (excess, limit) => `${excess} caractères au-delà de la limite de ${limit} caractères`
+  },
+  errorBoundary: {
+    title: 'Une erreur est survenue',
+    details: 'Détails de l’erreur',
+    retry: 'Réessayer'
+  },
+  proofing: {
+    types: {
+      spelling: 'Orthographe',
+      grammar: 'Grammaire',
+      style: 'Style'
+    },
+    suggestions: 'Suggestions',
+    noSuggestions: 'Aucune suggestion',
+    ignore: 'Ignorer'
+  },
+  drafts: {
+    restorePrompt: savedAt => `Restaurer le brouillon non enregistré du ${savedAt.toLocaleString('fr')} ?`,
+    conflict: 'Le contenu a changé depuis l’enregistrement de ce brouillon ; le restaurer remplacera la version plus récente.',
+    restore: 'Restaurer le brouillon',
+    discard: 'Supprimer'
+  },
+  revisions: {
+    noRevisions: 'Aucune révision enregistrée',
+    revision: (savedAt, label) => (label ? `${savedAt.toLocaleString('fr')} – ${label}` : savedAt.toLocaleString('fr')),
+    from: 'De',
+    to: 'À',
+    current: 'Contenu actuel',
+    layout: 'Affichage des différences',
+    inline: 'Intégré',
+    sideBySide: 'Côte à côte',
+    restore: 'Restaurer la révision de départ'
+  },
+  templates: {
+    noTemplates: 'Aucun modèle',
+    templates: 'Modèles',
+    view: 'Affichage du modèle',
+    template: 'Modèle',
+    preview: 'Aperçu',
+    insertTemplate: 'Insérer le modèle',
+    insertVariable: 'Insérer une variable',
+    chooseVariable: 'Choisir…',
+    variables: {
+      'product.title': 'Nom du produit',
+      'product.description': 'Description en texte brut',
+      'product.sku': 'SKU du produit ou de sa première variante',
+      'product.price': 'Prix avec devise',
+      'product.tags': 'Étiquettes, séparées par des virgules',
+      'product.category': 'Première catégorie',
+      'product.weight': 'Poids avec unité',
+      'product.image': 'URL de la première image',
+      'variant.title': 'Nom de la variante',
+      'variant.sku': 'SKU de la variante',
+      'variant.price': 'Prix de la variante avec devise',
+      processing_time: 'Délai avant l’expédition de la commande',
+      shipping_origin: 'Pays d’expédition de la commande'
+    }
+  },
+  uploads: {
+    uploading: fileName => `Envoi de ${fileName}`,
+    progress: (fileName, percent) => `Envoi de ${fileName}… ${percent} %`,
+    retrying: (fileName, attempt, percent) => `Nouvel essai pour ${fileName} (tentative ${attempt})… ${percent} %`
+  }
+};
+
+export default fr;
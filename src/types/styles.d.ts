@@ -0,0 +1,4 @@
+/**
+ * Stylesheets imported for their side effects, e.g. Jodit's CSS
+ */
+declare module '*.css';
@@ -0,0 +1,249 @@
+/**
+ * Accessibility helpers: ARIA attributes of the editable area, labelled
+ * toolbar groups, announcements of formatting changes and popups that
+ * stay inside a surrounding modal
+ */
+import type { AriaAttributes } from 'react';
+
+/**
+ * ARIA props passed through to the editable area
+ */
+export type EditorAriaAttributes = AriaAttributes & {
+  id?: string;
+  required?: boolean;
+};
+
+/**
+ * Accessible names of Jodit's default toolbar groups
+ */
+export const TOOLBAR_GROUP_LABELS: Record<string, string> = {
+  'font-style': 'Text style',
+  list: 'Lists',
+  font: 'Font',
+  script: 'Subscript and superscript',
+  media: 'Media',
+  state: 'Editor state',
+  clipboard: 'Clipboard',
+  insert: 'Insert',
+  indent: 'Indentation',
+  color: 'Color',
+  form: 'Forms',
+  history: 'Undo and redo',
+  search: 'Search',
+  source: 'Source code',
+  other: 'More',
+  info: 'Information'
+};
+
+export const TOOLBAR_LABEL = 'Editor toolbar';
+
+export interface ToolbarMessages {
+  /**
+   * Name of each toolbar
+   */
+  label: string;
+  /**
+   * Names of button groups by Jodit group
+   */
+  groups: Record<string, string>;
+}
+
+export const TOOLBAR_MESSAGES: ToolbarMessages = {
+  label: TOOLBAR_LABEL,
+  groups: TOOLBAR_GROUP_LABELS
+};
+
+const GROUP_CLASS_PREFIX = 'jodit-ui-group_group_';
+
+/**
+ * Set the ARIA attributes of the editable area. Attributes set by an
+ * earlier call and missing now are removed
+ * @param element - Contenteditable root of the editor
+ * @param attributes - ARIA props, `id` and `required`
+ * @param previous - Attributes of the earlier call
+ */
+export function applyAriaAttributes(
+  element: HTMLElement,
+  attributes: EditorAriaAttributes,
+  previous: EditorAriaAttributes = {}
+): void {
+  const { id, required, ...aria } = attributes;
+  const next: Record<string, string> = {
+    role: 'textbox',
+    'aria-multiline': 'true'
+  };
+  Object.entries(aria).forEach(([name, value]) => {
+    if (value !== undefined && value !== null) next[name] = String(value);
+  });
+  if (required) next['aria-required'] = 'true';
+  if (id) next.id = id;
+
+  // A <label for> cannot label a contenteditable element, so it is
+  // referenced instead unless the element is named otherwise
+  const label = id && !next['aria-label'] && !next['aria-labelledby']
+    ? Array.from(element.ownerDocument.getElementsByTagName('label')).find(candidate => candidate.htmlFor === id)
+    : undefined;
+  if (label) {
+    label.id = label.id || `${id}-label`;
+    next['aria-labelledby'] = label.id;
+  }
+
+  const { id: previousId, required: previousRequired, ...previousAria } = previous;
+  [
+    ...Object.keys(previousAria),
+    previousRequired ? 'aria-required' : '',
+    previousId ? 'id' : '',
+    previousId ? 'aria-labelledby' : ''
+  ].forEach(name => {
+    if (name && !(name in next)) element.removeAttribute(name);
+  });
+  Object.entries(next).forEach(([name, value]) => element.setAttribute(name, value));
+}
+
+/**
+ * Name the toolbars and their button groups, and drop the list item role
+ * Jodit gives buttons outside of any list. Run again after Jodit rebuilds
+ * the toolbar or the locale changes
+ * @param container - Editor container
+ * @param messages - Toolbar and group names, defaults to English
+ */
+export function labelToolbar(container: HTMLElement, messages: ToolbarMessages = TOOLBAR_MESSAGES): void {
+  container.querySelectorAll<HTMLElement>('.jodit-toolbar-collection').forEach(toolbar => {
+    toolbar.setAttribute('role', 'toolbar');
+    toolbar.setAttribute('aria-label', messages.label);
+  });
+
+  container.querySelectorAll<HTMLElement>(`.jodit-toolbar-collection [class*="${GROUP_CLASS_PREFIX}"]`)
+    .forEach(group => {
+      const name = Array.from(group.classList)
+        .find(className => className.startsWith(GROUP_CLASS_PREFIX))!
+        .slice(GROUP_CLASS_PREFIX.length);
+      group.setAttribute('role', 'group');
+      group.setAttribute('aria-label', messages.groups[name] ?? name);
+    });
+
+  container.querySelectorAll('.jodit-toolbar-collection [role="listitem"]').forEach(item => {
+    item.setAttribute('role', 'none');
+  });
+}
+
+export interface FormatMessages {
+  /**
+   * Names of formatting commands, by lowercase command
+   */
+  commands: Record<string, string>;
+  /**
+   * Names of formatBlock tags other than headings
+   */
+  blocks: Record<string, string>;
+  heading: (level: number) => string;
+  /**
+   * Announcement of a format toggled at the caret, e.g. "Bold on"
+   */
+  toggled: (label: string, active: boolean) => string;
+}
+
+export const FORMAT_MESSAGES: FormatMessages = {
+  commands: {
+    bold: 'Bold',
+    italic: 'Italic',
+    underline: 'Underline',
+    strikethrough: 'Strikethrough',
+    subscript: 'Subscript',
+    superscript: 'Superscript',
+    insertunorderedlist: 'Bulleted list',
+    insertorderedlist: 'Numbered list',
+    justifyleft: 'Aligned left',
+    justifycenter: 'Centered',
+    justifyright: 'Aligned right',
+    justifyfull: 'Justified',
+    indent: 'Indented',
+    outdent: 'Outdented',
+    removeformat: 'Formatting cleared'
+  },
+  blocks: {
+    p: 'Paragraph',
+    blockquote: 'Quote',
+    pre: 'Code block',
+    div: 'Normal text'
+  },
+  heading: level => `Heading ${level}`,
+  toggled: (label, active) => `${label} ${active ? 'on' : 'off'}`
+};
+
+/**
+ * Elements that apply a toggled format; the announcement says whether it
+ * is now on or off at the caret. Other commands are announced by name
+ */
+const FORMAT_SELECTORS: Record<string, string> = {
+  bold: 'strong, b',
+  italic: 'em, i',
+  underline: 'u',
+  strikethrough: 's, strike, del',
+  subscript: 'sub',
+  superscript: 'sup',
+  insertunorderedlist: 'ul',
+  insertorderedlist: 'ol'
+};
+
+/**
+ * Message announcing the result of a formatting command
+ * @param root - Contenteditable root of the editor
+ * @param command - Command name as passed to execCommand
+ * @param value - Command value, e.g. the tag of formatBlock
+ * @param messages - Names of the formats, defaults to English
+ * @returns Message, or null for commands that are not announced
+ */
+export function describeFormatChange(
+  root: HTMLElement,
+  command: string,
+  value?: unknown,
+  messages: FormatMessages = FORMAT_MESSAGES
+): string | null {
+  const name = command.toLowerCase();
+
+  if (name === 'formatblock') {
+    const tag = String(value ?? '').toLowerCase();
+    const heading = /^h([1-6])$/.exec(tag);
+    return heading ? messages.heading(Number(heading[1])) : messages.blocks[tag] ?? null;
+  }
+
+  const label = messages.commands[name];
+  if (!label) return null;
+  const selector = FORMAT_SELECTORS[name];
+  if (!selector) return label;
+
+  const node = root.ownerDocument.getSelection()?.anchorNode;
+  const element = node instanceof Element ? node : node?.parentElement;
+  const formatted = element?.closest(selector);
+  const active = Boolean(formatted && root.contains(formatted) && formatted !== root);
+  return messages.toggled(label, active);
+}
+
+/**
+ * Modal the editor is rendered in, so Jodit can open its popups and
+ * dialogs inside it instead of outside the modal's focus trap
+ * @param element - Element the editor is mounted on
+ * @returns Closest dialog, or null outside of one
+ */
+export function findModalRoot(element: HTMLElement): HTMLElement | null {
+  return element.closest<HTMLElement>('dialog, [role="dialog"], [role="alertdialog"], [aria-modal="true"]');
+}
+
+/**
+ * Close a popup on Escape and move focus back to the editor. The key does
+ * not reach a surrounding modal listening in the bubble phase, so the
+ * modal stays open
+ * @param popup - Opened Jodit popup
+ * @param focusEditor - Moves focus back into the editor
+ */
+export function bindPopupEscape(popup: { container: HTMLElement; close(): void }, focusEditor: () => void): void {
+  popup.container.addEventListener('keydown', (event: KeyboardEvent) => {
+    if (event.key !== 'Escape') return;
+
+    event.stopPropagation();
+    event.preventDefault();
+    popup.close();
+    focusEditor();
+  });
+}
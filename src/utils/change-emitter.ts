@@ -0,0 +1,105 @@
+/**
+ * Rate-limited change emission for the JoditEditor component
+ */
+
+export interface ChangeEmitterOptions {
+  /**
+   * Wait until changes stop for this long before emitting
+   */
+  debounceMs?: number;
+  /**
+   * Emit at most once per interval. Combined with debounceMs it acts
+   * as the maximum time a change can be held back.
+   */
+  throttleMs?: number;
+}
+
+export interface ChangeEmitter {
+  /**
+   * Record that a change happened; emission follows the configured policy
+   */
+  schedule(): void;
+  /**
+   * Emit a pending change immediately
+   */
+  flush(): void;
+  /**
+   * Drop a pending change without emitting it
+   */
+  cancel(): void;
+  readonly pending: boolean;
+}
+
+/**
+ * Create an emitter that calls emit according to a debounce/throttle policy.
+ * The value is read by emit itself, so skipped changes cost nothing.
+ * @param emit - Callback performing the actual emission
+ * @param options - Debounce and throttle intervals in milliseconds
+ * @returns Change emitter
+ */
+export function createChangeEmitter(
+  emit: () => void,
+  { debounceMs = 0, throttleMs = 0 }: ChangeEmitterOptions = {}
+): ChangeEmitter {
+  let pending = false;
+  let lastEmit = -Infinity;
+  let debounceTimer: ReturnType<typeof setTimeout> | null = null;
+  let throttleTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const clearTimers = () => {
+    if (debounceTimer) clearTimeout(debounceTimer);
+    if (throttleTimer) clearTimeout(throttleTimer);
+    debounceTimer = null;
+    throttleTimer = null;
+  };
+
+  const flush = () => {
+    clearTimers();
+    if (!pending) return;
+
+    pending = false;
+    lastEmit = Date.now();
+    emit();
+  };
+
+  const schedule = () => {
+    pending = true;
+
+    if (debounceMs <= 0 && throttleMs <= 0) {
+      flush();
+      return;
+    }
+
+    if (debounceMs > 0) {
+      if (debounceTimer) clearTimeout(debounceTimer);
+      debounceTimer = setTimeout(flush, debounceMs);
+
+      if (throttleMs > 0 && !throttleTimer) {
+        throttleTimer = setTimeout(flush, throttleMs);
+      }
+      return;
+    }
+
+    // Throttle only: leading emission, then at most one trailing emission per interval
+    const elapsed = Date.now() - lastEmit;
+    if (elapsed >= throttleMs) {
+      flush();
+    } else if (!throttleTimer) {
+      throttleTimer = setTimeout(flush, throttleMs - elapsed);
+    }
+  };
+
+  const cancel = () => {
+    clearTimers();
+    pending = false;
+  };
+
+  return {
+    schedule,
+    flush,
+    cancel,
+    get pending() {
+      return pending;
+    }
+  };
+}
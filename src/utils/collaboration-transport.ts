@@ -0,0 +1,118 @@
+/**
+ * Transports connecting the peers of a collaboration room
+ */
+import type { CollaborationMessage, CollaborationTransport } from './collaboration';
+
+export interface ClosableTransport extends CollaborationTransport {
+  close(): void;
+}
+
+type Listener = (message: CollaborationMessage) => void;
+
+/**
+ * Create a room living in memory, for tests and for several editors on
+ * one page. Messages are delivered synchronously to the other connections
+ * @returns Room; each connect() call returns the transport of one peer
+ */
+export function createInMemoryHub(): { connect(): ClosableTransport } {
+  const connections = new Set<Set<Listener>>();
+
+  return {
+    connect() {
+      const listeners = new Set<Listener>();
+      connections.add(listeners);
+
+      return {
+        send(message) {
+          // Peers never share message objects, as with a real network
+          const payload = JSON.stringify(message);
+          Array.from(connections)
+            .filter(connection => connection !== listeners)
+            .forEach(connection => connection.forEach(listener => listener(JSON.parse(payload))));
+        },
+        subscribe(listener) {
+          listeners.add(listener);
+          return () => listeners.delete(listener);
+        },
+        close() {
+          connections.delete(listeners);
+          listeners.clear();
+        }
+      };
+    }
+  };
+}
+
+/**
+ * Create a transport between tabs and windows of the same origin
+ * @param name - Channel name, one per room
+ * @returns Transport
+ */
+export function createBroadcastChannelTransport(name: string): ClosableTransport {
+  const channel = new BroadcastChannel(name);
+
+  return {
+    send(message) {
+      channel.postMessage(message);
+    },
+    subscribe(listener) {
+      const onMessage = (event: MessageEvent<CollaborationMessage>) => listener(event.data);
+      channel.addEventListener('message', onMessage);
+      return () => channel.removeEventListener('message', onMessage);
+    },
+    close() {
+      channel.close();
+    }
+  };
+}
+
+export interface WebSocketTransportOptions {
+  protocols?: string | string[];
+}
+
+/**
+ * Create a transport over a WebSocket relay. The server only has to forward
+ * every text frame to the other sockets of the same room; messages sent
+ * before the socket opens are queued. The transport does not reconnect
+ * @param url - Relay URL, usually including the room
+ * @param options - Socket options
+ * @returns Transport
+ */
+export function createWebSocketTransport(url: string, { protocols }: WebSocketTransportOptions = {}): ClosableTransport {
+  const socket = new WebSocket(url, protocols);
+  const queue: string[] = [];
+
+  socket.addEventListener('open', () => {
+    queue.splice(0).forEach(payload => socket.send(payload));
+  });
+
+  return {
+    send(message) {
+      const payload = JSON.stringify(message);
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(payload);
+      } else if (socket.readyState === WebSocket.CONNECTING) {
+        queue.push(payload);
+      }
+    },
+    subscribe(listener) {
+      const onMessage = (event: MessageEvent) => {
+        if (typeof event.data !== 'string') return;
+        let message: CollaborationMessage;
+        try {
+          message = JSON.parse(event.data);
+        } catch {
+          // Not a collaboration message
+          return;
+        }
+        listener(message);
+      };
+      socket.addEventListener('message', onMessage);
+      return () => socket.removeEventListener('message', onMessage);
+    },
+    close() {
+      queue.length = 0;
+      socket.close();
+    }
+  };
+}
@@ -0,0 +1,332 @@
+/**
+ * Collaborative editing sessions. Each peer keeps a replicated copy of the
+ * editor HTML (see crdt-text) and exchanges operations and cursor
+ * positions with the other peers of a room through a pluggable transport.
+ */
+import { createTextCRDT, ItemId, StateVector, TextOperation } from './crdt-text';
+import { htmlIndexToTextOffset, textOffsetToHTMLIndex } from './text-offset';
+
+export interface CollaborationUser {
+  /**
+   * Shown next to the user's cursor
+   */
+  name: string;
+  /**
+   * Cursor and label color. Derived from the client id by default
+   */
+  color?: string;
+}
+
+export interface CollaborationPeer {
+  clientId: string;
+  user: Required<CollaborationUser>;
+  /**
+   * Caret as a text offset in the current document, null while the peer's
+   * editor is not focused
+   */
+  cursor: number | null;
+}
+
+export type CollaborationMessage =
+  | { type: 'sync-request'; from: string; stateVector: StateVector }
+  | { type: 'sync'; from: string; to: string; operations: TextOperation[] }
+  | { type: 'update'; from: string; operations: TextOperation[] }
+  | {
+      type: 'awareness';
+      from: string;
+      user: Required<CollaborationUser>;
+      /**
+       * Character before the caret, null at the start; the cursor itself is
+       * null while hidden
+       */
+      cursor: { anchor: ItemId | null } | null;
+    }
+  | { type: 'leave'; from: string };
+
+/**
+ * Channel between the peers of a room. Messages are plain JSON-serializable
+ * objects and must reach every other peer, in the order they were sent
+ */
+export interface CollaborationTransport {
+  send(message: CollaborationMessage): void;
+  /**
+   * Listen for messages from other peers
+   * @returns Function removing the listener
+   */
+  subscribe(listener: (message: CollaborationMessage) => void): () => void;
+}
+
+export interface CollaborationOptions {
+  transport: CollaborationTransport;
+  user: CollaborationUser;
+  /**
+   * Unique id of this peer. Generated by default
+   */
+  clientId?: string;
+  /**
+   * How long to wait for the state of peers already in the room before
+   * seeding the document from the initial value. Defaults to 300
+   */
+  syncTimeoutMs?: number;
+  /**
+   * Called when peers join, leave or move their cursor
+   */
+  onPresenceChange?: (peers: CollaborationPeer[]) => void;
+}
+
+export const DEFAULT_SYNC_TIMEOUT_MS = 300;
+
+const CURSOR_COLORS = ['#d9480f', '#1971c2', '#2f9e44', '#9c36b5', '#e8590c', '#0c8599', '#c2255c', '#5f3dc4'];
+
+/**
+ * Small stable string hash (FNV-1a)
+ */
+function hashString(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < value.length; index++) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+/**
+ * Pick a cursor color for a peer
+ * @param clientId - Peer id
+ * @returns CSS color
+ */
+export function getPeerColor(clientId: string): string {
+  return CURSOR_COLORS[parseInt(hashString(clientId), 36) % CURSOR_COLORS.length];
+}
+
+export interface CollaborationSession {
+  readonly clientId: string;
+  /**
+   * False until the state of the room has been received or seeded
+   */
+  readonly synced: boolean;
+  /**
+   * Current replicated HTML
+   */
+  readonly html: string;
+  readonly peers: CollaborationPeer[];
+  /**
+   * Connect to the room. The document is taken from peers already in the
+   * room, or seeded from this HTML when there are none
+   */
+  join(html: string): void;
+  /**
+   * Share a local edit, given as the new editor HTML. Edits made before
+   * the sync finished replace the room's document once it did
+   */
+  update(html: string): void;
+  /**
+   * Share the local caret as a text offset, or null to hide it
+   */
+  setCursor(offset: number | null): void;
+  /**
+   * Leave the room
+   */
+  destroy(): void;
+}
+
+export interface CollaborationSessionOptions extends CollaborationOptions {
+  /**
+   * Called with the new HTML when operations of other peers changed it
+   */
+  onRemoteChange: (html: string) => void;
+}
+
+/**
+ * Create a collaboration session
+ * @param options - Transport, user and callbacks
+ * @returns Session; call join() to connect
+ */
+export function createCollaborationSession({
+  transport,
+  user,
+  clientId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`,
+  syncTimeoutMs = DEFAULT_SYNC_TIMEOUT_MS,
+  onPresenceChange,
+  onRemoteChange
+}: CollaborationSessionOptions): CollaborationSession {
+  const doc = createTextCRDT(clientId);
+  const localUser: Required<CollaborationUser> = { name: user.name, color: user.color ?? getPeerColor(clientId) };
+  const remotePeers = new Map<string, Extract<CollaborationMessage, { type: 'awareness' }>>();
+  let synced = false;
+  let joined = false;
+  // Editor content not shared yet. The initial value gives way to the
+  // room's document, edits made while syncing replace it
+  let localHTML = '';
+  let isEditedWhileSyncing = false;
+  let localCursor: { anchor: ItemId | null } | null = null;
+  let syncTimer: ReturnType<typeof setTimeout> | null = null;
+  let unsubscribe: (() => void) | null = null;
+
+  const send = (message: CollaborationMessage) => transport.send(message);
+
+  const sendAwareness = () => send({ type: 'awareness', from: clientId, user: localUser, cursor: localCursor });
+
+  const notifyPresence = () => onPresenceChange?.(session.peers);
+
+  const showRemoteChange = () => {
+    localHTML = doc.text;
+    onRemoteChange(doc.text);
+    notifyPresence();
+  };
+
+  /**
+   * Seed the document with the local content. The operation id only
+   * depends on the content, so peers seeding the same value at the same
+   * time produce one copy of it
+   */
+  const seed = () => {
+    if (!localHTML) return;
+
+    const operations: TextOperation[] = [{
+      type: 'insert',
+      id: { client: `seed-${hashString(localHTML)}`, clock: 1 },
+      origin: null,
+      text: localHTML
+    }];
+    doc.apply(operations);
+    send({ type: 'update', from: clientId, operations });
+  };
+
+  const finishSync = () => {
+    if (synced) return;
+    synced = true;
+    if (syncTimer) clearTimeout(syncTimer);
+    syncTimer = null;
+
+    if (!doc.text) {
+      seed();
+    } else if (isEditedWhileSyncing) {
+      const operations = doc.setText(localHTML);
+      if (operations.length) {
+        send({ type: 'update', from: clientId, operations });
+      }
+    }
+    if (doc.text !== localHTML) {
+      showRemoteChange();
+    }
+  };
+
+  const receive = (message: CollaborationMessage) => {
+    if (!message || message.from === clientId) return;
+
+    switch (message.type) {
+      case 'sync-request': {
+        if (!synced) return;
+        send({ type: 'sync', from: clientId, to: message.from, operations: doc.getOperations(message.stateVector) });
+        sendAwareness();
+
+        // The other peer has edits this one lacks, e.g. after a network split
+        const own = doc.getStateVector();
+        if (Object.entries(message.stateVector).some(([client, clock]) => clock > (own[client] ?? 0))) {
+          send({ type: 'sync-request', from: clientId, stateVector: own });
+        }
+        break;
+      }
+      case 'sync':
+      case 'update': {
+        if (message.type === 'sync' && message.to !== clientId) return;
+
+        const changed = doc.apply(message.operations);
+        if (!synced) {
+          if (message.type === 'sync') finishSync();
+        } else if (changed) {
+          showRemoteChange();
+        }
+        break;
+      }
+      case 'awareness': {
+        const isNew = !remotePeers.has(message.from);
+        remotePeers.set(message.from, message);
+        if (isNew) {
+          sendAwareness();
+        }
+        notifyPresence();
+        break;
+      }
+      case 'leave': {
+        if (remotePeers.delete(message.from)) {
+          notifyPresence();
+        }
+        break;
+      }
+    }
+  };
+
+  const session: CollaborationSession = {
+    clientId,
+    get synced() {
+      return synced;
+    },
+    get html() {
+      return doc.text;
+    },
+    get peers() {
+      const html = doc.text;
+      return Array.from(remotePeers.values(), ({ from, user: peerUser, cursor }) => {
+        const position = cursor?.anchor ? doc.positionAfter(cursor.anchor) ?? 0 : 0;
+        return {
+          clientId: from,
+          user: peerUser,
+          cursor: cursor ? htmlIndexToTextOffset(html, position) : null
+        };
+      });
+    },
+    join(html) {
+      if (joined) return;
+      joined = true;
+      localHTML = html;
+
+      unsubscribe = transport.subscribe(receive);
+      sendAwareness();
+      send({ type: 'sync-request', from: clientId, stateVector: doc.getStateVector() });
+      // A peer answering synchronously may have completed the sync already
+      if (!synced) {
+        syncTimer = setTimeout(finishSync, syncTimeoutMs);
+      }
+    },
+    update(html) {
+      if (!synced) {
+        if (joined && html !== localHTML) isEditedWhileSyncing = true;
+        localHTML = html;
+        return;
+      }
+      localHTML = html;
+
+      const operations = doc.setText(html);
+      if (operations.length) {
+        send({ type: 'update', from: clientId, operations });
+        notifyPresence();
+      }
+    },
+    setCursor(offset) {
+      if (offset === null) {
+        localCursor = null;
+      } else {
+        const index = textOffsetToHTMLIndex(doc.text, offset);
+        localCursor = { anchor: index > 0 ? doc.idAt(index - 1) : null };
+      }
+      if (joined) {
+        sendAwareness();
+      }
+    },
+    destroy() {
+      if (syncTimer) clearTimeout(syncTimer);
+      syncTimer = null;
+      if (joined) {
+        send({ type: 'leave', from: clientId });
+      }
+      unsubscribe?.();
+      unsubscribe = null;
+      joined = false;
+      remotePeers.clear();
+    }
+  };
+
+  return session;
+}
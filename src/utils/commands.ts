@@ -0,0 +1,343 @@
+/**
+ * Slash commands: a `/` palette that inserts headings, tables, callouts,
+ * product cards, embeds and any block registered by the app
+ */
+import type { Jodit } from 'jodit';
+import type { SquareCatalogObject } from '../services/types/square.types';
+import { formatMoney } from './currency';
+import type { Suggestion, SuggestionTrigger } from './suggestions';
+
+/**
+ * Passed to a command when it is chosen. The `/query` text has already
+ * been removed and the caret is where it was
+ */
+export interface CommandContext {
+  editor: Jodit;
+  /**
+   * Insert sanitized HTML at the position the command was typed, also
+   * after the command awaited something such as a picker dialog
+   */
+  insertHTML(html: string): void;
+}
+
+export interface EditorCommand {
+  /**
+   * Unique id. Registering an id again replaces the registered command;
+   * an entry of the `commands` prop hides a registered one with its id
+   */
+  id: string;
+  title: string;
+  description?: string;
+  /**
+   * Extra words the filter matches, e.g. ['h2'] for a heading
+   */
+  keywords?: string[];
+  /**
+   * HTML block to insert. Ignored when `run` is given
+   */
+  html?: string | (() => string);
+  /**
+   * Custom behaviour, e.g. asking for a product before inserting a card
+   */
+  run?: (context: CommandContext) => void | Promise<void>;
+}
+
+/**
+ * Trigger of the command palette. Its type is reserved for commands
+ */
+export const COMMAND_TRIGGER: SuggestionTrigger = { trigger: '/', type: 'command' };
+
+const escapeHTML = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Build an empty table
+ * @param rows - Number of rows, the first one being the header
+ * @param columns - Number of columns
+ * @returns Table HTML
+ */
+export function createTableHTML(rows = 3, columns = 3): string {
+  const row = (cell: string) => `<tr>${`<${cell}><br></${cell}>`.repeat(columns)}</tr>`;
+  return `<table><thead>${row('th')}</thead><tbody>${row('td').repeat(Math.max(rows - 1, 0))}</tbody></table>`;
+}
+
+/**
+ * Build a product card for a Square catalog item
+ * @param object - Catalog item
+ * @param options - Image to show, e.g. resolved from the item's image_ids
+ * @returns Card HTML
+ */
+export function createProductCardHTML(object: SquareCatalogObject, options: { imageUrl?: string } = {}): string {
+  const item = object.item_data;
+  const name = item?.name ?? '';
+  const price = item?.variations?.[0]?.item_variation_data?.price_money;
+  const description = item?.description_plaintext ?? item?.description;
+
+  return [
+    '<div class="jodit-react-product-card">',
+    options.imageUrl ? `<img src="${escapeHTML(options.imageUrl)}" alt="${escapeHTML(name)}">` : '',
+    `<h3>${escapeHTML(name)}</h3>`,
+    description ? `<p>${escapeHTML(description)}</p>` : '',
+    price ? `<p><strong>${escapeHTML(formatMoney(price.amount, price.currency))}</strong></p>` : '',
+    '</div>'
+  ].join('');
+}
+
+/**
+ * Build an embed block. Frames are removed by the sanitizer, so the embed
+ * is a link that the storefront can expand
+ * @param url - http(s) URL to embed
+ * @param caption - Text shown below the link
+ * @returns Embed HTML, or null for other URLs
+ */
+export function createEmbedHTML(url: string, caption?: string): string | null {
+  if (!/^https?:\/\//i.test(url.trim())) return null;
+
+  const href = escapeHTML(url.trim());
+  return [
+    '<figure class="jodit-react-embed">',
+    `<a href="${href}" target="_blank" rel="noopener noreferrer">${href}</a>`,
+    caption ? `<figcaption>${escapeHTML(caption)}</figcaption>` : '',
+    '</figure>'
+  ].join('');
+}
+
+/**
+ * Command that asks for a product and inserts its card
+ * @param pickProduct - Product picker; resolve null to cancel
+ * @param getImageUrl - Image of the product, if any
+ * @returns Product card command
+ */
+export function createProductCardCommand(
+  pickProduct: () => Promise<SquareCatalogObject | null>,
+  getImageUrl?: (object: SquareCatalogObject) => string | undefined
+): EditorCommand {
+  return {
+    id: 'product-card',
+    title: 'Product card',
+    description: 'Name, price and description of a catalog item',
+    keywords: ['item', 'catalog', 'square'],
+    async run({ insertHTML }) {
+      const product = await pickProduct();
+      if (product) insertHTML(createProductCardHTML(product, { imageUrl: getImageUrl?.(product) }));
+    }
+  };
+}
+
+/**
+ * Command that asks for a URL and inserts an embed
+ * @param promptUrl - Asks for the URL; defaults to window.prompt
+ * @returns Embed command
+ */
+export function createEmbedCommand(
+  promptUrl: () => string | null | Promise<string | null> = () => window.prompt('Link to embed')
+): EditorCommand {
+  return {
+    id: 'embed',
+    title: 'Embed',
+    description: 'Video, post or page by link',
+    keywords: ['video', 'youtube', 'link', 'url'],
+    async run({ insertHTML }) {
+      const url = await promptUrl();
+      const html = url && createEmbedHTML(url);
+      if (html) insertHTML(html);
+    }
+  };
+}
+
+export const DEFAULT_COMMANDS: EditorCommand[] = [
+  {
+    id: 'heading-2',
+    title: 'Heading',
+    description: 'Section heading',
+    keywords: ['h2', 'title'],
+    run: ({ editor }) => editor.execCommand('formatBlock', false, 'h2')
+  },
+  {
+    id: 'heading-3',
+    title: 'Subheading',
+    description: 'Smaller heading',
+    keywords: ['h3'],
+    run: ({ editor }) => editor.execCommand('formatBlock', false, 'h3')
+  },
+  {
+    id: 'bulleted-list',
+    title: 'Bulleted list',
+    keywords: ['ul', 'bullet'],
+    run: ({ editor }) => editor.execCommand('insertUnorderedList')
+  },
+  {
+    id: 'numbered-list',
+    title: 'Numbered list',
+    keywords: ['ol', 'ordered'],
+    run: ({ editor }) => editor.execCommand('insertOrderedList')
+  },
+  {
+    id: 'table',
+    title: 'Table',
+    description: 'Size chart or specifications',
+    keywords: ['grid', 'size chart'],
+    html: () => createTableHTML()
+  },
+  {
+    id: 'callout',
+    title: 'Callout',
+    description: 'Highlighted note',
+    keywords: ['note', 'info', 'tip'],
+    html: '<div class="jodit-react-callout"><p><br></p></div>'
+  },
+  {
+    id: 'divider',
+    title: 'Divider',
+    keywords: ['hr', 'line', 'separator'],
+    html: '<hr>'
+  }
+];
+
+const registeredCommands = new Map<string, EditorCommand>();
+
+/**
+ * Add a command to the palette of every editor with `commands` enabled
+ * @param command - Command to add
+ * @returns Function removing the command again
+ */
+export function registerCommand(command: EditorCommand): () => void {
+  registeredCommands.set(command.id, command);
+  return () => {
+    if (registeredCommands.get(command.id) === command) {
+      registeredCommands.delete(command.id);
+    }
+  };
+}
+
+/**
+ * Commands of an editor: its own, then registered ones with other ids
+ * @param commands - Commands from the `commands` prop
+ * @returns Commands in palette order
+ */
+export function resolveCommands(commands: EditorCommand[]): EditorCommand[] {
+  const ids = new Set(commands.map(command => command.id));
+  return [...commands, ...Array.from(registeredCommands.values()).filter(command => !ids.has(command.id))];
+}
+
+/**
+ * Score of matching the query characters in order, starting at an index
+ */
+function scoreFrom(needle: string, haystack: string, start: number): number | null {
+  let score = 0;
+  let previous = -2;
+  let position = start;
+
+  for (const char of needle) {
+    const index = haystack.indexOf(char, position);
+    if (index === -1) return null;
+
+    score += 1;
+    if (index === previous + 1) score += 2;
+    if (index === 0 || /[\s\-_]/.test(haystack[index - 1])) score += 3;
+    previous = index;
+    position = index + 1;
+  }
+  return score;
+}
+
+/**
+ * Score how well a query matches a text. Every query character must occur
+ * in order; consecutive characters and word starts score higher
+ * @param query - Typed query
+ * @param text - Candidate text
+ * @returns Score, or null when the text does not match
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const needle = query.toLowerCase();
+  const haystack = text.toLowerCase();
+  if (!needle) return 0;
+
+  // Matching greedily from the first occurrence would miss "list" as a
+  // word in "bulleted list", so every start of the first character is tried
+  let best: number | null = null;
+  for (let start = haystack.indexOf(needle[0]); start !== -1; start = haystack.indexOf(needle[0], start + 1)) {
+    const score = scoreFrom(needle, haystack, start);
+    if (score === null) break;
+    if (best === null || score > best) best = score;
+  }
+
+  // Shorter candidates win ties, so "Table" ranks above "Tablet stand"
+  return best === null ? null : best - haystack.length / 100;
+}
+
+/**
+ * Filter and rank commands by a query
+ * @param commands - Commands to search
+ * @param query - Text typed after '/'
+ * @returns Matching commands, best first; all commands for an empty query
+ */
+export function filterCommands(commands: EditorCommand[], query: string): EditorCommand[] {
+  if (!query) return commands;
+
+  return commands
+    .map((command, index) => {
+      const scores = [command.title, ...(command.keywords ?? [])]
+        .map(text => fuzzyScore(query, text))
+        .filter((score): score is number => score !== null);
+      return { command, index, score: scores.length ? Math.max(...scores) : null };
+    })
+    .filter(result => result.score !== null)
+    .sort((a, b) => b.score! - a.score! || a.index - b.index)
+    .map(result => result.command);
+}
+
+/**
+ * Run a command in place of the `/query` text
+ * @param editor - Editor the command was typed in
+ * @param range - Range of the `/query` text
+ * @param command - Chosen command
+ * @param options - Sanitizer for inserted HTML and error reporting
+ */
+export function executeCommand(
+  editor: Jodit,
+  range: Range,
+  command: EditorCommand,
+  options: { sanitize: (html: string) => string; onError: (error: Error) => void }
+): void {
+  range.deleteContents();
+  const position = range.cloneRange();
+
+  const restorePosition = () => {
+    const selection = editor.editor.ownerDocument.getSelection();
+    if (!selection || !editor.editor.contains(position.startContainer)) return;
+    selection.removeAllRanges();
+    selection.addRange(position);
+  };
+
+  const context: CommandContext = {
+    editor,
+    insertHTML(html) {
+      restorePosition();
+      editor.s.insertHTML(options.sanitize(html));
+      editor.synchronizeValues();
+    }
+  };
+  const reportError = (error: unknown) =>
+    options.onError(error instanceof Error ? error : new Error(String(error)));
+
+  restorePosition();
+  try {
+    if (command.run) {
+      const result = command.run(context);
+      result?.catch(reportError);
+    } else {
+      context.insertHTML(typeof command.html === 'function' ? command.html() : command.html ?? '');
+    }
+    editor.synchronizeValues();
+  } catch (error) {
+    reportError(error);
+  }
+}
+
+/**
+ * List entry of a command
+ */
+export function toCommandSuggestion(command: EditorCommand): Suggestion {
+  return { id: command.id, label: command.title, description: command.description };
+}
@@ -0,0 +1,259 @@
+/**
+ * Content statistics and length limits measured in the units the target
+ * platform counts
+ */
+import { getTextLength } from './form-validation';
+import { htmlToPlainText, SQUARE_DESCRIPTION_MAX_LENGTH } from './square-description';
+
+export interface ContentStats {
+  /**
+   * Text characters, without markup and line breaks
+   */
+  characters: number;
+  words: number;
+  /**
+   * UTF-8 size of the HTML
+   */
+  htmlBytes: number;
+  /**
+   * Length of the plain text version, with blank lines between paragraphs
+   * and list item prefixes, as Square stores `description`
+   */
+  plainTextLength: number;
+}
+
+export type ContentLimitUnit = keyof ContentStats;
+
+export interface ContentLimit {
+  max: number;
+  /**
+   * Defaults to 'characters'
+   */
+  unit?: ContentLimitUnit;
+  /**
+   * 'soft' only reports exceeding the limit, 'hard' stops typing and
+   * shortens pasted content at the limit. Defaults to 'soft'
+   */
+  mode?: 'soft' | 'hard';
+  /**
+   * Name shown in the status bar, e.g. 'Square'
+   */
+  label?: string;
+}
+
+export interface ContentLimitStatus {
+  limit: Required<Pick<ContentLimit, 'max' | 'unit' | 'mode'>> & Pick<ContentLimit, 'label'>;
+  used: number;
+  remaining: number;
+  exceeded: boolean;
+}
+
+export type ContentPlatform = 'square' | 'spocket';
+
+/**
+ * Units the platforms measure descriptions in. Square limits the plain
+ * text `description`; Spocket stores the description HTML as is
+ */
+export const PLATFORM_LIMIT_UNITS: Record<ContentPlatform, ContentLimitUnit> = {
+  square: 'plainTextLength',
+  spocket: 'htmlBytes'
+};
+
+export const UNIT_LABELS: Record<ContentLimitUnit, string> = {
+  characters: 'characters',
+  words: 'words',
+  htmlBytes: 'bytes of HTML',
+  plainTextLength: 'plain text characters'
+};
+
+export interface LimitMessages {
+  /**
+   * Announced when a paste was shortened to fit a hard limit
+   */
+  pasteTruncated: string;
+  /**
+   * Names of the units limits are measured in
+   */
+  units: Record<ContentLimitUnit, string>;
+  words: (count: number) => string;
+  characters: (count: number) => string;
+  remaining: (remaining: number, max: number, unit: string) => string;
+  exceeded: (excess: number, max: number, unit: string) => string;
+  /**
+   * Character budget of Square mode
+   */
+  budgetRemaining: (remaining: number, limit: number) => string;
+  budgetExceeded: (excess: number, limit: number) => string;
+}
+
+export const LIMIT_MESSAGES: LimitMessages = {
+  pasteTruncated: 'Pasted content was shortened to fit the length limit',
+  units: UNIT_LABELS,
+  words: count => `${count} words`,
+  characters: count => `${count} characters`,
+  remaining: (remaining, max, unit) => `${remaining} of ${max} ${unit} left`,
+  exceeded: (excess, max, unit) => `${excess} ${unit} over the ${max} limit`,
+  budgetRemaining: (remaining, limit) => `${remaining} of ${limit} characters left`,
+  budgetExceeded: (excess, limit) => `${excess} characters over the ${limit} character limit`
+};
+
+// Zero width spaces Jodit keeps around the caret are not counted
+const INVISIBLE_SPACE = /[\u200b\ufeff]/g;
+
+// Prefixes htmlToPlainText gives list items, which are not words
+const LIST_PREFIX = /^(-|\d+\.) /gm;
+
+/**
+ * UTF-8 byte length of a string
+ */
+function getByteLength(text: string): number {
+  let bytes = 0;
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    bytes += code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+  }
+  return bytes;
+}
+
+/**
+ * Measure HTML content
+ * @param html - Content as emitted by the editor
+ * @returns Statistics of the content
+ */
+export function getContentStats(html: string): ContentStats {
+  const template = document.createElement('template');
+  template.innerHTML = html;
+  const plainText = htmlToPlainText(html).replace(INVISIBLE_SPACE, '');
+
+  return {
+    characters: getTextLength(template.content),
+    words: plainText.replace(LIST_PREFIX, '').split(/\s+/).filter(Boolean).length,
+    htmlBytes: getByteLength(html),
+    plainTextLength: plainText.length
+  };
+}
+
+/**
+ * Limit of a platform's description field, measured in its unit
+ * @param platform - Target platform
+ * @param options - max is required for Spocket, whose limit depends on the store
+ */
+export function createPlatformLimit(
+  platform: ContentPlatform,
+  options: Partial<Omit<ContentLimit, 'unit'>> = {}
+): ContentLimit {
+  const max = options.max ?? (platform === 'square' ? SQUARE_DESCRIPTION_MAX_LENGTH : undefined);
+  if (max === undefined) {
+    throw new Error(`A max is required for ${platform} limits`);
+  }
+
+  return {
+    label: platform === 'square' ? 'Square' : 'Spocket',
+    ...options,
+    max,
+    unit: PLATFORM_LIMIT_UNITS[platform]
+  };
+}
+
+/**
+ * Check content against its limits
+ * @param stats - Statistics of the content
+ * @param limits - Limits to check
+ * @returns Usage of each limit, in the order given
+ */
+export function checkContentLimits(stats: ContentStats, limits: ContentLimit[]): ContentLimitStatus[] {
+  return limits.map(({ max, unit = 'characters', mode = 'soft', label }) => {
+    const used = stats[unit];
+    return {
+      limit: { max, unit, mode, label },
+      used,
+      remaining: max - used,
+      exceeded: used > max
+    };
+  });
+}
+
+/**
+ * Whether a key press must be stopped because a hard limit is reached.
+ * Enter adds no characters and only spaces start a new word, so they are
+ * measured accordingly
+ * @param statuses - Usage of the limits
+ * @param key - KeyboardEvent.key of a key inserting text
+ */
+export function blocksInput(statuses: ContentLimitStatus[], key: string): boolean {
+  const isBreak = key === 'Enter';
+  const isSpace = isBreak || /^\s$/.test(key);
+
+  return statuses.some(({ limit, remaining }) => {
+    if (limit.mode !== 'hard' || remaining > 0) return false;
+
+    switch (limit.unit) {
+      case 'words':
+        return isSpace;
+      case 'characters':
+        return !isBreak;
+      default:
+        return true;
+    }
+  });
+}
+
+/**
+ * Keep the first text characters of HTML along with their markup
+ * @param html - HTML to shorten
+ * @param length - Number of text characters to keep
+ */
+export function truncateHTML(html: string, length: number): string {
+  const template = document.createElement('template');
+  template.innerHTML = html;
+
+  const walker = document.createTreeWalker(template.content, NodeFilter.SHOW_TEXT);
+  let remaining = length;
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const text = node.nodeValue ?? '';
+    if (text.length < remaining) {
+      remaining -= text.length;
+      continue;
+    }
+
+    // Everything after the cut goes, including media and empty elements
+    const range = document.createRange();
+    range.setStart(node, remaining);
+    range.setEndAfter(template.content.lastChild!);
+    range.deleteContents();
+    break;
+  }
+
+  return template.innerHTML;
+}
+
+/**
+ * Shorten content, e.g. pasted HTML, to the room left by hard limits
+ * @param html - Content to insert
+ * @param statuses - Usage of the limits by the current document
+ * @returns The content, shortened when it does not fit
+ */
+export function fitContent(html: string, statuses: ContentLimitStatus[]): string {
+  const hardLimits = statuses.filter(({ limit }) => limit.mode === 'hard');
+  const fits = (candidate: string) => {
+    const stats = getContentStats(candidate);
+    return hardLimits.every(({ limit, remaining }) => stats[limit.unit] <= Math.max(remaining, 0));
+  };
+  if (!hardLimits.length || fits(html)) return html;
+
+  // Longest prefix of the text that fits
+  const template = document.createElement('template');
+  template.innerHTML = html;
+  let low = 0;
+  let high = template.content.textContent?.length ?? 0;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (fits(truncateHTML(html, middle))) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+
+  return low ? truncateHTML(html, low) : '';
+}
@@ -0,0 +1,304 @@
+/**
+ * Replicated text for collaborative editing: a sequence CRDT (RGA) over the
+ * characters of the editor HTML. Every character has a unique id and is
+ * inserted after a known neighbour, so replicas that apply the same
+ * operations in any causal order end up with the same text. Deleted
+ * characters stay in the sequence as tombstones.
+ */
+
+/**
+ * Lamport timestamp of a character: the creating client and its clock
+ */
+export interface ItemId {
+  client: string;
+  clock: number;
+}
+
+export type TextOperation =
+  | {
+      type: 'insert';
+      /**
+       * Id of the first character; the following ones have consecutive clocks
+       */
+      id: ItemId;
+      /**
+       * Character the text was inserted after, null for the start
+       */
+      origin: ItemId | null;
+      text: string;
+    }
+  | {
+      type: 'delete';
+      ids: ItemId[];
+    };
+
+/**
+ * Highest clock seen per client
+ */
+export type StateVector = Record<string, number>;
+
+export interface TextCRDT {
+  readonly clientId: string;
+  readonly text: string;
+  /**
+   * Insert text at a visible index
+   * @returns Operations to send to other replicas
+   */
+  insert(index: number, text: string): TextOperation[];
+  /**
+   * Delete visible characters
+   * @returns Operations to send to other replicas
+   */
+  delete(index: number, length: number): TextOperation[];
+  /**
+   * Replace the whole text with the smallest single edit
+   * @returns Operations to send to other replicas
+   */
+  setText(text: string): TextOperation[];
+  /**
+   * Apply operations from another replica. Operations arriving before the
+   * characters they depend on are held back until those arrive
+   * @returns True when the visible text changed
+   */
+  apply(operations: TextOperation[]): boolean;
+  getStateVector(): StateVector;
+  /**
+   * Operations a replica with the given state is missing, plus all deletions
+   */
+  getOperations(since?: StateVector): TextOperation[];
+  /**
+   * Id of the visible character at an index
+   */
+  idAt(index: number): ItemId | null;
+  /**
+   * Visible index right after a character, or where it was if it has been
+   * deleted. Null for unknown ids
+   */
+  positionAfter(id: ItemId): number | null;
+}
+
+interface Item {
+  id: ItemId;
+  origin: ItemId | null;
+  char: string;
+  deleted: boolean;
+}
+
+const toKey = ({ client, clock }: ItemId) => `${client}:${clock}`;
+
+/**
+ * Total order of timestamps; later characters win the position next to a
+ * shared origin
+ */
+export function compareIds(a: ItemId, b: ItemId): number {
+  if (a.clock !== b.clock) return a.clock - b.clock;
+  if (a.client === b.client) return 0;
+  return a.client < b.client ? -1 : 1;
+}
+
+/**
+ * Find the single edit turning one string into another
+ * @param previous - Old text
+ * @param next - New text
+ * @returns Index, number of deleted characters and inserted text
+ */
+export function diffText(previous: string, next: string): { index: number; deleteCount: number; text: string } {
+  const limit = Math.min(previous.length, next.length);
+  let start = 0;
+  while (start < limit && previous[start] === next[start]) start++;
+
+  let end = 0;
+  while (
+    end < limit - start &&
+    previous[previous.length - 1 - end] === next[next.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  return {
+    index: start,
+    deleteCount: previous.length - start - end,
+    text: next.slice(start, next.length - end)
+  };
+}
+
+/**
+ * Create an empty replicated text
+ * @param clientId - Unique id of this replica
+ * @returns Replicated text
+ */
+export function createTextCRDT(clientId: string): TextCRDT {
+  const items: Item[] = [];
+  const itemsByKey = new Map<string, Item>();
+  let pendingInserts: Extract<TextOperation, { type: 'insert' }>[] = [];
+  const pendingDeletes = new Set<string>();
+  let clock = 0;
+  let cachedText: string | null = '';
+
+  const indexOfItem = (id: ItemId) => {
+    const item = itemsByKey.get(toKey(id));
+    return item ? items.indexOf(item) : -1;
+  };
+
+  const visibleItems = () => items.filter(item => !item.deleted);
+
+  /**
+   * Place the characters of an insert operation. Returns false when its
+   * origin is not known yet
+   */
+  const integrate = ({ id, origin, text }: Extract<TextOperation, { type: 'insert' }>): boolean => {
+    let index = origin ? indexOfItem(origin) : -1;
+    if (origin && index === -1) return false;
+
+    let previous = origin;
+    for (let offset = 0; offset < text.length; offset++) {
+      const itemId = { client: id.client, clock: id.clock + offset };
+      const key = toKey(itemId);
+      clock = Math.max(clock, itemId.clock);
+
+      const existing = itemsByKey.get(key);
+      if (existing) {
+        index = items.indexOf(existing);
+        previous = itemId;
+        continue;
+      }
+
+      // Concurrent inserts after the same origin are ordered by timestamp
+      let position = index + 1;
+      while (position < items.length && compareIds(items[position].id, itemId) > 0) {
+        position++;
+      }
+
+      const item: Item = { id: itemId, origin: previous, char: text[offset], deleted: pendingDeletes.delete(key) };
+      items.splice(position, 0, item);
+      itemsByKey.set(key, item);
+      index = position;
+      previous = itemId;
+    }
+
+    cachedText = null;
+    return true;
+  };
+
+  const markDeleted = (ids: ItemId[]) => {
+    ids.forEach(id => {
+      const item = itemsByKey.get(toKey(id));
+      if (!item) {
+        pendingDeletes.add(toKey(id));
+      } else if (!item.deleted) {
+        item.deleted = true;
+        cachedText = null;
+      }
+    });
+  };
+
+  const crdt: TextCRDT = {
+    clientId,
+    get text() {
+      if (cachedText === null) {
+        cachedText = visibleItems().map(item => item.char).join('');
+      }
+      return cachedText;
+    },
+    insert(index, text) {
+      if (!text) return [];
+
+      const operation: TextOperation = {
+        type: 'insert',
+        id: { client: clientId, clock: clock + 1 },
+        origin: index > 0 ? crdt.idAt(index - 1) : null,
+        text
+      };
+      integrate(operation);
+      return [operation];
+    },
+    delete(index, length) {
+      const ids = visibleItems().slice(index, index + length).map(item => item.id);
+      if (!ids.length) return [];
+
+      markDeleted(ids);
+      return [{ type: 'delete', ids }];
+    },
+    setText(text) {
+      const { index, deleteCount, text: inserted } = diffText(crdt.text, text);
+      return [...crdt.delete(index, deleteCount), ...crdt.insert(index, inserted)];
+    },
+    apply(operations) {
+      const before = crdt.text;
+
+      operations.forEach(operation => {
+        if (operation.type === 'delete') {
+          markDeleted(operation.ids);
+        } else if (!integrate(operation)) {
+          pendingInserts.push(operation);
+        }
+      });
+
+      // Retry held back inserts until none of them can be placed
+      let progress = pendingInserts.length > 0;
+      while (progress) {
+        const waiting = pendingInserts;
+        pendingInserts = waiting.filter(operation => !integrate(operation));
+        progress = pendingInserts.length < waiting.length;
+      }
+
+      return crdt.text !== before;
+    },
+    getStateVector() {
+      const vector: StateVector = {};
+      items.forEach(({ id }) => {
+        vector[id.client] = Math.max(vector[id.client] ?? 0, id.clock);
+      });
+      return vector;
+    },
+    getOperations(since = {}) {
+      const operations: TextOperation[] = [];
+      let run: Extract<TextOperation, { type: 'insert' }> | null = null;
+      let last: ItemId | null = null;
+
+      // Items are ordered after their origin, so this order is causal
+      for (const item of items) {
+        if (item.id.clock <= (since[item.id.client] ?? 0)) {
+          run = null;
+          continue;
+        }
+
+        const continuesRun = last !== null &&
+          item.id.client === last.client &&
+          item.id.clock === last.clock + 1 &&
+          item.origin !== null && compareIds(item.origin, last) === 0;
+
+        if (run && continuesRun) {
+          run.text += item.char;
+        } else {
+          run = { type: 'insert', id: item.id, origin: item.origin, text: item.char };
+          operations.push(run);
+        }
+        last = item.id;
+      }
+
+      const deleted = items.filter(item => item.deleted).map(item => item.id);
+      if (deleted.length) {
+        operations.push({ type: 'delete', ids: deleted });
+      }
+
+      return operations;
+    },
+    idAt(index) {
+      return visibleItems()[index]?.id ?? null;
+    },
+    positionAfter(id) {
+      const target = itemsByKey.get(toKey(id));
+      if (!target) return null;
+
+      let position = 0;
+      for (const item of items) {
+        if (!item.deleted) position++;
+        if (item === target) break;
+      }
+      return position;
+    }
+  };
+
+  return crdt;
+}
@@ -100,3 +100,18 @@ export function smallestUnitToDecimal(amount: number, currency: string): number
   return amount / divisor;
 }
 
+
+/**
+ * Format an amount in smallest currency unit for display
+ * @param amount - Amount in smallest currency unit
+ * @param currency - Currency code
+ * @returns Localized price, e.g. "$20.00"
+ */
+export function formatMoney(amount: number | bigint, currency: string): string {
+  const decimal = smallestUnitToDecimal(Number(amount), currency);
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(decimal);
+  } catch {
+    return `${decimal} ${currency}`;
+  }
+}
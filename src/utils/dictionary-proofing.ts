@@ -0,0 +1,258 @@
+/**
+ * Proofing provider working from local word lists, so it needs no network
+ * and gives the same results in tests
+ */
+import type { ProofingIssue, ProofingProvider } from './proofing';
+
+export interface DictionaryProofingOptions {
+  /**
+   * Misspelled words and their corrections, in lowercase. Defaults to
+   * COMMON_MISSPELLINGS
+   */
+  misspellings?: Record<string, string[]>;
+  /**
+   * Every correct word of the language, in lowercase. When given, other
+   * words are reported too, with the words one typo away as suggestions
+   */
+  words?: Iterable<string>;
+  /**
+   * Report a word written twice in a row, e.g. "the the". Defaults to true
+   */
+  repeatedWords?: boolean;
+  /**
+   * Language of the lists. Text of other locales is not checked. Defaults to 'en'
+   */
+  language?: string;
+  /**
+   * Maximum number of suggestions for a word. Defaults to 5
+   */
+  limit?: number;
+}
+
+/**
+ * Frequent English misspellings, including words common in product
+ * descriptions
+ */
+export const COMMON_MISSPELLINGS: Record<string, string[]> = {
+  accesories: ['accessories'],
+  accessorys: ['accessories'],
+  accomodate: ['accommodate'],
+  acheive: ['achieve'],
+  acommodate: ['accommodate'],
+  adress: ['address'],
+  adjustible: ['adjustable'],
+  agressive: ['aggressive'],
+  apparantly: ['apparently'],
+  aparel: ['apparel'],
+  appearence: ['appearance'],
+  availabe: ['available'],
+  availible: ['available'],
+  avaliable: ['available'],
+  beacuse: ['because'],
+  beatiful: ['beautiful'],
+  beautifull: ['beautiful'],
+  becuase: ['because'],
+  beggining: ['beginning'],
+  beleive: ['believe'],
+  breathible: ['breathable'],
+  calender: ['calendar'],
+  catagory: ['category'],
+  comfortible: ['comfortable'],
+  comming: ['coming'],
+  commited: ['committed'],
+  completly: ['completely'],
+  concious: ['conscious'],
+  confortable: ['comfortable'],
+  definately: ['definitely'],
+  definitly: ['definitely'],
+  desgin: ['design'],
+  diffrent: ['different'],
+  dissapoint: ['disappoint'],
+  durible: ['durable'],
+  elegent: ['elegant'],
+  embarass: ['embarrass'],
+  enviroment: ['environment'],
+  excelent: ['excellent'],
+  existance: ['existence'],
+  familar: ['familiar'],
+  finaly: ['finally'],
+  foward: ['forward'],
+  freind: ['friend'],
+  garantee: ['guarantee'],
+  geniune: ['genuine'],
+  goverment: ['government'],
+  guage: ['gauge'],
+  guarentee: ['guarantee'],
+  happend: ['happened'],
+  heigth: ['height'],
+  hieght: ['height'],
+  immediatly: ['immediately'],
+  independant: ['independent'],
+  jewelery: ['jewelry', 'jewellery'],
+  knowlege: ['knowledge'],
+  lenght: ['length'],
+  lether: ['leather'],
+  libary: ['library'],
+  lightwieght: ['lightweight'],
+  luxary: ['luxury'],
+  luxery: ['luxury'],
+  maintainance: ['maintenance'],
+  materail: ['material'],
+  neccessary: ['necessary'],
+  necessery: ['necessary'],
+  noticable: ['noticeable'],
+  occassion: ['occasion'],
+  occured: ['occurred'],
+  occurence: ['occurrence'],
+  pakage: ['package'],
+  paralel: ['parallel'],
+  perfomance: ['performance'],
+  perfrom: ['perform'],
+  persue: ['pursue'],
+  polyster: ['polyester'],
+  posession: ['possession'],
+  prefered: ['preferred'],
+  premuim: ['premium'],
+  probaly: ['probably'],
+  qualty: ['quality'],
+  quanity: ['quantity'],
+  quantitiy: ['quantity'],
+  realy: ['really'],
+  recieve: ['receive'],
+  recieved: ['received'],
+  reciept: ['receipt'],
+  recomend: ['recommend'],
+  recommed: ['recommend'],
+  refered: ['referred'],
+  relevent: ['relevant'],
+  resistent: ['resistant'],
+  responsable: ['responsible'],
+  seperate: ['separate'],
+  seperately: ['separately'],
+  shiping: ['shipping'],
+  shippment: ['shipment'],
+  similiar: ['similar'],
+  stainles: ['stainless'],
+  sucess: ['success'],
+  succesful: ['successful'],
+  suprise: ['surprise'],
+  sutable: ['suitable'],
+  teh: ['the'],
+  thier: ['their'],
+  tommorow: ['tomorrow'],
+  tomorow: ['tomorrow'],
+  truely: ['truly'],
+  untill: ['until'],
+  usefull: ['useful'],
+  warrenty: ['warranty'],
+  waterprof: ['waterproof'],
+  wether: ['whether', 'weather'],
+  wich: ['which'],
+  widht: ['width'],
+  wierd: ['weird'],
+  writting: ['writing']
+};
+
+export const DEFAULT_DICTIONARY_SUGGESTION_LIMIT = 5;
+
+// Letters and digits, with apostrophes inside words as in "don't"
+const WORD_PATTERN = /[\p{L}\p{M}\p{N}]+(?:['’][\p{L}\p{M}]+)*/gu;
+
+/**
+ * Write a suggestion in the case of the word it replaces
+ */
+function matchCase(word: string, suggestion: string): string {
+  if (word.length > 1 && word === word.toUpperCase()) return suggestion.toUpperCase();
+  if (word[0] !== word[0].toLowerCase()) return suggestion[0].toUpperCase() + suggestion.slice(1);
+  return suggestion;
+}
+
+/**
+ * Words of the dictionary one deletion, transposition, replacement or
+ * insertion away from a word
+ */
+function findNearWords(word: string, words: Set<string>, alphabet: string[], limit: number): string[] {
+  const found = new Set<string>();
+  const add = (candidate: string) => {
+    if (candidate !== word && words.has(candidate)) found.add(candidate);
+  };
+
+  for (let index = 0; index <= word.length && found.size < limit; index++) {
+    const before = word.slice(0, index);
+    const after = word.slice(index);
+    if (after) add(before + after.slice(1));
+    if (after.length > 1) add(before + after[1] + after[0] + after.slice(2));
+    alphabet.forEach(letter => {
+      if (after) add(before + letter + after.slice(1));
+      add(before + letter + after);
+    });
+  }
+
+  return Array.from(found).slice(0, limit);
+}
+
+/**
+ * Create a provider that reports known misspellings, words missing from
+ * a word list and repeated words
+ * @param options - Word lists and checks
+ * @returns Proofing provider
+ */
+export function createDictionaryProofingProvider(options: DictionaryProofingOptions = {}): ProofingProvider {
+  const {
+    misspellings = COMMON_MISSPELLINGS,
+    repeatedWords = true,
+    language = 'en',
+    limit = DEFAULT_DICTIONARY_SUGGESTION_LIMIT
+  } = options;
+  const words = options.words ? new Set(options.words) : null;
+  const alphabet = words ? Array.from(new Set(Array.from(words).join(''))) : [];
+
+  const checkWord = (word: string): string[] | null => {
+    const normalized = word.toLowerCase().replace(/’/g, '\'');
+    const corrections = misspellings[normalized];
+    if (corrections) return corrections;
+    // Numbers, SKUs and acronyms are not words of the language
+    if (!words || words.has(normalized) || /\p{N}/u.test(word) || word.length < 2 || word === word.toUpperCase()) {
+      return null;
+    }
+    return findNearWords(normalized, words, alphabet, limit);
+  };
+
+  return async (ranges, { locale }) => {
+    if (locale.toLowerCase().split(/[-_]/)[0] !== language) return [];
+
+    const issues: ProofingIssue[] = [];
+    ranges.forEach(({ text, start }) => {
+      let previous: { word: string; index: number; end: number } | null = null;
+
+      for (const match of text.matchAll(WORD_PATTERN)) {
+        const word = match[0];
+        const index = match.index!;
+        const end = index + word.length;
+
+        if (
+          repeatedWords &&
+          previous &&
+          previous.word.toLowerCase() === word.toLowerCase() &&
+          !/\p{N}/u.test(word) &&
+          /^\s+$/.test(text.slice(previous.end, index))
+        ) {
+          issues.push({ start: start + previous.index, end: start + end, type: 'grammar', suggestions: [previous.word] });
+        } else {
+          const corrections = checkWord(word);
+          if (corrections) {
+            issues.push({
+              start: start + index,
+              end: start + end,
+              type: 'spelling',
+              suggestions: corrections.slice(0, limit).map(correction => matchCase(word, correction))
+            });
+          }
+        }
+        previous = { word, index, end };
+      }
+    });
+
+    return issues;
+  };
+}
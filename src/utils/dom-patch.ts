@@ -0,0 +1,104 @@
+/**
+ * Minimal DOM patching for applying external HTML to a live editor
+ */
+
+/**
+ * Check whether two nodes can be patched in place
+ */
+function isSameKind(target: Node, source: Node): boolean {
+  return target.nodeType === source.nodeType && target.nodeName === source.nodeName;
+}
+
+function patchAttributes(target: Element, source: Element): void {
+  Array.from(target.attributes).forEach(({ name }) => {
+    if (!source.hasAttribute(name)) {
+      target.removeAttribute(name);
+    }
+  });
+
+  Array.from(source.attributes).forEach(({ name, value }) => {
+    if (target.getAttribute(name) !== value) {
+      target.setAttribute(name, value);
+    }
+  });
+}
+
+function patchNode(target: Node, source: Node): void {
+  if (!isSameKind(target, source)) {
+    target.parentNode?.replaceChild(target.ownerDocument!.importNode(source, true), target);
+    return;
+  }
+
+  if (target.nodeType !== Node.ELEMENT_NODE) {
+    // Text and comment nodes: only touch the data when it differs,
+    // so a caret inside an unchanged node stays where it is
+    if (target.nodeValue !== source.nodeValue) {
+      target.nodeValue = source.nodeValue;
+    }
+    return;
+  }
+
+  patchAttributes(target as Element, source as Element);
+  patchChildren(target, source);
+}
+
+/**
+ * Reconcile the children of target with those of source. Identical
+ * nodes at both ends are kept untouched, so an insertion in the
+ * middle of a document does not disturb the nodes after it.
+ */
+function patchChildren(target: Node, source: Node): void {
+  const targetNodes = Array.from(target.childNodes);
+  const sourceNodes = Array.from(source.childNodes);
+
+  let start = 0;
+  while (
+    start < targetNodes.length &&
+    start < sourceNodes.length &&
+    targetNodes[start].isEqualNode(sourceNodes[start])
+  ) {
+    start += 1;
+  }
+
+  let targetEnd = targetNodes.length - 1;
+  let sourceEnd = sourceNodes.length - 1;
+  while (
+    targetEnd >= start &&
+    sourceEnd >= start &&
+    targetNodes[targetEnd].isEqualNode(sourceNodes[sourceEnd])
+  ) {
+    targetEnd -= 1;
+    sourceEnd -= 1;
+  }
+
+  const anchor = targetNodes[targetEnd + 1] ?? null;
+  const doc = target.ownerDocument ?? (target as Document);
+
+  for (let offset = 0; start + offset <= sourceEnd; offset += 1) {
+    const targetNode = start + offset <= targetEnd ? targetNodes[start + offset] : null;
+    const sourceNode = sourceNodes[start + offset];
+
+    if (targetNode) {
+      patchNode(targetNode, sourceNode);
+    } else {
+      target.insertBefore(doc.importNode(sourceNode, true), anchor);
+    }
+  }
+
+  for (let index = start + Math.max(sourceEnd - start + 1, 0); index <= targetEnd; index += 1) {
+    target.removeChild(targetNodes[index]);
+  }
+}
+
+/**
+ * Patch the content of root so that it matches html, reusing every
+ * node that can be reused
+ * @param root - Element to update in place
+ * @param html - Desired inner HTML
+ */
+export function patchHTML(root: HTMLElement, html: string): void {
+  const template = root.ownerDocument.createElement('template');
+  template.innerHTML = html;
+
+  patchChildren(root, template.content);
+}
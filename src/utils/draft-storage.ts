@@ -0,0 +1,171 @@
+/**
+ * Draft persistence for JoditEditor autosave
+ */
+
+/**
+ * Unsaved editor content stored by autosave
+ */
+export interface EditorDraft {
+  /**
+   * Draft content, in the editor's `format`
+   */
+  content: string;
+  /**
+   * Value the editor was loaded with when the draft was started. A
+   * different value on the next mount means the saved content changed
+   * elsewhere since the draft was written
+   */
+  baseValue: string;
+  /**
+   * Time the draft was written, in milliseconds since the epoch
+   */
+  savedAt: number;
+}
+
+/**
+ * Storage backend for drafts. Methods may return values directly or
+ * promises, so both synchronous and asynchronous stores fit.
+ */
+export interface DraftStorage {
+  load(key: string): EditorDraft | null | Promise<EditorDraft | null>;
+  save(key: string, draft: EditorDraft): void | Promise<void>;
+  remove(key: string): void | Promise<void>;
+}
+
+/**
+ * Built-in storage backends that can be selected by name
+ */
+export type DraftStorageName = 'localStorage' | 'indexedDB';
+
+export const DEFAULT_DRAFT_KEY_PREFIX = 'jodit-react-draft:';
+
+export interface DraftMessages {
+  restorePrompt: (savedAt: Date) => string;
+  /**
+   * Added to the prompt when restoring would replace newer content
+   */
+  conflict: string;
+  restore: string;
+  discard: string;
+}
+
+export const DRAFT_MESSAGES: DraftMessages = {
+  restorePrompt: savedAt => `Restore unsaved draft from ${savedAt.toLocaleString()}?`,
+  conflict: 'The content has changed since this draft was saved; restoring it will replace the newer version.',
+  restore: 'Restore draft',
+  discard: 'Discard'
+};
+
+function isEditorDraft(value: unknown): value is EditorDraft {
+  const draft = value as EditorDraft | null;
+  return (
+    typeof draft === 'object' &&
+    draft !== null &&
+    typeof draft.content === 'string' &&
+    typeof draft.baseValue === 'string' &&
+    typeof draft.savedAt === 'number'
+  );
+}
+
+/**
+ * Store drafts in window.localStorage as JSON
+ * @param prefix - Prefix added to every key
+ * @returns Draft storage
+ */
+export function createLocalStorageDraftStorage(prefix: string = DEFAULT_DRAFT_KEY_PREFIX): DraftStorage {
+  return {
+    load(key) {
+      const stored = window.localStorage.getItem(prefix + key);
+      if (stored === null) return null;
+
+      try {
+        const draft: unknown = JSON.parse(stored);
+        return isEditorDraft(draft) ? draft : null;
+      } catch {
+        return null;
+      }
+    },
+    save(key, draft) {
+      window.localStorage.setItem(prefix + key, JSON.stringify(draft));
+    },
+    remove(key) {
+      window.localStorage.removeItem(prefix + key);
+    }
+  };
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Store drafts in an IndexedDB object store, which suits large documents
+ * better than localStorage
+ * @param databaseName - Database to open or create
+ * @param storeName - Object store holding the drafts
+ * @returns Draft storage
+ */
+export function createIndexedDBDraftStorage(
+  databaseName = 'jodit-react',
+  storeName = 'drafts'
+): DraftStorage {
+  let database: Promise<IDBDatabase> | null = null;
+
+  const open = () => {
+    if (!database) {
+      const request = window.indexedDB.open(databaseName, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(storeName);
+      };
+      database = requestToPromise(request);
+      // Allow a later call to retry after a failed open
+      database.catch(() => {
+        database = null;
+      });
+    }
+    return database;
+  };
+
+  const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) => {
+    const db = await open();
+    return requestToPromise(action(db.transaction(storeName, mode).objectStore(storeName)));
+  };
+
+  return {
+    async load(key) {
+      const draft: unknown = await run('readonly', store => store.get(key));
+      return isEditorDraft(draft) ? draft : null;
+    },
+    async save(key, draft) {
+      await run('readwrite', store => store.put(draft, key));
+    },
+    async remove(key) {
+      await run('readwrite', store => store.delete(key));
+    }
+  };
+}
+
+/**
+ * Resolve the storage option of autosave to an adapter
+ * @param storage - Adapter, or the name of a built-in backend
+ * @returns Draft storage
+ */
+export function resolveDraftStorage(storage: DraftStorage | DraftStorageName = 'localStorage'): DraftStorage {
+  if (storage === 'localStorage') return createLocalStorageDraftStorage();
+  if (storage === 'indexedDB') return createIndexedDBDraftStorage();
+  return storage;
+}
+
+/**
+ * Check whether a draft is older than the allowed age
+ * @param draft - Stored draft
+ * @param maxAgeMs - Maximum age in milliseconds; Infinity keeps drafts forever
+ * @param now - Current time
+ * @returns True when the draft should be discarded
+ */
+export function isDraftExpired(draft: EditorDraft, maxAgeMs: number, now: number = Date.now()): boolean {
+  return now - draft.savedAt > maxAgeMs;
+}
@@ -0,0 +1,269 @@
+/**
+ * Jodit configuration utilities for the JoditEditor component
+ */
+import type { Jodit } from 'jodit';
+
+/**
+ * Options that can be applied to a running editor without recreating it
+ */
+export const LIVE_OPTIONS = ['readonly', 'disabled', 'theme', 'placeholder', 'direction'] as const;
+
+export type LiveOption = typeof LIVE_OPTIONS[number];
+
+/**
+ * Jodit's options, including the sections its plugins add. Options of
+ * app plugins are added by augmenting the `Config` interface of
+ * `jodit/types/config`
+ */
+export type JoditOptions = typeof Jodit.defaultOptions;
+
+/**
+ * Every key optional, at any depth. Unlike Jodit's own DeepPartial,
+ * arrays, functions and DOM nodes are taken as they are, which keeps
+ * the type from recursing into the DOM typings
+ */
+export type DeepPartial<T> = T extends (...args: never[]) => unknown
+  ? T
+  : T extends readonly unknown[]
+    ? T
+    : T extends Node | Window | RegExp | Date
+      ? T
+      : T extends object
+        ? { [K in keyof T]?: DeepPartial<T[K]> }
+        : T;
+
+/**
+ * Jodit config as accepted by the component: any subset of Jodit's
+ * options, down to single keys of nested sections such as `uploader`
+ */
+export type JoditConfig = DeepPartial<JoditOptions>;
+
+/**
+ * Loosely typed Jodit config used internally
+ */
+export type EditorConfig = Record<string, unknown>;
+
+// Component defaults, under the user config
+const DEFAULT_CONFIG: EditorConfig = {
+  enableDragAndDropFileToEditor: true,
+  uploader: {
+    withCredentials: true
+  }
+};
+
+/**
+ * Sections whose keys are names chosen by the app (buttons, events,
+ * presets...) rather than options, so they are not checked for typos
+ */
+const OPEN_SECTIONS = new Set([
+  'commandToHotkeys',
+  'colors',
+  'controls',
+  'createAttributes',
+  'events',
+  'extraIcons',
+  'popup',
+  'presets',
+  'sourceEditorNativeOptions',
+  'styleValues'
+]);
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  if (typeof value !== 'object' || value === null) return false;
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+};
+
+/**
+ * Merge Jodit configs, later configs winning. Every section is merged
+ * the same way:
+ * - plain objects, such as `uploader`, `link` or `image`, are merged
+ *   key by key at any depth, so overriding `uploader.url` keeps the
+ *   other uploader options
+ * - arrays (`buttons`, `extraPlugins`), functions, DOM nodes and class
+ *   instances replace the earlier value as a whole
+ * - `undefined` values are skipped, so an option set conditionally does
+ *   not erase an earlier one
+ * The configs passed in are not modified
+ * @param configs - Configs from lowest to highest priority
+ * @returns Merged config
+ */
+export function mergeConfig(...configs: Array<EditorConfig | null | undefined>): EditorConfig {
+  const merged: EditorConfig = {};
+
+  configs.forEach(config => {
+    if (!config) return;
+    Object.entries(config).forEach(([key, value]) => {
+      if (value === undefined) return;
+      const current = merged[key];
+      merged[key] = isPlainObject(current) && isPlainObject(value) ? mergeConfig(current, value) : value;
+    });
+  });
+
+  return merged;
+}
+
+/**
+ * Build the options passed to Jodit.make from the user config
+ * @param config - User supplied config
+ * @returns Config merged over the component defaults
+ */
+export function buildEditorConfig(config: EditorConfig = {}): EditorConfig {
+  return mergeConfig(DEFAULT_CONFIG, config);
+}
+
+/**
+ * Find config keys Jodit does not know, e.g. misspelled options. Top
+ * level keys and the keys of option sections are checked
+ * @param config - Config to check
+ * @param defaults - Jodit.defaultOptions, which holds every option of
+ * Jodit and the plugins loaded so far
+ * @returns Paths of unknown keys, e.g. `['toolbarStiky', 'uploader.urll']`
+ */
+export function findUnknownOptions(config: EditorConfig, defaults: object): string[] {
+  const known = defaults as Record<string, unknown>;
+  const unknown: string[] = [];
+
+  Object.entries(config).forEach(([key, value]) => {
+    if (!(key in known)) {
+      unknown.push(key);
+      return;
+    }
+    const section = known[key];
+    if (OPEN_SECTIONS.has(key) || !isPlainObject(section) || !isPlainObject(value)) return;
+    Object.keys(value).forEach(option => {
+      if (!(option in section)) unknown.push(`${key}.${option}`);
+    });
+  });
+
+  return unknown;
+}
+
+const warnedOptions = new Set<string>();
+
+/**
+ * Warn once per key about config keys Jodit does not know. Only runs
+ * in development
+ * @param config - Config passed to Jodit
+ * @param defaults - Jodit.defaultOptions
+ */
+export function warnUnknownOptions(config: EditorConfig, defaults: object | undefined): void {
+  if (process.env.NODE_ENV === 'production' || !defaults) return;
+
+  const unknown = findUnknownOptions(config, defaults).filter(path => !warnedOptions.has(path));
+  if (!unknown.length) return;
+
+  unknown.forEach(path => warnedOptions.add(path));
+  console.warn(
+    `JoditEditor: unknown config ${unknown.length > 1 ? 'options' : 'option'} ${unknown.map(path => `"${path}"`).join(', ')}. ` +
+    'Check the spelling, or load the plugin that defines them before the editor.'
+  );
+}
+
+/**
+ * Structural equality for config values. Functions and DOM nodes
+ * are compared by reference.
+ */
+function isEqualValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  if (typeof Node !== 'undefined' && (a instanceof Node || b instanceof Node)) {
+    return false;
+  }
+
+  const aRecord = a as Record<string, unknown>;
+  const bRecord = b as Record<string, unknown>;
+  const keys = Object.keys(aRecord);
+  if (keys.length !== Object.keys(bRecord).length) return false;
+
+  return keys.every(key =>
+    Object.prototype.hasOwnProperty.call(bRecord, key) && isEqualValue(aRecord[key], bRecord[key])
+  );
+}
+
+/**
+ * List the top-level config keys that differ between two configs
+ * @param prev - Config the editor was built or last updated with
+ * @param next - Incoming config
+ * @returns Names of changed keys
+ */
+export function diffConfig(
+  prev: EditorConfig = {},
+  next: EditorConfig = {}
+): string[] {
+  if (prev === next) return [];
+
+  const keys = new Set([...Object.keys(prev), ...Object.keys(next)]);
+  return [...keys].filter(key => !isEqualValue(prev[key], next[key]));
+}
+
+/**
+ * Check whether every changed key can be applied to a running editor
+ */
+export function canApplyLive(changes: string[]): boolean {
+  return changes.every(key => (LIVE_OPTIONS as readonly string[]).includes(key));
+}
+
+/**
+ * Apply live-updatable options to a running editor
+ * @param editor - Jodit instance
+ * @param config - Incoming config
+ * @param changes - Keys reported by diffConfig
+ */
+export function applyLiveOptions(
+  editor: Jodit,
+  config: EditorConfig,
+  changes: string[]
+): void {
+  changes.forEach(key => {
+    switch (key as LiveOption) {
+      case 'readonly':
+        editor.setReadOnly(Boolean(config.readonly));
+        break;
+
+      case 'disabled':
+        editor.setDisabled(Boolean(config.disabled));
+        break;
+
+      case 'theme': {
+        const theme = String(config.theme || 'default');
+        const { classList } = editor.container;
+        classList.remove(`jodit_theme_${editor.o.theme || 'default'}`);
+        classList.add(`jodit_theme_${theme}`);
+        editor.o.theme = theme;
+        break;
+      }
+
+      case 'placeholder': {
+        editor.o.placeholder = String(config.placeholder ?? '');
+        const placeholder = editor.container.querySelector('.jodit-placeholder');
+        if (placeholder) {
+          placeholder.textContent = editor.i18n(editor.o.placeholder);
+        }
+        break;
+      }
+
+      // What Jodit does on init: the direction of the text and the toolbar
+      // order. Without a direction the page's applies again
+      case 'direction': {
+        const direction = config.direction
+          ? String(config.direction).toLowerCase() === 'rtl' ? 'rtl' : 'ltr'
+          : '';
+        editor.o.direction = direction;
+        [editor.editor, editor.container, editor.toolbar?.container].forEach(element => {
+          if (!element) return;
+          element.style.direction = direction;
+          if (direction) {
+            element.setAttribute('dir', direction);
+          } else {
+            element.removeAttribute('dir');
+          }
+        });
+        break;
+      }
+    }
+  });
+}
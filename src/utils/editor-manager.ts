@@ -0,0 +1,143 @@
+/**
+ * Registry of the editors mounted under a JoditEditorProvider, tracking
+ * which one the shared toolbar is bound to
+ */
+import type { JoditEditorHandle } from '../JoditEditor';
+import type { JoditConstructor } from './jodit-loader';
+
+/**
+ * Jodit plugins by name, as passed to Jodit.plugins.add
+ */
+export type EditorPlugins = Record<string, Parameters<JoditConstructor['plugins']['add']>[1]>;
+
+export interface ManagedEditor {
+  handle: JoditEditorHandle;
+  /**
+   * Element the editor renders its toolbar into, inside the shared toolbar
+   */
+  toolbar: HTMLElement | null;
+}
+
+export interface EditorManager {
+  /**
+   * Add an editor under a unique name
+   * @returns Removes the editor again
+   */
+  register(name: string, editor: ManagedEditor): () => void;
+  /**
+   * Element for the toolbar of a new editor, or null without a shared toolbar
+   */
+  createToolbarSlot(): HTMLElement | null;
+  /**
+   * Register plugins with Jodit once, before the first editor is built
+   */
+  installPlugins(JoditClass: JoditConstructor, plugins: EditorPlugins): void;
+  /**
+   * Bind the shared toolbar to an editor, e.g. when it receives focus
+   */
+  activate(name: string): void;
+  /**
+   * Editor the shared toolbar is bound to: the last focused one, or the
+   * first mounted one until an editor is focused
+   */
+  getActiveName(): string | null;
+  getNames(): string[];
+  getEditor(name: string): JoditEditorHandle | null;
+  /**
+   * Content of every editor by name, in each editor's format
+   */
+  getValues(): Record<string, string>;
+  /**
+   * Listen for editors being added, removed or activated
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: () => void): () => void;
+}
+
+export interface EditorManagerOptions {
+  /**
+   * Shared toolbar element, or null when each editor keeps its own toolbar
+   */
+  getToolbarContainer(): HTMLElement | null;
+  onActiveChange?: (name: string | null) => void;
+}
+
+/**
+ * Create the registry behind JoditEditorProvider
+ * @param options - Shared toolbar element and activation callback
+ */
+export function createEditorManager(options: EditorManagerOptions): EditorManager {
+  const editors = new Map<string, ManagedEditor>();
+  const listeners = new Set<() => void>();
+  const installedPlugins = new Set<string>();
+  let focusedName: string | null = null;
+  let notifiedName: string | null = null;
+
+  const getActiveName = () => (focusedName !== null && editors.has(focusedName)
+    ? focusedName
+    : editors.keys().next().value ?? null);
+
+  // Only the toolbar of the active editor is shown
+  const update = () => {
+    const activeName = getActiveName();
+    editors.forEach(({ toolbar }, name) => {
+      if (toolbar) toolbar.hidden = name !== activeName;
+    });
+    if (activeName !== notifiedName) {
+      notifiedName = activeName;
+      options.onActiveChange?.(activeName);
+    }
+    listeners.forEach(listener => listener());
+  };
+
+  return {
+    register(name, editor) {
+      editors.set(name, editor);
+      update();
+
+      return () => {
+        if (editors.get(name) !== editor) return;
+        editors.delete(name);
+        update();
+      };
+    },
+    createToolbarSlot() {
+      const container = options.getToolbarContainer();
+      if (!container) return null;
+
+      const slot = container.ownerDocument.createElement('div');
+      slot.className = 'jodit-react-shared-toolbar__slot';
+      slot.hidden = true;
+      container.appendChild(slot);
+      return slot;
+    },
+    installPlugins(JoditClass, plugins) {
+      Object.entries(plugins).forEach(([name, plugin]) => {
+        if (installedPlugins.has(name)) return;
+        installedPlugins.add(name);
+        JoditClass.plugins.add(name, plugin);
+      });
+    },
+    activate(name) {
+      if (focusedName === name) return;
+      focusedName = name;
+      update();
+    },
+    getActiveName,
+    getNames: () => Array.from(editors.keys()),
+    getEditor: name => editors.get(name)?.handle ?? null,
+    getValues() {
+      const values: Record<string, string> = {};
+      editors.forEach(({ handle }, name) => {
+        values[name] = handle.getValue();
+      });
+      return values;
+    },
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+}
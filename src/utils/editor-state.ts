@@ -0,0 +1,104 @@
+/**
+ * Utilities for preserving editor state across updates and instances
+ */
+import type { Jodit } from 'jodit';
+import type { IHistory, SnapshotType } from 'jodit/types/types';
+import { patchHTML } from './dom-patch';
+
+/**
+ * Internal shape of Jodit's history stack. Jodit does not expose a
+ * public API for moving undo history between instances, so these
+ * fields are read defensively.
+ */
+interface HistoryCommand {
+  history: IHistory;
+}
+
+interface HistoryStackInternals {
+  commands: HistoryCommand[];
+  stackPosition: number;
+}
+
+interface HistoryInternals {
+  __stack?: HistoryStackInternals;
+}
+
+/**
+ * Editor state that survives destroying and recreating the instance
+ */
+export interface EditorState {
+  snapshot: SnapshotType;
+  commands: HistoryCommand[];
+  stackPosition: number;
+}
+
+function getStack(editor: Jodit): HistoryStackInternals | null {
+  const stack = (editor.history as unknown as HistoryInternals).__stack;
+  return stack && Array.isArray(stack.commands) ? stack : null;
+}
+
+/**
+ * Capture value, selection and undo history of an editor
+ * @param editor - Jodit instance about to be destroyed
+ * @returns State to pass to restoreEditorState
+ */
+export function captureEditorState(editor: Jodit): EditorState {
+  const stack = getStack(editor);
+
+  return {
+    snapshot: editor.history.snapshot.make(),
+    commands: stack ? [...stack.commands] : [],
+    stackPosition: stack ? stack.stackPosition : -1
+  };
+}
+
+/**
+ * Restore state captured from a previous instance into a new editor
+ * @param editor - Freshly created Jodit instance
+ * @param state - State returned by captureEditorState
+ */
+export function restoreEditorState(editor: Jodit, state: EditorState): void {
+  const { history } = editor;
+
+  history.snapshot.restore(state.snapshot);
+
+  // Start a clean stack at the restored value, then graft the old commands
+  history.clear();
+
+  const stack = getStack(editor);
+  if (!stack || !state.commands.length) return;
+
+  state.commands.forEach(command => {
+    command.history = history;
+  });
+  stack.commands.push(...state.commands);
+  stack.stackPosition = state.stackPosition;
+
+  editor.events.fire('changeStack');
+}
+
+/**
+ * Apply a value coming from outside the editor (e.g. a controlled prop)
+ * as a DOM patch, keeping the caret and undo history intact
+ * @param editor - Jodit instance
+ * @param value - New HTML value
+ */
+export function applyExternalValue(editor: Jodit, value: string): void {
+  if (!editor.isEditorMode()) {
+    editor.value = value;
+    return;
+  }
+
+  const snapshot = editor.s.isFocused() ? editor.history.snapshot.make() : null;
+
+  patchHTML(editor.editor as HTMLElement, value);
+
+  if (snapshot) {
+    editor.history.snapshot.restoreOnlySelection(snapshot);
+  }
+
+  editor.synchronizeValues();
+
+  // Treat the patched document as the new history baseline instead of an undo step
+  editor.events.fire('internalUpdate');
+}
@@ -0,0 +1,72 @@
+/**
+ * Constraint validation of editor content for native forms and form libraries
+ */
+
+export interface EditorConstraints {
+  /**
+   * Content must contain text or media
+   */
+  required?: boolean;
+  /**
+   * Maximum number of characters of text content
+   */
+  maxLength?: number;
+}
+
+export interface ValidationMessages {
+  valueMissing: string;
+  tooLong: (maxLength: number, length: number) => string;
+}
+
+export const VALIDATION_MESSAGES: ValidationMessages = {
+  valueMissing: 'Please fill in this field.',
+  tooLong: (maxLength: number, length: number) =>
+    `Please use no more than ${maxLength} characters (you are currently using ${length}).`
+};
+
+// Jodit keeps zero width spaces around the caret; they are not content
+const INVISIBLE_SPACE = /[\u200b\ufeff]/g;
+
+// Elements that count as content without containing text
+const MEDIA_SELECTOR = 'img, video, audio, iframe, object, embed, hr, table';
+
+/**
+ * Number of text characters in the editor
+ * @param root - Contenteditable root of the editor, or parsed content
+ * @returns Length of the text content
+ */
+export function getTextLength(root: Node): number {
+  return (root.textContent ?? '').replace(INVISIBLE_SPACE, '').length;
+}
+
+/**
+ * Check whether the editor has neither text nor media, e.g. `<p><br></p>`
+ * @param root - Contenteditable root of the editor
+ */
+export function isEditorEmpty(root: HTMLElement): boolean {
+  return !(root.textContent ?? '').replace(INVISIBLE_SPACE, '').trim() && !root.querySelector(MEDIA_SELECTOR);
+}
+
+/**
+ * Validate editor content against its constraints
+ * @param root - Contenteditable root of the editor
+ * @param constraints - required and maxLength
+ * @param messages - Validation messages, defaults to English
+ * @returns Validation message, or an empty string when the content is valid
+ */
+export function validateEditorContent(
+  root: HTMLElement,
+  constraints: EditorConstraints,
+  messages: ValidationMessages = VALIDATION_MESSAGES
+): string {
+  if (constraints.required && isEditorEmpty(root)) {
+    return messages.valueMissing;
+  }
+
+  if (constraints.maxLength !== undefined) {
+    const length = getTextLength(root);
+    if (length > constraints.maxLength) return messages.tooLong(constraints.maxLength, length);
+  }
+
+  return '';
+}
@@ -0,0 +1,181 @@
+/**
+ * Word level diff of HTML content. Tags are compared as whole tokens, so
+ * formatting changes show up next to the text they apply to.
+ */
+
+export type DiffPartType = 'equal' | 'insert' | 'delete';
+
+export interface DiffPart {
+  type: DiffPartType;
+  /**
+   * Tags, words and whitespace runs of this part
+   */
+  tokens: string[];
+}
+
+/**
+ * Above this many token comparisons the changed middle is reported as one
+ * replacement instead of being matched word by word
+ */
+const MAX_DIFF_CELLS = 4_000_000;
+
+const TOKEN_PATTERN = /<[^>]*>|\s+|[^<\s]+/g;
+
+const isTag = (token: string) => token.startsWith('<');
+
+/**
+ * Split HTML into tags, words and whitespace
+ * @param html - HTML to split
+ * @returns Tokens
+ */
+export function tokenizeHTML(html: string): string[] {
+  return html.match(TOKEN_PATTERN) ?? [];
+}
+
+function pushPart(parts: DiffPart[], type: DiffPartType, tokens: string[]): void {
+  if (!tokens.length) return;
+
+  const last = parts[parts.length - 1];
+  if (last?.type === type) {
+    last.tokens.push(...tokens);
+  } else {
+    parts.push({ type, tokens: [...tokens] });
+  }
+}
+
+/**
+ * Longest common subsequence of two token lists, as diff parts
+ */
+function diffTokens(before: string[], after: string[]): DiffPart[] {
+  const parts: DiffPart[] = [];
+  const rows = before.length;
+  const columns = after.length;
+
+  if (!rows || !columns || rows * columns > MAX_DIFF_CELLS) {
+    pushPart(parts, 'delete', before);
+    pushPart(parts, 'insert', after);
+    return parts;
+  }
+
+  // lengths[i][j]: LCS length of before[i..] and after[j..]
+  const lengths = Array.from({ length: rows + 1 }, () => new Uint32Array(columns + 1));
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = columns - 1; j >= 0; j--) {
+      lengths[i][j] = before[i] === after[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < columns) {
+    if (before[i] === after[j]) {
+      pushPart(parts, 'equal', [before[i++]]);
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      pushPart(parts, 'delete', [before[i++]]);
+    } else {
+      pushPart(parts, 'insert', [after[j++]]);
+    }
+  }
+  pushPart(parts, 'delete', before.slice(i));
+  pushPart(parts, 'insert', after.slice(j));
+
+  return parts;
+}
+
+/**
+ * Compare two HTML documents
+ * @param before - Older HTML
+ * @param after - Newer HTML
+ * @returns Equal, inserted and deleted parts in document order
+ */
+export function diffHTML(before: string, after: string): DiffPart[] {
+  const oldTokens = tokenizeHTML(before);
+  const newTokens = tokenizeHTML(after);
+
+  let start = 0;
+  while (start < oldTokens.length && start < newTokens.length && oldTokens[start] === newTokens[start]) {
+    start++;
+  }
+  let end = 0;
+  while (
+    end < oldTokens.length - start &&
+    end < newTokens.length - start &&
+    oldTokens[oldTokens.length - 1 - end] === newTokens[newTokens.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  const parts: DiffPart[] = [];
+  pushPart(parts, 'equal', oldTokens.slice(0, start));
+  diffTokens(oldTokens.slice(start, oldTokens.length - end), newTokens.slice(start, newTokens.length - end))
+    .forEach(part => pushPart(parts, part.type, part.tokens));
+  pushPart(parts, 'equal', oldTokens.slice(oldTokens.length - end));
+
+  return parts;
+}
+
+/**
+ * Wrap the text of changed tokens in a marker element. Tags are kept when
+ * they belong to the document being shown and dropped otherwise
+ */
+function markTokens(tokens: string[], marker: 'ins' | 'del', keepTags: boolean): string {
+  let html = '';
+  let text = '';
+
+  const flushText = () => {
+    html += text.trim() ? `<${marker} class="jodit-react-diff__${marker}">${text}</${marker}>` : text;
+    text = '';
+  };
+
+  tokens.forEach(token => {
+    if (!isTag(token)) {
+      text += token;
+      return;
+    }
+    flushText();
+    if (keepTags) html += token;
+  });
+  flushText();
+
+  return html;
+}
+
+/**
+ * Render a diff as one document: the newer structure with deleted words
+ * in <del> and inserted words in <ins>
+ * @param parts - Result of diffHTML
+ * @returns HTML; sanitize it before display since tags may not balance
+ */
+export function renderInlineDiff(parts: DiffPart[]): string {
+  return parts.map(({ type, tokens }) => {
+    if (type === 'equal') return tokens.join('');
+    return type === 'insert' ? markTokens(tokens, 'ins', true) : markTokens(tokens, 'del', false);
+  }).join('');
+}
+
+/**
+ * Render a diff as two documents, marking deletions in the older one and
+ * insertions in the newer one
+ * @param parts - Result of diffHTML
+ * @returns Older and newer HTML
+ */
+export function renderSideBySideDiff(parts: DiffPart[]): { before: string; after: string } {
+  let before = '';
+  let after = '';
+
+  parts.forEach(({ type, tokens }) => {
+    if (type === 'equal') {
+      before += tokens.join('');
+      after += tokens.join('');
+    } else if (type === 'delete') {
+      before += markTokens(tokens, 'del', true);
+    } else {
+      after += markTokens(tokens, 'ins', true);
+    }
+  });
+
+  return { before, after };
+}
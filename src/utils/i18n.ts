@@ -0,0 +1,181 @@
+/**
+ * Locales of the editor: messages of the component's own UI, loaded on
+ * demand, the matching Jodit language and the text direction. Jodit's
+ * toolbar and dialogs are translated by Jodit's bundled language packs
+ */
+import { FORMAT_MESSAGES, FormatMessages, TOOLBAR_MESSAGES, ToolbarMessages } from './accessibility';
+import { LIMIT_MESSAGES, LimitMessages } from './content-stats';
+import { DRAFT_MESSAGES, DraftMessages } from './draft-storage';
+import { DeepPartial, EditorConfig, mergeConfig } from './editor-config';
+import { VALIDATION_MESSAGES, ValidationMessages } from './form-validation';
+import { PROOFING_MESSAGES, ProofingMessages } from './proofing';
+import { REVISION_MESSAGES, RevisionMessages } from './revision-storage';
+import { TEMPLATE_MESSAGES, TemplateMessages } from './templates';
+import { UPLOAD_MESSAGES, UploadMessages } from './upload';
+
+export interface ErrorBoundaryMessages {
+  title: string;
+  details: string;
+  retry: string;
+}
+
+export const ERROR_BOUNDARY_MESSAGES: ErrorBoundaryMessages = {
+  title: 'Something went wrong',
+  details: 'Error details',
+  retry: 'Try again'
+};
+
+export interface EditorMessages {
+  validation: ValidationMessages;
+  toolbar: ToolbarMessages;
+  formats: FormatMessages;
+  limits: LimitMessages;
+  errorBoundary: ErrorBoundaryMessages;
+  proofing: ProofingMessages;
+  drafts: DraftMessages;
+  revisions: RevisionMessages;
+  templates: TemplateMessages;
+  uploads: UploadMessages;
+}
+
+/**
+ * A language pack; missing messages fall back to English
+ */
+export type LocaleMessages = DeepPartial<EditorMessages>;
+
+/**
+ * Loads a language pack, e.g. `() => import('./locales/de')`
+ */
+export type LocaleLoader = () => Promise<LocaleMessages | { default: LocaleMessages }>;
+
+export type TextDirection = 'ltr' | 'rtl';
+
+export const EN_MESSAGES: EditorMessages = {
+  validation: VALIDATION_MESSAGES,
+  toolbar: TOOLBAR_MESSAGES,
+  formats: FORMAT_MESSAGES,
+  limits: LIMIT_MESSAGES,
+  errorBoundary: ERROR_BOUNDARY_MESSAGES,
+  proofing: PROOFING_MESSAGES,
+  drafts: DRAFT_MESSAGES,
+  revisions: REVISION_MESSAGES,
+  templates: TEMPLATE_MESSAGES,
+  uploads: UPLOAD_MESSAGES
+};
+
+// Languages written right to left
+const RTL_LANGUAGES = new Set(['ar', 'dv', 'fa', 'he', 'ps', 'sd', 'ug', 'ur', 'yi']);
+
+// Language packs bundled with Jodit
+const JODIT_LANGUAGES = new Set([
+  'ar', 'cs_cz', 'de', 'en', 'es', 'fa', 'fi', 'fr', 'he', 'hu', 'id', 'it', 'ja',
+  'ko', 'mn', 'nl', 'no', 'pl', 'pt_br', 'ru', 'tr', 'ua', 'zh_cn', 'zh_tw'
+]);
+
+// Jodit packs named after a country or an older code
+const JODIT_LANGUAGE_ALIASES: Record<string, string> = {
+  cs: 'cs_cz',
+  nb: 'no',
+  nn: 'no',
+  pt: 'pt_br',
+  uk: 'ua',
+  zh: 'zh_cn'
+};
+
+const localeLoaders = new Map<string, LocaleLoader>([
+  ['fr', () => import('../locales/fr')],
+  ['ar', () => import('../locales/ar')]
+]);
+const loadedLocales = new Map<string, EditorMessages>([['en', EN_MESSAGES]]);
+const loadingLocales = new Map<string, Promise<EditorMessages>>();
+
+const normalizeLocale = (locale: string) => locale.trim().toLowerCase().replace(/_/g, '-');
+
+const getLanguage = (locale: string) => normalizeLocale(locale).split('-')[0];
+
+const withDefaults = (messages: LocaleMessages) =>
+  mergeConfig(EN_MESSAGES as unknown as EditorConfig, messages as EditorConfig) as unknown as EditorMessages;
+
+/**
+ * Pack a locale uses: the one registered for the full tag, for its
+ * language, or English
+ * @param locale - BCP 47 tag, e.g. 'fr-CA'
+ * @returns Registered locale, e.g. 'fr'
+ */
+export function resolveLocale(locale: string): string {
+  const tag = normalizeLocale(locale);
+  return [tag, getLanguage(tag)].find(candidate => loadedLocales.has(candidate) || localeLoaders.has(candidate)) ?? 'en';
+}
+
+/**
+ * Add or replace the language pack of a locale
+ * @param locale - BCP 47 tag or language, e.g. 'de' or 'pt-BR'
+ * @param messages - The pack, or a function loading it on first use
+ */
+export function registerLocale(locale: string, messages: LocaleMessages | LocaleLoader): void {
+  const tag = normalizeLocale(locale);
+  loadedLocales.delete(tag);
+  loadingLocales.delete(tag);
+  localeLoaders.delete(tag);
+
+  if (typeof messages === 'function') {
+    localeLoaders.set(tag, messages);
+  } else {
+    loadedLocales.set(tag, withDefaults(messages));
+  }
+}
+
+/**
+ * Messages of a locale, if its pack has been loaded
+ */
+export function getLoadedLocale(locale: string): EditorMessages | null {
+  return loadedLocales.get(resolveLocale(locale)) ?? null;
+}
+
+/**
+ * Load the language pack of a locale once
+ * @param locale - BCP 47 tag
+ * @returns Messages of the locale, English where the pack has none
+ */
+export function loadLocale(locale: string): Promise<EditorMessages> {
+  const tag = resolveLocale(locale);
+  const loaded = loadedLocales.get(tag);
+  if (loaded) return Promise.resolve(loaded);
+
+  let loading = loadingLocales.get(tag);
+  if (!loading) {
+    loading = localeLoaders.get(tag)!().then(module => {
+      const messages = withDefaults('default' in module ? module.default : module);
+      loadedLocales.set(tag, messages);
+      return messages;
+    });
+    loadingLocales.set(tag, loading);
+    // Allow another attempt after a failed chunk request
+    loading.catch(() => {
+      loadingLocales.delete(tag);
+    });
+  }
+
+  return loading;
+}
+
+/**
+ * Writing direction of a locale
+ * @param locale - BCP 47 tag
+ */
+export function getLocaleDirection(locale: string): TextDirection {
+  return RTL_LANGUAGES.has(getLanguage(locale)) ? 'rtl' : 'ltr';
+}
+
+/**
+ * Jodit's `language` option for a locale, falling back to English
+ * @param locale - BCP 47 tag, e.g. 'pt-BR'
+ * @returns Jodit language pack, e.g. 'pt_br'
+ */
+export function getJoditLanguage(locale: string): string {
+  const tag = normalizeLocale(locale).replace(/-/g, '_');
+  const language = getLanguage(locale);
+  if (JODIT_LANGUAGES.has(tag)) return tag;
+  if (JODIT_LANGUAGES.has(language)) return language;
+  return JODIT_LANGUAGE_ALIASES[language] ?? 'en';
+}
@@ -0,0 +1,37 @@
+/**
+ * Lazy loading of Jodit and its styles. Jodit touches the DOM as soon as
+ * it is evaluated, so it is only imported in the browser, after mount.
+ */
+import type { Jodit } from 'jodit';
+
+export type JoditConstructor = typeof Jodit;
+
+let loadedJodit: JoditConstructor | null = null;
+let loading: Promise<JoditConstructor> | null = null;
+
+/**
+ * Jodit, if it has finished loading
+ */
+export function getLoadedJodit(): JoditConstructor | null {
+  return loadedJodit;
+}
+
+/**
+ * Load Jodit and its CSS once. Call early, e.g. on route prefetch, to have
+ * the editor ready sooner after hydration
+ * @returns Jodit constructor
+ */
+export function loadJodit(): Promise<JoditConstructor> {
+  if (!loading) {
+    loading = Promise.all([import('jodit'), import('jodit/es2021/jodit.min.css')]).then(([module]) => {
+      loadedJodit = module.Jodit;
+      return loadedJodit;
+    });
+    // Allow another attempt after a failed chunk request
+    loading.catch(() => {
+      loading = null;
+    });
+  }
+
+  return loading;
+}
@@ -0,0 +1,571 @@
+/**
+ * Markdown <-> HTML conversion for the JoditEditor markdown format.
+ * Covers CommonMark blocks and inlines plus GFM tables and strikethrough.
+ * Markup without a Markdown equivalent is kept as inline HTML.
+ */
+
+/**
+ * Inline HTML tags passed through unchanged when parsing Markdown
+ */
+const INLINE_HTML_TAGS = ['u', 'sub', 'sup', 'mark', 'ins', 'small', 'span', 'br'];
+
+const INLINE_HTML_PATTERN = new RegExp(`<\\/?(${INLINE_HTML_TAGS.join('|')})(\\s[^<>]*)?\\/?>`, 'gi');
+
+/**
+ * Mention and product references, kept as inline HTML with their text
+ */
+const REFERENCE_PATTERN = /<span\s[^<>]*\bdata-reference-type="[^<>]*>[^<]*<\/span>/gi;
+
+interface Block {
+  type: 'paragraph' | 'other';
+  html: string;
+  inner?: string;
+}
+
+function escapeHTML(text: string, attribute = false): string {
+  const escaped = text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  return attribute ? escaped.replace(/"/g, '&quot;') : escaped;
+}
+
+function getIndent(line: string): number {
+  return (/^ */.exec(line.replace(/\t/g, '    ')) as RegExpExecArray)[0].length;
+}
+
+function isBlank(line: string): boolean {
+  return line.trim() === '';
+}
+
+/**
+ * Convert inline Markdown to HTML
+ * @param text - Inline Markdown
+ * @param stash - HTML kept out of the conversion; shared with nested
+ * calls, whose text contains placeholders of the outer call
+ */
+function parseInline(text: string, stash: string[] = []): string {
+  const keep = (html: string) => `\uE000${stash.push(html) - 1}\uE000`;
+
+  const attr = (name: string, value?: string) =>
+    value === undefined ? '' : ` ${name}="${escapeHTML(value, true)}"`;
+
+  let out = text
+    .replace(REFERENCE_PATTERN, reference => keep(reference))
+    .replace(/(`+)([\s\S]*?[^`])\1(?!`)/g, (_, _ticks, code: string) =>
+      keep(`<code>${escapeHTML(code.replace(/^ (.*) $/, '$1'))}</code>`)
+    )
+    .replace(/\\([\\`*_{}[\]()#+\-.!|~<>])/g, (_, char: string) => keep(escapeHTML(char)))
+    .replace(/\\\n/g, () => keep('<br>'))
+    .replace(/!\[([^\]]*)\]\(\s*<?([^\s)>]*)>?(?:\s+"([^"]*)")?\s*\)/g, (_, alt: string, src: string, title?: string) =>
+      keep(`<img src="${escapeHTML(src, true)}" alt="${escapeHTML(alt, true)}"${attr('title', title)}>`)
+    )
+    .replace(/\[((?:[^\]\\]|\\.)*)\]\(\s*<?([^\s)>]*)>?(?:\s+"([^"]*)")?\s*\)/g, (_, label: string, href: string, title?: string) =>
+      keep(`<a href="${escapeHTML(href, true)}"${attr('title', title)}>${parseInline(label, stash)}</a>`)
+    )
+    .replace(/<((?:https?|mailto):[^\s<>]+)>/g, (_, url: string) =>
+      keep(`<a href="${escapeHTML(url, true)}">${escapeHTML(url)}</a>`)
+    )
+    .replace(INLINE_HTML_PATTERN, tag => keep(tag));
+
+  out = escapeHTML(out)
+    .replace(/\*\*\*(?=\S)([\s\S]*?\S)\*\*\*/g, '<strong><em>$1</em></strong>')
+    .replace(/(^|[^\w])___(?=\S)([\s\S]*?\S)___(?!\w)/g, '$1<strong><em>$2</em></strong>')
+    .replace(/\*\*(?=\S)([\s\S]*?\S)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|[^\w])__(?=\S)([\s\S]*?\S)__(?!\w)/g, '$1<strong>$2</strong>')
+    .replace(/\*(?=\S)([\s\S]*?\S)\*/g, '<em>$1</em>')
+    .replace(/(^|[^\w])_(?=\S)([\s\S]*?\S)_(?!\w)/g, '$1<em>$2</em>')
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<del>$1</del>')
+    .replace(/ {2,}\n/g, '<br>');
+
+  // Placeholders may be nested (e.g. a link label containing code)
+  const placeholder = /\uE000(\d+)\uE000/g;
+  while (placeholder.test(out)) {
+    out = out.replace(placeholder, (_, index: string) => stash[Number(index)]);
+  }
+
+  return out;
+}
+
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})\s*([\w+-]*)\s*$/;
+const HEADING_PATTERN = /^ {0,3}(#{1,6})(?:\s+(.*?))?\s*#*\s*$/;
+const RULE_PATTERN = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const LIST_PATTERN = /^(\s*)([-*+]|\d{1,9}[.)])(\s+|$)(.*)$/;
+const QUOTE_PATTERN = /^ {0,3}> ?/;
+const TABLE_DELIMITER_PATTERN = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const HTML_BLOCK_PATTERN = /^ {0,3}<\/?([a-z][a-z0-9]*)(\s|>|\/>|$)/i;
+
+function startsBlock(line: string, nextLine?: string): boolean {
+  return (
+    FENCE_PATTERN.test(line) ||
+    HEADING_PATTERN.test(line) ||
+    RULE_PATTERN.test(line) ||
+    QUOTE_PATTERN.test(line) ||
+    LIST_PATTERN.test(line) ||
+    (line.includes('|') && nextLine !== undefined && TABLE_DELIMITER_PATTERN.test(nextLine))
+  );
+}
+
+function splitTableRow(line: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  const trimmed = line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '');
+
+  for (let i = 0; i < trimmed.length; i++) {
+    const char = trimmed[i];
+    if (char === '\\' && trimmed[i + 1] === '|') {
+      current += '|';
+      i++;
+    } else if (char === '|') {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+
+  return cells;
+}
+
+function parseTable(lines: string[]): string {
+  const header = splitTableRow(lines[0]);
+  const alignments = splitTableRow(lines[1]).map(cell => {
+    const left = cell.startsWith(':');
+    const right = cell.endsWith(':');
+    if (left && right) return 'center';
+    if (right) return 'right';
+    if (left) return 'left';
+    return '';
+  });
+
+  const cell = (tag: string, content: string, index: number) => {
+    const align = alignments[index];
+    const style = align ? ` style="text-align: ${align};"` : '';
+    return `<${tag}${style}>${parseInline(content)}</${tag}>`;
+  };
+
+  const head = `<thead><tr>${header.map((content, i) => cell('th', content, i)).join('')}</tr></thead>`;
+  const rows = lines.slice(2).map(line => {
+    const cells = splitTableRow(line);
+    return `<tr>${header.map((_, i) => cell('td', cells[i] ?? '', i)).join('')}</tr>`;
+  });
+
+  return `<table>${head}${rows.length ? `<tbody>${rows.join('')}</tbody>` : ''}</table>`;
+}
+
+function parseList(lines: string[], start: number): { html: string; end: number } {
+  const first = LIST_PATTERN.exec(lines[start]) as RegExpExecArray;
+  const baseIndent = getIndent(first[1]);
+  const ordered = /\d/.test(first[2]);
+  const delimiter = ordered ? first[2].slice(-1) : first[2];
+
+  const isSibling = (line: string | undefined) => {
+    const match = line === undefined ? null : LIST_PATTERN.exec(line);
+    return (
+      match !== null &&
+      getIndent(match[1]) === baseIndent &&
+      (ordered ? /\d/.test(match[2]) && match[2].endsWith(delimiter) : match[2] === delimiter)
+    );
+  };
+
+  const items: string[][] = [];
+  let contentIndent = 0;
+  let loose = false;
+  let i = start;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const match = LIST_PATTERN.exec(line);
+
+    if (match && isSibling(line)) {
+      contentIndent = baseIndent + match[2].length + Math.max(match[3].length, 1);
+      items.push([match[4]]);
+      i++;
+      continue;
+    }
+
+    if (isBlank(line)) {
+      const next = lines.slice(i + 1).find(candidate => !isBlank(candidate));
+      if (next === undefined || (getIndent(next) < contentIndent && !isSibling(next))) break;
+
+      // Blank lines between items or between blocks of an item
+      loose = true;
+      items[items.length - 1].push('');
+      i++;
+      continue;
+    }
+
+    if (getIndent(line) >= contentIndent) {
+      items[items.length - 1].push(line.slice(contentIndent));
+      i++;
+      continue;
+    }
+
+    // Lazy paragraph continuation
+    const current = items[items.length - 1];
+    if (!startsBlock(line) && !isBlank(current[current.length - 1] ?? '')) {
+      current.push(line.trim());
+      i++;
+      continue;
+    }
+
+    break;
+  }
+
+  const tag = ordered ? 'ol' : 'ul';
+  const startNumber = ordered ? parseInt(first[2], 10) : 1;
+  const startAttr = ordered && startNumber !== 1 ? ` start="${startNumber}"` : '';
+
+  const html = items
+    .map(itemLines => {
+      const blocks = parseBlocks(itemLines);
+      const content = blocks
+        .map(block => (!loose && block.type === 'paragraph' ? block.inner : block.html))
+        .join('');
+      return `<li>${content}</li>`;
+    })
+    .join('');
+
+  return { html: `<${tag}${startAttr}>${html}</${tag}>`, end: i };
+}
+
+function parseBlocks(lines: string[]): Block[] {
+  const blocks: Block[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE_PATTERN.exec(line);
+    if (fence) {
+      const marker = fence[1];
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !new RegExp(`^ {0,3}${marker[0]}{${marker.length},}\\s*$`).test(lines[i])) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++;
+      const language = fence[2] ? ` class="language-${escapeHTML(fence[2], true)}"` : '';
+      blocks.push({ type: 'other', html: `<pre><code${language}>${escapeHTML(code.join('\n'))}</code></pre>` });
+      continue;
+    }
+
+    const heading = HEADING_PATTERN.exec(line);
+    if (heading) {
+      const level = heading[1].length;
+      blocks.push({ type: 'other', html: `<h${level}>${parseInline(heading[2] ?? '')}</h${level}>` });
+      i++;
+      continue;
+    }
+
+    if (RULE_PATTERN.test(line)) {
+      blocks.push({ type: 'other', html: '<hr>' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE_PATTERN.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && !isBlank(lines[i]) && (QUOTE_PATTERN.test(lines[i]) || !startsBlock(lines[i]))) {
+        quoted.push(lines[i].replace(QUOTE_PATTERN, ''));
+        i++;
+      }
+      const inner = parseBlocks(quoted).map(block => block.html).join('');
+      blocks.push({ type: 'other', html: `<blockquote>${inner}</blockquote>` });
+      continue;
+    }
+
+    if (line.includes('|') && i + 1 < lines.length && TABLE_DELIMITER_PATTERN.test(lines[i + 1])) {
+      const tableLines = [line, lines[i + 1]];
+      i += 2;
+      while (i < lines.length && !isBlank(lines[i]) && lines[i].includes('|')) {
+        tableLines.push(lines[i]);
+        i++;
+      }
+      blocks.push({ type: 'other', html: parseTable(tableLines) });
+      continue;
+    }
+
+    if (LIST_PATTERN.test(line)) {
+      const { html, end } = parseList(lines, i);
+      blocks.push({ type: 'other', html });
+      i = end;
+      continue;
+    }
+
+    const htmlBlock = HTML_BLOCK_PATTERN.exec(line);
+    if (htmlBlock && !INLINE_HTML_TAGS.includes(htmlBlock[1].toLowerCase())) {
+      const raw: string[] = [];
+      while (i < lines.length && !isBlank(lines[i])) {
+        raw.push(lines[i]);
+        i++;
+      }
+      blocks.push({ type: 'other', html: raw.join('\n') });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && !isBlank(lines[i]) && !startsBlock(lines[i], lines[i + 1])) {
+      paragraph.push(lines[i].replace(/^\s+/, ''));
+      i++;
+    }
+    if (!paragraph.length) {
+      // A line that looked like a block start but did not parse as one
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+    const inner = parseInline(paragraph.join('\n').replace(/\s+$/, ''));
+    blocks.push({ type: 'paragraph', html: `<p>${inner}</p>`, inner });
+  }
+
+  return blocks;
+}
+
+/**
+ * Convert Markdown to HTML
+ * @param markdown - Markdown source
+ * @returns HTML
+ */
+export function markdownToHTML(markdown: string): string {
+  if (!markdown) return '';
+
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  return parseBlocks(lines).map(block => block.html).join('');
+}
+
+/**
+ * Escape characters that would otherwise be read as Markdown syntax
+ */
+function escapeMarkdown(text: string): string {
+  return text
+    .replace(/[\\`*_[\]<>~]/g, '\\$&')
+    .replace(/^(\s*)([#>+-])(?=\s|$)/gm, '$1\\$2')
+    .replace(/^(\s*\d+)([.)])(?=\s|$)/gm, '$1\\$2');
+}
+
+function codeFence(code: string, marker = '`'): string {
+  const longest = Math.max(2, ...(code.match(new RegExp(`${marker}+`, 'g')) ?? []).map(run => run.length));
+  return marker.repeat(longest + 1);
+}
+
+function renderInline(node: Node, inTable = false): string {
+  let out = '';
+
+  node.childNodes.forEach(child => {
+    if (child.nodeType === Node.TEXT_NODE) {
+      let text = escapeMarkdown((child.nodeValue ?? '').replace(/\s+/g, ' '));
+      if (inTable) text = text.replace(/\|/g, '\\|');
+      out += text;
+      return;
+    }
+    if (child.nodeType !== Node.ELEMENT_NODE) return;
+
+    const element = child as HTMLElement;
+    const content = () => renderInline(element, inTable);
+
+    switch (element.localName) {
+      case 'strong':
+      case 'b':
+        out += wrapInline('**', content());
+        break;
+      case 'em':
+      case 'i':
+        out += wrapInline('_', content());
+        break;
+      case 'del':
+      case 's':
+      case 'strike':
+        out += wrapInline('~~', content());
+        break;
+      case 'code': {
+        const code = element.textContent ?? '';
+        const ticks = '`'.repeat(Math.max(0, ...(code.match(/`+/g) ?? []).map(run => run.length)) + 1);
+        const padding = code.startsWith('`') || code.endsWith('`') ? ' ' : '';
+        out += `${ticks}${padding}${code}${padding}${ticks}`;
+        break;
+      }
+      case 'a': {
+        const href = element.getAttribute('href') ?? '';
+        const title = element.getAttribute('title');
+        const label = content();
+        out += `[${label}](${href.includes(' ') ? `<${href}>` : href}${title ? ` "${title}"` : ''})`;
+        break;
+      }
+      case 'img': {
+        const title = element.getAttribute('title');
+        out += `![${escapeMarkdown(element.getAttribute('alt') ?? '')}](${element.getAttribute('src') ?? ''}${title ? ` "${title}"` : ''})`;
+        break;
+      }
+      case 'br':
+        out += inTable ? '<br>' : '\\\n';
+        break;
+      case 'u':
+      case 'sub':
+      case 'sup':
+      case 'mark':
+      case 'ins':
+      case 'small':
+        out += `<${element.localName}>${content()}</${element.localName}>`;
+        break;
+      case 'span':
+        out += element.hasAttribute('data-reference-type') ? element.outerHTML : content();
+        break;
+      default:
+        out += content();
+    }
+  });
+
+  return out;
+}
+
+/**
+ * Wrap inline content in emphasis markers, keeping surrounding spaces outside
+ */
+function wrapInline(marker: string, content: string): string {
+  const match = /^(\s*)([\s\S]*?)(\s*)$/.exec(content) as RegExpExecArray;
+  return match[2] ? `${match[1]}${marker}${match[2]}${marker}${match[3]}` : content;
+}
+
+function indentLines(text: string, indent: string, firstPrefix = indent): string {
+  return text
+    .split('\n')
+    .map((line, index) => (index === 0 ? firstPrefix + line : line ? indent + line : line))
+    .join('\n');
+}
+
+function renderTable(table: HTMLTableElement): string {
+  const rows = Array.from(table.rows);
+  if (!rows.length) return '';
+
+  const [headerRow, ...bodyRows] = rows;
+  const columns = Math.max(...rows.map(row => row.cells.length));
+
+  const renderRow = (row: HTMLTableRowElement) =>
+    `| ${Array.from({ length: columns }, (_, i) => (row.cells[i] ? renderInline(row.cells[i], true).trim() : '')).join(' | ')} |`;
+
+  const delimiter = Array.from({ length: columns }, (_, i) => {
+    const cell = headerRow.cells[i];
+    const align = cell?.style.textAlign || cell?.getAttribute('align') || '';
+    if (align === 'center') return ':---:';
+    if (align === 'right') return '---:';
+    if (align === 'left') return ':---';
+    return '---';
+  });
+
+  return [renderRow(headerRow), `| ${delimiter.join(' | ')} |`, ...bodyRows.map(renderRow)].join('\n');
+}
+
+function renderList(list: HTMLElement): string {
+  const ordered = list.localName === 'ol';
+  const start = ordered ? parseInt(list.getAttribute('start') ?? '1', 10) || 1 : 1;
+
+  const items = Array.from(list.children).filter(item => item.localName === 'li');
+  // Items with several paragraphs need blank lines between them, which
+  // makes the whole list loose
+  const loose = items.some(item =>
+    Array.from(item.children).filter(child => child.localName === 'p').length > 1);
+
+  return items
+    .map((item, index) => {
+      const marker = ordered ? `${start + index}.` : '-';
+      const content = renderBlocks(item, !loose);
+      return indentLines(content, ' '.repeat(marker.length + 1), `${marker} `);
+    })
+    .join(loose ? '\n\n' : '\n');
+}
+
+const BLOCK_ELEMENTS = new Set([
+  'p', 'div', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'blockquote',
+  'pre', 'hr', 'table', 'figure', 'section', 'article'
+]);
+
+/**
+ * Render the children of a node as Markdown blocks. Consecutive inline
+ * nodes form a paragraph.
+ */
+function renderBlocks(node: Node, tight = false): string {
+  const blocks: string[] = [];
+  let inline: Node[] = [];
+
+  const flushInline = () => {
+    if (!inline.length) return;
+    const holder = document.createElement('div');
+    inline.forEach(child => holder.appendChild(child.cloneNode(true)));
+    const text = renderInline(holder).trim();
+    if (text) blocks.push(text);
+    inline = [];
+  };
+
+  node.childNodes.forEach(child => {
+    if (child.nodeType !== Node.ELEMENT_NODE || !BLOCK_ELEMENTS.has((child as Element).localName)) {
+      inline.push(child);
+      return;
+    }
+
+    flushInline();
+    const element = child as HTMLElement;
+
+    switch (element.localName) {
+      case 'h1':
+      case 'h2':
+      case 'h3':
+      case 'h4':
+      case 'h5':
+      case 'h6':
+        blocks.push(`${'#'.repeat(Number(element.localName[1]))} ${renderInline(element).trim()}`);
+        break;
+      case 'ul':
+      case 'ol':
+        blocks.push(renderList(element));
+        break;
+      case 'blockquote':
+        blocks.push(indentLines(renderBlocks(element), '> ').replace(/^$/gm, '>'));
+        break;
+      case 'pre': {
+        const code = element.querySelector('code');
+        const language = /language-([\w+-]+)/.exec(code?.className ?? '')?.[1] ?? '';
+        const text = (code ?? element).textContent ?? '';
+        const fence = codeFence(text);
+        blocks.push(`${fence}${language}\n${text}\n${fence}`);
+        break;
+      }
+      case 'hr':
+        blocks.push('---');
+        break;
+      case 'table':
+        blocks.push(renderTable(element as HTMLTableElement));
+        break;
+      case 'p': {
+        const text = renderInline(element).trim();
+        if (text) blocks.push(text);
+        break;
+      }
+      default: {
+        const inner = renderBlocks(element, tight);
+        if (inner) blocks.push(inner);
+      }
+    }
+  });
+
+  flushInline();
+
+  return blocks.join(tight ? '\n' : '\n\n');
+}
+
+/**
+ * Convert HTML to Markdown
+ * @param html - HTML source
+ * @returns Markdown
+ */
+export function htmlToMarkdown(html: string): string {
+  if (!html) return '';
+
+  const template = document.createElement('template');
+  template.innerHTML = html;
+
+  return renderBlocks(template.content).trim();
+}
@@ -0,0 +1,282 @@
+/**
+ * Normalization of pasted HTML: Office and Google Docs markup is cleaned
+ * up, inline styles become semantic tags and tracking pixels are removed
+ */
+import { htmlToPlainText, toSquareDescriptionHTML } from './square-description';
+
+/**
+ * - keepStructure: headings, lists, tables, links and images stay, styling goes
+ * - plainText: paragraphs and line breaks only
+ * - squareSafe: the HTML subset Square accepts in item descriptions
+ */
+export type PasteProfile = 'keepStructure' | 'plainText' | 'squareSafe';
+
+export type PasteSource = 'word' | 'googleDocs' | 'web';
+
+/**
+ * Jodit options letting pasted HTML reach the pipeline unchanged: no
+ * paste dialogs and no conversion of Word's stylesheet into inline styles
+ */
+export const PASTE_PIPELINE_CONFIG = {
+  askBeforePasteHTML: false,
+  askBeforePasteFromWord: false,
+  processPasteFromWord: false,
+  defaultActionOnPaste: 'insert_as_html'
+};
+
+/**
+ * Attributes kept on pasted elements; everything else, including style,
+ * class and id, is removed
+ */
+const KEPT_ATTRIBUTES: Record<string, string[]> = {
+  a: ['href', 'title'],
+  img: ['src', 'alt', 'width', 'height'],
+  td: ['colspan', 'rowspan'],
+  th: ['colspan', 'rowspan'],
+  ol: ['start'],
+  // Mention, hashtag and product reference nodes copied within the editor
+  span: ['data-reference-type', 'data-reference-id', 'contenteditable']
+};
+
+/**
+ * Elements that only carry styling and are unwrapped once it is converted
+ */
+const STYLING_TAGS = new Set(['span', 'font']);
+
+const BLOCK_SELECTOR = 'p, div, h1, h2, h3, h4, h5, h6, li, blockquote';
+
+const STRUCTURE_SELECTOR = `${BLOCK_SELECTOR}, ul, ol, table, tr, td, th, hr, figure`;
+
+// Document parts of a copied page or Word's clipboard document
+const NON_CONTENT_SELECTOR = 'style, meta, link, title, script, xml';
+
+const MEDIA_SELECTOR = 'img, table, hr, video, audio, iframe';
+
+// Analytics and e-mail open tracking images
+const TRACKING_URL_PATTERN =
+  /[/.](pixel|beacon|tracking?|open)\.(gif|png)|facebook\.com\/tr[/?]|google-analytics\.com|doubleclick\.net|\/collect\?/i;
+
+// Word list paragraphs: mso-list:l0 level2 lfo1
+const WORD_LIST_PATTERN = /mso-list:\s*(l\d+)\s+level(\d+)/i;
+
+// Markers of ordered Word lists, e.g. "1.", "a)" or "iv."
+const ORDERED_MARKER_PATTERN = /^[a-z0-9]{1,4}[.)]$/i;
+
+/**
+ * Guess the application the HTML was copied from
+ * @param html - Clipboard HTML
+ */
+export function detectPasteSource(html: string): PasteSource {
+  if (/id="?docs-internal-guid-/i.test(html)) return 'googleDocs';
+  if (/urn:schemas-microsoft-com:office|class="?Mso|mso-[a-z-]+\s*:|<o:p>/i.test(html)) return 'word';
+  return 'web';
+}
+
+const unwrap = (element: Element) => element.replaceWith(...Array.from(element.childNodes));
+
+const renameElement = (element: Element, tag: string) => {
+  const renamed = element.ownerDocument.createElement(tag);
+  Array.from(element.attributes).forEach(({ name, value }) => renamed.setAttribute(name, value));
+  renamed.append(...Array.from(element.childNodes));
+  element.replaceWith(renamed);
+  return renamed;
+};
+
+/**
+ * Word pastes lists as paragraphs with an mso-list style and the bullet
+ * as text. Consecutive list paragraphs become (nested) ul and ol lists
+ */
+function convertWordLists(root: DocumentFragment): void {
+  const { ownerDocument } = root;
+  let lists: Element[] = [];
+
+  Array.from(root.querySelectorAll<HTMLElement>('[style*="mso-list"]')).forEach(paragraph => {
+    const match = WORD_LIST_PATTERN.exec(paragraph.getAttribute('style') ?? '');
+    if (!match) return;
+
+    const level = Number(match[2]);
+    const marker = Array.from(paragraph.querySelectorAll('[style]'))
+      .find(element => /mso-list:\s*ignore/i.test(element.getAttribute('style') ?? ''));
+    const ordered = ORDERED_MARKER_PATTERN.test((marker?.textContent ?? '').trim());
+    marker?.remove();
+
+    // A list continues while its paragraphs follow each other
+    if (!lists.length || paragraph.previousElementSibling !== lists[0]) {
+      lists = [];
+    }
+    lists.length = Math.min(lists.length, level);
+    while (lists.length < level) {
+      const list = ownerDocument.createElement(ordered ? 'ol' : 'ul');
+      const parent = lists[lists.length - 1];
+      if (parent) {
+        const item = parent.lastElementChild ?? parent.appendChild(ownerDocument.createElement('li'));
+        item.appendChild(list);
+      } else {
+        paragraph.before(list);
+      }
+      lists.push(list);
+    }
+
+    const item = ownerDocument.createElement('li');
+    item.append(...Array.from(paragraph.childNodes));
+    lists[level - 1].appendChild(item);
+    paragraph.remove();
+  });
+}
+
+/**
+ * Wrap the content of an element in the tags its inline style stands for
+ */
+function convertStyles(element: HTMLElement): void {
+  const { style } = element;
+  const weight = style.fontWeight;
+  const decoration = `${style.textDecoration} ${style.textDecorationLine}`;
+  const tags: string[] = [];
+
+  if ((weight === 'bold' || weight === 'bolder' || Number(weight) >= 600) && !element.closest('b, strong, h1, h2, h3, h4, h5, h6, th')) {
+    tags.push('strong');
+  }
+  if (/italic|oblique/.test(style.fontStyle) && !element.closest('i, em')) tags.push('em');
+  if (decoration.includes('underline') && !element.closest('u')) tags.push('u');
+  if (decoration.includes('line-through') && !element.closest('s')) tags.push('s');
+  if (style.verticalAlign === 'super' && !element.closest('sup')) tags.push('sup');
+  if (style.verticalAlign === 'sub' && !element.closest('sub')) tags.push('sub');
+
+  tags.forEach(tag => {
+    const wrapper = element.ownerDocument.createElement(tag);
+    wrapper.append(...Array.from(element.childNodes));
+    element.appendChild(wrapper);
+  });
+}
+
+const isTrackingPixel = (image: HTMLImageElement) => {
+  const size = (value: string | null) => (value ? parseFloat(value) : NaN);
+  return size(image.getAttribute('width')) <= 1 ||
+    size(image.getAttribute('height')) <= 1 ||
+    size(image.style.width) <= 1 ||
+    size(image.style.height) <= 1 ||
+    image.style.display === 'none' ||
+    image.style.visibility === 'hidden' ||
+    TRACKING_URL_PATTERN.test(image.getAttribute('src') ?? '');
+};
+
+/**
+ * Clean up pasted HTML keeping its structure
+ */
+function cleanHTML(html: string): string {
+  const template = document.createElement('template');
+  template.innerHTML = html;
+  const root = template.content;
+
+  root.querySelectorAll(NON_CONTENT_SELECTOR).forEach(element => element.remove());
+
+  // Word's conditional comments, <!--StartFragment--> and the like
+  const comments = document.createTreeWalker(root, NodeFilter.SHOW_COMMENT);
+  const commentNodes: Node[] = [];
+  for (let node = comments.nextNode(); node; node = comments.nextNode()) commentNodes.push(node);
+  commentNodes.forEach(node => node.parentNode?.removeChild(node));
+
+  // Office namespaces: VML shapes go, o:p and w:sdt wrappers are unwrapped
+  Array.from(root.querySelectorAll('*')).forEach(element => {
+    if (/^v:/.test(element.localName)) {
+      element.remove();
+    } else if (element.localName.includes(':')) {
+      unwrap(element);
+    }
+  });
+
+  convertWordLists(root);
+
+  // Google Docs wraps the clipboard in <b style="font-weight:normal" id="docs-internal-guid-...">
+  root.querySelectorAll<HTMLElement>('b, strong').forEach(element => {
+    if (element.style.fontWeight === 'normal' || element.style.fontWeight === '400') unwrap(element);
+  });
+  root.querySelectorAll('br.Apple-interchange-newline').forEach(element => element.remove());
+
+  root.querySelectorAll('img').forEach(image => {
+    // Word references its images as local files the browser cannot load
+    if (isTrackingPixel(image) || !image.getAttribute('src') || /^file:/i.test(image.getAttribute('src')!)) {
+      image.remove();
+    }
+  });
+
+  Array.from(root.querySelectorAll<HTMLElement>('[style]')).forEach(convertStyles);
+  root.querySelectorAll('b').forEach(element => renameElement(element, 'strong'));
+  root.querySelectorAll('i').forEach(element => renameElement(element, 'em'));
+
+  Array.from(root.querySelectorAll('*')).forEach(element => {
+    const kept = KEPT_ATTRIBUTES[element.localName] ?? [];
+    Array.from(element.attributes).forEach(({ name }) => {
+      if (!kept.includes(name)) element.removeAttribute(name);
+    });
+    if (STYLING_TAGS.has(element.localName) && !element.attributes.length) unwrap(element);
+  });
+
+  // Google Docs puts a paragraph in every list item
+  root.querySelectorAll('li > p:only-child').forEach(paragraph => unwrap(paragraph));
+
+  // Source line wrapping is not content
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    if (!node.parentElement?.closest('pre')) {
+      node.nodeValue = (node.nodeValue ?? '').replace(/\s*[\r\n]+\s*/g, ' ');
+    }
+  }
+
+  // Layout wrappers of web pages
+  Array.from(root.querySelectorAll('div')).reverse().forEach(element => {
+    if (Array.from(element.children).some(child => child.matches(STRUCTURE_SELECTOR))) unwrap(element);
+  });
+
+  // Spacing paragraphs such as Word's <p>&nbsp;</p>
+  Array.from(root.querySelectorAll(BLOCK_SELECTOR)).reverse().forEach(block => {
+    if (!(block.textContent ?? '').trim() && !block.querySelector(MEDIA_SELECTOR)) block.remove();
+  });
+
+  // Line breaks Google Docs puts between blocks, and source indentation
+  const isStructure = (node: Node | null) => node instanceof Element && node.matches(STRUCTURE_SELECTOR);
+  Array.from(root.childNodes).forEach(node => {
+    if (node instanceof Element && node.localName === 'br' && Array.from(root.children).some(isStructure)) {
+      node.remove();
+    }
+  });
+  const blankNodes: Node[] = [];
+  const blanks = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  for (let node = blanks.nextNode(); node; node = blanks.nextNode()) {
+    if (!(node.nodeValue ?? '').trim() && (isStructure(node.previousSibling) || isStructure(node.nextSibling))) {
+      blankNodes.push(node);
+    }
+  }
+  blankNodes.forEach(node => node.parentNode?.removeChild(node));
+
+  return template.innerHTML.trim();
+}
+
+const escapeHTML = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/**
+ * Normalize pasted HTML for a profile. The result still has to pass the sanitizer
+ * @param html - Clipboard HTML
+ * @param profile - What to keep of the pasted content
+ * @returns Normalized HTML
+ */
+export function normalizePastedHTML(html: string, profile: PasteProfile = 'keepStructure'): string {
+  // Plain text pasted as is
+  if (!/<[a-z!/]/i.test(html)) return html;
+
+  const cleaned = cleanHTML(html);
+
+  switch (profile) {
+    case 'plainText':
+      // Square's conversion keeps table rows apart as "cell | cell" lines
+      return htmlToPlainText(toSquareDescriptionHTML(cleaned))
+        .split(/\n{2,}/)
+        .filter(Boolean)
+        .map(paragraph => `<p>${escapeHTML(paragraph).replace(/\n/g, '<br>')}</p>`)
+        .join('');
+    case 'squareSafe':
+      return toSquareDescriptionHTML(cleaned);
+    default:
+      return cleaned;
+  }
+}
@@ -0,0 +1,312 @@
+/**
+ * Runs a proofing provider over the text of a JoditEditor after typing
+ * pauses and keeps the issues in place while the document changes. Issues
+ * are remembered by the text of their range, so only edited ranges are
+ * checked again and the others move along with the text.
+ */
+import type { Jodit } from 'jodit';
+import { getProofingRanges, ProofingIssue, ProofingProvider, ProofingRange } from './proofing';
+import { createTextRange, getCaretTextOffset } from './text-offset';
+
+/**
+ * Issue at its current place in the document
+ */
+export interface ProofingMark extends ProofingIssue {
+  /**
+   * Reported text
+   */
+  text: string;
+}
+
+/**
+ * Open suggestion popover
+ */
+export interface ProofingPopoverState {
+  mark: ProofingMark;
+  activeIndex: number;
+  /**
+   * Below the mark, relative to the editor's workplace
+   */
+  position: { top: number; left: number };
+}
+
+export interface ProofingState {
+  marks: ProofingMark[];
+  popover: ProofingPopoverState | null;
+}
+
+export interface ProofingSettings {
+  provider: ProofingProvider;
+  delayMs: number;
+  /**
+   * Words never reported
+   */
+  ignore: string[];
+  locale: string;
+}
+
+export interface ProofingControllerOptions {
+  /**
+   * Provider and settings, or null while proofing is off
+   */
+  getSettings: () => ProofingSettings | null;
+  /**
+   * Called whenever the marks or the popover change
+   */
+  onStateChange: (state: ProofingState) => void;
+  onError: (error: Error) => void;
+}
+
+export interface ProofingController {
+  readonly state: ProofingState;
+  /**
+   * Move the marks to the current text and check edited ranges once
+   * typing pauses
+   */
+  update(editor: Jodit): void;
+  /**
+   * Open the popover of the mark at a text offset, or close it
+   * @returns True when a mark was found
+   */
+  open(editor: Jodit, offset: number | null): boolean;
+  /**
+   * Alt+Enter opens the popover at the caret, which is then navigated and
+   * accepted with the keyboard. A popover opened by a click only closes
+   * with Escape, so keys keep editing the text
+   * @returns True when the key was used
+   */
+  keyDown(editor: Jodit, event: KeyboardEvent): boolean;
+  /**
+   * Replace the text of the open mark with one of its suggestions
+   */
+  select(editor: Jodit, index: number): void;
+  /**
+   * Stop reporting the text of the open mark in this editor
+   */
+  ignore(): void;
+  close(): void;
+  /**
+   * Remove all marks and stop checking
+   */
+  reset(): void;
+}
+
+// Issues of a range, with offsets from the start of the range
+type RangeIssues = ProofingIssue[];
+
+const EMPTY_STATE: ProofingState = { marks: [], popover: null };
+
+function getMarkPosition(editor: Jodit, mark: ProofingMark): ProofingPopoverState['position'] {
+  const range = createTextRange(editor.editor, mark.start, mark.end);
+  const rect = range.getClientRects?.()[0] ?? range.getBoundingClientRect?.();
+  if (!rect) return { top: 0, left: 0 };
+
+  const origin = editor.workplace.getBoundingClientRect();
+  return { top: rect.bottom - origin.top, left: rect.left - origin.left };
+}
+
+/**
+ * Create a proofing controller
+ * @param options - Provider settings and callbacks
+ * @returns Proofing controller
+ */
+export function createProofingController(options: ProofingControllerOptions): ProofingController {
+  let state = EMPTY_STATE;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let request: AbortController | null = null;
+  // Results are only valid for the provider and locale that produced them
+  let checkedWith: { provider: ProofingProvider; locale: string } | null = null;
+  const checked = new Map<string, RangeIssues>();
+  const ignored = new Set<string>();
+  // Whether the open popover was opened from the keyboard and takes the keys
+  let isKeyboardOpen = false;
+
+  const setState = (next: ProofingState) => {
+    state = next;
+    options.onStateChange(next);
+  };
+
+  const stop = () => {
+    if (timer !== null) clearTimeout(timer);
+    timer = null;
+    request?.abort();
+    request = null;
+  };
+
+  const isIgnored = (text: string, settings: ProofingSettings) => {
+    const normalized = text.toLowerCase();
+    return ignored.has(normalized) || settings.ignore.some(word => word.toLowerCase() === normalized);
+  };
+
+  // Marks of the ranges checked before, at their current offsets
+  const resolveMarks = (ranges: ProofingRange[], settings: ProofingSettings): ProofingMark[] =>
+    ranges.flatMap(range => (checked.get(range.text) ?? []).map(issue => ({
+      ...issue,
+      start: range.start + issue.start,
+      end: range.start + issue.end,
+      text: range.text.slice(issue.start, issue.end)
+    }))).filter(mark => !isIgnored(mark.text, settings));
+
+  const showMarks = (ranges: ProofingRange[], settings: ProofingSettings) => {
+    const marks = resolveMarks(ranges, settings);
+    const { popover } = state;
+    // Most changes leave the marks where they are; those cause no update
+    const isUnchanged = marks.length === state.marks.length &&
+      marks.every((mark, index) => mark.start === state.marks[index].start && mark.text === state.marks[index].text);
+    if (isUnchanged) return;
+
+    const openMark = popover && marks.find(mark => mark.start === popover.mark.start && mark.text === popover.mark.text);
+    setState({ marks, popover: openMark ? { ...popover, mark: openMark } : null });
+  };
+
+  const check = (editor: Jodit, settings: ProofingSettings) => {
+    const ranges = getProofingRanges(editor.editor);
+    // Repeated text, e.g. the same bullet in two lists, is checked once
+    const pending = Array.from(new Map(ranges
+      .filter(range => !checked.has(range.text))
+      .map(range => [range.text, range] as const)).values());
+    // Forget ranges that are gone, so the cache follows the document
+    const texts = new Set(ranges.map(range => range.text));
+    Array.from(checked.keys()).forEach(text => {
+      if (!texts.has(text)) checked.delete(text);
+    });
+    if (!pending.length) return;
+
+    const controller = new AbortController();
+    request = controller;
+    settings.provider(pending, { locale: settings.locale, signal: controller.signal }).then(
+      issues => {
+        if (request !== controller) return;
+        request = null;
+
+        pending.forEach(range => checked.set(range.text, []));
+        issues.forEach(issue => {
+          const range = pending.find(candidate =>
+            issue.start >= candidate.start && issue.end <= candidate.start + candidate.text.length);
+          if (!range || issue.end <= issue.start) return;
+          checked.get(range.text)!.push({ ...issue, start: issue.start - range.start, end: issue.end - range.start });
+        });
+        showMarks(getProofingRanges(editor.editor), settings);
+      },
+      error => {
+        // Superseded and stopped checks fail silently
+        if (request !== controller) return;
+        request = null;
+        options.onError(error instanceof Error ? error : new Error(String(error)));
+      }
+    );
+  };
+
+  const close = () => {
+    if (state.popover) setState({ ...state, popover: null });
+  };
+
+  const reset = () => {
+    stop();
+    checked.clear();
+    checkedWith = null;
+    if (state.marks.length || state.popover) setState(EMPTY_STATE);
+  };
+
+  const open = (editor: Jodit, offset: number | null) => {
+    const mark = offset === null ? undefined : state.marks.find(({ start, end }) => start <= offset && offset <= end);
+    if (!mark) {
+      close();
+      return false;
+    }
+    isKeyboardOpen = false;
+    setState({ ...state, popover: { mark, activeIndex: 0, position: getMarkPosition(editor, mark) } });
+    return true;
+  };
+
+  const select = (editor: Jodit, index: number) => {
+    const popover = state.popover;
+    const replacement = popover?.mark.suggestions[index];
+    close();
+    if (!popover || replacement === undefined) return;
+
+    const { mark } = popover;
+    const range = createTextRange(editor.editor, mark.start, mark.end);
+    // The document changed since the mark was shown
+    if (range.toString() !== mark.text) return;
+
+    const document = editor.editor.ownerDocument;
+    const text = document.createTextNode(replacement);
+    range.deleteContents();
+    range.insertNode(text);
+
+    const selection = document.getSelection();
+    if (selection) {
+      const caret = document.createRange();
+      caret.setStart(text, text.length);
+      caret.collapse(true);
+      selection.removeAllRanges();
+      selection.addRange(caret);
+    }
+    // Records the replacement as one step of Jodit's undo history
+    editor.synchronizeValues();
+  };
+
+  return {
+    get state() {
+      return state;
+    },
+    update(editor) {
+      const settings = options.getSettings();
+      if (!settings) {
+        reset();
+        return;
+      }
+      if (checkedWith?.provider !== settings.provider || checkedWith.locale !== settings.locale) {
+        stop();
+        checked.clear();
+        checkedWith = { provider: settings.provider, locale: settings.locale };
+      }
+
+      showMarks(getProofingRanges(editor.editor), settings);
+      stop();
+      timer = setTimeout(() => {
+        timer = null;
+        check(editor, settings);
+      }, settings.delayMs);
+    },
+    open,
+    keyDown(editor, event) {
+      const { popover } = state;
+      if (!popover) {
+        if (event.key !== 'Enter' || !event.altKey) return false;
+        if (!open(editor, getCaretTextOffset(editor.editor))) return false;
+        isKeyboardOpen = true;
+      } else if (event.key === 'Escape') {
+        close();
+      } else if (!isKeyboardOpen) {
+        close();
+        return false;
+      } else if ((event.key === 'ArrowDown' || event.key === 'ArrowUp') && popover.mark.suggestions.length) {
+        const step = event.key === 'ArrowDown' ? 1 : -1;
+        const count = popover.mark.suggestions.length;
+        setState({ ...state, popover: { ...popover, activeIndex: (popover.activeIndex + step + count) % count } });
+      } else if (event.key === 'Enter' || event.key === 'Tab') {
+        select(editor, popover.activeIndex);
+      } else {
+        // Typing goes on in the editor
+        close();
+        return false;
+      }
+
+      event.preventDefault();
+      return true;
+    },
+    select,
+    ignore() {
+      const settings = options.getSettings();
+      const { popover } = state;
+      if (!popover || !settings) return;
+
+      ignored.add(popover.mark.text.toLowerCase());
+      setState({ marks: state.marks.filter(mark => !isIgnored(mark.text, settings)), popover: null });
+    },
+    close,
+    reset
+  };
+}
@@ -0,0 +1,169 @@
+/**
+ * Pluggable spelling and grammar checking. A provider receives the text of
+ * the editor as ranges and returns issues, which the editor underlines and
+ * offers fixes for.
+ */
+
+export type ProofingIssueType = 'spelling' | 'grammar' | 'style';
+
+/**
+ * Continuous run of text, e.g. a paragraph. Offsets count the characters
+ * of text nodes in the editor, like the caret offsets of collaboration
+ */
+export interface ProofingRange {
+  text: string;
+  /**
+   * Text offset of the first character
+   */
+  start: number;
+}
+
+export interface ProofingIssue {
+  /**
+   * Text offset of the first character, in the offsets of the ranges
+   */
+  start: number;
+  /**
+   * Text offset after the last character
+   */
+  end: number;
+  type: ProofingIssueType;
+  /**
+   * Explanation shown above the suggestions. Defaults to the name of the type
+   */
+  message?: string;
+  /**
+   * Replacements, best first
+   */
+  suggestions: string[];
+}
+
+export interface ProofingContext {
+  /**
+   * BCP 47 tag of the editor's `locale`, or 'en'
+   */
+  locale: string;
+  /**
+   * Aborted when the text changes again before the check finished
+   */
+  signal: AbortSignal;
+}
+
+/**
+ * Check ranges of text. Only ranges whose text changed since the last
+ * check are passed
+ */
+export type ProofingProvider = (ranges: ProofingRange[], context: ProofingContext) => Promise<ProofingIssue[]>;
+
+export interface ProofingOptions {
+  /**
+   * Defaults to the local dictionary provider
+   */
+  provider?: ProofingProvider;
+  /**
+   * Pause in typing before text is checked, in milliseconds. Defaults to 400
+   */
+  delayMs?: number;
+  /**
+   * Words never reported, e.g. brand names
+   */
+  ignore?: string[];
+}
+
+export const DEFAULT_PROOFING_DELAY_MS = 400;
+
+export interface ProofingMessages {
+  /**
+   * Names of the issue types, shown when the provider gives no message
+   */
+  types: Record<ProofingIssueType, string>;
+  /**
+   * Name of the suggestion list
+   */
+  suggestions: string;
+  noSuggestions: string;
+  ignore: string;
+}
+
+export const PROOFING_MESSAGES: ProofingMessages = {
+  types: {
+    spelling: 'Spelling',
+    grammar: 'Grammar',
+    style: 'Style'
+  },
+  suggestions: 'Suggestions',
+  noSuggestions: 'No suggestions',
+  ignore: 'Ignore'
+};
+
+// Elements whose text is not prose, or cannot be edited
+const SKIPPED_SELECTOR = '[contenteditable="false"], code, pre, script, style';
+
+const BLOCK_SELECTOR = 'address, article, aside, blockquote, dd, div, dl, dt, figcaption, figure, footer, '
+  + 'h1, h2, h3, h4, h5, h6, header, li, main, nav, ol, p, section, table, td, th, tr, ul';
+
+/**
+ * Split the text of an editor into ranges. A range ends at the end of a
+ * block, a line break and around text that is not checked, such as code
+ * and reference nodes
+ * @param root - Editable root
+ * @returns Non-empty ranges in document order
+ */
+export function getProofingRanges(root: HTMLElement): ProofingRange[] {
+  const ranges: ProofingRange[] = [];
+  const walker = root.ownerDocument.createTreeWalker(root, NodeFilter.SHOW_TEXT | NodeFilter.SHOW_ELEMENT);
+  let current: ProofingRange | null = null;
+  let currentBlock: Element | null = null;
+  let offset = 0;
+
+  // Ancestors outside the editor, e.g. Jodit's own elements, do not count
+  const findAncestor = (node: Node, selector: string) => {
+    const ancestor = node.parentElement?.closest(selector);
+    return ancestor && ancestor !== root && root.contains(ancestor) ? ancestor : null;
+  };
+
+  const end = () => {
+    if (current && current.text.trim()) ranges.push(current);
+    current = null;
+  };
+
+  while (walker.nextNode()) {
+    const node = walker.currentNode;
+    if (node.nodeType === Node.ELEMENT_NODE) {
+      if ((node as Element).localName === 'br') end();
+      continue;
+    }
+
+    const text = node as Text;
+    const block = findAncestor(text, BLOCK_SELECTOR) ?? root;
+    const isSkipped = Boolean(findAncestor(text, SKIPPED_SELECTOR));
+    if (block !== currentBlock || isSkipped) end();
+    currentBlock = block;
+
+    if (!isSkipped) {
+      current ??= { text: '', start: offset };
+      current.text += text.data;
+    }
+    offset += text.length;
+  }
+  end();
+
+  return ranges;
+}
+
+/**
+ * Run several providers, e.g. a dictionary and a grammar service. Where
+ * issues overlap the one of the earlier provider is kept
+ * @param providers - Providers in order of precedence
+ * @returns Provider reporting the issues of all of them
+ */
+export function combineProofingProviders(...providers: ProofingProvider[]): ProofingProvider {
+  return async (ranges, context) => {
+    const results = await Promise.all(providers.map(provider => provider(ranges, context)));
+    const issues: ProofingIssue[] = [];
+    results.flat().forEach(issue => {
+      if (!issues.some(kept => issue.start < kept.end && kept.start < issue.end)) issues.push(issue);
+    });
+    return issues.sort((a, b) => a.start - b.start);
+  };
+}
@@ -0,0 +1,136 @@
+/**
+ * Revision persistence for useEditorHistory
+ */
+
+/**
+ * Content snapshot taken when the editor content is saved
+ */
+export interface EditorRevision {
+  id: string;
+  /**
+   * Content in the editor's `format`
+   */
+  content: string;
+  /**
+   * Time of the snapshot, in milliseconds since the epoch
+   */
+  savedAt: number;
+  /**
+   * Short description, e.g. "Synced to Square"
+   */
+  label?: string;
+}
+
+/**
+ * Storage backend for revisions. Methods may return values directly or
+ * promises, so both synchronous and asynchronous stores fit.
+ */
+export interface RevisionStorage {
+  /**
+   * Revisions stored under a key, oldest first
+   */
+  list(key: string): EditorRevision[] | Promise<EditorRevision[]>;
+  add(key: string, revision: EditorRevision): void | Promise<void>;
+  remove(key: string, id: string): void | Promise<void>;
+}
+
+export const DEFAULT_REVISION_KEY_PREFIX = 'jodit-react-history:';
+
+export interface RevisionMessages {
+  noRevisions: string;
+  /**
+   * Option of a revision in the compare selects
+   */
+  revision: (savedAt: Date, label?: string) => string;
+  from: string;
+  to: string;
+  /**
+   * Option standing for the unsaved editor content
+   */
+  current: string;
+  layout: string;
+  inline: string;
+  sideBySide: string;
+  restore: string;
+}
+
+export const REVISION_MESSAGES: RevisionMessages = {
+  noRevisions: 'No saved revisions yet',
+  revision: (savedAt, label) => (label ? `${savedAt.toLocaleString()} – ${label}` : savedAt.toLocaleString()),
+  from: 'From',
+  to: 'To',
+  current: 'Current content',
+  layout: 'Diff layout',
+  inline: 'Inline',
+  sideBySide: 'Side by side',
+  restore: 'Restore the From revision'
+};
+
+export function isEditorRevision(value: unknown): value is EditorRevision {
+  const revision = value as EditorRevision | null;
+  return (
+    typeof revision === 'object' &&
+    revision !== null &&
+    typeof revision.id === 'string' &&
+    typeof revision.content === 'string' &&
+    typeof revision.savedAt === 'number' &&
+    (revision.label === undefined || typeof revision.label === 'string')
+  );
+}
+
+/**
+ * Keep revisions in memory for the lifetime of the page
+ * @returns Revision storage
+ */
+export function createMemoryRevisionStorage(): RevisionStorage {
+  const revisions = new Map<string, EditorRevision[]>();
+
+  return {
+    list(key) {
+      return [...(revisions.get(key) ?? [])];
+    },
+    add(key, revision) {
+      revisions.set(key, [...(revisions.get(key) ?? []), revision]);
+    },
+    remove(key, id) {
+      revisions.set(key, (revisions.get(key) ?? []).filter(revision => revision.id !== id));
+    }
+  };
+}
+
+/**
+ * Store revisions in window.localStorage as a JSON array per key
+ * @param prefix - Prefix added to every key
+ * @returns Revision storage
+ */
+export function createLocalStorageRevisionStorage(prefix: string = DEFAULT_REVISION_KEY_PREFIX): RevisionStorage {
+  const read = (key: string): EditorRevision[] => {
+    const stored = window.localStorage.getItem(prefix + key);
+    if (stored === null) return [];
+
+    try {
+      const revisions: unknown = JSON.parse(stored);
+      return Array.isArray(revisions) ? revisions.filter(isEditorRevision) : [];
+    } catch {
+      return [];
+    }
+  };
+
+  const write = (key: string, revisions: EditorRevision[]) => {
+    if (revisions.length) {
+      window.localStorage.setItem(prefix + key, JSON.stringify(revisions));
+    } else {
+      window.localStorage.removeItem(prefix + key);
+    }
+  };
+
+  return {
+    list: read,
+    add(key, revision) {
+      write(key, [...read(key), revision]);
+    },
+    remove(key, id) {
+      write(key, read(key).filter(revision => revision.id !== id));
+    }
+  };
+}
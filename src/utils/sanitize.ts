@@ -0,0 +1,397 @@
+/**
+ * HTML sanitization for editor input and output
+ */
+
+/**
+ * Custom rules applied while walking the document
+ */
+export interface SanitizeHooks {
+  /**
+   * Called for every allowed element before its attributes are checked.
+   * Return false to drop the element together with its content.
+   */
+  element?: (element: Element) => boolean | void;
+  /**
+   * Called for every attribute that passed the allow-list and URL policy.
+   * Return false to drop it, or a string to replace its value.
+   */
+  attribute?: (element: Element, name: string, value: string) => string | boolean | void;
+}
+
+export interface SanitizeOptions {
+  /**
+   * Tags to keep. Other tags are unwrapped, keeping their text content
+   */
+  allowedTags?: string[];
+  /**
+   * Attributes to keep per tag; the '*' entry applies to every tag
+   */
+  allowedAttributes?: Record<string, string[]>;
+  /**
+   * URL schemes accepted in link and media attributes. Relative URLs are always accepted
+   */
+  allowedSchemes?: string[];
+  /**
+   * Accept data:image URLs (PNG, JPEG, GIF, WebP) in img src
+   */
+  allowDataImages?: boolean;
+  hooks?: SanitizeHooks;
+}
+
+export const DEFAULT_ALLOWED_TAGS = [
+  'a', 'abbr', 'b', 'blockquote', 'br', 'caption', 'code', 'col', 'colgroup',
+  'dd', 'del', 'div', 'dl', 'dt', 'em', 'figcaption', 'figure', 'h1', 'h2',
+  'h3', 'h4', 'h5', 'h6', 'hr', 'i', 'img', 'ins', 'li', 'mark', 'ol', 'p',
+  'pre', 's', 'small', 'span', 'strike', 'strong', 'sub', 'sup', 'table',
+  'tbody', 'td', 'tfoot', 'th', 'thead', 'tr', 'u', 'ul'
+];
+
+export const DEFAULT_ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  '*': ['class', 'style', 'title', 'dir', 'lang'],
+  a: ['href', 'target', 'rel', 'name'],
+  img: ['src', 'alt', 'width', 'height', 'srcset'],
+  // Mention, hashtag and product reference nodes, see utils/suggestions
+  span: ['data-reference-type', 'data-reference-id', 'contenteditable'],
+  td: ['colspan', 'rowspan'],
+  th: ['colspan', 'rowspan', 'scope'],
+  col: ['span', 'width'],
+  colgroup: ['span'],
+  ol: ['start', 'type', 'reversed'],
+  table: ['border', 'cellpadding', 'cellspacing', 'width']
+};
+
+export const DEFAULT_ALLOWED_SCHEMES = ['http', 'https', 'mailto', 'tel'];
+
+/**
+ * Elements removed together with their content, whatever the allow-list says
+ */
+const DROPPED_TAGS = new Set([
+  'script', 'style', 'iframe', 'frame', 'frameset', 'object', 'embed',
+  'applet', 'noscript', 'template', 'svg', 'math', 'base', 'meta', 'link',
+  'title', 'form', 'input', 'button', 'textarea', 'select'
+]);
+
+const URL_ATTRIBUTES = new Set([
+  'href', 'src', 'action', 'formaction', 'cite', 'poster', 'background',
+  'longdesc', 'xlink:href', 'data'
+]);
+
+const DATA_IMAGE_PATTERN = /^data:image\/(png|jpe?g|gif|webp);base64,[a-z0-9+/=\s]+$/i;
+
+const UNSAFE_STYLE_PATTERN = /expression\s*\(|javascript:|vbscript:|-moz-binding|behavior\s*:|url\s*\(|@import/i;
+
+/**
+ * Extract the scheme of a URL the way a browser would: whitespace and
+ * control characters are ignored, so "java\tscript:" is still javascript
+ */
+function getScheme(url: string): string | null {
+  const normalized = Array.from(url).filter(char => char.charCodeAt(0) > 0x20).join('');
+  const match = /^([a-z][a-z0-9+.-]*):/i.exec(normalized);
+  return match ? match[1].toLowerCase() : null;
+}
+
+function isAllowedUrl(
+  url: string,
+  tag: string,
+  name: string,
+  options: Required<Pick<SanitizeOptions, 'allowedSchemes' | 'allowDataImages'>>
+): boolean {
+  const scheme = getScheme(url);
+  if (!scheme) return true;
+
+  if (scheme === 'data') {
+    return options.allowDataImages && tag === 'img' && name === 'src' && DATA_IMAGE_PATTERN.test(url.trim());
+  }
+
+  return options.allowedSchemes.includes(scheme);
+}
+
+function isAllowedSrcset(
+  srcset: string,
+  options: Required<Pick<SanitizeOptions, 'allowedSchemes' | 'allowDataImages'>>
+): boolean {
+  return srcset
+    .split(',')
+    .map(candidate => candidate.trim().split(/\s+/)[0])
+    .every(url => !url || isAllowedUrl(url, 'img', 'srcset', { ...options, allowDataImages: false }));
+}
+
+function resolvePolicy(options: SanitizeOptions) {
+  const allowedAttributes = options.allowedAttributes ?? DEFAULT_ALLOWED_ATTRIBUTES;
+
+  return {
+    allowedTags: new Set((options.allowedTags ?? DEFAULT_ALLOWED_TAGS).map(tag => tag.toLowerCase())),
+    getAllowedAttributes: (tag: string) =>
+      new Set([...(allowedAttributes['*'] ?? []), ...(allowedAttributes[tag] ?? [])]),
+    urlPolicy: {
+      allowedSchemes: (options.allowedSchemes ?? DEFAULT_ALLOWED_SCHEMES).map(scheme => scheme.toLowerCase()),
+      allowDataImages: options.allowDataImages ?? true
+    }
+  };
+}
+
+/**
+ * Sanitize an HTML string against an allow-list
+ * @param html - Untrusted HTML
+ * @param options - Sanitizer policy; omitted fields use the defaults
+ * @returns Sanitized HTML
+ */
+export function sanitizeHTML(html: string, options: SanitizeOptions = {}): string {
+  if (!html) return html;
+
+  const { allowedTags, getAllowedAttributes, urlPolicy } = resolvePolicy(options);
+  const { hooks = {} } = options;
+
+  // A template element parses without running scripts or loading resources
+  const template = document.createElement('template');
+  template.innerHTML = html;
+
+  const sanitizeAttributes = (element: Element, tag: string) => {
+    const allowed = getAllowedAttributes(tag);
+
+    Array.from(element.attributes).forEach(({ name, value }) => {
+      const attribute = name.toLowerCase();
+      let keep = allowed.has(attribute) && !attribute.startsWith('on');
+
+      if (keep && URL_ATTRIBUTES.has(attribute)) {
+        keep = isAllowedUrl(value, tag, attribute, urlPolicy);
+      } else if (keep && attribute === 'srcset') {
+        keep = isAllowedSrcset(value, urlPolicy);
+      } else if (keep && attribute === 'style') {
+        keep = !UNSAFE_STYLE_PATTERN.test(value);
+      }
+
+      if (keep && hooks.attribute) {
+        const result = hooks.attribute(element, attribute, value);
+        if (result === false) {
+          keep = false;
+        } else if (typeof result === 'string') {
+          element.setAttribute(name, result);
+        }
+      }
+
+      if (!keep) {
+        element.removeAttribute(name);
+      }
+    });
+
+    // Links opening a new window must not get a handle on this page
+    if (tag === 'a' && element.getAttribute('target') === '_blank') {
+      element.setAttribute('rel', 'noopener noreferrer');
+    }
+  };
+
+  const walk = (parent: Node) => {
+    Array.from(parent.childNodes).forEach(node => {
+      if (node.nodeType === Node.COMMENT_NODE || node.nodeType === Node.PROCESSING_INSTRUCTION_NODE) {
+        node.parentNode?.removeChild(node);
+        return;
+      }
+
+      if (node.nodeType !== Node.ELEMENT_NODE) return;
+
+      const element = node as Element;
+      const tag = element.localName.toLowerCase();
+
+      if (DROPPED_TAGS.has(tag) || (allowedTags.has(tag) && hooks.element?.(element) === false)) {
+        element.parentNode?.removeChild(element);
+        return;
+      }
+
+      walk(element);
+
+      if (!allowedTags.has(tag)) {
+        // Unwrap: keep the (already sanitized) children, drop the element
+        while (element.firstChild) {
+          element.parentNode?.insertBefore(element.firstChild, element);
+        }
+        element.parentNode?.removeChild(element);
+        return;
+      }
+
+      sanitizeAttributes(element, tag);
+    });
+  };
+
+  walk(template.content);
+
+  return template.innerHTML;
+}
+
+/**
+ * Elements whose content is text up to their closing tag, never markup
+ */
+const RAW_TEXT_TAGS = new Set([
+  'script', 'style', 'textarea', 'title', 'xmp', 'iframe', 'noembed', 'noframes', 'noscript', 'plaintext'
+]);
+
+const VOID_TAGS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr'
+]);
+
+const TOKEN_PATTERN = /<!--[\s\S]*?(?:--!?>|$)|<\/?([a-z][^\s/>]*)((?:[^>"']|"[^"]*"|'[^']*')*)>|<[!?/][^>]*>?/gi;
+
+const ATTRIBUTE_PATTERN = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00a0', tab: '\t', newline: '\n',
+  colon: ':', sol: '/', lpar: '(', rpar: ')', period: '.', comma: ',', semi: ';'
+};
+
+/**
+ * Decode character references in an attribute value. Returns null when the
+ * value holds a named reference this module does not know, so a URL check
+ * never passes on a value the browser would read differently
+ */
+function decodeAttribute(value: string): string | null {
+  let unknown = false;
+  const decoded = value.replace(/&(#x[0-9a-f]+|#\d+|[a-z][a-z0-9]*);?/gi, (reference, body: string) => {
+    if (body[0] === '#') {
+      const code = body[1] === 'x' || body[1] === 'X' ? parseInt(body.slice(2), 16) : parseInt(body.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : '\ufffd';
+    }
+    const character = NAMED_ENTITIES[body.toLowerCase()];
+    if (character === undefined) unknown = true;
+    return character ?? reference;
+  });
+
+  return unknown ? null : decoded;
+}
+
+const escapeText = (text: string) => text.replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const escapeAttribute = (value: string) =>
+  escapeText(value.replace(/&(?!#?[a-z0-9]+;)/gi, '&amp;').replace(/"/g, '&quot;'));
+
+/**
+ * Find where a dropped element ends, skipping nested elements of the same name
+ */
+function findElementEnd(html: string, tag: string, from: number): number {
+  if (VOID_TAGS.has(tag)) return from;
+
+  if (RAW_TEXT_TAGS.has(tag)) {
+    const close = new RegExp(`</${tag}[\\s/>]`, 'ig');
+    close.lastIndex = from;
+    const match = close.exec(html);
+    if (!match) return html.length;
+    const end = html.indexOf('>', match.index);
+    return end === -1 ? html.length : end + 1;
+  }
+
+  const pattern = new RegExp(`<(/?)${tag}(?=[\\s/>])(?:[^>"']|"[^"]*"|'[^']*')*>`, 'ig');
+  pattern.lastIndex = from;
+  let depth = 1;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(html))) {
+    depth += match[1] ? -1 : 1;
+    if (depth === 0) return pattern.lastIndex;
+  }
+
+  return html.length;
+}
+
+/**
+ * Sanitize an HTML string without a DOM, for server rendering. Applies the
+ * same allow-list and URL policy as sanitizeHTML and always returns
+ * balanced markup; hooks are not supported since there are no elements
+ * to pass to them
+ * @param html - Untrusted HTML
+ * @param options - Sanitizer policy; omitted fields use the defaults
+ * @returns Sanitized HTML
+ */
+export function sanitizeHTMLString(html: string, options: SanitizeOptions = {}): string {
+  if (!html) return html;
+
+  const { allowedTags, getAllowedAttributes, urlPolicy } = resolvePolicy(options);
+
+  const sanitizeAttributes = (tag: string, source: string) => {
+    const allowed = getAllowedAttributes(tag);
+    const attributes = new Map<string, { raw: string; value: string | null }>();
+
+    for (const [, name, doubleQuoted, singleQuoted, unquoted] of source.matchAll(ATTRIBUTE_PATTERN)) {
+      const attribute = name.toLowerCase();
+      // Browsers keep the first of duplicated attributes
+      if (attributes.has(attribute) || !allowed.has(attribute) || attribute.startsWith('on')) continue;
+
+      const raw = doubleQuoted ?? singleQuoted ?? unquoted ?? '';
+      const value = decodeAttribute(raw);
+      let keep = true;
+
+      if (URL_ATTRIBUTES.has(attribute)) {
+        keep = value !== null && isAllowedUrl(value, tag, attribute, urlPolicy);
+      } else if (attribute === 'srcset') {
+        keep = value !== null && isAllowedSrcset(value, urlPolicy);
+      } else if (attribute === 'style') {
+        keep = value !== null && !UNSAFE_STYLE_PATTERN.test(value);
+      }
+
+      if (keep) {
+        attributes.set(attribute, { raw, value });
+      }
+    }
+
+    if (tag === 'a' && attributes.get('target')?.value === '_blank') {
+      attributes.set('rel', { raw: 'noopener noreferrer', value: 'noopener noreferrer' });
+    }
+
+    return Array.from(attributes, ([name, { raw }]) => ` ${name}="${escapeAttribute(raw)}"`).join('');
+  };
+
+  const output: string[] = [];
+  const open: string[] = [];
+  const pattern = new RegExp(TOKEN_PATTERN.source, 'gi');
+  let index = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(html))) {
+    output.push(escapeText(html.slice(index, match.index)));
+    index = pattern.lastIndex;
+
+    const [token, name, attributes = ''] = match;
+    // Comments, doctypes and processing instructions
+    if (!name) continue;
+
+    const tag = name.toLowerCase();
+    const closing = token[1] === '/';
+
+    if (!closing && DROPPED_TAGS.has(tag)) {
+      index = findElementEnd(html, tag, index);
+      pattern.lastIndex = index;
+      continue;
+    }
+
+    // Unwrap: keep the content, drop the tag
+    if (!allowedTags.has(tag)) continue;
+
+    if (closing) {
+      const position = open.lastIndexOf(tag);
+      while (position !== -1 && open.length > position) {
+        output.push(`</${open.pop()}>`);
+      }
+      continue;
+    }
+
+    output.push(`<${tag}${sanitizeAttributes(tag, attributes)}>`);
+    if (!VOID_TAGS.has(tag)) {
+      open.push(tag);
+    }
+  }
+
+  output.push(escapeText(html.slice(index)));
+  while (open.length) {
+    output.push(`</${open.pop()}>`);
+  }
+
+  return output.join('');
+}
+
+/**
+ * Apply the component's sanitize prop to a value
+ * @param html - HTML to sanitize
+ * @param sanitize - true for the default policy, false to disable, or a custom policy
+ * @returns Sanitized HTML, or the input unchanged when sanitization is disabled
+ */
+export function applySanitizePolicy(html: string, sanitize: boolean | SanitizeOptions = true): string {
+  if (sanitize === false) return html;
+  return sanitizeHTML(html, sanitize === true ? {} : sanitize);
+}
@@ -0,0 +1,78 @@
+/**
+ * Suggestion provider for Square catalog items and categories
+ */
+import { SquareCatalogObject, SquareCatalogObjectType } from '../services/types/square.types';
+import { formatMoney } from './currency';
+import type { Suggestion, SuggestionProvider } from './suggestions';
+
+/**
+ * Search the catalog, typically through a backend proxy for Square's
+ * SearchCatalogItems endpoint, since the access token must stay on the server
+ */
+export type SquareCatalogSearch = (query: string, options: { signal: AbortSignal }) => Promise<SquareCatalogObject[]>;
+
+export interface SquareCatalogSuggestionOptions {
+  /**
+   * Catalog objects searched locally, or a search function
+   */
+  catalog: SquareCatalogObject[] | SquareCatalogSearch;
+  /**
+   * Maximum number of suggestions. Defaults to 8
+   */
+  limit?: number;
+}
+
+export const DEFAULT_SQUARE_SUGGESTION_LIMIT = 8;
+
+/**
+ * Text searched for an object: its name and, for items, variation SKUs
+ */
+function getSearchText(object: SquareCatalogObject): string {
+  if (object.category_data) return object.category_data.name;
+
+  const skus = (object.item_data?.variations ?? []).map(variation => variation.item_variation_data?.sku ?? '');
+  return [object.item_data?.name ?? '', ...skus].join(' ');
+}
+
+/**
+ * Map a catalog object to a suggestion
+ * @param object - Item or category
+ * @returns Suggestion, or null for other object types and deleted objects
+ */
+export function toCatalogSuggestion(object: SquareCatalogObject): Suggestion | null {
+  if (object.is_deleted) return null;
+
+  if (object.type === SquareCatalogObjectType.CATEGORY && object.category_data) {
+    return { id: object.id, label: object.category_data.name, description: 'Category' };
+  }
+  if (object.type !== SquareCatalogObjectType.ITEM || !object.item_data) return null;
+
+  const variation = object.item_data.variations?.[0]?.item_variation_data;
+  const description = [
+    variation?.price_money ? formatMoney(variation.price_money.amount, variation.price_money.currency) : '',
+    variation?.sku ?? ''
+  ].filter(Boolean).join(' · ');
+
+  return { id: object.id, label: object.item_data.name, description: description || undefined };
+}
+
+/**
+ * Create a provider that suggests Square catalog items and categories
+ * @param options - Catalog source and result limit
+ * @returns Suggestion provider, e.g. for the '/product' trigger
+ */
+export function createSquareCatalogSuggestionProvider(options: SquareCatalogSuggestionOptions): SuggestionProvider {
+  const { catalog, limit = DEFAULT_SQUARE_SUGGESTION_LIMIT } = options;
+
+  return async (query, { signal }) => {
+    const normalized = query.trim().toLowerCase();
+    const objects = typeof catalog === 'function'
+      ? await catalog(query, { signal })
+      : catalog.filter(object => getSearchText(object).toLowerCase().includes(normalized));
+
+    return objects
+      .map(toCatalogSuggestion)
+      .filter((suggestion): suggestion is Suggestion => suggestion !== null)
+      .slice(0, limit);
+  };
+}
@@ -0,0 +1,243 @@
+/**
+ * Square catalog item description utilities
+ * https://developer.squareup.com/reference/square/objects/CatalogItem
+ */
+import { SquareCatalogItem } from '../services/types/square.types';
+import { sanitizeHTML, sanitizeHTMLString, SanitizeOptions } from './sanitize';
+
+/**
+ * HTML elements Square accepts in CatalogItem.description_html
+ */
+export const SQUARE_DESCRIPTION_TAGS = ['p', 'br', 'strong', 'b', 'em', 'i', 'u', 'ul', 'ol', 'li', 'a'];
+
+/**
+ * Sanitizer policy matching what Square keeps in description_html
+ */
+export const SQUARE_DESCRIPTION_SANITIZE_OPTIONS: SanitizeOptions = {
+  allowedTags: SQUARE_DESCRIPTION_TAGS,
+  allowedAttributes: { a: ['href'] },
+  allowedSchemes: ['http', 'https', 'mailto'],
+  allowDataImages: false
+};
+
+/**
+ * Maximum length of the plain text description
+ */
+export const SQUARE_DESCRIPTION_MAX_LENGTH = 4096;
+
+/**
+ * Toolbar limited to formatting Square can store
+ */
+export const SQUARE_DESCRIPTION_BUTTONS = [
+  'bold', 'italic', 'underline', '|', 'ul', 'ol', '|', 'link', '|', 'undo', 'redo'
+];
+
+/**
+ * Jodit options applied in Square description mode
+ */
+export const SQUARE_DESCRIPTION_CONFIG = {
+  buttons: SQUARE_DESCRIPTION_BUTTONS,
+  buttonsMD: SQUARE_DESCRIPTION_BUTTONS,
+  buttonsSM: SQUARE_DESCRIPTION_BUTTONS,
+  buttonsXS: SQUARE_DESCRIPTION_BUTTONS,
+  enter: 'p',
+  askBeforePasteHTML: false,
+  askBeforePasteFromWord: false
+};
+
+/**
+ * Description fields of a Square catalog item
+ */
+export type SquareDescription = Required<Pick<SquareCatalogItem, 'description' | 'description_html'>>;
+
+export interface SquareDescriptionBudget {
+  used: number;
+  limit: number;
+  remaining: number;
+  exceeded: boolean;
+}
+
+/**
+ * Block elements Square does not support but whose content should stay a paragraph
+ */
+const BLOCK_TAGS = new Set([
+  'div', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote', 'pre', 'figure',
+  'figcaption', 'address', 'section', 'article', 'header', 'footer', 'caption'
+]);
+
+/**
+ * Turn unsupported block elements into paragraphs so their text does not
+ * run into neighbouring content once the tags are stripped
+ */
+function convertBlocksToParagraphs(root: ParentNode): void {
+  Array.from(root.querySelectorAll('*')).forEach(element => {
+    const tag = element.localName;
+
+    if (BLOCK_TAGS.has(tag)) {
+      const paragraph = element.ownerDocument.createElement('p');
+      while (element.firstChild) {
+        paragraph.appendChild(element.firstChild);
+      }
+      element.replaceWith(paragraph);
+    } else if (tag === 'tr') {
+      const paragraph = element.ownerDocument.createElement('p');
+      paragraph.textContent = Array.from(element.children)
+        .map(cell => cell.textContent?.trim())
+        .filter(Boolean)
+        .join(' | ');
+      element.replaceWith(paragraph);
+    }
+  });
+
+  // Paragraphs nested inside paragraphs are invalid; flatten them
+  Array.from(root.querySelectorAll('p p')).forEach(inner => {
+    inner.replaceWith(...Array.from(inner.childNodes));
+  });
+}
+
+/**
+ * Reduce editor HTML to the subset Square accepts in description_html
+ * @param html - Editor HTML
+ * @returns Square compatible HTML
+ */
+export function toSquareDescriptionHTML(html: string): string {
+  const template = document.createElement('template');
+  template.innerHTML = html;
+  convertBlocksToParagraphs(template.content);
+
+  return sanitizeHTML(template.innerHTML, SQUARE_DESCRIPTION_SANITIZE_OPTIONS)
+    .replace(/<p>(\s|&nbsp;|<br>)*<\/p>/g, '')
+    .trim();
+}
+
+const TABLE_TAGS = ['table', 'caption', 'thead', 'tbody', 'tfoot', 'tr', 'th', 'td'];
+
+/**
+ * String-only version of toSquareDescriptionHTML for markup rendered
+ * without a DOM, such as the static preview on the server. Blocks become
+ * paragraphs the same way, so the editor keeps the layout of the preview
+ * @param html - Editor HTML
+ * @returns Square compatible HTML
+ */
+export function toSquareDescriptionHTMLString(html: string): string {
+  // Normalized markup: lowercase tags without attributes on blocks and tables
+  const normalized = sanitizeHTMLString(html, {
+    ...SQUARE_DESCRIPTION_SANITIZE_OPTIONS,
+    allowedTags: [...SQUARE_DESCRIPTION_TAGS, ...BLOCK_TAGS, ...TABLE_TAGS]
+  });
+
+  const converted = normalized
+    .replace(/<tr>([\s\S]*?)<\/tr>/g, (_, row: string) => {
+      const cells = Array.from(row.matchAll(/<(td|th)>([\s\S]*?)<\/\1>/g), ([, , cell]) =>
+        cell.replace(/<[^>]*>/g, '').trim());
+      return `<p>${cells.filter(Boolean).join(' | ')}</p>`;
+    })
+    .replace(new RegExp(`<(/?)(${Array.from(BLOCK_TAGS).join('|')})>`, 'g'), '<$1p>');
+
+  // Paragraphs nested inside paragraphs are invalid; keep the outermost
+  let depth = 0;
+  const flattened = converted.replace(/<(\/?)p>/g, (tag, closing: string) => {
+    depth += closing ? -1 : 1;
+    return (closing ? depth === 0 : depth === 1) ? tag : '';
+  });
+
+  return sanitizeHTMLString(flattened, SQUARE_DESCRIPTION_SANITIZE_OPTIONS)
+    .replace(/<p>(\s|&nbsp;|<br>)*<\/p>/g, '')
+    .trim();
+}
+
+/**
+ * Convert HTML to the plain text Square shows where HTML is not supported.
+ * Paragraphs are separated by blank lines and list items are prefixed.
+ * @param html - HTML to convert
+ * @returns Plain text
+ */
+export function htmlToPlainText(html: string): string {
+  const template = document.createElement('template');
+  template.innerHTML = html;
+
+  const parts: string[] = [];
+
+  const walk = (node: Node, listPrefix: string | null) => {
+    node.childNodes.forEach(child => {
+      if (child.nodeType === Node.TEXT_NODE) {
+        parts.push((child.nodeValue ?? '').replace(/\s+/g, ' '));
+        return;
+      }
+      if (child.nodeType !== Node.ELEMENT_NODE) return;
+
+      const element = child as Element;
+      switch (element.localName) {
+        case 'br':
+          parts.push('\n');
+          break;
+        case 'ul':
+        case 'ol':
+          Array.from(element.children).forEach((item, index) => {
+            parts.push(element.localName === 'ol' ? `\n${index + 1}. ` : '\n- ');
+            walk(item, element.localName);
+          });
+          parts.push('\n\n');
+          break;
+        case 'p':
+        case 'div':
+        case 'h1':
+        case 'h2':
+        case 'h3':
+        case 'h4':
+        case 'h5':
+        case 'h6':
+        case 'blockquote':
+        case 'tr':
+          walk(element, listPrefix);
+          parts.push(listPrefix ? '\n' : '\n\n');
+          break;
+        default:
+          walk(element, listPrefix);
+      }
+    });
+  };
+
+  walk(template.content, null);
+
+  return parts
+    .join('')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n[ \t]+/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Build the Square description fields from editor HTML
+ * @param html - Editor HTML
+ * @returns description_html and plain description
+ */
+export function toSquareDescription(html: string): SquareDescription {
+  const descriptionHtml = toSquareDescriptionHTML(html);
+
+  return {
+    description_html: descriptionHtml,
+    description: htmlToPlainText(descriptionHtml)
+  };
+}
+
+/**
+ * Measure a description against Square's length limit
+ * @param html - Editor HTML
+ * @param limit - Maximum plain text length
+ * @returns Budget usage
+ */
+export function getSquareDescriptionBudget(
+  html: string,
+  limit: number = SQUARE_DESCRIPTION_MAX_LENGTH
+): SquareDescriptionBudget {
+  const used = htmlToPlainText(toSquareDescriptionHTML(html)).length;
+
+  return {
+    used,
+    limit,
+    remaining: limit - used,
+    exceeded: used > limit
+  };
+}
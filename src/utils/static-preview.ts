@@ -0,0 +1,53 @@
+/**
+ * Markup rendered in place of the editor until Jodit is mounted. It is
+ * built from strings only, so the server and the hydrating client produce
+ * the same HTML.
+ */
+import type { CSSProperties } from 'react';
+import { markdownToHTML } from './markdown';
+import { sanitizeHTMLString, SanitizeOptions } from './sanitize';
+import { toSquareDescriptionHTMLString } from './square-description';
+
+export interface StaticPreviewOptions {
+  format?: 'html' | 'markdown';
+  sanitize?: boolean | SanitizeOptions;
+  squareDescriptionMode?: boolean;
+}
+
+/**
+ * Jodit's default minHeight
+ */
+const DEFAULT_MIN_HEIGHT = 200;
+
+/**
+ * Convert initial content to the HTML shown before the editor loads
+ * @param content - Initial value in the component's content format
+ * @param options - Format and sanitizer policy of the component
+ * @returns Sanitized HTML
+ */
+export function renderStaticHTML(
+  content: string,
+  { format = 'html', sanitize = true, squareDescriptionMode = false }: StaticPreviewOptions = {}
+): string {
+  const html = format === 'markdown' ? markdownToHTML(content) : content;
+
+  const sanitized = sanitize === false ? html : sanitizeHTMLString(html, sanitize === true ? {} : sanitize);
+  // Like the editor, Square mode applies after the sanitizer policy
+  return squareDescriptionMode ? toSquareDescriptionHTMLString(sanitized) : sanitized;
+}
+
+/**
+ * Size of the preview, reserving the space the editor will take so
+ * nothing below it moves when it mounts
+ * @param config - Jodit config
+ * @returns Inline style for the preview container
+ */
+export function getStaticPreviewStyle(config: { height?: unknown; minHeight?: unknown }): CSSProperties {
+  const toSize = (size: unknown) => (typeof size === 'number' || typeof size === 'string' ? size : undefined);
+  const height = toSize(config.height);
+
+  return {
+    minHeight: toSize(config.minHeight) ?? DEFAULT_MIN_HEIGHT,
+    height: height === 'auto' ? undefined : height
+  };
+}
@@ -0,0 +1,200 @@
+/**
+ * Watches the text before the caret of a JoditEditor for triggers, runs
+ * the search and hands the accepted item over together with the range of
+ * the trigger and query. Only the latest query is kept; earlier requests
+ * are aborted.
+ */
+import type { Jodit } from 'jodit';
+import { findTriggerMatch, Suggestion, SuggestionProvider, SuggestionTrigger, TriggerMatch } from './suggestions';
+
+/**
+ * Open suggestion list
+ */
+export interface SuggestionState {
+  trigger: SuggestionTrigger;
+  query: string;
+  items: Suggestion[];
+  activeIndex: number;
+  loading: boolean;
+  /**
+   * Caret position relative to the editor's workplace
+   */
+  position: { top: number; left: number };
+}
+
+export interface SuggestionControllerOptions {
+  /**
+   * Active triggers; none disables the controller
+   */
+  getTriggers: () => SuggestionTrigger[];
+  search: SuggestionProvider;
+  /**
+   * Called whenever the list opens, closes or changes
+   */
+  onStateChange: (state: SuggestionState | null) => void;
+  /**
+   * Apply an accepted item, replacing the trigger and query in `range`
+   */
+  onAccept: (editor: Jodit, range: Range, trigger: SuggestionTrigger, suggestion: Suggestion) => void;
+  onError: (error: Error) => void;
+}
+
+export interface SuggestionController {
+  readonly state: SuggestionState | null;
+  /**
+   * Open, update or close the list for the text before the caret
+   */
+  update(editor: Jodit): void;
+  /**
+   * Navigate and accept with the keyboard
+   * @returns True when the key was used by the list
+   */
+  keyDown(editor: Jodit, event: KeyboardEvent): boolean;
+  /**
+   * Accept the item at an index
+   */
+  select(editor: Jodit, index: number): void;
+  close(): void;
+}
+
+interface CaretMatch extends TriggerMatch {
+  node: Text;
+  end: number;
+}
+
+/**
+ * Trigger match in the text node holding a collapsed caret
+ */
+function findCaretMatch(editor: Jodit, triggers: SuggestionTrigger[]): CaretMatch | null {
+  const root = editor.editor;
+  const selection = root.ownerDocument.getSelection();
+  if (!selection?.rangeCount || !selection.isCollapsed) return null;
+
+  const { startContainer: node, startOffset: end } = selection.getRangeAt(0);
+  if (node.nodeType !== Node.TEXT_NODE || !root.contains(node)) return null;
+
+  const match = findTriggerMatch((node as Text).data.slice(0, end), triggers);
+  return match && { ...match, node: node as Text, end };
+}
+
+function getCaretPosition(editor: Jodit, match: CaretMatch): SuggestionState['position'] {
+  const range = editor.editor.ownerDocument.createRange();
+  range.setStart(match.node, match.start);
+  range.setEnd(match.node, match.end);
+
+  const rect = range.getClientRects?.()[0] ?? range.getBoundingClientRect?.();
+  if (!rect) return { top: 0, left: 0 };
+
+  const origin = editor.workplace.getBoundingClientRect();
+  return { top: rect.bottom - origin.top, left: rect.left - origin.left };
+}
+
+/**
+ * Create a suggestion controller
+ * @param options - Triggers, search and callbacks
+ * @returns Suggestion controller
+ */
+export function createSuggestionController(options: SuggestionControllerOptions): SuggestionController {
+  let state: SuggestionState | null = null;
+  let request: AbortController | null = null;
+  // Trigger closed with Escape; it stays closed until the caret leaves it
+  let dismissed: { node: Text; start: number } | null = null;
+
+  const setState = (next: SuggestionState | null) => {
+    state = next;
+    options.onStateChange(next);
+  };
+
+  const close = () => {
+    request?.abort();
+    request = null;
+    if (state) setState(null);
+  };
+
+  const search = (match: CaretMatch, position: SuggestionState['position']) => {
+    request?.abort();
+    const controller = new AbortController();
+    request = controller;
+
+    setState({
+      trigger: match.trigger,
+      query: match.query,
+      items: state?.trigger === match.trigger ? state.items : [],
+      activeIndex: 0,
+      loading: true,
+      position
+    });
+
+    options.search(match.query, { trigger: match.trigger, signal: controller.signal }).then(
+      items => {
+        if (request !== controller || !state) return;
+        request = null;
+        setState({ ...state, items, activeIndex: 0, loading: false });
+      },
+      error => {
+        // Superseded and closed requests fail silently
+        if (request !== controller) return;
+        request = null;
+        setState(null);
+        options.onError(error instanceof Error ? error : new Error(String(error)));
+      }
+    );
+  };
+
+  const select = (editor: Jodit, index: number) => {
+    const suggestion = state?.items[index];
+    const match = findCaretMatch(editor, options.getTriggers());
+    close();
+    if (!suggestion || !match) return;
+
+    const range = editor.editor.ownerDocument.createRange();
+    range.setStart(match.node, match.start);
+    range.setEnd(match.node, match.end);
+    options.onAccept(editor, range, match.trigger, suggestion);
+  };
+
+  return {
+    get state() {
+      return state;
+    },
+    update(editor) {
+      const triggers = options.getTriggers();
+      const match = triggers.length ? findCaretMatch(editor, triggers) : null;
+
+      if (dismissed && (dismissed.node !== match?.node || dismissed.start !== match.start)) {
+        dismissed = null;
+      }
+      if (!match || dismissed) {
+        close();
+        return;
+      }
+      if (state && state.trigger === match.trigger && state.query === match.query) return;
+
+      search(match, getCaretPosition(editor, match));
+    },
+    keyDown(editor, event) {
+      if (!state) return false;
+
+      if (event.key === 'Escape') {
+        const match = findCaretMatch(editor, options.getTriggers());
+        dismissed = match && { node: match.node, start: match.start };
+        close();
+      } else if (!state.items.length) {
+        return false;
+      } else if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+        const step = event.key === 'ArrowDown' ? 1 : -1;
+        const count = state.items.length;
+        setState({ ...state, activeIndex: (state.activeIndex + step + count) % count });
+      } else if (event.key === 'Enter' || event.key === 'Tab') {
+        select(editor, state.activeIndex);
+      } else {
+        return false;
+      }
+
+      event.preventDefault();
+      return true;
+    },
+    select,
+    close
+  };
+}
@@ -0,0 +1,194 @@
+/**
+ * Trigger-based autocomplete for mentions, hashtags and product references.
+ * Accepted suggestions become atomic inline reference nodes that serialize
+ * to data attributes.
+ */
+
+/**
+ * Character sequence that opens the suggestion list, e.g. '@'
+ */
+export interface SuggestionTrigger {
+  trigger: string;
+  /**
+   * Stored in data-reference-type, e.g. 'mention'
+   */
+  type: string;
+  /**
+   * Text shown before the label in the inserted node. Defaults to the trigger
+   */
+  marker?: string;
+  /**
+   * Let the query contain spaces, for multi-word names. Defaults to false
+   */
+  allowSpaces?: boolean;
+}
+
+export interface Suggestion {
+  /**
+   * Stored in data-reference-id
+   */
+  id: string;
+  /**
+   * Text of the inserted node and the list entry
+   */
+  label: string;
+  /**
+   * Secondary text shown in the list only, e.g. a price or SKU
+   */
+  description?: string;
+}
+
+export interface SuggestionContext {
+  trigger: SuggestionTrigger;
+  /**
+   * Aborted when the query changes or the list closes
+   */
+  signal: AbortSignal;
+}
+
+/**
+ * Find suggestions for the text typed after a trigger
+ */
+export type SuggestionProvider = (query: string, context: SuggestionContext) => Promise<Suggestion[]>;
+
+/**
+ * Reference parsed back from editor content
+ */
+export interface ContentReference {
+  type: string;
+  id: string;
+  label: string;
+}
+
+export const DEFAULT_SUGGESTION_TRIGGERS: SuggestionTrigger[] = [
+  { trigger: '@', type: 'mention' },
+  { trigger: '#', type: 'hashtag' },
+  { trigger: '/product', type: 'product', marker: '', allowSpaces: true }
+];
+
+export const REFERENCE_TYPE_ATTRIBUTE = 'data-reference-type';
+export const REFERENCE_ID_ATTRIBUTE = 'data-reference-id';
+
+/**
+ * Queries longer than this are treated as ordinary text
+ */
+const MAX_QUERY_LENGTH = 60;
+
+export interface TriggerMatch {
+  trigger: SuggestionTrigger;
+  query: string;
+  /**
+   * Index of the trigger in the text
+   */
+  start: number;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Find the trigger the text ends in. Triggers count at the start of the
+ * text or after whitespace; word triggers such as '/product' also need a
+ * space or the end of the text after them
+ * @param text - Text before the caret
+ * @param triggers - Triggers to look for
+ * @returns The match closest to the caret, or null
+ */
+export function findTriggerMatch(text: string, triggers: SuggestionTrigger[]): TriggerMatch | null {
+  let best: TriggerMatch | null = null;
+
+  for (const trigger of triggers) {
+    const pattern = new RegExp(
+      `(^|\\s)${escapeRegExp(trigger.trigger)}(${trigger.allowSpaces ? '[^\\n]' : '\\S'}*)$`
+    );
+    const match = pattern.exec(text);
+    if (!match) continue;
+
+    const [, before, rest] = match;
+    if (/\w$/.test(trigger.trigger) && rest && !/^\s/.test(rest)) continue;
+
+    const query = rest.trimStart();
+    const start = match.index + before.length;
+    if (query.length > MAX_QUERY_LENGTH) continue;
+    // At the same position the longer trigger wins, so '/product' beats '/'
+    if (best && (best.start > start || (best.start === start && best.trigger.trigger.length > trigger.trigger.length))) {
+      continue;
+    }
+
+    best = { trigger, query, start };
+  }
+
+  return best;
+}
+
+/**
+ * Create the inline node for an accepted suggestion. It is not editable,
+ * so the caret skips it and backspace deletes it as a whole
+ * @param document - Document of the editor
+ * @param trigger - Trigger the suggestion was found for
+ * @param suggestion - Accepted suggestion
+ * @returns Reference element
+ */
+export function createReferenceNode(document: Document, trigger: SuggestionTrigger, suggestion: Suggestion): HTMLElement {
+  const reference = document.createElement('span');
+  reference.className = `jodit-react-reference jodit-react-reference_${trigger.type}`;
+  reference.setAttribute(REFERENCE_TYPE_ATTRIBUTE, trigger.type);
+  reference.setAttribute(REFERENCE_ID_ATTRIBUTE, suggestion.id);
+  reference.setAttribute('contenteditable', 'false');
+  reference.textContent = `${trigger.marker ?? trigger.trigger}${suggestion.label}`;
+  return reference;
+}
+
+/**
+ * Replace a range with a reference node and put the caret after it
+ * @param range - Trigger and query to replace
+ * @param trigger - Trigger the suggestion was found for
+ * @param suggestion - Accepted suggestion
+ * @returns Inserted reference element
+ */
+export function insertReference(range: Range, trigger: SuggestionTrigger, suggestion: Suggestion): HTMLElement {
+  const document = range.startContainer.ownerDocument!;
+  range.deleteContents();
+
+  // A non-breaking space keeps the caret visible after the atomic node
+  const space = document.createTextNode('\u00a0');
+  const reference = createReferenceNode(document, trigger, suggestion);
+  range.insertNode(space);
+  range.insertNode(reference);
+
+  const selection = document.getSelection();
+  if (selection) {
+    const caret = document.createRange();
+    caret.setStart(space, 1);
+    caret.collapse(true);
+    selection.removeAllRanges();
+    selection.addRange(caret);
+  }
+
+  return reference;
+}
+
+/**
+ * List the references in editor content, e.g. to link mentioned products
+ * @param html - Editor HTML
+ * @returns References in document order
+ */
+export function getContentReferences(html: string): ContentReference[] {
+  const template = document.createElement('template');
+  template.innerHTML = html;
+
+  return Array.from(template.content.querySelectorAll(`[${REFERENCE_TYPE_ATTRIBUTE}][${REFERENCE_ID_ATTRIBUTE}]`))
+    .map(element => ({
+      type: element.getAttribute(REFERENCE_TYPE_ATTRIBUTE)!,
+      id: element.getAttribute(REFERENCE_ID_ATTRIBUTE)!,
+      label: element.textContent ?? ''
+    }));
+}
+
+/**
+ * Route queries to one provider per trigger type
+ * @param providers - Providers keyed by trigger type
+ * @returns Provider answering unknown types with no suggestions
+ */
+export function combineSuggestionProviders(providers: Record<string, SuggestionProvider>): SuggestionProvider {
+  return (query, context) => providers[context.trigger.type]?.(query, context) ?? Promise.resolve([]);
+}
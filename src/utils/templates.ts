@@ -0,0 +1,231 @@
+/**
+ * Description templates with {{placeholder}} variables filled from
+ * Spocket products or Square catalog items
+ */
+import type { SpocketProduct } from '../services/types/spocket.types';
+import type { SquareCatalogItem } from '../services/types/square.types';
+import type { EditorCommand } from './commands';
+import { decimalToSmallestUnit, formatMoney } from './currency';
+
+export interface DescriptionTemplate {
+  id: string;
+  name: string;
+  /**
+   * HTML with {{variable}} placeholders
+   */
+  html: string;
+}
+
+/**
+ * Placeholder values by variable name, e.g. { 'product.title': 'Tee' }
+ */
+export type TemplateVariables = Record<string, string>;
+
+export interface TemplateVariableOptions {
+  /**
+   * Variant (Spocket) or variation (Square) used for variant.* variables.
+   * Defaults to the first one
+   */
+  variantId?: string;
+  /**
+   * Additional or overriding values, e.g. processing_time for Square items
+   */
+  extra?: TemplateVariables;
+}
+
+export interface RenderTemplateOptions {
+  /**
+   * Replacement for placeholders without a value. Defaults to keeping the
+   * placeholder text
+   */
+  missing?: (name: string) => string;
+}
+
+/**
+ * Variables filled from product data, with a description for pickers
+ */
+export const TEMPLATE_VARIABLES: { name: string; description: string }[] = [
+  { name: 'product.title', description: 'Product name' },
+  { name: 'product.description', description: 'Plain text description' },
+  { name: 'product.sku', description: 'SKU of the product or its first variant' },
+  { name: 'product.price', description: 'Price with currency' },
+  { name: 'product.tags', description: 'Tags, comma separated' },
+  { name: 'product.category', description: 'First category' },
+  { name: 'product.weight', description: 'Weight with unit' },
+  { name: 'product.image', description: 'URL of the first image' },
+  { name: 'variant.title', description: 'Variant name' },
+  { name: 'variant.sku', description: 'Variant SKU' },
+  { name: 'variant.price', description: 'Variant price with currency' },
+  { name: 'processing_time', description: 'Time before the order ships' },
+  { name: 'shipping_origin', description: 'Country the order ships from' }
+];
+
+export interface TemplateMessages {
+  noTemplates: string;
+  /**
+   * Name of the template list
+   */
+  templates: string;
+  /**
+   * Name of the template and preview buttons
+   */
+  view: string;
+  template: string;
+  preview: string;
+  insertTemplate: string;
+  insertVariable: string;
+  chooseVariable: string;
+  /**
+   * Descriptions of the variables in the picker, by variable name
+   */
+  variables: Record<string, string>;
+}
+
+export const TEMPLATE_MESSAGES: TemplateMessages = {
+  noTemplates: 'No templates',
+  templates: 'Templates',
+  view: 'Template view',
+  template: 'Template',
+  preview: 'Preview',
+  insertTemplate: 'Insert template',
+  insertVariable: 'Insert variable',
+  chooseVariable: 'Choose…',
+  variables: Object.fromEntries(TEMPLATE_VARIABLES.map(({ name, description }) => [name, description]))
+};
+
+export const DEFAULT_TEMPLATES: DescriptionTemplate[] = [
+  {
+    id: 'materials',
+    name: 'Materials and care',
+    html: '<h3>{{product.title}}</h3><p>{{product.description}}</p>' +
+      '<h4>Materials</h4><ul><li><br></li></ul><h4>Care</h4><ul><li><br></li></ul>'
+  },
+  {
+    id: 'sizing',
+    name: 'Sizing',
+    html: '<h4>Sizing</h4><table><thead><tr><th>Size</th><th>Chest</th><th>Length</th></tr></thead>' +
+      '<tbody><tr><td>{{variant.title}}</td><td><br></td><td><br></td></tr></tbody></table>' +
+      '<p>SKU: {{variant.sku}}</p>'
+  },
+  {
+    id: 'shipping',
+    name: 'Shipping',
+    html: '<h4>Shipping</h4><p>Ships from {{shipping_origin}} within {{processing_time}} of your order.</p>'
+  }
+];
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+const escapeHTML = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const formatDecimal = (price: number, currency: string) =>
+  formatMoney(decimalToSmallestUnit(price, currency), currency);
+
+const isSpocketProduct = (product: SpocketProduct | SquareCatalogItem): product is SpocketProduct =>
+  'title' in product && 'variants' in product;
+
+/**
+ * Drop variables without a value, so they count as missing
+ */
+const compact = (variables: Record<string, string | undefined>): TemplateVariables =>
+  Object.fromEntries(Object.entries(variables).filter((entry): entry is [string, string] => Boolean(entry[1])));
+
+function getSpocketVariables(product: SpocketProduct, variantId?: string): TemplateVariables {
+  const variant = product.variants.find(candidate => candidate.id === variantId) ?? product.variants[0];
+
+  return compact({
+    'product.title': product.title,
+    'product.description': product.description,
+    'product.sku': product.sku,
+    'product.price': formatDecimal(product.price, product.currency),
+    'product.tags': product.tags.join(', '),
+    'product.category': product.categories[0]?.name,
+    'product.weight': product.weight ? `${product.weight} ${product.weight_unit}` : undefined,
+    'product.image': [...product.images].sort((a, b) => a.position - b.position)[0]?.src,
+    'variant.title': variant?.title,
+    'variant.sku': variant?.sku,
+    'variant.price': variant ? formatDecimal(variant.price, product.currency) : undefined,
+    processing_time: product.processing_time,
+    shipping_origin: product.shipping_origin_country
+  });
+}
+
+function getSquareVariables(item: SquareCatalogItem, variationId?: string): TemplateVariables {
+  const variations = item.variations ?? [];
+  const first = variations[0]?.item_variation_data;
+  const variation = variations.find(candidate => candidate.id === variationId)?.item_variation_data ?? first;
+  const price = (money?: { amount: number | bigint; currency: string }) =>
+    money ? formatMoney(money.amount, money.currency) : undefined;
+
+  return compact({
+    'product.title': item.name,
+    'product.description': item.description_plaintext ?? item.description,
+    'product.sku': first?.sku,
+    'product.price': price(first?.price_money),
+    'variant.title': variation?.name,
+    'variant.sku': variation?.sku,
+    'variant.price': price(variation?.price_money)
+  });
+}
+
+/**
+ * Collect the placeholder values of a product
+ * @param product - Spocket product or Square catalog item
+ * @param options - Variant to use and extra values
+ * @returns Variables by name; unknown values are left out
+ */
+export function getTemplateVariables(
+  product: SpocketProduct | SquareCatalogItem,
+  options: TemplateVariableOptions = {}
+): TemplateVariables {
+  const variables = isSpocketProduct(product)
+    ? getSpocketVariables(product, options.variantId)
+    : getSquareVariables(product, options.variantId);
+  return { ...variables, ...options.extra };
+}
+
+/**
+ * Names of the placeholders used in a template
+ * @param html - Template HTML
+ * @returns Unique names in order of appearance
+ */
+export function getTemplatePlaceholders(html: string): string[] {
+  return Array.from(new Set(Array.from(html.matchAll(PLACEHOLDER_PATTERN), match => match[1])));
+}
+
+/**
+ * Fill the placeholders of a template. Values are HTML-escaped
+ * @param html - Template HTML
+ * @param variables - Values by variable name
+ * @param options - Handling of placeholders without a value
+ * @returns Rendered HTML
+ */
+export function renderTemplate(html: string, variables: TemplateVariables, options: RenderTemplateOptions = {}): string {
+  return html.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => {
+    if (Object.prototype.hasOwnProperty.call(variables, name)) return escapeHTML(variables[name]);
+    return options.missing ? options.missing(name) : placeholder;
+  });
+}
+
+/**
+ * Slash command inserting a template
+ * @param template - Template to insert
+ * @param getVariables - Values of the product being edited; without them the placeholders are inserted
+ * @returns Command for the `commands` prop or registerCommand
+ */
+export function createTemplateCommand(
+  template: DescriptionTemplate,
+  getVariables?: () => TemplateVariables | undefined
+): EditorCommand {
+  return {
+    id: `template-${template.id}`,
+    title: template.name,
+    description: 'Template',
+    keywords: ['template', 'snippet'],
+    html() {
+      const variables = getVariables?.();
+      return variables ? renderTemplate(template.html, variables) : template.html;
+    }
+  };
+}
@@ -0,0 +1,132 @@
+/**
+ * Conversion between positions in serialized editor HTML, plain text
+ * offsets and DOM carets. Text offsets count the characters of text nodes,
+ * so they mean the same thing in the HTML string and in the document.
+ */
+
+/**
+ * Length of the tag or character reference starting at an index, or 0
+ * for a plain text character
+ */
+function markupLength(html: string, index: number): number {
+  if (html[index] === '<') {
+    const tag = /^<(?:[^>"']|"[^"]*"|'[^']*')*>/.exec(html.slice(index));
+    return tag ? tag[0].length : 0;
+  }
+  if (html[index] === '&') {
+    const reference = /^&(?:#x[0-9a-f]+|#\d+|[a-z][a-z0-9]*);/i.exec(html.slice(index, index + 12));
+    // A reference stands for a single text character
+    return reference ? reference[0].length - 1 : 0;
+  }
+  return 0;
+}
+
+/**
+ * Convert a position in HTML to a text offset
+ * @param html - Serialized HTML
+ * @param index - Position in the HTML string
+ * @returns Number of text characters before the position
+ */
+export function htmlIndexToTextOffset(html: string, index: number): number {
+  let offset = 0;
+  let position = 0;
+
+  while (position < index && position < html.length) {
+    const length = markupLength(html, position);
+    if (html[position] === '<' && length) {
+      position += length;
+      continue;
+    }
+    position += length + 1;
+    offset++;
+  }
+
+  return offset;
+}
+
+/**
+ * Convert a text offset to the first matching position in HTML
+ * @param html - Serialized HTML
+ * @param offset - Number of text characters
+ * @returns Position in the HTML string
+ */
+export function textOffsetToHTMLIndex(html: string, offset: number): number {
+  let remaining = offset;
+  let position = 0;
+
+  while (remaining > 0 && position < html.length) {
+    const length = markupLength(html, position);
+    if (html[position] === '<' && length) {
+      position += length;
+      continue;
+    }
+    position += length + 1;
+    remaining--;
+  }
+
+  return position;
+}
+
+/**
+ * Text offset of the caret inside an element
+ * @param root - Editable root
+ * @returns Offset, or null when the selection is outside the element
+ */
+export function getCaretTextOffset(root: HTMLElement): number | null {
+  const selection = root.ownerDocument.getSelection();
+  const { focusNode, focusOffset } = selection ?? {};
+  if (!focusNode || !root.contains(focusNode)) return null;
+
+  const range = root.ownerDocument.createRange();
+  range.selectNodeContents(root);
+  range.setEnd(focusNode, focusOffset ?? 0);
+
+  return range.toString().length;
+}
+
+/**
+ * Collapsed range at a text offset inside an element
+ * @param root - Editable root
+ * @param offset - Number of text characters before the range
+ * @returns Range, clamped to the end of the content
+ */
+export function createRangeAtTextOffset(root: HTMLElement, offset: number): Range {
+  const document = root.ownerDocument;
+  const range = document.createRange();
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  let remaining = offset;
+  let last: Text | null = null;
+
+  while (walker.nextNode()) {
+    const node = walker.currentNode as Text;
+    if (remaining <= node.length) {
+      range.setStart(node, remaining);
+      range.collapse(true);
+      return range;
+    }
+    remaining -= node.length;
+    last = node;
+  }
+
+  if (last) {
+    range.setStart(last, last.length);
+  } else {
+    range.setStart(root, 0);
+  }
+  range.collapse(true);
+  return range;
+}
+
+/**
+ * Range between two text offsets inside an element
+ * @param root - Editable root
+ * @param start - Text offset of the first character
+ * @param end - Text offset after the last character
+ * @returns Range, clamped to the end of the content
+ */
+export function createTextRange(root: HTMLElement, start: number, end: number): Range {
+  const range = createRangeAtTextOffset(root, start);
+  const endRange = createRangeAtTextOffset(root, end);
+  range.setEnd(endRange.startContainer, endRange.startOffset);
+  return range;
+}
@@ -0,0 +1,181 @@
+/**
+ * Design tokens of the editor, applied as CSS variables on each editor so
+ * editors on the same page can use different themes
+ */
+import type { CSSProperties } from 'react';
+
+/**
+ * 'auto' follows the `prefers-color-scheme` media query
+ */
+export type EditorColorScheme = 'light' | 'dark' | 'auto';
+
+export interface EditorThemeTokens {
+  /**
+   * Background of the editable area, popups and dialogs
+   */
+  background?: string;
+  text?: string;
+  /**
+   * Background of the toolbar and status bar
+   */
+  panel?: string;
+  border?: string;
+  /**
+   * Toolbar icons
+   */
+  icon?: string;
+  /**
+   * Background of hovered toolbar buttons
+   */
+  hover?: string;
+  /**
+   * Focused inputs, active tabs and selected cells
+   */
+  accent?: string;
+  /**
+   * Background of selected table cells and list entries
+   */
+  selection?: string;
+  placeholder?: string;
+  error?: string;
+  radius?: string;
+  /**
+   * Base padding, e.g. `8px`
+   */
+  spacing?: string;
+  fontFamily?: string;
+  fontSize?: string;
+}
+
+export interface EditorTheme {
+  /**
+   * Defaults to 'auto'
+   */
+  colorScheme?: EditorColorScheme;
+  /**
+   * Tokens of both color schemes, e.g. radius and fonts
+   */
+  tokens?: EditorThemeTokens;
+  /**
+   * Tokens of the light color scheme only
+   */
+  light?: EditorThemeTokens;
+  /**
+   * Tokens of the dark color scheme only
+   */
+  dark?: EditorThemeTokens;
+}
+
+/**
+ * CSS custom properties by name, e.g. `{ '--jd-color-text': '#222' }`
+ */
+export type ThemeStyle = Record<string, string>;
+
+/**
+ * Jodit's CSS variables each token sets. The `--jd-dark-*` variables are
+ * the ones Jodit's dark theme reads
+ */
+const TOKEN_VARIABLES: Record<keyof EditorThemeTokens, string[]> = {
+  background: ['--jd-color-background-default', '--jd-dark-background-color'],
+  text: ['--jd-color-text', '--jd-color-default', '--jd-dark-text-color'],
+  panel: ['--jd-color-panel', '--jd-color-background-light-gray', '--jd-dark-background-ligher'],
+  border: ['--jd-color-border', '--jd-color-separator', '--jd-dark-border-color'],
+  icon: ['--jd-color-icon', '--jd-color-text-icons', '--jd-dark-icon-color'],
+  hover: ['--jd-color-background-button-hover', '--jd-color-button-background-hover'],
+  accent: ['--jd-color-border-selected', '--jd-color-background-active'],
+  selection: ['--jd-color-background-selection'],
+  placeholder: ['--jd-color-placeholder', '--jd-color-label'],
+  error: ['--jd-color-error'],
+  radius: ['--jd-border-radius-default'],
+  spacing: ['--jd-padding-default'],
+  fontFamily: ['--jd-font-default'],
+  fontSize: ['--jd-font-size-default']
+};
+
+/**
+ * Jodit's own light look
+ */
+export const LIGHT_THEME_TOKENS: Required<Pick<EditorThemeTokens,
+  'background' | 'text' | 'panel' | 'border' | 'icon' | 'hover' | 'accent' | 'selection' | 'placeholder' | 'error'>> = {
+  background: '#ffffff',
+  text: '#222222',
+  panel: '#f9f9f9',
+  border: '#dadada',
+  icon: '#4c4c4c',
+  hover: '#dcdcdc',
+  accent: '#1e88e5',
+  selection: '#b5d6fd',
+  placeholder: '#a5a5a5',
+  error: '#ff3b3b'
+};
+
+export const DARK_THEME_TOKENS: typeof LIGHT_THEME_TOKENS = {
+  background: '#1f1f1f',
+  text: '#e6e6e6',
+  panel: '#2a2a2a',
+  border: '#444444',
+  icon: '#c8c8c8',
+  hover: '#3a3a3a',
+  accent: '#64b5f6',
+  selection: '#264f78',
+  placeholder: '#8a8a8a',
+  error: '#ff6b6b'
+};
+
+/**
+ * Color scheme a theme asks for, before 'auto' is resolved
+ * @param theme - `theme` prop
+ */
+export function getThemeColorScheme(theme: EditorColorScheme | EditorTheme): EditorColorScheme {
+  return typeof theme === 'string' ? theme : theme.colorScheme ?? 'auto';
+}
+
+/**
+ * Tokens of a theme in a color scheme, over the built-in tokens of that scheme
+ * @param theme - `theme` prop
+ * @param scheme - Resolved color scheme
+ */
+export function resolveThemeTokens(theme: EditorColorScheme | EditorTheme, scheme: 'light' | 'dark'): EditorThemeTokens {
+  const base = scheme === 'dark' ? DARK_THEME_TOKENS : LIGHT_THEME_TOKENS;
+  if (typeof theme === 'string') return { ...base };
+  return { ...base, ...theme.tokens, ...theme[scheme] };
+}
+
+/**
+ * CSS variables setting the tokens of a theme
+ * @param tokens - Resolved tokens
+ * @param scheme - Resolved color scheme, for native controls and scrollbars
+ */
+export function getThemeStyle(tokens: EditorThemeTokens, scheme: 'light' | 'dark'): ThemeStyle {
+  const style: ThemeStyle = { 'color-scheme': scheme };
+  (Object.keys(TOKEN_VARIABLES) as Array<keyof EditorThemeTokens>).forEach(token => {
+    const value = tokens[token];
+    if (value) TOKEN_VARIABLES[token].forEach(variable => { style[variable] = value; });
+  });
+  return style;
+}
+
+/**
+ * Theme variables as a React style prop, for markup React renders such as
+ * the static preview
+ * @param style - Variables from getThemeStyle, or null for no theme
+ */
+export function getThemeStyleProps(style: ThemeStyle | null): CSSProperties {
+  if (!style) return {};
+  const { 'color-scheme': colorScheme, ...variables } = style;
+  return { ...variables, colorScheme };
+}
+
+/**
+ * Set theme variables on an element. Variables set by an earlier call
+ * and missing now are removed
+ * @param element - Jodit container, toolbar or popup
+ * @param style - Variables from getThemeStyle, or null for no theme
+ * @param previous - Variables of the earlier call
+ */
+export function applyThemeStyle(element: HTMLElement, style: ThemeStyle | null, previous: ThemeStyle | null = null): void {
+  Object.keys(previous ?? {}).forEach(name => {
+    if (!style || !(name in style)) element.style.removeProperty(name);
+  });
+  Object.entries(style ?? {}).forEach(([name, value]) => element.style.setProperty(name, value));
+}
@@ -0,0 +1,146 @@
+/**
+ * Tracks uploads started from a JoditEditor and keeps their document
+ * placeholders in sync. Placeholders are looked up by id in the current
+ * instance, so uploads survive editor rebuilds.
+ */
+import type { Jodit } from 'jodit';
+import {
+  createUploadedElement,
+  createUploadPlaceholder,
+  DEFAULT_UPLOAD_ACCEPT,
+  isAbortError,
+  isAcceptedFile,
+  UPLOAD_PLACEHOLDER_ATTRIBUTE,
+  UploadAdapter,
+  UploadMessages,
+  UploadOptions,
+  updateUploadPlaceholder,
+  uploadWithRetry
+} from './upload';
+
+export interface UploadControllerOptions {
+  getEditor: () => Jodit | null;
+  getAdapter: () => UploadAdapter | undefined;
+  getOptions: () => UploadOptions;
+  /**
+   * Texts of the placeholders
+   */
+  getMessages: () => UploadMessages;
+  /**
+   * Called after a placeholder was replaced by the uploaded file
+   */
+  onComplete: (editor: Jodit, element: HTMLElement) => void;
+  /**
+   * Called when an upload failed after all retries
+   */
+  onError: (error: Error, file: File) => void;
+}
+
+export interface UploadController {
+  /**
+   * Files the adapter should handle; empty without an adapter
+   */
+  filter(files: ArrayLike<File> | null | undefined): File[];
+  /**
+   * Insert a placeholder per file at the cursor and start uploading
+   */
+  upload(editor: Jodit, files: File[]): void;
+  /**
+   * Abort uploads whose placeholder was deleted from the document
+   */
+  prune(editor: Jodit): void;
+  abortAll(): void;
+  readonly pending: number;
+}
+
+interface PendingUpload {
+  file: File;
+  controller: AbortController;
+  attempt: number;
+}
+
+/**
+ * Create an upload controller
+ * @param options - Accessors for the editor, adapter and callbacks
+ * @returns Upload controller
+ */
+export function createUploadController(options: UploadControllerOptions): UploadController {
+  const uploads = new Map<string, PendingUpload>();
+  let counter = 0;
+
+  const findPlaceholder = (editor: Jodit | null, id: string) =>
+    editor?.editor.querySelector<HTMLElement>(`[${UPLOAD_PLACEHOLDER_ATTRIBUTE}="${id}"]`) ?? null;
+
+  const start = (editor: Jodit, adapter: UploadAdapter, file: File) => {
+    const id = `upload-${++counter}`;
+    const pending: PendingUpload = { file, controller: new AbortController(), attempt: 1 };
+    uploads.set(id, pending);
+
+    editor.s.insertNode(createUploadPlaceholder(editor.editor.ownerDocument, id, file, options.getMessages()));
+
+    const { retries, retryDelayMs } = options.getOptions();
+    const showProgress = (progress: number) => {
+      const placeholder = findPlaceholder(options.getEditor(), id);
+      if (placeholder) updateUploadPlaceholder(placeholder, file, progress, pending.attempt, options.getMessages());
+    };
+
+    uploadWithRetry(adapter, file, {
+      retries,
+      retryDelayMs,
+      signal: pending.controller.signal,
+      onProgress: showProgress,
+      onRetry: attempt => {
+        pending.attempt = attempt;
+        showProgress(0);
+      }
+    }).then(
+      url => {
+        uploads.delete(id);
+        const current = options.getEditor();
+        const placeholder = findPlaceholder(current, id);
+        if (!current || !placeholder) return;
+
+        const element = createUploadedElement(placeholder.ownerDocument, file, url);
+        placeholder.replaceWith(element);
+        options.onComplete(current, element);
+      },
+      (error: unknown) => {
+        uploads.delete(id);
+        const current = options.getEditor();
+        const placeholder = findPlaceholder(current, id);
+        if (current && placeholder) {
+          placeholder.remove();
+          current.synchronizeValues();
+        }
+
+        if (!isAbortError(error)) {
+          options.onError(error instanceof Error ? error : new Error(String(error)), file);
+        }
+      }
+    );
+  };
+
+  return {
+    filter(files) {
+      if (!files || !options.getAdapter()) return [];
+      const { accept = DEFAULT_UPLOAD_ACCEPT } = options.getOptions();
+      return Array.from(files).filter(file => isAcceptedFile(file, accept));
+    },
+    upload(editor, files) {
+      const adapter = options.getAdapter();
+      if (!adapter) return;
+      files.forEach(file => start(editor, adapter, file));
+    },
+    prune(editor) {
+      uploads.forEach(({ controller }, id) => {
+        if (!findPlaceholder(editor, id)) controller.abort();
+      });
+    },
+    abortAll() {
+      uploads.forEach(({ controller }) => controller.abort());
+    },
+    get pending() {
+      return uploads.size;
+    }
+  };
+}
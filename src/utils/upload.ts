@@ -0,0 +1,306 @@
+/**
+ * File uploads through a user supplied adapter, with retries and
+ * in-document progress placeholders
+ */
+
+export interface UploadContext {
+  /**
+   * Report upload progress as a fraction between 0 and 1
+   */
+  onProgress(progress: number): void;
+  /**
+   * Aborted when the placeholder is deleted or the editor unmounts
+   */
+  signal: AbortSignal;
+  /**
+   * Number of the current try, starting at 1
+   */
+  attempt: number;
+}
+
+/**
+ * Upload a file and resolve with the URL it can be served from
+ */
+export type UploadAdapter = (file: File, context: UploadContext) => Promise<string>;
+
+export interface UploadOptions {
+  /**
+   * Retries after a failed upload. Defaults to 2
+   */
+  retries?: number;
+  /**
+   * Delay before the first retry, doubled for every further one. Defaults to 1000
+   */
+  retryDelayMs?: number;
+  /**
+   * MIME types handled by the adapter, with wildcards such as 'image/*'.
+   * Defaults to images only
+   */
+  accept?: string[];
+}
+
+export const DEFAULT_UPLOAD_RETRIES = 2;
+
+export const DEFAULT_UPLOAD_RETRY_DELAY_MS = 1000;
+
+export const DEFAULT_UPLOAD_ACCEPT = ['image/*'];
+
+/**
+ * Marks placeholder elements; they are never part of emitted content
+ */
+export const UPLOAD_PLACEHOLDER_ATTRIBUTE = 'data-jodit-react-upload';
+
+/**
+ * Check a file against a list of accepted MIME types
+ * @param file - File to check
+ * @param accept - MIME types, with optional wildcards
+ * @returns True when the file matches
+ */
+export function isAcceptedFile(file: File, accept: string[] = DEFAULT_UPLOAD_ACCEPT): boolean {
+  const type = file.type.toLowerCase();
+  return accept.some(pattern => {
+    const normalized = pattern.toLowerCase();
+    return normalized.endsWith('/*')
+      ? type.startsWith(normalized.slice(0, -1))
+      : type === normalized;
+  });
+}
+
+function createAbortError(): Error {
+  return new DOMException('Upload aborted', 'AbortError');
+}
+
+/**
+ * Check whether an upload failed because it was aborted
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+interface UploadWithRetryOptions extends Pick<UploadOptions, 'retries' | 'retryDelayMs'> {
+  signal: AbortSignal;
+  onProgress?: (progress: number) => void;
+  /**
+   * Called before each retry with the number of the upcoming try
+   */
+  onRetry?: (attempt: number, error: unknown) => void;
+}
+
+/**
+ * Run an upload adapter, retrying failures with exponential backoff
+ * @param adapter - Upload adapter
+ * @param file - File to upload
+ * @param options - Retry policy, abort signal and progress callbacks
+ * @returns URL of the uploaded file
+ */
+export async function uploadWithRetry(
+  adapter: UploadAdapter,
+  file: File,
+  {
+    retries = DEFAULT_UPLOAD_RETRIES,
+    retryDelayMs = DEFAULT_UPLOAD_RETRY_DELAY_MS,
+    signal,
+    onProgress,
+    onRetry
+  }: UploadWithRetryOptions
+): Promise<string> {
+  for (let attempt = 1; ; attempt++) {
+    if (signal.aborted) throw createAbortError();
+
+    try {
+      const url = await adapter(file, {
+        onProgress: progress => onProgress?.(Math.min(1, Math.max(0, progress))),
+        signal,
+        attempt
+      });
+      if (signal.aborted) throw createAbortError();
+      return url;
+    } catch (error) {
+      if (signal.aborted || isAbortError(error) || attempt > retries) throw error;
+
+      onRetry?.(attempt + 1, error);
+      await wait(retryDelayMs * 2 ** (attempt - 1), signal);
+    }
+  }
+}
+
+export interface XHRUploadAdapterOptions {
+  url: string;
+  /**
+   * Form field holding the file. Defaults to 'file'
+   */
+  fieldName?: string;
+  /**
+   * Extra form fields sent with the file
+   */
+  data?: Record<string, string>;
+  headers?: Record<string, string>;
+  withCredentials?: boolean;
+  /**
+   * Extract the file URL from the parsed JSON response. Defaults to `response.url`
+   */
+  getUrl?: (response: unknown) => string;
+}
+
+/**
+ * Create an adapter posting files as multipart form data. XMLHttpRequest
+ * is used because fetch cannot report upload progress.
+ * @param options - Endpoint and request options
+ * @returns Upload adapter
+ */
+export function createXHRUploadAdapter({
+  url,
+  fieldName = 'file',
+  data = {},
+  headers = {},
+  withCredentials = false,
+  getUrl = response => (response as { url: string }).url
+}: XHRUploadAdapterOptions): UploadAdapter {
+  return (file, { onProgress, signal }) =>
+    new Promise((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      const form = new FormData();
+      Object.entries(data).forEach(([key, value]) => form.append(key, value));
+      form.append(fieldName, file, file.name);
+
+      xhr.open('POST', url);
+      xhr.withCredentials = withCredentials;
+      xhr.responseType = 'json';
+      Object.entries(headers).forEach(([key, value]) => xhr.setRequestHeader(key, value));
+
+      xhr.upload.onprogress = event => {
+        if (event.lengthComputable) onProgress(event.loaded / event.total);
+      };
+      xhr.onload = () => {
+        if (xhr.status < 200 || xhr.status >= 300) {
+          reject(new Error(`Upload failed with status ${xhr.status}`));
+          return;
+        }
+        try {
+          resolve(getUrl(xhr.response));
+        } catch (error) {
+          reject(error);
+        }
+      };
+      xhr.onerror = () => reject(new Error('Upload failed: network error'));
+      xhr.onabort = () => reject(createAbortError());
+
+      signal.addEventListener('abort', () => xhr.abort(), { once: true });
+      xhr.send(form);
+    });
+}
+
+export interface UploadMessages {
+  /**
+   * Name of the placeholder's progress bar
+   */
+  uploading: (fileName: string) => string;
+  progress: (fileName: string, percent: number) => string;
+  retrying: (fileName: string, attempt: number, percent: number) => string;
+}
+
+export const UPLOAD_MESSAGES: UploadMessages = {
+  uploading: fileName => `Uploading ${fileName}`,
+  progress: (fileName, percent) => `Uploading ${fileName}… ${percent}%`,
+  retrying: (fileName, attempt, percent) => `Retrying ${fileName} (attempt ${attempt})… ${percent}%`
+};
+
+/**
+ * Create the element shown in the document while a file uploads
+ * @param document - Document of the editor
+ * @param id - Upload id
+ * @param file - File being uploaded
+ * @param messages - Texts of the placeholder, defaults to English
+ * @returns Placeholder element
+ */
+export function createUploadPlaceholder(
+  document: Document,
+  id: string,
+  file: File,
+  messages = UPLOAD_MESSAGES
+): HTMLElement {
+  const placeholder = document.createElement('span');
+  placeholder.setAttribute(UPLOAD_PLACEHOLDER_ATTRIBUTE, id);
+  placeholder.className = 'jodit-react-upload';
+  placeholder.contentEditable = 'false';
+  placeholder.setAttribute('role', 'progressbar');
+  placeholder.setAttribute('aria-valuemin', '0');
+  placeholder.setAttribute('aria-valuemax', '100');
+  placeholder.setAttribute('aria-label', messages.uploading(file.name));
+  updateUploadPlaceholder(placeholder, file, 0, 1, messages);
+
+  return placeholder;
+}
+
+/**
+ * Show progress or retry state on a placeholder
+ * @param placeholder - Placeholder element
+ * @param file - File being uploaded
+ * @param progress - Fraction uploaded
+ * @param attempt - Current try, shown once it is a retry
+ * @param messages - Texts of the placeholder, defaults to English
+ */
+export function updateUploadPlaceholder(
+  placeholder: HTMLElement,
+  file: File,
+  progress: number,
+  attempt = 1,
+  messages = UPLOAD_MESSAGES
+): void {
+  const percent = Math.round(progress * 100);
+  placeholder.setAttribute('aria-valuenow', String(percent));
+  placeholder.textContent = attempt > 1
+    ? messages.retrying(file.name, attempt, percent)
+    : messages.progress(file.name, percent);
+}
+
+/**
+ * Create the element replacing a placeholder once the upload completes:
+ * an image for image files, a link otherwise
+ * @param document - Document of the editor
+ * @param file - Uploaded file
+ * @param url - URL returned by the adapter
+ * @returns Element to insert
+ */
+export function createUploadedElement(document: Document, file: File, url: string): HTMLElement {
+  if (file.type.startsWith('image/')) {
+    const image = document.createElement('img');
+    image.src = url;
+    image.alt = file.name.replace(/\.[^.]+$/, '');
+    return image;
+  }
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.textContent = file.name;
+  return link;
+}
+
+/**
+ * Remove upload placeholders from serialized editor content
+ * @param html - Editor HTML
+ * @returns HTML without placeholders
+ */
+export function stripUploadPlaceholders(html: string): string {
+  if (!html.includes(UPLOAD_PLACEHOLDER_ATTRIBUTE)) return html;
+
+  const template = document.createElement('template');
+  template.innerHTML = html;
+  template.content.querySelectorAll(`[${UPLOAD_PLACEHOLDER_ATTRIBUTE}]`).forEach(node => node.remove());
+
+  return template.innerHTML;
+}